@@ -5,7 +5,10 @@ import { Switch } from '~/components/ui/Switch';
 import { useSettings } from '~/lib/hooks/useSettings';
 import { classNames } from '~/utils/classNames';
 import { toast } from 'react-toastify';
+import { useStore } from '@nanostores/react';
 import { PromptLibrary } from '~/lib/common/prompt-library';
+import { customPromptsStore } from '~/lib/stores/customPrompts';
+import type { ContextSelectionMode } from '~/types/context';
 
 interface FeatureToggle {
   id: string;
@@ -114,10 +117,18 @@ export default function FeaturesTab() {
     setAutoSelectTemplate,
     enableLatestBranch,
     enableContextOptimization,
+    toolCallingEnabled,
+    enableToolCalling,
     setEventLogs,
     setPromptId,
     promptId,
+    contextSelection,
+    setContextSelection,
+    contextEmbeddingModel,
+    setContextEmbeddingModel,
   } = useSettings();
+  const [embeddingModel, setEmbeddingModel] = React.useState(contextEmbeddingModel);
+  const customPrompts = useStore(customPromptsStore);
 
   // Enable features by default on first load
   React.useEffect(() => {
@@ -164,6 +175,12 @@ export default function FeaturesTab() {
           break;
         }
 
+        case 'toolCalling': {
+          enableToolCalling(enabled);
+          toast.success(`Native tool calling ${enabled ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
         case 'eventLogs': {
           setEventLogs(enabled);
           toast.success(`Event logging ${enabled ? 'enabled' : 'disabled'}`);
@@ -174,7 +191,7 @@ export default function FeaturesTab() {
           break;
       }
     },
-    [enableLatestBranch, setAutoSelectTemplate, enableContextOptimization, setEventLogs],
+    [enableLatestBranch, setAutoSelectTemplate, enableContextOptimization, enableToolCalling, setEventLogs],
   );
 
   const features = {
@@ -212,7 +229,17 @@ export default function FeaturesTab() {
         tooltip: 'Enabled by default to record detailed logs of system events and user actions',
       },
     ],
-    beta: [],
+    beta: [
+      {
+        id: 'toolCalling',
+        title: 'Native Tool Calling',
+        description: 'Let the model write files and run commands through function calls instead of artifact tags',
+        icon: 'i-ph:wrench',
+        enabled: toolCallingEnabled,
+        beta: true,
+        tooltip: 'Only for models that support function calling. More reliable than artifact tags for weaker models',
+      },
+    ],
   };
 
   return (
@@ -282,7 +309,7 @@ export default function FeaturesTab() {
               'transition-all duration-200',
             )}
           >
-            {PromptLibrary.getList().map((x) => (
+            {PromptLibrary.getList(customPrompts).map((x) => (
               <option key={x.id} value={x.id}>
                 {x.label}
               </option>
@@ -290,6 +317,84 @@ export default function FeaturesTab() {
           </select>
         </div>
       </motion.div>
+
+      <motion.div
+        layout
+        className={classNames(
+          'bg-bolt-elements-background-depth-2',
+          'hover:bg-bolt-elements-background-depth-3',
+          'transition-all duration-200',
+          'rounded-lg p-4',
+          'group',
+        )}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.35 }}
+      >
+        <div className="flex items-center gap-4">
+          <div
+            className={classNames(
+              'p-2 rounded-lg text-xl',
+              'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+              'transition-colors duration-200',
+              'text-purple-500',
+            )}
+          >
+            <div className="i-ph:magnifying-glass" />
+          </div>
+          <div className="flex-1">
+            <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+              Context Selection
+            </h4>
+            <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+              How Context Optimization picks the files for the model. The local index needs no extra model call
+            </p>
+          </div>
+          <select
+            value={contextSelection}
+            onChange={(e) => {
+              setContextSelection(e.target.value as ContextSelectionMode);
+              toast.success('Context selection updated');
+            }}
+            className={classNames(
+              'p-2 rounded-lg text-sm min-w-[200px]',
+              'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+              'text-bolt-elements-textPrimary',
+              'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+              'group-hover:border-purple-500/30',
+              'transition-all duration-200',
+            )}
+          >
+            <option value="llm">Model call</option>
+            <option value="local">Local index (BM25)</option>
+          </select>
+        </div>
+        {contextSelection === 'local' && (
+          <div className="flex items-center gap-4 mt-4 pl-14">
+            <p className="flex-1 text-xs text-bolt-elements-textSecondary">
+              Ollama embedding model to rerank the matches, e.g. nomic-embed-text. Leave empty for BM25 only
+            </p>
+            <input
+              value={embeddingModel}
+              onChange={(e) => setEmbeddingModel(e.target.value)}
+              onBlur={() => {
+                if (embeddingModel.trim() !== contextEmbeddingModel) {
+                  setContextEmbeddingModel(embeddingModel.trim());
+                  toast.success('Embedding model updated');
+                }
+              }}
+              placeholder="nomic-embed-text"
+              className={classNames(
+                'p-2 rounded-lg text-sm min-w-[200px]',
+                'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+                'text-bolt-elements-textPrimary',
+                'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+                'transition-all duration-200',
+              )}
+            />
+          </div>
+        )}
+      </motion.div>
     </div>
   );
 }
@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import { classNames } from '~/utils/classNames';
+import { commandPolicyStore, resetCommandPolicy, updateCommandPolicy } from '~/lib/stores/commandPolicy';
+import type { CommandDecision } from '~/lib/runtime/command-policy';
+import { useTranslation } from '~/lib/i18n/useTranslation';
+
+const inputClassName = classNames(
+  'w-full px-3 py-2 rounded-lg text-sm',
+  'bg-[#FAFAFA] dark:bg-[#0A0A0A]',
+  'border border-[#E5E5E5] dark:border-[#1A1A1A]',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+const toPatterns = (value: string) =>
+  value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+export default function CommandPolicySettings() {
+  const { t } = useTranslation();
+  const policy = useStore(commandPolicyStore);
+  const [allowPatterns, setAllowPatterns] = useState(policy.allowPatterns.join('\n'));
+  const [denyPatterns, setDenyPatterns] = useState(policy.denyPatterns.join('\n'));
+
+  useEffect(() => {
+    setAllowPatterns(policy.allowPatterns.join('\n'));
+    setDenyPatterns(policy.denyPatterns.join('\n'));
+  }, [policy]);
+
+  const savePatterns = () => {
+    const updated = { allowPatterns: toPatterns(allowPatterns), denyPatterns: toPatterns(denyPatterns) };
+
+    if (
+      updated.allowPatterns.join('\n') === policy.allowPatterns.join('\n') &&
+      updated.denyPatterns.join('\n') === policy.denyPatterns.join('\n')
+    ) {
+      return;
+    }
+
+    updateCommandPolicy(updated);
+    toast.success(t('settings.updated'));
+  };
+
+  return (
+    <motion.div
+      className="bg-white dark:bg-[#0A0A0A] rounded-lg shadow-sm dark:shadow-none p-4 space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.3 }}
+    >
+      <div className="flex items-center gap-2 mb-4">
+        <div className="i-ph:shield-check-fill w-4 h-4 text-purple-500" />
+        <span className="text-sm font-medium text-bolt-elements-textPrimary">{t('commandPolicy.title')}</span>
+        <button
+          className="ml-auto text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary bg-transparent"
+          onClick={() => {
+            resetCommandPolicy();
+            toast.success(t('settings.updated'));
+          }}
+        >
+          {t('settings.reset')}
+        </button>
+      </div>
+      <p className="text-xs text-bolt-elements-textSecondary">{t('commandPolicy.description')}</p>
+
+      <div>
+        <label className="block text-sm text-bolt-elements-textSecondary mb-2">
+          {t('commandPolicy.dangerousCommands')}
+        </label>
+        <select
+          value={policy.dangerousCommands}
+          onChange={(e) => {
+            updateCommandPolicy({ dangerousCommands: e.target.value as CommandDecision });
+            toast.success(t('settings.updated'));
+          }}
+          className={inputClassName}
+        >
+          <option value="confirm">{t('commandPolicy.confirm')}</option>
+          <option value="block">{t('commandPolicy.block')}</option>
+          <option value="allow">{t('commandPolicy.allow')}</option>
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm text-bolt-elements-textSecondary mb-2">{t('commandPolicy.denyPatterns')}</label>
+        <textarea
+          value={denyPatterns}
+          onChange={(e) => setDenyPatterns(e.target.value)}
+          onBlur={savePatterns}
+          placeholder={'git push *\n/rm\\s+-rf/'}
+          rows={3}
+          className={classNames(inputClassName, 'font-mono resize-y')}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm text-bolt-elements-textSecondary mb-2">
+          {t('commandPolicy.allowPatterns')}
+        </label>
+        <textarea
+          value={allowPatterns}
+          onChange={(e) => setAllowPatterns(e.target.value)}
+          onBlur={savePatterns}
+          placeholder={'npm run *\nrm -rf node_modules'}
+          rows={3}
+          className={classNames(inputClassName, 'font-mono resize-y')}
+        />
+        <p className="text-xs text-bolt-elements-textTertiary mt-1">{t('commandPolicy.patternsHint')}</p>
+      </div>
+    </motion.div>
+  );
+}
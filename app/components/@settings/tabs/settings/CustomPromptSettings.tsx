@@ -0,0 +1,177 @@
+import { useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import { classNames } from '~/utils/classNames';
+import { customPromptsStore, deleteCustomPrompt, saveCustomPrompt } from '~/lib/stores/customPrompts';
+import { supabaseConnection } from '~/lib/stores/supabase';
+import { PROMPT_VARIABLES, renderPromptTemplate } from '~/lib/common/custom-prompts';
+import type { PromptOptions } from '~/lib/common/prompt-library';
+import { MODIFICATIONS_TAG_NAME, WORK_DIR } from '~/utils/constants';
+import { allowedHTMLElements } from '~/utils/markdown';
+import { defaultDesignScheme } from '~/types/design-scheme';
+import { useTranslation } from '~/lib/i18n/useTranslation';
+
+const inputClassName = classNames(
+  'w-full px-3 py-2 rounded-lg text-sm',
+  'bg-[#FAFAFA] dark:bg-[#0A0A0A]',
+  'border border-[#E5E5E5] dark:border-[#1A1A1A]',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+const emptyDraft = { id: '', label: '', description: '', template: '' };
+
+export default function CustomPromptSettings() {
+  const { t } = useTranslation();
+  const prompts = useStore(customPromptsStore);
+  const supabase = useStore(supabaseConnection);
+  const [draft, setDraft] = useState(emptyDraft);
+  const templateRef = useRef<HTMLTextAreaElement>(null);
+  const selected = prompts.find((p) => p.id === draft.id);
+
+  // the preview is rendered with the settings of this browser, the chat renders it with those of the request
+  const previewOptions: PromptOptions = useMemo(
+    () => ({
+      cwd: WORK_DIR,
+      allowedHtmlElements: allowedHTMLElements,
+      modificationTagName: MODIFICATIONS_TAG_NAME,
+      designScheme: defaultDesignScheme,
+      supabase: {
+        isConnected: !!supabase.isConnected,
+        hasSelectedProject: !!supabase.selectedProjectId,
+        credentials: supabase.credentials,
+      },
+    }),
+    [supabase],
+  );
+  const preview = useMemo(() => renderPromptTemplate(draft.template, previewOptions), [draft.template, previewOptions]);
+
+  const insertVariable = (name: string) => {
+    const textarea = templateRef.current;
+    const placeholder = `{{${name}}}`;
+    const start = textarea?.selectionStart ?? draft.template.length;
+    const end = textarea?.selectionEnd ?? draft.template.length;
+
+    setDraft({ ...draft, template: draft.template.slice(0, start) + placeholder + draft.template.slice(end) });
+  };
+
+  const save = () => {
+    if (!draft.label.trim() || !draft.template.trim()) {
+      toast.error(t('customPrompts.invalid'));
+      return;
+    }
+
+    const saved = saveCustomPrompt({
+      id: draft.id || undefined,
+      label: draft.label.trim(),
+      description: draft.description.trim(),
+      template: draft.template,
+    });
+    setDraft({ ...draft, id: saved.id });
+    toast.success(t('settings.updated'));
+  };
+
+  return (
+    <motion.div
+      className="bg-white dark:bg-[#0A0A0A] rounded-lg shadow-sm dark:shadow-none p-4 space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.3 }}
+    >
+      <div className="flex items-center gap-2 mb-4">
+        <div className="i-ph:note-pencil-fill w-4 h-4 text-purple-500" />
+        <span className="text-sm font-medium text-bolt-elements-textPrimary">{t('customPrompts.title')}</span>
+      </div>
+      <p className="text-xs text-bolt-elements-textSecondary">{t('customPrompts.description')}</p>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <select
+            value={draft.id}
+            onChange={(e) => {
+              const prompt = prompts.find((p) => p.id === e.target.value);
+              setDraft(prompt ? { ...prompt } : emptyDraft);
+            }}
+            className={inputClassName}
+          >
+            <option value="">{t('customPrompts.new')}</option>
+            {prompts.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+          {selected && (
+            <span className="shrink-0 text-xs text-bolt-elements-textSecondary">
+              {t('customPrompts.version')} {selected.version}, {new Date(selected.updatedAt).toLocaleDateString()}
+            </span>
+          )}
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            value={draft.label}
+            onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+            placeholder={t('customPrompts.label')}
+            className={inputClassName}
+          />
+          <input
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            placeholder={t('customPrompts.promptDescription')}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <span className="text-xs text-bolt-elements-textSecondary">{t('customPrompts.variables')}</span>
+          <div className="flex flex-wrap gap-1 mt-1">
+            {PROMPT_VARIABLES.map((variable) => (
+              <button
+                key={variable.name}
+                title={variable.description}
+                onClick={() => insertVariable(variable.name)}
+                className="px-2 py-0.5 rounded text-xs font-mono bg-bolt-elements-background-depth-3 text-bolt-elements-textPrimary hover:text-purple-500"
+              >
+                {`{{${variable.name}}}`}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <textarea
+            ref={templateRef}
+            value={draft.template}
+            onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+            placeholder={t('customPrompts.template')}
+            rows={14}
+            className={classNames(inputClassName, 'font-mono text-xs resize-y')}
+          />
+          <div className="flex flex-col">
+            <span className="text-xs text-bolt-elements-textSecondary mb-1">{t('customPrompts.preview')}</span>
+            <pre className="flex-1 max-h-80 overflow-auto whitespace-pre-wrap text-xs p-2 rounded-lg bg-bolt-elements-background-depth-2 text-bolt-elements-textPrimary">
+              {preview}
+            </pre>
+          </div>
+        </div>
+        <div className="flex justify-end gap-3">
+          {selected && (
+            <button
+              className="text-xs text-bolt-elements-textSecondary hover:text-red-500 bg-transparent"
+              onClick={() => {
+                deleteCustomPrompt(selected.id);
+                setDraft(emptyDraft);
+                toast.success(t('settings.updated'));
+              }}
+            >
+              {t('customPrompts.delete')}
+            </button>
+          )}
+          <button className="text-xs text-purple-500 hover:text-purple-600 bg-transparent" onClick={save}>
+            {t('customPrompts.save')}
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import { classNames } from '~/utils/classNames';
+import { fallbackChainStore, resetFallbackChain, setFallbackChain } from '~/lib/stores/fallbackChain';
+import { useSettings } from '~/lib/hooks/useSettings';
+import { useTranslation } from '~/lib/i18n/useTranslation';
+
+const inputClassName = classNames(
+  'w-full px-3 py-2 rounded-lg text-sm',
+  'bg-[#FAFAFA] dark:bg-[#0A0A0A]',
+  'border border-[#E5E5E5] dark:border-[#1A1A1A]',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+export default function FallbackChainSettings() {
+  const { t } = useTranslation();
+  const { activeProviders } = useSettings();
+  const chain = useStore(fallbackChainStore);
+  const [providerName, setProviderName] = useState('');
+  const [model, setModel] = useState('');
+
+  const provider = activeProviders.find((p) => p.name === providerName);
+
+  const addModel = () => {
+    if (!provider || !model.trim()) {
+      return;
+    }
+
+    setFallbackChain([...chain, { provider: provider.name, model: model.trim() }]);
+    setModel('');
+    toast.success(t('settings.updated'));
+  };
+
+  const moveModel = (index: number, offset: number) => {
+    const updated = [...chain];
+    [updated[index], updated[index + offset]] = [updated[index + offset], updated[index]];
+    setFallbackChain(updated);
+  };
+
+  return (
+    <motion.div
+      className="bg-white dark:bg-[#0A0A0A] rounded-lg shadow-sm dark:shadow-none p-4 space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.3 }}
+    >
+      <div className="flex items-center gap-2 mb-4">
+        <div className="i-ph:arrows-left-right-fill w-4 h-4 text-purple-500" />
+        <span className="text-sm font-medium text-bolt-elements-textPrimary">{t('fallbackChain.title')}</span>
+        <button
+          className="ml-auto text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary bg-transparent"
+          onClick={() => {
+            resetFallbackChain();
+            toast.success(t('settings.updated'));
+          }}
+        >
+          {t('settings.reset')}
+        </button>
+      </div>
+      <p className="text-xs text-bolt-elements-textSecondary">{t('fallbackChain.description')}</p>
+
+      {chain.length === 0 ? (
+        <p className="text-xs text-bolt-elements-textTertiary">{t('fallbackChain.empty')}</p>
+      ) : (
+        <ol className="space-y-2">
+          {chain.map((entry, index) => (
+            <li key={`${entry.provider}/${entry.model}/${index}`} className="flex items-center gap-2 text-sm">
+              <span className="w-5 text-bolt-elements-textTertiary">{index + 1}.</span>
+              <span className="flex-1 text-bolt-elements-textPrimary truncate">
+                {entry.provider} / {entry.model}
+              </span>
+              <button
+                className="i-ph:arrow-up text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary bg-transparent disabled:opacity-30"
+                disabled={index === 0}
+                onClick={() => moveModel(index, -1)}
+                title={t('fallbackChain.moveUp')}
+              />
+              <button
+                className="i-ph:arrow-down text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary bg-transparent disabled:opacity-30"
+                disabled={index === chain.length - 1}
+                onClick={() => moveModel(index, 1)}
+                title={t('fallbackChain.moveDown')}
+              />
+              <button
+                className="i-ph:trash text-bolt-elements-textSecondary hover:text-red-500 bg-transparent"
+                onClick={() => {
+                  setFallbackChain(chain.filter((_, i) => i !== index));
+                  toast.success(t('settings.updated'));
+                }}
+                title={t('spending.remove')}
+              />
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 items-center">
+        <select value={providerName} onChange={(e) => setProviderName(e.target.value)} className={inputClassName}>
+          <option value="">{t('fallbackChain.provider')}</option>
+          {activeProviders.map((p) => (
+            <option key={p.name} value={p.name}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <input
+          value={model}
+          disabled={!provider}
+          list="fallback-chain-models"
+          onChange={(e) => setModel(e.target.value)}
+          placeholder={t('stageModels.model')}
+          className={classNames(inputClassName, 'disabled:opacity-50')}
+        />
+        <datalist id="fallback-chain-models">
+          {provider?.staticModels.map((m) => (
+            <option key={m.name} value={m.name}>
+              {m.label}
+            </option>
+          ))}
+        </datalist>
+        <button
+          onClick={addModel}
+          disabled={!provider || !model.trim()}
+          className="px-3 py-2 rounded-lg text-sm bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-50"
+        >
+          {t('spending.add')}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import { classNames } from '~/utils/classNames';
+import { reasoningSettingsStore, resetReasoningSettings, setReasoningSettings } from '~/lib/stores/reasoningSettings';
+import { REASONING_CONTROLS, REASONING_EFFORTS, type ReasoningEffort } from '~/lib/modules/llm/reasoning';
+import { getModelCapabilities } from '~/lib/modules/llm/capabilities';
+import { useSettings } from '~/lib/hooks/useSettings';
+import { useTranslation } from '~/lib/i18n/useTranslation';
+
+const inputClassName = classNames(
+  'w-full px-3 py-2 rounded-lg text-sm',
+  'bg-[#FAFAFA] dark:bg-[#0A0A0A]',
+  'border border-[#E5E5E5] dark:border-[#1A1A1A]',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+const emptyEntry = { provider: '', model: '', effort: '', budgetTokens: '' };
+
+export default function ReasoningModelSettings() {
+  const { t } = useTranslation();
+  const { activeProviders } = useSettings();
+  const settings = useStore(reasoningSettingsStore);
+  const [entry, setEntry] = useState(emptyEntry);
+
+  const providers = activeProviders.filter((p) => REASONING_CONTROLS[p.name]);
+  const provider = providers.find((p) => p.name === entry.provider);
+  const controls = provider ? REASONING_CONTROLS[provider.name] : [];
+
+  const addEntry = () => {
+    const budgetTokens = parseInt(entry.budgetTokens, 10) || undefined;
+    const effort = (entry.effort as ReasoningEffort) || undefined;
+
+    if (!provider || !entry.model.trim() || !(effort || budgetTokens)) {
+      toast.error(t('reasoning.invalid'));
+      return;
+    }
+
+    setReasoningSettings(provider.name, entry.model.trim(), { effort, budgetTokens });
+    setEntry(emptyEntry);
+    toast.success(t('settings.updated'));
+  };
+
+  return (
+    <motion.div
+      className="bg-white dark:bg-[#0A0A0A] rounded-lg shadow-sm dark:shadow-none p-4 space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.3 }}
+    >
+      <div className="flex items-center gap-2 mb-4">
+        <div className="i-ph:brain-fill w-4 h-4 text-purple-500" />
+        <span className="text-sm font-medium text-bolt-elements-textPrimary">{t('reasoning.title')}</span>
+        <button
+          className="ml-auto text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary bg-transparent"
+          onClick={() => {
+            resetReasoningSettings();
+            toast.success(t('settings.updated'));
+          }}
+        >
+          {t('settings.reset')}
+        </button>
+      </div>
+      <p className="text-xs text-bolt-elements-textSecondary">{t('reasoning.description')}</p>
+
+      <div>
+        {Object.entries(settings).map(([key, modelSettings]) => (
+          <div key={key} className="flex items-center gap-2 text-xs text-bolt-elements-textPrimary mb-1">
+            <code className="flex-1 truncate">{key}</code>
+            {modelSettings.effort && <span>{t(`reasoning.${modelSettings.effort}`)}</span>}
+            {modelSettings.budgetTokens && <span>{modelSettings.budgetTokens.toLocaleString()}</span>}
+            <button
+              className="text-bolt-elements-textSecondary hover:text-red-500 bg-transparent"
+              title={t('spending.remove')}
+              onClick={() => {
+                const [providerName, ...model] = key.split('/');
+                setReasoningSettings(providerName, model.join('/'), undefined);
+              }}
+            >
+              <div className="i-ph:trash w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <div className="grid grid-cols-4 gap-2">
+          <select
+            value={entry.provider}
+            onChange={(e) => setEntry({ ...emptyEntry, provider: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">{t('spending.provider')}</option>
+            {providers.map((p) => (
+              <option key={p.name} value={p.name}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <input
+            value={entry.model}
+            list="reasoning-models"
+            onChange={(e) => setEntry({ ...entry, model: e.target.value })}
+            placeholder={t('spending.model')}
+            className={inputClassName}
+          />
+          <datalist id="reasoning-models">
+            {provider?.staticModels
+              .filter((m) => getModelCapabilities(m).reasoning !== false)
+              .map((m) => (
+                <option key={m.name} value={m.name}>
+                  {m.label}
+                </option>
+              ))}
+          </datalist>
+          <select
+            value={entry.effort}
+            disabled={!controls.includes('effort')}
+            onChange={(e) => setEntry({ ...entry, effort: e.target.value })}
+            className={classNames(inputClassName, 'disabled:opacity-50')}
+          >
+            <option value="">{t('reasoning.effort')}</option>
+            {REASONING_EFFORTS.map((effort) => (
+              <option key={effort} value={effort}>
+                {t(`reasoning.${effort}`)}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={1}
+            value={entry.budgetTokens}
+            disabled={!controls.includes('budget')}
+            onChange={(e) => setEntry({ ...entry, budgetTokens: e.target.value })}
+            placeholder={t('reasoning.budget')}
+            className={classNames(inputClassName, 'disabled:opacity-50')}
+          />
+        </div>
+        <div className="flex justify-end mt-1">
+          <button className="text-xs text-purple-500 hover:text-purple-600 bg-transparent" onClick={addEntry}>
+            {t('spending.add')}
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
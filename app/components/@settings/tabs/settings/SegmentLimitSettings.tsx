@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import { classNames } from '~/utils/classNames';
+import { resetSegmentLimits, segmentLimitsStore, setSegmentLimit } from '~/lib/stores/segmentLimits';
+import { useSettings } from '~/lib/hooks/useSettings';
+import { useTranslation } from '~/lib/i18n/useTranslation';
+import { MAX_SEGMENT_LIMIT } from '~/utils/constants';
+
+const inputClassName = classNames(
+  'w-full px-3 py-2 rounded-lg text-sm',
+  'bg-[#FAFAFA] dark:bg-[#0A0A0A]',
+  'border border-[#E5E5E5] dark:border-[#1A1A1A]',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+const emptyLimit = { provider: '', model: '', segments: '' };
+
+export default function SegmentLimitSettings() {
+  const { t } = useTranslation();
+  const { activeProviders } = useSettings();
+  const limits = useStore(segmentLimitsStore);
+  const [limit, setLimit] = useState(emptyLimit);
+
+  const provider = activeProviders.find((p) => p.name === limit.provider);
+
+  const addLimit = () => {
+    const segments = parseInt(limit.segments, 10);
+
+    if (!provider || !limit.model.trim() || !(segments >= 1 && segments <= MAX_SEGMENT_LIMIT)) {
+      toast.error(t('segmentLimits.invalid'));
+      return;
+    }
+
+    setSegmentLimit(provider.name, limit.model.trim(), segments);
+    setLimit(emptyLimit);
+    toast.success(t('settings.updated'));
+  };
+
+  return (
+    <motion.div
+      className="bg-white dark:bg-[#0A0A0A] rounded-lg shadow-sm dark:shadow-none p-4 space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.3 }}
+    >
+      <div className="flex items-center gap-2 mb-4">
+        <div className="i-ph:stack-plus-fill w-4 h-4 text-purple-500" />
+        <span className="text-sm font-medium text-bolt-elements-textPrimary">{t('segmentLimits.title')}</span>
+        <button
+          className="ml-auto text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary bg-transparent"
+          onClick={() => {
+            resetSegmentLimits();
+            toast.success(t('settings.updated'));
+          }}
+        >
+          {t('settings.reset')}
+        </button>
+      </div>
+      <p className="text-xs text-bolt-elements-textSecondary">{t('segmentLimits.description')}</p>
+
+      <div>
+        {Object.entries(limits).map(([key, segments]) => (
+          <div key={key} className="flex items-center gap-2 text-xs text-bolt-elements-textPrimary mb-1">
+            <code className="flex-1 truncate">{key}</code>
+            <span>{segments}</span>
+            <button
+              className="text-bolt-elements-textSecondary hover:text-red-500 bg-transparent"
+              title={t('spending.remove')}
+              onClick={() => {
+                const [providerName, ...model] = key.split('/');
+                setSegmentLimit(providerName, model.join('/'), undefined);
+              }}
+            >
+              <div className="i-ph:trash w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <div className="grid grid-cols-4 gap-2">
+          <select
+            value={limit.provider}
+            onChange={(e) => setLimit({ ...limit, provider: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">{t('spending.provider')}</option>
+            {activeProviders.map((p) => (
+              <option key={p.name} value={p.name}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <input
+            value={limit.model}
+            list="segment-limit-models"
+            onChange={(e) => setLimit({ ...limit, model: e.target.value })}
+            placeholder={t('spending.model')}
+            className={classNames(inputClassName, 'col-span-2')}
+          />
+          <datalist id="segment-limit-models">
+            {provider?.staticModels.map((m) => (
+              <option key={m.name} value={m.name}>
+                {m.label}
+              </option>
+            ))}
+          </datalist>
+          <input
+            type="number"
+            min={1}
+            max={MAX_SEGMENT_LIMIT}
+            value={limit.segments}
+            onChange={(e) => setLimit({ ...limit, segments: e.target.value })}
+            placeholder={t('segmentLimits.segments')}
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex justify-end mt-1">
+          <button className="text-xs text-purple-500 hover:text-purple-600 bg-transparent" onClick={addLimit}>
+            {t('spending.add')}
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -6,6 +6,13 @@ import { Switch } from '~/components/ui/Switch';
 import type { UserProfile } from '~/components/@settings/core/types';
 import { isMac } from '~/utils/os';
 import { useTranslation } from '~/lib/i18n/useTranslation';
+import CommandPolicySettings from './CommandPolicySettings';
+import SpendingSettings from './SpendingSettings';
+import StageModelSettings from './StageModelSettings';
+import FallbackChainSettings from './FallbackChainSettings';
+import SegmentLimitSettings from './SegmentLimitSettings';
+import ReasoningModelSettings from './ReasoningModelSettings';
+import CustomPromptSettings from './CustomPromptSettings';
 
 // Helper to get modifier key symbols/text
 const getModifierSymbol = (modifier: string): string => {
@@ -173,6 +180,27 @@ export default function SettingsTab() {
         </div>
       </motion.div>
 
+      {/* Shell Command Safety */}
+      <CommandPolicySettings />
+
+      {/* Spending Limits */}
+      <SpendingSettings />
+
+      {/* Models per Stage */}
+      <StageModelSettings />
+
+      {/* Fallback Models */}
+      <FallbackChainSettings />
+
+      {/* Response Segments */}
+      <SegmentLimitSettings />
+
+      {/* Reasoning Models */}
+      <ReasoningModelSettings />
+
+      {/* Custom Prompts */}
+      <CustomPromptSettings />
+
       {/* Simplified Keyboard Shortcuts */}
       <motion.div
         className="bg-white dark:bg-[#0A0A0A] rounded-lg shadow-sm dark:shadow-none p-4"
@@ -0,0 +1,216 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import { classNames } from '~/utils/classNames';
+import {
+  dailySpendStore,
+  getSpentToday,
+  pricingOverridesStore,
+  resetSpendingLimits,
+  setPricingOverride,
+  spendingLimitsStore,
+  updateSpendingLimits,
+} from '~/lib/stores/spending';
+import { formatCost, type SpendingLimitMode } from '~/lib/modules/llm/pricing';
+import { useTranslation } from '~/lib/i18n/useTranslation';
+
+const inputClassName = classNames(
+  'w-full px-3 py-2 rounded-lg text-sm',
+  'bg-[#FAFAFA] dark:bg-[#0A0A0A]',
+  'border border-[#E5E5E5] dark:border-[#1A1A1A]',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+const toLimit = (value: string) => {
+  const limit = parseFloat(value);
+  return Number.isFinite(limit) && limit >= 0 ? limit : undefined;
+};
+
+const emptyOverride = { provider: '', model: '', input: '', output: '', cacheRead: '' };
+
+export default function SpendingSettings() {
+  const { t } = useTranslation();
+  const limits = useStore(spendingLimitsStore);
+  const overrides = useStore(pricingOverridesStore);
+
+  // re-read when the spending of the day changes
+  useStore(dailySpendStore);
+
+  const [daily, setDaily] = useState(limits.daily?.toString() ?? '');
+  const [perChat, setPerChat] = useState(limits.perChat?.toString() ?? '');
+  const [override, setOverride] = useState(emptyOverride);
+
+  useEffect(() => {
+    setDaily(limits.daily?.toString() ?? '');
+    setPerChat(limits.perChat?.toString() ?? '');
+  }, [limits]);
+
+  const saveLimits = () => {
+    const updated = { daily: toLimit(daily), perChat: toLimit(perChat) };
+
+    if (updated.daily === limits.daily && updated.perChat === limits.perChat) {
+      return;
+    }
+
+    updateSpendingLimits(updated);
+    toast.success(t('settings.updated'));
+  };
+
+  const addOverride = () => {
+    const input = toLimit(override.input);
+    const output = toLimit(override.output);
+
+    if (!override.provider.trim() || !override.model.trim() || input === undefined || output === undefined) {
+      return;
+    }
+
+    setPricingOverride(override.provider.trim(), override.model.trim(), {
+      input,
+      output,
+      cacheRead: toLimit(override.cacheRead),
+    });
+    setOverride(emptyOverride);
+    toast.success(t('settings.updated'));
+  };
+
+  return (
+    <motion.div
+      className="bg-white dark:bg-[#0A0A0A] rounded-lg shadow-sm dark:shadow-none p-4 space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.3 }}
+    >
+      <div className="flex items-center gap-2 mb-4">
+        <div className="i-ph:currency-dollar-fill w-4 h-4 text-purple-500" />
+        <span className="text-sm font-medium text-bolt-elements-textPrimary">{t('spending.title')}</span>
+        <button
+          className="ml-auto text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary bg-transparent"
+          onClick={() => {
+            resetSpendingLimits();
+            toast.success(t('settings.updated'));
+          }}
+        >
+          {t('settings.reset')}
+        </button>
+      </div>
+      <p className="text-xs text-bolt-elements-textSecondary">{t('spending.description')}</p>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm text-bolt-elements-textSecondary mb-2">{t('spending.daily')}</label>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={daily}
+            onChange={(e) => setDaily(e.target.value)}
+            onBlur={saveLimits}
+            placeholder={t('spending.noLimit')}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-bolt-elements-textSecondary mb-2">{t('spending.perChat')}</label>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={perChat}
+            onChange={(e) => setPerChat(e.target.value)}
+            onBlur={saveLimits}
+            placeholder={t('spending.noLimit')}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm text-bolt-elements-textSecondary mb-2">{t('spending.mode')}</label>
+        <select
+          value={limits.mode}
+          onChange={(e) => {
+            updateSpendingLimits({ mode: e.target.value as SpendingLimitMode });
+            toast.success(t('settings.updated'));
+          }}
+          className={inputClassName}
+        >
+          <option value="warn">{t('spending.warn')}</option>
+          <option value="block">{t('spending.block')}</option>
+        </select>
+        <p className="text-xs text-bolt-elements-textTertiary mt-1">
+          {t('spending.spentToday')}: {formatCost(getSpentToday())}
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm text-bolt-elements-textSecondary mb-2">{t('spending.pricing')}</label>
+        {Object.entries(overrides).map(([key, pricing]) => (
+          <div key={key} className="flex items-center gap-2 text-xs text-bolt-elements-textPrimary mb-1">
+            <code className="flex-1 truncate">{key}</code>
+            <span>
+              {pricing.input} / {pricing.output}
+              {pricing.cacheRead !== undefined && ` / ${pricing.cacheRead}`}
+            </span>
+            <button
+              className="text-bolt-elements-textSecondary hover:text-red-500 bg-transparent"
+              title={t('spending.remove')}
+              onClick={() => {
+                const [provider, ...model] = key.split('/');
+                setPricingOverride(provider, model.join('/'), undefined);
+              }}
+            >
+              <div className="i-ph:trash w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <div className="grid grid-cols-6 gap-2">
+          <input
+            value={override.provider}
+            onChange={(e) => setOverride({ ...override, provider: e.target.value })}
+            placeholder={t('spending.provider')}
+            className={inputClassName}
+          />
+          <input
+            value={override.model}
+            onChange={(e) => setOverride({ ...override, model: e.target.value })}
+            placeholder={t('spending.model')}
+            className={classNames(inputClassName, 'col-span-2')}
+          />
+          <input
+            type="number"
+            min={0}
+            value={override.input}
+            onChange={(e) => setOverride({ ...override, input: e.target.value })}
+            placeholder={t('spending.input')}
+            className={inputClassName}
+          />
+          <input
+            type="number"
+            min={0}
+            value={override.output}
+            onChange={(e) => setOverride({ ...override, output: e.target.value })}
+            placeholder={t('spending.output')}
+            className={inputClassName}
+          />
+          <input
+            type="number"
+            min={0}
+            value={override.cacheRead}
+            onChange={(e) => setOverride({ ...override, cacheRead: e.target.value })}
+            placeholder={t('spending.cacheRead')}
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex items-center mt-1">
+          <p className="text-xs text-bolt-elements-textTertiary flex-1">{t('spending.pricingHint')}</p>
+          <button className="text-xs text-purple-500 hover:text-purple-600 bg-transparent" onClick={addOverride}>
+            {t('spending.add')}
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
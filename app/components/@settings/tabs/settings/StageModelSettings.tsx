@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import { classNames } from '~/utils/classNames';
+import { resetStageModels, setStageModel, stageModelsStore } from '~/lib/stores/stageModels';
+import { MODEL_STAGES, type ModelStage } from '~/lib/modules/llm/stage-models';
+import { useSettings } from '~/lib/hooks/useSettings';
+import { useTranslation } from '~/lib/i18n/useTranslation';
+import type { ProviderInfo } from '~/types/model';
+
+const inputClassName = classNames(
+  'w-full px-3 py-2 rounded-lg text-sm',
+  'bg-[#FAFAFA] dark:bg-[#0A0A0A]',
+  'border border-[#E5E5E5] dark:border-[#1A1A1A]',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+function StageModelRow({ stage, activeProviders }: { stage: ModelStage; activeProviders: ProviderInfo[] }) {
+  const { t } = useTranslation();
+  const assigned = useStore(stageModelsStore)[stage];
+  const [model, setModel] = useState(assigned?.model ?? '');
+
+  useEffect(() => {
+    setModel(assigned?.model ?? '');
+  }, [assigned]);
+
+  const provider = activeProviders.find((p) => p.name === assigned?.provider);
+
+  const saveModel = () => {
+    if (!assigned || !model.trim() || model.trim() === assigned.model) {
+      return;
+    }
+
+    setStageModel(stage, { provider: assigned.provider, model: model.trim() });
+    toast.success(t('settings.updated'));
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-2 items-center">
+      <label className="text-sm text-bolt-elements-textSecondary">{t(`stageModels.${stage}`)}</label>
+      <select
+        value={assigned?.provider ?? ''}
+        onChange={(e) => {
+          const selected = activeProviders.find((p) => p.name === e.target.value);
+
+          setStageModel(
+            stage,
+            selected ? { provider: selected.name, model: selected.staticModels[0]?.name ?? '' } : undefined,
+          );
+          toast.success(t('settings.updated'));
+        }}
+        className={inputClassName}
+      >
+        <option value="">{t('stageModels.default')}</option>
+        {activeProviders.map((p) => (
+          <option key={p.name} value={p.name}>
+            {p.name}
+          </option>
+        ))}
+      </select>
+      <input
+        value={model}
+        disabled={!assigned}
+        list={`stage-models-${stage}`}
+        onChange={(e) => setModel(e.target.value)}
+        onBlur={saveModel}
+        placeholder={t('stageModels.model')}
+        className={classNames(inputClassName, 'disabled:opacity-50')}
+      />
+      <datalist id={`stage-models-${stage}`}>
+        {provider?.staticModels.map((m) => (
+          <option key={m.name} value={m.name}>
+            {m.label}
+          </option>
+        ))}
+      </datalist>
+    </div>
+  );
+}
+
+export default function StageModelSettings() {
+  const { t } = useTranslation();
+  const { activeProviders } = useSettings();
+
+  return (
+    <motion.div
+      className="bg-white dark:bg-[#0A0A0A] rounded-lg shadow-sm dark:shadow-none p-4 space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.3 }}
+    >
+      <div className="flex items-center gap-2 mb-4">
+        <div className="i-ph:stack-fill w-4 h-4 text-purple-500" />
+        <span className="text-sm font-medium text-bolt-elements-textPrimary">{t('stageModels.title')}</span>
+        <button
+          className="ml-auto text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary bg-transparent"
+          onClick={() => {
+            resetStageModels();
+            toast.success(t('settings.updated'));
+          }}
+        >
+          {t('settings.reset')}
+        </button>
+      </div>
+      <p className="text-xs text-bolt-elements-textSecondary">{t('stageModels.description')}</p>
+
+      <div className="space-y-2">
+        {MODEL_STAGES.map((stage) => (
+          <StageModelRow key={stage} stage={stage} activeProviders={activeProviders} />
+        ))}
+      </div>
+    </motion.div>
+  );
+}
@@ -3,7 +3,9 @@ import { AnimatePresence, motion } from 'framer-motion';
 import { computed } from 'nanostores';
 import { memo, useEffect, useRef, useState } from 'react';
 import { createHighlighter, type BundledLanguage, type BundledTheme, type HighlighterGeneric } from 'shiki';
+import type { ActionView, ActionViewNode } from '~/lib/runtime/action-registry';
 import type { ActionState } from '~/lib/runtime/action-runner';
+import { actionRegistry } from '~/lib/runtime/actions';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { classNames } from '~/utils/classNames';
 import { cubicEasingFn } from '~/utils/easings';
@@ -43,6 +45,27 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
     }),
   );
 
+  const canRollback = useStore(artifact.runner.canRollback);
+  const rollbackStatus = useStore(artifact.runner.rollbackStatus);
+
+  // only the latest artifact can be rolled back, older ones may have been built upon since
+  const isLatestArtifact = workbenchStore.artifactIdList.at(-1) === messageId;
+  const isSettled = !actions.some(
+    (action) => action.status === 'pending' || (action.status === 'running' && action.type !== 'start'),
+  );
+  const hasFailedAction =
+    artifact.type !== 'bundled' &&
+    isLatestArtifact &&
+    isSettled &&
+    actions.some((action) => action.status === 'failed');
+  const showRollback = hasFailedAction && (canRollback || rollbackStatus === 'running');
+
+  const rollback = () => {
+    workbenchStore.rollbackArtifact(messageId).catch((error) => {
+      console.error('Failed to roll back artifact:', error);
+    });
+  };
+
   const toggleActions = () => {
     userToggledActions.current = true;
     setShowActions(!showActions);
@@ -147,6 +170,43 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
 
               <div className="p-5 text-left bg-bolt-elements-actions-background">
                 <ActionList actions={actions} />
+                {showRollback && (
+                  <div className="flex items-center justify-between gap-2 mt-4 pt-3 border-t border-bolt-elements-artifacts-borderColor">
+                    <span className="text-xs text-bolt-elements-textSecondary">
+                      {rollbackStatus === 'failed'
+                        ? 'Rollback failed, some files may not have been restored.'
+                        : 'An action failed. Files written by this artifact can be restored.'}
+                    </span>
+                    <button
+                      onClick={rollback}
+                      disabled={rollbackStatus === 'running'}
+                      className={classNames(
+                        'px-2 py-1.5 rounded-md text-xs font-medium flex items-center gap-1.5 shrink-0',
+                        'bg-bolt-elements-button-secondary-background',
+                        'hover:bg-bolt-elements-button-secondary-backgroundHover',
+                        'text-bolt-elements-button-secondary-text',
+                        'disabled:opacity-50 disabled:cursor-not-allowed',
+                      )}
+                    >
+                      {rollbackStatus === 'running' ? (
+                        <div className="i-svg-spinners:90-ring-with-bg"></div>
+                      ) : (
+                        <div className="i-ph:arrow-counter-clockwise"></div>
+                      )}
+                      Roll back changes
+                    </button>
+                  </div>
+                )}
+                {hasFailedAction && rollbackStatus === 'unavailable' && (
+                  <div className="mt-4 pt-3 border-t border-bolt-elements-artifacts-borderColor text-xs text-bolt-elements-textSecondary">
+                    An action failed. This artifact changed too many files to be rolled back.
+                  </div>
+                )}
+                {rollbackStatus === 'complete' && (
+                  <div className="mt-4 pt-3 border-t border-bolt-elements-artifacts-borderColor text-xs text-bolt-elements-textSecondary">
+                    Changes from this artifact were rolled back.
+                  </div>
+                )}
               </div>
             </motion.div>
           )}
@@ -192,13 +252,99 @@ export function openArtifactInWorkbench(filePath: any) {
   workbenchStore.setSelectedFile(`${WORK_DIR}/${filePath}`);
 }
 
+function ActionLabel({ view }: { view: ActionView }) {
+  const label = view.label.map((segment, index) =>
+    typeof segment === 'string' ? (
+      <span key={index}>{segment}</span>
+    ) : segment.openFile ? (
+      <code
+        key={index}
+        className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md text-bolt-elements-item-contentAccent hover:underline cursor-pointer"
+        onClick={() => openArtifactInWorkbench(segment.openFile)}
+      >
+        {segment.code}
+      </code>
+    ) : (
+      <code
+        key={index}
+        className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md"
+      >
+        {segment.code}
+      </code>
+    ),
+  );
+
+  if (view.openView) {
+    const openView = view.openView;
+
+    return (
+      <a
+        onClick={(e) => {
+          e.preventDefault();
+          workbenchStore.currentView.set(openView);
+        }}
+        className="flex items-center w-full min-h-[28px]"
+      >
+        <span className="flex-1">{label}</span>
+      </a>
+    );
+  }
+
+  if (view.command !== undefined) {
+    return (
+      <div className="flex items-center w-full min-h-[28px]">
+        <span className="flex-1">{label}</span>
+      </div>
+    );
+  }
+
+  return <div>{label}</div>;
+}
+
+function ActionTree({ nodes }: { nodes: ActionViewNode[] }) {
+  return (
+    <ul className="list-none pl-3 space-y-0.5">
+      {nodes.map((node, index) => (
+        <li key={index}>
+          <details open={node.status === 'failed'}>
+            <summary
+              className={classNames('flex items-center gap-1.5 text-xs', {
+                'cursor-pointer': !!(node.children?.length || node.detail),
+                'list-none': !(node.children?.length || node.detail),
+              })}
+            >
+              <div
+                className={classNames(
+                  node.status === 'passed'
+                    ? 'i-ph:check text-bolt-elements-icon-success'
+                    : node.status === 'failed'
+                      ? 'i-ph:x text-bolt-elements-icon-error'
+                      : 'i-ph:minus text-bolt-elements-textTertiary',
+                )}
+              ></div>
+              <span className="truncate">{node.label}</span>
+            </summary>
+            {node.detail && (
+              <pre className="text-xs text-bolt-elements-icon-error whitespace-pre-wrap mt-1 ml-5 max-h-40 overflow-auto">
+                {node.detail}
+              </pre>
+            )}
+            {node.children && node.children.length > 0 && <ActionTree nodes={node.children} />}
+          </details>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 const ActionList = memo(({ actions }: ActionListProps) => {
   return (
     <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} transition={{ duration: 0.15 }}>
       <ul className="list-none space-y-2.5">
         {actions.map((action, index) => {
-          const { status, type, content } = action;
+          const { status, type } = action;
           const isLast = index === actions.length - 1;
+          const view = actionRegistry.get(type)?.render?.(action);
 
           return (
             <motion.li
@@ -229,40 +375,24 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                     <div className="i-ph:x"></div>
                   ) : null}
                 </div>
-                {type === 'file' ? (
-                  <div>
-                    Create{' '}
-                    <code
-                      className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md text-bolt-elements-item-contentAccent hover:underline cursor-pointer"
-                      onClick={() => openArtifactInWorkbench(action.filePath)}
-                    >
-                      {action.filePath}
-                    </code>
-                  </div>
-                ) : type === 'shell' ? (
-                  <div className="flex items-center w-full min-h-[28px]">
-                    <span className="flex-1">Run command</span>
-                  </div>
-                ) : type === 'start' ? (
-                  <a
-                    onClick={(e) => {
-                      e.preventDefault();
-                      workbenchStore.currentView.set('preview');
-                    }}
-                    className="flex items-center w-full min-h-[28px]"
-                  >
-                    <span className="flex-1">Start Application</span>
-                  </a>
-                ) : null}
+                {view && <ActionLabel view={view} />}
               </div>
-              {(type === 'shell' || type === 'start') && (
+              {view?.showError && action.status === 'failed' && (
+                <div className="text-xs text-bolt-elements-icon-error mt-1 ml-6">{action.error}</div>
+              )}
+              {view?.command !== undefined && (
                 <ShellCodeBlock
                   classsName={classNames('mt-1', {
                     'mb-3.5': !isLast,
                   })}
-                  code={content}
+                  code={view.command}
                 />
               )}
+              {view?.tree && view.tree.length > 0 && (
+                <div className="mt-1 ml-3">
+                  <ActionTree nodes={view.tree} />
+                </div>
+              )}
             </motion.li>
           );
         })}
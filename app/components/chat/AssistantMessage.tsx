@@ -2,10 +2,12 @@ import { memo, Fragment } from 'react';
 import { Markdown } from './Markdown';
 import type { JSONValue } from 'ai';
 import Popover from '~/components/ui/Popover';
+import { isArtifactToolCall } from '~/lib/runtime/tool-call-parser';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { WORK_DIR } from '~/utils/constants';
 import WithTooltip from '~/components/ui/Tooltip';
 import type { Message } from 'ai';
+import { classNames } from '~/utils/classNames';
 import type { ProviderInfo } from '~/types/model';
 import type {
   TextUIPart,
@@ -16,7 +18,11 @@ import type {
   StepStartUIPart,
 } from '@ai-sdk/ui-utils';
 import { ToolInvocations } from './ToolInvocations';
-import type { ToolCallAnnotation } from '~/types/context';
+import ThoughtBox from './ThoughtBox';
+import type { SpendingWarningAnnotation, StageUsage, TokenBudgetAnnotation, ToolCallAnnotation } from '~/types/context';
+import { useStore } from '@nanostores/react';
+import { chatMetadata } from '~/lib/persistence';
+import { formatCost } from '~/lib/modules/llm/pricing';
 
 interface AssistantMessageProps {
   content: string;
@@ -30,8 +36,7 @@ interface AssistantMessageProps {
   model?: string;
   provider?: ProviderInfo;
   parts:
-    | (TextUIPart | ReasoningUIPart | ToolInvocationUIPart | SourceUIPart | FileUIPart | StepStartUIPart)[]
-    | undefined;
+    (TextUIPart | ReasoningUIPart | ToolInvocationUIPart | SourceUIPart | FileUIPart | StepStartUIPart)[] | undefined;
   addToolResult: ({ toolCallId, result }: { toolCallId: string; result: any }) => void;
 }
 
@@ -45,6 +50,36 @@ function openArtifactInWorkbench(filePath: string) {
   workbenchStore.setSelectedFile(`${WORK_DIR}/${filePath}`);
 }
 
+function ContextFileList({ files }: { files: string[] }) {
+  return (
+    <div className="flex gap-4 mt-4 bolt" style={{ zoom: 0.6 }}>
+      {files.map((x) => {
+        const normalized = normalizedFilePath(x);
+        return (
+          <Fragment key={normalized}>
+            <code
+              className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md text-bolt-elements-item-contentAccent hover:underline cursor-pointer"
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                openArtifactInWorkbench(normalized);
+              }}
+            >
+              {normalized}
+            </code>
+          </Fragment>
+        );
+      })}
+    </div>
+  );
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  summary: 'Summary',
+  contextSelection: 'Context selection',
+  coder: 'Response',
+};
+
 function normalizedFilePath(path: string) {
   let normalizedPath = path;
 
@@ -59,6 +94,84 @@ function normalizedFilePath(path: string) {
   return normalizedPath;
 }
 
+interface TokenUsage {
+  completionTokens: number;
+  promptTokens: number;
+  totalTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+
+  /** part of `completionTokens`, missing in older messages */
+  reasoningTokens?: number;
+  cost?: number;
+
+  /** usage of the summary, context selection and coder stages, missing in older messages */
+  stages?: Record<string, StageUsage>;
+}
+
+function TokenUsageInfo({ usage }: { usage: TokenUsage }) {
+  const tokens = (
+    <div>
+      Tokens: {usage.totalTokens} (prompt: {usage.promptTokens}, completion: {usage.completionTokens}
+      {!!(usage.cacheReadTokens || usage.cacheWriteTokens) && (
+        <>
+          , cache read: {usage.cacheReadTokens ?? 0}, cache write: {usage.cacheWriteTokens ?? 0}
+        </>
+      )}
+      {!!usage.reasoningTokens && <>, reasoning: {usage.reasoningTokens}</>})
+    </div>
+  );
+
+  if (!usage.stages) {
+    return tokens;
+  }
+
+  return (
+    <WithTooltip
+      maxWidth={360}
+      tooltip={
+        <div className="flex flex-col gap-0.5 text-xs">
+          {Object.entries(usage.stages).map(([stage, stageUsage]) => (
+            <div key={stage}>
+              {STAGE_LABELS[stage] ?? stage} ({stageUsage.model}): {stageUsage.totalTokens}
+              {stageUsage.cost !== undefined && ` · ${formatCost(stageUsage.cost)}`}
+            </div>
+          ))}
+        </div>
+      }
+    >
+      {tokens}
+    </WithTooltip>
+  );
+}
+
+function TokenBudgetInfo({ budget }: { budget: TokenBudgetAnnotation }) {
+  const trimmed = budget.trimmedMessages > 0 || budget.droppedFiles.length > 0;
+
+  return (
+    <WithTooltip
+      maxWidth={320}
+      tooltip={
+        <div className="flex flex-col gap-0.5 text-xs">
+          <div>System prompt: ~{budget.system}</div>
+          <div>Summary: ~{budget.summary}</div>
+          <div>Context files: ~{budget.files}</div>
+          <div>Messages: ~{budget.messages}</div>
+          <div>Reserved for response: {budget.maxOutputTokens}</div>
+          {budget.trimmedMessages > 0 && <div>Condensed {budget.trimmedMessages} earlier messages</div>}
+          {budget.droppedFiles.length > 0 && (
+            <div>Left out: {budget.droppedFiles.map(normalizedFilePath).join(', ')}</div>
+          )}
+        </div>
+      }
+    >
+      <div className={classNames('flex items-center gap-1', { 'text-orange-500': trimmed })}>
+        <div className="i-ph:gauge" />~{budget.total} / {budget.contextWindow} context
+      </div>
+    </WithTooltip>
+  );
+}
+
 export const AssistantMessage = memo(
   ({
     content,
@@ -86,18 +199,34 @@ export const AssistantMessage = memo(
     }
 
     let codeContext: string[] | undefined = undefined;
+    let contextSelector: string | undefined = undefined;
 
     if (filteredAnnotations.find((annotation) => annotation.type === 'codeContext')) {
       codeContext = filteredAnnotations.find((annotation) => annotation.type === 'codeContext')?.files;
+      contextSelector = filteredAnnotations.find((annotation) => annotation.type === 'codeContext')?.selector;
     }
 
-    const usage: {
-      completionTokens: number;
-      promptTokens: number;
-      totalTokens: number;
-    } = filteredAnnotations.find((annotation) => annotation.type === 'usage')?.value;
+    const projectRules: string[] | undefined = filteredAnnotations.find(
+      (annotation) => annotation.type === 'projectRules',
+    )?.files;
+
+    const usage: TokenUsage = filteredAnnotations.find((annotation) => annotation.type === 'usage')?.value;
 
-    const toolInvocations = parts?.filter((part) => part.type === 'tool-invocation');
+    const chatCost = useStore(chatMetadata)?.cost?.total;
+    const spendingWarning = filteredAnnotations.find((annotation) => annotation.type === 'spendingWarning') as
+      SpendingWarningAnnotation | undefined;
+
+    const tokenBudget = filteredAnnotations.find((annotation) => annotation.type === 'tokenBudget') as
+      TokenBudgetAnnotation | undefined;
+
+    // artifact tool calls are shown as an artifact, like the actions of `<boltArtifact>` tags
+    const toolInvocations = parts?.filter(
+      (part) => part.type === 'tool-invocation' && !isArtifactToolCall(part.toolInvocation.toolName),
+    ) as ToolInvocationUIPart[] | undefined;
+    const reasoning = parts
+      ?.filter((part) => part.type === 'reasoning')
+      .map((part) => (part as ReasoningUIPart).reasoning)
+      .join('\n\n');
     const toolCallAnnotations = filteredAnnotations.filter(
       (annotation) => annotation.type === 'toolCall',
     ) as ToolCallAnnotation[];
@@ -106,7 +235,7 @@ export const AssistantMessage = memo(
       <div className="overflow-hidden w-full">
         <>
           <div className=" flex gap-2 items-center text-sm text-bolt-elements-textSecondary mb-2">
-            {(codeContext || chatSummary) && (
+            {(codeContext || chatSummary || projectRules) && (
               <Popover side="right" align="start" trigger={<div className="i-ph:info" />}>
                 {chatSummary && (
                   <div className="max-w-chat">
@@ -118,39 +247,42 @@ export const AssistantMessage = memo(
                     </div>
                     {codeContext && (
                       <div className="code-context flex flex-col p4 border border-bolt-elements-borderColor rounded-md">
-                        <h2>Context</h2>
-                        <div className="flex gap-4 mt-4 bolt" style={{ zoom: 0.6 }}>
-                          {codeContext.map((x) => {
-                            const normalized = normalizedFilePath(x);
-                            return (
-                              <Fragment key={normalized}>
-                                <code
-                                  className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md text-bolt-elements-item-contentAccent hover:underline cursor-pointer"
-                                  onClick={(e) => {
-                                    e.preventDefault();
-                                    e.stopPropagation();
-                                    openArtifactInWorkbench(normalized);
-                                  }}
-                                >
-                                  {normalized}
-                                </code>
-                              </Fragment>
-                            );
-                          })}
-                        </div>
+                        <h2>Context{contextSelector && ` (${contextSelector})`}</h2>
+                        <ContextFileList files={codeContext} />
                       </div>
                     )}
                   </div>
                 )}
+                {projectRules && (
+                  <div className="project-rules flex flex-col p4 border border-bolt-elements-borderColor rounded-md">
+                    <h2>Project rules</h2>
+                    <ContextFileList files={projectRules} />
+                  </div>
+                )}
                 <div className="context"></div>
               </Popover>
             )}
             <div className="flex w-full items-center justify-between">
-              {usage && (
-                <div>
-                  Tokens: {usage.totalTokens} (prompt: {usage.promptTokens}, completion: {usage.completionTokens})
-                </div>
-              )}
+              <div className="flex gap-3 items-center">
+                {usage && <TokenUsageInfo usage={usage} />}
+                {tokenBudget && <TokenBudgetInfo budget={tokenBudget} />}
+                {usage?.cost !== undefined && (
+                  <WithTooltip tooltip={chatCost !== undefined ? `Chat total: ${formatCost(chatCost)}` : 'Cost'}>
+                    <div className="flex items-center gap-1">
+                      <div className="i-ph:currency-dollar" />
+                      {formatCost(usage.cost)}
+                    </div>
+                  </WithTooltip>
+                )}
+                {spendingWarning && (
+                  <WithTooltip tooltip={spendingWarning.message}>
+                    <div className="flex items-center gap-1 text-orange-500">
+                      <div className="i-ph:warning" />
+                      Over budget
+                    </div>
+                  </WithTooltip>
+                )}
+              </div>
               {(onRewind || onFork) && messageId && (
                 <div className="flex gap-2 flex-col lg:flex-row ml-auto">
                   {onRewind && (
@@ -176,6 +308,13 @@ export const AssistantMessage = memo(
             </div>
           </div>
         </>
+        {reasoning && (
+          <div className="mb-4">
+            <ThoughtBox title={content ? 'Thought process' : 'Thinking...'}>
+              <Markdown>{reasoning}</Markdown>
+            </ThoughtBox>
+          </div>
+        )}
         <Markdown append={append} chatMode={chatMode} setChatMode={setChatMode} model={model} provider={provider} html>
           {content}
         </Markdown>
@@ -22,7 +22,9 @@ import StarterTemplates from './StarterTemplates';
 import type { ActionAlert, SupabaseAlert, DeployAlert, LlmErrorAlertType } from '~/types/actions';
 import DeployChatAlert from '~/components/deploy/DeployAlert';
 import ChatAlert from './ChatAlert';
+import CommandConfirmationAlert from './CommandConfirmationAlert';
 import type { ModelInfo } from '~/lib/modules/llm/types';
+import { getModelCapabilities, type ModelCapabilities } from '~/lib/modules/llm/capabilities';
 import ProgressCompilation from './ProgressCompilation';
 import type { ProgressAnnotation } from '~/types/context';
 import { SupabaseChatAlert } from '~/components/chat/SupabaseAlert';
@@ -34,6 +36,7 @@ import type { DesignScheme } from '~/types/design-scheme';
 import type { ElementInfo } from '~/components/workbench/Inspector';
 import LlmErrorAlert from './LLMApiAlert';
 import { useTranslation } from '~/lib/i18n';
+import { toast } from 'react-toastify';
 
 const TEXTAREA_MIN_HEIGHT = 76;
 
@@ -270,7 +273,18 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
       }
     };
 
+    const selectedModel = modelList.find((m) => m.name === model && m.provider === provider?.name);
+    const modelCapabilities: ModelCapabilities = selectedModel ? getModelCapabilities(selectedModel) : {};
+
+    // images are only blocked for models that are known to be text only
+    const acceptsImages = modelCapabilities.vision !== false;
+
     const handleSendMessage = (event: React.UIEvent, messageInput?: string) => {
+      if (imageDataList.length > 0 && !acceptsImages) {
+        toast.error(t('capabilities.removeImages'));
+        return;
+      }
+
       if (sendMessage) {
         sendMessage(event, messageInput);
         setSelectedElement?.(null);
@@ -292,6 +306,11 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
     };
 
     const handleFileUpload = () => {
+      if (!acceptsImages) {
+        toast.error(t('capabilities.noImages'));
+        return;
+      }
+
       const input = document.createElement('input');
       input.type = 'file';
       input.accept = 'image/*';
@@ -325,6 +344,11 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
         if (item.type.startsWith('image/')) {
           e.preventDefault();
 
+          if (!acceptsImages) {
+            toast.error(t('capabilities.noImages'));
+            break;
+          }
+
           const file = item.getAsFile();
 
           if (file) {
@@ -415,6 +439,7 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                       }}
                     />
                   )}
+                  <CommandConfirmationAlert />
                   {actionAlert && (
                     <ChatAlert
                       alert={actionAlert}
@@ -469,6 +494,7 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                   qrModalOpen={qrModalOpen}
                   setQrModalOpen={setQrModalOpen}
                   handleFileUpload={handleFileUpload}
+                  modelCapabilities={modelCapabilities}
                   chatMode={chatMode}
                   setChatMode={setChatMode}
                   designScheme={designScheme}
@@ -5,7 +5,7 @@ import { useAnimate } from 'framer-motion';
 import { memo, useCallback, useEffect, useRef, useState } from 'react';
 import { cssTransition, toast, ToastContainer } from 'react-toastify';
 import { useMessageParser, usePromptEnhancer, useShortcuts } from '~/lib/hooks';
-import { description, useChatHistory } from '~/lib/persistence';
+import { chatId, chatMetadata, description, useChatHistory } from '~/lib/persistence';
 import { chatStore } from '~/lib/stores/chat';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROMPT_COOKIE_KEY, PROVIDER_LIST } from '~/utils/constants';
@@ -30,7 +30,15 @@ import { defaultDesignScheme, type DesignScheme } from '~/types/design-scheme';
 import type { ElementInfo } from '~/components/workbench/Inspector';
 import type { TextUIPart, FileUIPart, Attachment } from '@ai-sdk/ui-utils';
 import { useMCPStore } from '~/lib/stores/mcp';
+import { getSpentToday, pricingOverridesStore, spendingLimitsStore } from '~/lib/stores/spending';
+import { stageModelsStore } from '~/lib/stores/stageModels';
+import { fallbackChainStore } from '~/lib/stores/fallbackChain';
+import { segmentLimitsStore } from '~/lib/stores/segmentLimits';
+import { reasoningSettingsStore } from '~/lib/stores/reasoningSettings';
+import { customPromptsStore } from '~/lib/stores/customPrompts';
+import { resolveStageModel, type ModelStage } from '~/lib/modules/llm/stage-models';
 import type { LlmErrorAlertType } from '~/types/actions';
+import type { ProviderSwitchAnnotation } from '~/types/context';
 import { ProviderSwitchIndicator, useProviderSwitchIndicator } from './ProviderSwitchIndicator';
 
 const toastAnimation = cssTransition({
@@ -157,7 +165,6 @@ export const ChatImpl = memo(
       status: switchStatus,
       attempt: switchAttempt,
       maxAttempts: switchMaxAttempts,
-      showSearching,
       showConnecting,
       showConnected,
       showFailed,
@@ -173,7 +180,15 @@ export const ChatImpl = memo(
       (project) => project.id === supabaseConn.selectedProjectId,
     );
     const supabaseAlert = useStore(workbenchStore.supabaseAlert);
-    const { activeProviders, promptId, autoSelectTemplate, contextOptimizationEnabled } = useSettings();
+    const {
+      activeProviders,
+      promptId,
+      autoSelectTemplate,
+      contextOptimizationEnabled,
+      toolCallingEnabled,
+      contextSelection,
+      contextEmbeddingModel,
+    } = useSettings();
     const [llmErrorAlert, setLlmErrorAlert] = useState<LlmErrorAlertType | undefined>(undefined);
     const [model, setModel] = useState(() => {
       const savedModel = Cookies.get('selectedModel');
@@ -191,6 +206,14 @@ export const ChatImpl = memo(
       return (PROVIDER_LIST.find((p) => p.name === savedProvider) || DEFAULT_PROVIDER) as ProviderInfo;
     });
     const { showChat } = useStore(chatStore);
+    const spendingLimits = useStore(spendingLimitsStore);
+    const pricingOverrides = useStore(pricingOverridesStore);
+    const currentChatMetadata = useStore(chatMetadata);
+    const stageModels = useStore(stageModelsStore);
+    const fallbackChain = useStore(fallbackChainStore);
+    const segmentLimits = useStore(segmentLimitsStore);
+    const reasoningSettings = useStore(reasoningSettingsStore);
+    const customPrompts = useStore(customPromptsStore);
     const [animationScope, animate] = useAnimate();
     const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
     const [chatMode, setChatMode] = useState<'discuss' | 'build'>('build');
@@ -217,7 +240,10 @@ export const ChatImpl = memo(
         apiKeys,
         files,
         promptId,
+        customPrompt: customPrompts.find((prompt) => prompt.id === promptId),
         contextOptimization: contextOptimizationEnabled,
+        contextSelection,
+        contextEmbeddingModel,
         chatMode,
         designScheme,
         supabase: {
@@ -229,6 +255,17 @@ export const ChatImpl = memo(
           },
         },
         maxLLMSteps: mcpSettings.maxLLMSteps,
+        toolCalling: toolCallingEnabled,
+        spending: {
+          limits: spendingLimits,
+          spentToday: getSpentToday(),
+          spentInChat: currentChatMetadata?.cost?.total ?? 0,
+        },
+        pricing: pricingOverrides,
+        stageModels,
+        fallbackChain,
+        segmentLimits,
+        reasoningSettings,
       },
       sendExtraMessageFields: true,
       onError: (e) => {
@@ -256,6 +293,33 @@ export const ChatImpl = memo(
       initialMessages,
       initialInput: Cookies.get(PROMPT_COOKIE_KEY) || '',
     });
+
+    // the chat route reports when it fails over to the next model of the fallback chain
+    const handledProviderSwitches = useRef(0);
+
+    useEffect(() => {
+      const switches = (chatData ?? []).filter(
+        (x) => typeof x === 'object' && x !== null && (x as any).type === 'providerSwitch',
+      ) as ProviderSwitchAnnotation[];
+
+      if (switches.length < handledProviderSwitches.current) {
+        handledProviderSwitches.current = 0;
+      }
+
+      for (const providerSwitch of switches.slice(handledProviderSwitches.current)) {
+        updateAttempt(providerSwitch.attempt);
+
+        if (providerSwitch.status === 'connecting') {
+          showConnecting(providerSwitch.toProvider, providerSwitch.fromProvider);
+        } else if (providerSwitch.status === 'connected') {
+          showConnected(providerSwitch.toProvider);
+        } else {
+          showFailed(providerSwitch.toProvider);
+        }
+      }
+
+      handledProviderSwitches.current = switches.length;
+    }, [chatData]);
     useEffect(() => {
       const prompt = searchParams.get('prompt');
 
@@ -280,6 +344,12 @@ export const ChatImpl = memo(
       chatStore.setKey('started', initialMessages.length > 0);
     }, []);
 
+    const currentChatId = useStore(chatId);
+
+    useEffect(() => {
+      workbenchStore.setPlanModeChat(currentChatId);
+    }, [currentChatId]);
+
     useEffect(() => {
       processSampledMessages({
         messages,
@@ -298,6 +368,14 @@ export const ChatImpl = memo(
       }
     };
 
+    // the enhancer and the template selection are called from here, the other stages by the chat route
+    const getStageModel = (stage: ModelStage) => {
+      const resolved = resolveStageModel(stage, stageModels, { provider: provider.name, model });
+      const resolvedProvider = PROVIDER_LIST.find((p) => p.name === resolved.provider) as ProviderInfo | undefined;
+
+      return resolvedProvider ? { model: resolved.model, provider: resolvedProvider } : { model, provider };
+    };
+
     const abort = () => {
       stop();
       chatStore.setKey('aborted', true);
@@ -561,8 +639,7 @@ export const ChatImpl = memo(
         if (autoSelectTemplate) {
           const { template, title } = await selectStarterTemplate({
             message: finalMessageContent,
-            model,
-            provider,
+            ...getStageModel('templateSelection'),
           });
 
           if (template !== 'blank') {
@@ -787,14 +864,16 @@ export const ChatImpl = memo(
             };
           })}
           enhancePrompt={() => {
+            const enhancer = getStageModel('enhancer');
+
             enhancePrompt(
               input,
               (input) => {
                 setInput(input);
                 scrollTextArea();
               },
-              model,
-              provider,
+              enhancer.model,
+              enhancer.provider,
               apiKeys,
             );
           }}
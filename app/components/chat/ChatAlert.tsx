@@ -12,10 +12,29 @@ export default function ChatAlert({ alert, clearAlert, postMessage }: Props) {
   const { description, content, source } = alert;
 
   const isPreview = source === 'preview';
-  const title = isPreview ? 'Preview Error' : 'Terminal Error';
-  const message = isPreview
-    ? 'We encountered an error while running the preview. Would you like snapweb to analyze and help resolve this issue?'
-    : 'We encountered an error while running terminal commands. Would you like snapweb to analyze and help resolve this issue?';
+  const isPatch = source === 'patch';
+  const isTest = source === 'test';
+
+  // a blocked command is the policy working, there is nothing to fix
+  const isPolicy = source === 'policy';
+  const title = isPreview
+    ? 'Preview Error'
+    : isPatch
+      ? 'Patch Error'
+      : isTest
+        ? 'Test Failures'
+        : isPolicy
+          ? 'Command Blocked'
+          : 'Terminal Error';
+  const message = isPolicy
+    ? 'The command safety policy did not let this command run. You can change the rules in the settings.'
+    : isPreview
+      ? 'We encountered an error while running the preview. Would you like snapweb to analyze and help resolve this issue?'
+      : isPatch
+        ? 'A file patch did not match the current file content. Would you like snapweb to analyze and help resolve this issue?'
+        : isTest
+          ? 'Some tests are failing. Would you like snapweb to analyze the failed assertions and fix them?'
+          : 'We encountered an error while running terminal commands. Would you like snapweb to analyze and help resolve this issue?';
 
   return (
     <AnimatePresence>
@@ -53,9 +72,14 @@ export default function ChatAlert({ alert, clearAlert, postMessage }: Props) {
               className={`mt-2 text-sm text-bolt-elements-textSecondary`}
             >
               <p>{message}</p>
+              {isPolicy && (
+                <pre className="text-xs text-bolt-elements-textPrimary p-2 bg-bolt-elements-background-depth-3 rounded mt-4 whitespace-pre-wrap break-all">
+                  {content}
+                </pre>
+              )}
               {description && (
                 <div className="text-xs text-bolt-elements-textSecondary p-2 bg-bolt-elements-background-depth-3 rounded mt-4 mb-4">
-                  Error: {description}
+                  {isPolicy ? 'Rule' : 'Error'}: {description}
                 </div>
               )}
             </motion.div>
@@ -68,24 +92,30 @@ export default function ChatAlert({ alert, clearAlert, postMessage }: Props) {
               transition={{ delay: 0.3 }}
             >
               <div className={classNames(' flex gap-2')}>
-                <button
-                  onClick={() =>
-                    postMessage(
-                      `*Fix this ${isPreview ? 'preview' : 'terminal'} error* \n\`\`\`${isPreview ? 'js' : 'sh'}\n${content}\n\`\`\`\n`,
-                    )
-                  }
-                  className={classNames(
-                    `px-2 py-1.5 rounded-md text-sm font-medium`,
-                    'bg-bolt-elements-button-primary-background',
-                    'hover:bg-bolt-elements-button-primary-backgroundHover',
-                    'focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-bolt-elements-button-danger-background',
-                    'text-bolt-elements-button-primary-text',
-                    'flex items-center gap-1.5',
-                  )}
-                >
-                  <div className="i-ph:chat-circle-duotone"></div>
-                  Ask snapweb
-                </button>
+                {!isPolicy && (
+                  <button
+                    onClick={() =>
+                      postMessage(
+                        isPatch
+                          ? `*Fix this patch error* \n${description}\n\`\`\`diff\n${content}\n\`\`\`\nRe-read the latest content of the file before patching it again.\n`
+                          : isTest
+                            ? `*Fix these failing tests* \n${description}\n\`\`\`\n${content}\n\`\`\`\nFix the code under test unless the test itself is wrong.\n`
+                            : `*Fix this ${isPreview ? 'preview' : 'terminal'} error* \n\`\`\`${isPreview ? 'js' : 'sh'}\n${content}\n\`\`\`\n`,
+                      )
+                    }
+                    className={classNames(
+                      `px-2 py-1.5 rounded-md text-sm font-medium`,
+                      'bg-bolt-elements-button-primary-background',
+                      'hover:bg-bolt-elements-button-primary-backgroundHover',
+                      'focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-bolt-elements-button-danger-background',
+                      'text-bolt-elements-button-primary-text',
+                      'flex items-center gap-1.5',
+                    )}
+                  >
+                    <div className="i-ph:chat-circle-duotone"></div>
+                    Ask snapweb
+                  </button>
+                )}
                 <button
                   onClick={clearAlert}
                   className={classNames(
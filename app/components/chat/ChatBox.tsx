@@ -15,10 +15,14 @@ import { SupabaseConnection } from './SupabaseConnection';
 import { ExpoQrModal } from '~/components/workbench/ExpoQrModal';
 import styles from './BaseChat.module.scss';
 import type { ProviderInfo } from '~/types/model';
+import type { ModelCapabilities } from '~/lib/modules/llm/capabilities';
 import { ColorSchemeDialog } from '~/components/ui/ColorSchemeDialog';
 import type { DesignScheme } from '~/types/design-scheme';
 import type { ElementInfo } from '~/components/workbench/Inspector';
 import { McpTools } from './MCPTools';
+import { useStore } from '@nanostores/react';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { useTranslation } from '~/lib/i18n';
 
 interface ChatBoxProps {
   isModelSettingsCollapsed: boolean;
@@ -46,6 +50,9 @@ interface ChatBoxProps {
   qrModalOpen: boolean;
   setQrModalOpen: (open: boolean) => void;
   handleFileUpload: () => void;
+
+  /** what the selected model supports, inputs it doesn't support are blocked */
+  modelCapabilities?: ModelCapabilities;
   setProvider?: ((provider: ProviderInfo) => void) | undefined;
   model?: string | undefined;
   setModel?: ((model: string) => void) | undefined;
@@ -64,6 +71,10 @@ interface ChatBoxProps {
 }
 
 export const ChatBox: React.FC<ChatBoxProps> = (props) => {
+  const planMode = useStore(workbenchStore.planMode);
+  const { t } = useTranslation();
+  const acceptsImages = props.modelCapabilities?.vision !== false;
+
   return (
     <div
       className={classNames(
@@ -140,6 +151,12 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
           props.setImageDataList?.(props.imageDataList.filter((_, i) => i !== index));
         }}
       />
+      {props.imageDataList.length > 0 && !acceptsImages && (
+        <div className="flex items-center gap-2 mx-1.5 mb-2 text-xs text-red-500">
+          <div className="i-ph:warning-circle" />
+          {t('capabilities.removeImages')}
+        </div>
+      )}
       <ClientOnly>
         {() => (
           <ScreenshotStateManager
@@ -193,6 +210,12 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
             e.currentTarget.style.border = '1px solid var(--bolt-elements-borderColor)';
 
             const files = Array.from(e.dataTransfer.files);
+
+            if (!acceptsImages && files.some((file) => file.type.startsWith('image/'))) {
+              toast.error(t('capabilities.noImages'));
+              return;
+            }
+
             files.forEach((file) => {
               if (file.type.startsWith('image/')) {
                 const reader = new FileReader();
@@ -263,8 +286,13 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
         <div className="flex justify-between items-center text-sm p-4 pt-2">
           <div className="flex gap-1 items-center">
             <ColorSchemeDialog designScheme={props.designScheme} setDesignScheme={props.setDesignScheme} />
-            <McpTools />
-            <IconButton title="Upload file" className="transition-all" onClick={() => props.handleFileUpload()}>
+            <McpTools toolsUnsupported={props.modelCapabilities?.toolCalling === false} />
+            <IconButton
+              title={acceptsImages ? 'Upload file' : t('capabilities.noImages')}
+              className="transition-all"
+              disabled={!acceptsImages}
+              onClick={() => props.handleFileUpload()}
+            >
               <div className="i-ph:paperclip text-xl"></div>
             </IconButton>
             <IconButton
@@ -306,6 +334,21 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
                 {props.chatMode === 'discuss' ? <span>Discuss</span> : <span />}
               </IconButton>
             )}
+            {props.chatMode !== 'discuss' && (
+              <IconButton
+                title={planMode ? 'Plan mode: changes wait for your approval' : 'Plan mode'}
+                className={classNames(
+                  'transition-all flex items-center gap-1 px-1.5',
+                  planMode
+                    ? '!bg-bolt-elements-item-backgroundAccent !text-bolt-elements-item-contentAccent'
+                    : 'bg-bolt-elements-item-backgroundDefault text-bolt-elements-item-contentDefault',
+                )}
+                onClick={() => workbenchStore.setPlanMode(!planMode)}
+              >
+                <div className="i-ph:list-checks text-xl" />
+                {planMode ? <span>Plan</span> : <span />}
+              </IconButton>
+            )}
             <IconButton
               title="Model Settings"
               className={classNames('transition-all flex items-center gap-1', {
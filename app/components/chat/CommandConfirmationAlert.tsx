@@ -0,0 +1,82 @@
+import { useStore } from '@nanostores/react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { commandConfirmationStore, resolveCommandConfirmation } from '~/lib/stores/commandPolicy';
+import { classNames } from '~/utils/classNames';
+
+export default function CommandConfirmationAlert() {
+  const confirmation = useStore(commandConfirmationStore);
+
+  if (!confirmation) {
+    return null;
+  }
+
+  const { command, reason } = confirmation;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: -20 }}
+        transition={{ duration: 0.3 }}
+        className={`rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 p-4 mb-2`}
+      >
+        <div className="flex items-start">
+          {/* Icon */}
+          <motion.div
+            className="flex-shrink-0"
+            initial={{ scale: 0 }}
+            animate={{ scale: 1 }}
+            transition={{ delay: 0.2 }}
+          >
+            <div className={`i-ph:shield-warning-duotone text-xl text-bolt-elements-button-danger-text`}></div>
+          </motion.div>
+          {/* Content */}
+          <div className="ml-3 flex-1">
+            <h3 className={`text-sm font-medium text-bolt-elements-textPrimary`}>Confirm Command</h3>
+            <div className={`mt-2 text-sm text-bolt-elements-textSecondary`}>
+              <p>
+                snapweb wants to run a command that the safety policy flagged
+                {reason ? `: ${reason.charAt(0).toLowerCase()}${reason.slice(1)}.` : '.'} It won't run until you allow
+                it.
+              </p>
+              <pre className="text-xs font-mono whitespace-pre-wrap break-all text-bolt-elements-textPrimary p-2 bg-bolt-elements-background-depth-3 rounded mt-4 mb-4">
+                {command}
+              </pre>
+            </div>
+
+            {/* Actions */}
+            <div className={classNames('flex gap-2')}>
+              <button
+                onClick={() => resolveCommandConfirmation(false)}
+                className={classNames(
+                  `px-2 py-1.5 rounded-md text-sm font-medium`,
+                  'bg-bolt-elements-button-primary-background',
+                  'hover:bg-bolt-elements-button-primary-backgroundHover',
+                  'focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-bolt-elements-button-danger-background',
+                  'text-bolt-elements-button-primary-text',
+                  'flex items-center gap-1.5',
+                )}
+              >
+                <div className="i-ph:prohibit"></div>
+                Reject
+              </button>
+              <button
+                onClick={() => resolveCommandConfirmation(true)}
+                className={classNames(
+                  `px-2 py-1.5 rounded-md text-sm font-medium`,
+                  'bg-bolt-elements-button-secondary-background',
+                  'hover:bg-bolt-elements-button-secondary-backgroundHover',
+                  'focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-bolt-elements-button-secondary-background',
+                  'text-bolt-elements-button-secondary-text',
+                )}
+              >
+                Run anyway
+              </button>
+            </div>
+          </div>
+        </div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
@@ -4,8 +4,15 @@ import { Dialog, DialogRoot, DialogClose, DialogTitle, DialogButton } from '~/co
 import { IconButton } from '~/components/ui/IconButton';
 import { useMCPStore } from '~/lib/stores/mcp';
 import McpServerList from '~/components/@settings/tabs/mcp/McpServerList';
+import { useTranslation } from '~/lib/i18n';
 
-export function McpTools() {
+interface McpToolsProps {
+  /** the selected model can't call tools, the server doesn't send them */
+  toolsUnsupported?: boolean;
+}
+
+export function McpTools({ toolsUnsupported }: McpToolsProps) {
+  const { t } = useTranslation();
   const isInitialized = useMCPStore((state) => state.isInitialized);
   const serverTools = useMCPStore((state) => state.serverTools);
   const initialize = useMCPStore((state) => state.initialize);
@@ -50,14 +57,19 @@ export function McpTools() {
       <div className="flex">
         <IconButton
           onClick={() => setIsDialogOpen(!isDialogOpen)}
-          title="MCP Tools Available"
+          title={toolsUnsupported ? t('capabilities.noTools') : 'MCP Tools Available'}
           disabled={!isInitialized}
           className="transition-all disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {!isInitialized ? (
             <div className="i-svg-spinners:90-ring-with-bg text-bolt-elements-loader-progress text-xl animate-spin"></div>
           ) : (
-            <div className="i-bolt:mcp text-xl"></div>
+            <div className="relative">
+              <div className={classNames('i-bolt:mcp text-xl', toolsUnsupported ? 'opacity-50' : undefined)}></div>
+              {toolsUnsupported && serverEntries.length > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 w-2 h-2 rounded-full bg-amber-500" />
+              )}
+            </div>
           )}
         </IconButton>
       </div>
@@ -110,7 +122,7 @@ export function McpTools() {
                   )}
                 </div>
 
-                <div>{error && <p className="mt-2 text-sm text-bolt-elements-icon-error">{error}</p>}</div>
+                <div>{error && <p className="mt-2 text-sm text-red-500">{error}</p>}</div>
               </div>
 
               <div className="flex justify-end gap-2 mt-6">
@@ -2,6 +2,8 @@ import type { ProviderInfo } from '~/types/model';
 import { useEffect, useState, useRef } from 'react';
 import type { KeyboardEvent } from 'react';
 import type { ModelInfo } from '~/lib/modules/llm/types';
+import { formatTokenCount, getContextWindow, getModelCapabilities } from '~/lib/modules/llm/capabilities';
+import { useTranslation } from '~/lib/i18n';
 import { classNames } from '~/utils/classNames';
 
 interface ModelSelectorProps {
@@ -30,6 +32,32 @@ const isModelLikelyFree = (model: ModelInfo, providerName?: string): boolean =>
   return false;
 };
 
+const CAPABILITY_BADGES = [
+  { capability: 'vision', icon: 'i-ph:image' },
+  { capability: 'toolCalling', icon: 'i-ph:wrench' },
+  { capability: 'reasoning', icon: 'i-ph:brain' },
+  { capability: 'jsonMode', icon: 'i-ph:brackets-curly' },
+] as const;
+
+const ModelBadges = ({ model }: { model: ModelInfo }) => {
+  const { t } = useTranslation();
+  const capabilities = getModelCapabilities(model);
+  const contextWindow = getContextWindow(model);
+
+  return (
+    <div className="flex items-center gap-1.5 text-xs text-bolt-elements-textTertiary shrink-0">
+      {CAPABILITY_BADGES.filter(({ capability }) => capabilities[capability]).map(({ capability, icon }) => (
+        <span key={capability} className={icon} title={t(`capabilities.${capability}`)} />
+      ))}
+      <span
+        title={`${t('capabilities.context')}: ${contextWindow.toLocaleString()}, ${t('capabilities.output')}: ${model.maxTokenAllowed.toLocaleString()}`}
+      >
+        {formatTokenCount(contextWindow)}/{formatTokenCount(model.maxTokenAllowed)}
+      </span>
+    </div>
+  );
+};
+
 export const ModelSelector = ({
   model,
   setModel,
@@ -86,6 +114,8 @@ export const ModelSelector = ({
       );
     });
 
+  const selectedModel = modelList.find((m) => m.name === model);
+
   const filteredProviders = providerList.filter((p) =>
     p.name.toLowerCase().includes(providerSearchQuery.toLowerCase()),
   );
@@ -395,8 +425,9 @@ export const ModelSelector = ({
           aria-haspopup="listbox"
           tabIndex={0}
         >
-          <div className="flex items-center justify-between">
-            <div className="truncate">{modelList.find((m) => m.name === model)?.label || 'Select model'}</div>
+          <div className="flex items-center justify-between gap-2">
+            <div className="truncate flex-1">{selectedModel?.label || 'Select model'}</div>
+            {selectedModel && <ModelBadges model={selectedModel} />}
             <div
               className={classNames(
                 'i-ph:caret-down w-4 h-4 text-bolt-elements-textSecondary opacity-75',
@@ -513,11 +544,14 @@ export const ModelSelector = ({
                     }}
                     tabIndex={focusedModelIndex === index ? 0 : -1}
                   >
-                    <div className="flex items-center justify-between">
-                      <span>{modelOption.label}</span>
-                      {isModelLikelyFree(modelOption, provider?.name) && (
-                        <span className="i-ph:gift text-xs text-purple-400 ml-2" title="Free model" />
-                      )}
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate">{modelOption.label}</span>
+                      <div className="flex items-center gap-2">
+                        {isModelLikelyFree(modelOption, provider?.name) && (
+                          <span className="i-ph:gift text-xs text-purple-400" title="Free model" />
+                        )}
+                        <ModelBadges model={modelOption} />
+                      </div>
                     </div>
                   </div>
                 ))
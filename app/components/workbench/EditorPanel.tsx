@@ -25,6 +25,7 @@ import { workbenchStore } from '~/lib/stores/workbench';
 import { Search } from './Search'; // <-- Ensure Search is imported
 import { classNames } from '~/utils/classNames'; // <-- Import classNames if not already present
 import { LockManager } from './LockManager'; // <-- Import LockManager
+import { ProjectRulesButton } from './ProjectRulesButton';
 
 interface EditorPanelProps {
   files?: FileMap;
@@ -115,6 +116,7 @@ export const EditorPanel = memo(
                           Locks
                         </Tabs.Trigger>
                       </Tabs.List>
+                      <ProjectRulesButton files={files} />
                     </div>
                   </PanelHeader>
 
@@ -0,0 +1,215 @@
+import { useStore } from '@nanostores/react';
+import { memo, useMemo, useState, type ReactNode } from 'react';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { previewPendingChanges, type PendingChange, type PendingChangePreview } from '~/lib/stores/plan';
+import { classNames } from '~/utils/classNames';
+
+const EDITABLE_ACTIONS = ['file', 'patch', 'shell', 'start', 'build', 'test'];
+
+export const PendingChanges = memo(() => {
+  const pendingChanges = useStore(workbenchStore.pendingChanges);
+  const files = useStore(workbenchStore.files);
+  const [collapsed, setCollapsed] = useState(false);
+
+  const pending = useMemo(
+    () => Object.values(pendingChanges).filter((change) => change.status === 'pending'),
+    [pendingChanges],
+  );
+  const previews = useMemo(() => previewPendingChanges(pending, files), [pending, files]);
+
+  if (pending.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col max-h-[50%] border-b border-bolt-elements-borderColor bg-bolt-elements-background-depth-1">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-bolt-elements-borderColor">
+        <button
+          className="flex items-center gap-1.5 text-sm font-medium text-bolt-elements-textPrimary bg-transparent"
+          onClick={() => setCollapsed(!collapsed)}
+        >
+          <div className={collapsed ? 'i-ph:caret-right' : 'i-ph:caret-down'} />
+          {pending.length} pending {pending.length === 1 ? 'change' : 'changes'}
+        </button>
+        <div className="ml-auto flex items-center gap-1.5">
+          <ActionButton variant="secondary" onClick={() => workbenchStore.rejectAllPendingChanges()}>
+            Reject all
+          </ActionButton>
+          <ActionButton variant="primary" onClick={() => workbenchStore.approveAllPendingChanges()}>
+            Approve all
+          </ActionButton>
+        </div>
+      </div>
+      {!collapsed && (
+        <ul className="list-none overflow-y-auto divide-y divide-bolt-elements-borderColor">
+          {pending.map((change) => (
+            <PendingChangeItem key={change.id} change={change} preview={previews[change.id]} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+interface PendingChangeItemProps {
+  change: PendingChange;
+  preview?: PendingChangePreview;
+}
+
+const PendingChangeItem = memo(({ change, preview }: PendingChangeItemProps) => {
+  const [expanded, setExpanded] = useState(false);
+  const [draft, setDraft] = useState<string | undefined>(undefined);
+  const { action } = change.data;
+
+  const isEditing = draft !== undefined;
+  const canEdit = EDITABLE_ACTIONS.includes(action.type);
+
+  return (
+    <li className="px-3 py-2 text-sm">
+      <div className="flex items-center gap-2">
+        <button
+          className="flex items-center gap-1.5 min-w-0 flex-1 text-left bg-transparent text-bolt-elements-textPrimary"
+          onClick={() => setExpanded(!expanded)}
+        >
+          <div className={classNames('shrink-0', expanded ? 'i-ph:caret-down' : 'i-ph:caret-right')} />
+          <span className="truncate">{getChangeTitle(change)}</span>
+          {change.edited && <span className="text-xs text-bolt-elements-textTertiary">(edited)</span>}
+          {preview?.error && <div className="i-ph:warning text-bolt-elements-icon-error shrink-0" />}
+        </button>
+        {canEdit && !isEditing && (
+          <ActionButton
+            variant="secondary"
+            onClick={() => {
+              setDraft(action.content);
+              setExpanded(true);
+            }}
+          >
+            Edit
+          </ActionButton>
+        )}
+        <ActionButton variant="secondary" onClick={() => workbenchStore.rejectPendingChange(change.id)}>
+          Reject
+        </ActionButton>
+        <ActionButton
+          variant="primary"
+          disabled={isEditing}
+          onClick={() => workbenchStore.approvePendingChange(change.id)}
+        >
+          Approve
+        </ActionButton>
+      </div>
+      {expanded && (
+        <div className="mt-2 ml-5">
+          {isEditing ? (
+            <>
+              <textarea
+                className="w-full min-h-[160px] p-2 rounded-md font-mono text-xs bg-bolt-elements-background-depth-2 text-bolt-elements-textPrimary border border-bolt-elements-borderColor focus:outline-none"
+                value={draft}
+                onChange={(event) => setDraft(event.target.value)}
+              />
+              <div className="flex justify-end gap-1.5 mt-1.5">
+                <ActionButton variant="secondary" onClick={() => setDraft(undefined)}>
+                  Cancel
+                </ActionButton>
+                <ActionButton
+                  variant="primary"
+                  onClick={() => {
+                    workbenchStore.editPendingChange(change.id, draft);
+                    setDraft(undefined);
+                  }}
+                >
+                  Save
+                </ActionButton>
+              </div>
+            </>
+          ) : preview?.error ? (
+            <div className="text-xs text-bolt-elements-icon-error">{preview.error}</div>
+          ) : preview ? (
+            <DiffPreview diff={preview.diff} />
+          ) : action.content ? (
+            <pre className="p-2 rounded-md font-mono text-xs whitespace-pre-wrap bg-bolt-elements-background-depth-2 text-bolt-elements-textPrimary">
+              {action.content}
+            </pre>
+          ) : null}
+        </div>
+      )}
+    </li>
+  );
+});
+
+const DiffPreview = memo(({ diff }: { diff?: string }) => {
+  if (!diff) {
+    return <div className="text-xs text-bolt-elements-textTertiary">No changes</div>;
+  }
+
+  return (
+    <pre className="p-2 rounded-md font-mono text-xs overflow-x-auto bg-bolt-elements-background-depth-2">
+      {diff.split('\n').map((line, index) => (
+        <div
+          key={index}
+          className={classNames({
+            'text-green-500': line.startsWith('+'),
+            'text-red-500': line.startsWith('-'),
+            'text-bolt-elements-textTertiary': line.startsWith('@@'),
+            'text-bolt-elements-textPrimary': !/^[+\-@]/.test(line),
+          })}
+        >
+          {line || ' '}
+        </div>
+      ))}
+    </pre>
+  );
+});
+
+interface ActionButtonProps {
+  variant: 'primary' | 'secondary';
+  disabled?: boolean;
+  onClick: () => void;
+  children: ReactNode;
+}
+
+function ActionButton({ variant, disabled, onClick, children }: ActionButtonProps) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={classNames(
+        'px-2 py-1 rounded-md text-xs font-medium shrink-0 disabled:opacity-50 disabled:cursor-not-allowed',
+        variant === 'primary'
+          ? 'bg-bolt-elements-button-primary-background hover:bg-bolt-elements-button-primary-backgroundHover text-bolt-elements-button-primary-text'
+          : 'bg-bolt-elements-button-secondary-background hover:bg-bolt-elements-button-secondary-backgroundHover text-bolt-elements-button-secondary-text',
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+function getChangeTitle({ data: { action } }: PendingChange) {
+  switch (action.type) {
+    case 'file': {
+      return `Write ${action.filePath}`;
+    }
+    case 'patch': {
+      return `Update ${action.filePath}`;
+    }
+    case 'delete': {
+      return `Delete ${action.filePath}`;
+    }
+    case 'rename': {
+      return `Rename ${action.filePath} to ${action.newFilePath}`;
+    }
+    case 'mkdir': {
+      return `Create folder ${action.filePath}`;
+    }
+    case 'supabase': {
+      return action.operation === 'migration' ? `Supabase migration ${action.filePath}` : 'Supabase query';
+    }
+    case 'start': {
+      return `Start ${action.content}`;
+    }
+    default: {
+      return `Run ${action.content}`;
+    }
+  }
+}
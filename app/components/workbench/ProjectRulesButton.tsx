@@ -0,0 +1,45 @@
+import { memo } from 'react';
+import { toast } from 'react-toastify';
+import type { FileMap } from '~/lib/stores/files';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { PROJECT_RULES_FILES, PROJECT_RULES_TEMPLATE } from '~/lib/common/project-rules';
+import WithTooltip from '~/components/ui/Tooltip';
+import { WORK_DIR } from '~/utils/constants';
+
+interface ProjectRulesButtonProps {
+  files?: FileMap;
+}
+
+/**
+ * Opens the rules file of the project in the editor, and creates `.bolt/rules.md` if the project has none.
+ */
+export const ProjectRulesButton = memo(({ files }: ProjectRulesButtonProps) => {
+  const rulesFile = PROJECT_RULES_FILES.map((path) => `${WORK_DIR}/${path}`).find(
+    (filePath) => files?.[filePath]?.type === 'file',
+  );
+
+  const openRules = async () => {
+    if (rulesFile) {
+      workbenchStore.setSelectedFile(rulesFile);
+      return;
+    }
+
+    try {
+      await workbenchStore.createFile(`${WORK_DIR}/${PROJECT_RULES_FILES[0]}`, PROJECT_RULES_TEMPLATE);
+    } catch {
+      toast.error('Failed to create the project rules file');
+    }
+  };
+
+  return (
+    <WithTooltip tooltip={rulesFile ? 'Edit the project rules' : 'Create project rules for the AI'}>
+      <button
+        className="flex items-center gap-1 h-full bg-transparent hover:bg-bolt-elements-background-depth-3 py-0.5 px-2 rounded-lg text-sm text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary"
+        onClick={openRules}
+      >
+        <div className="i-ph:scroll" />
+        Rules
+      </button>
+    </WithTooltip>
+  );
+});
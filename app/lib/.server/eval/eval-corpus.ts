@@ -0,0 +1,52 @@
+/** a task of the evaluation corpus, run as the first message of a new chat */
+export interface EvalTask {
+  id: string;
+  prompt: string;
+
+  /** files of the project before the task, by path relative to the work dir */
+  files?: Record<string, string>;
+
+  /** files the response has to create, by path relative to the work dir */
+  expectedFiles?: string[];
+}
+
+// small tasks that cover a new project, a change of an existing one and a non-React stack
+export const DEFAULT_EVAL_CORPUS: EvalTask[] = [
+  {
+    id: 'counter',
+    prompt: 'Create a React counter app with Vite and TypeScript, with buttons to increment, decrement and reset.',
+    expectedFiles: ['package.json', 'index.html', 'src/App.tsx'],
+  },
+  {
+    id: 'todo',
+    prompt:
+      'Build a todo list with React and Vite where todos can be added, completed and deleted, and are kept in localStorage.',
+    expectedFiles: ['package.json', 'src/App.tsx'],
+  },
+  {
+    id: 'add-dark-mode',
+    prompt: 'Add a button that toggles between a light and a dark theme.',
+    files: {
+      'package.json': JSON.stringify(
+        {
+          name: 'landing',
+          private: true,
+          type: 'module',
+          scripts: { dev: 'vite', build: 'vite build' },
+          devDependencies: { vite: '^5.4.0' },
+        },
+        null,
+        2,
+      ),
+      'index.html':
+        '<!doctype html>\n<html>\n  <head>\n    <link rel="stylesheet" href="/style.css" />\n  </head>\n  <body>\n    <h1>Landing</h1>\n    <script type="module" src="/main.js"></script>\n  </body>\n</html>\n',
+      'style.css': 'body {\n  font-family: sans-serif;\n}\n',
+      'main.js': "console.log('landing');\n",
+    },
+  },
+  {
+    id: 'express-api',
+    prompt: 'Create a Node.js Express API with a GET /health route and CRUD routes for notes kept in memory.',
+    expectedFiles: ['package.json'],
+  },
+];
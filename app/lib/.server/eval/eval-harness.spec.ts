@@ -0,0 +1,107 @@
+import { readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { simulateReadableStream, type LanguageModelV1StreamPart } from 'ai';
+import { MockLanguageModelV1 } from 'ai/test';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PROVIDER_LIST } from '~/utils/constants';
+import { runCommand, runEvalTask } from './eval-harness';
+
+const openai = PROVIDER_LIST.find((p) => p.name === 'OpenAI')!;
+
+const response = [
+  'Adding a theme toggle.\n\n',
+  '<boltArtifact id="theme" title="Theme toggle">\n',
+  '<boltAction type="file" filePath="theme.js">export const toggle = () => {};</boltAction>\n',
+  '<boltAction type="patch" filePath="/home/project/main.js">@@ -1 +1,2 @@\n',
+  " console.log('landing');\n+import './theme.js';\n</boltAction>\n",
+  '<boltAction type="shell">npm install</boltAction>\n',
+  '<boltAction type="file" filePath="../outside.js">nope</boltAction>\n',
+  '</boltArtifact>',
+];
+
+const model = () =>
+  new MockLanguageModelV1({
+    doStream: async () => ({
+      stream: simulateReadableStream({
+        chunks: [
+          ...response.map((textDelta): LanguageModelV1StreamPart => ({ type: 'text-delta', textDelta })),
+          { type: 'finish', finishReason: 'stop', usage: { promptTokens: 300, completionTokens: 50 } },
+        ],
+      }),
+      rawCall: { rawPrompt: null, rawSettings: {} },
+    }),
+  });
+
+const task = {
+  id: 'theme',
+  prompt: 'Add a theme toggle',
+  files: { 'main.js': "console.log('landing');\n" },
+  expectedFiles: ['theme.js', 'style.css'],
+};
+
+describe('runEvalTask', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should apply the actions of the response and score them', async () => {
+    vi.spyOn(openai, 'getModelInstance').mockImplementation(model);
+
+    const result = await runEvalTask(task, {
+      provider: 'OpenAI',
+      model: 'gpt-4o',
+      promptId: 'default',
+      build: false,
+      keepProjects: true,
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.actions).toEqual({ file: 2, patch: 1, shell: 1 });
+    expect(result.shellCommands).toEqual(['npm install']);
+    expect(result.failedActions).toEqual([expect.stringContaining('outside of the project')]);
+    expect(result.fileCount).toBe(2);
+    expect(result.missingFiles).toEqual(['style.css']);
+    expect(result.usage.totalTokens).toBe(350);
+    expect(await readFile(join(result.projectDir!, 'main.js'), 'utf-8')).toBe(
+      "console.log('landing');\nimport './theme.js';\n",
+    );
+
+    await rm(result.projectDir!, { recursive: true, force: true });
+  });
+
+  it('should report a failed request', async () => {
+    vi.spyOn(openai, 'getModelInstance').mockImplementation(() => {
+      throw new Error('No API key');
+    });
+
+    const result = await runEvalTask(task, { provider: 'OpenAI', model: 'gpt-4o', promptId: 'default', build: false });
+
+    expect(result.error).toBeDefined();
+    expect(result.fileCount).toBe(0);
+  });
+});
+
+describe('runCommand', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should not pass the API keys to the project', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-secret');
+
+    const result = await runCommand('echo "key:$OPENAI_API_KEY"', tmpdir(), 5000);
+
+    expect(result.ok).toBe(true);
+    expect(result.output.trim()).toBe('key:');
+  });
+
+  it('should kill the whole command when it times out', async () => {
+    const start = Date.now();
+    const result = await runCommand('sleep 30 & sleep 30', tmpdir(), 200);
+
+    expect(result.ok).toBe(false);
+    expect(result.output).toContain('Timed out');
+    expect(Date.now() - start).toBeLessThan(5000);
+  });
+});
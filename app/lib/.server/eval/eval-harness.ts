@@ -0,0 +1,369 @@
+import { spawn } from 'node:child_process';
+import { mkdir, mkdtemp, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join, relative, resolve } from 'node:path';
+import { streamText } from '~/lib/.server/llm/stream-text';
+import { StreamingMessageParser, type ParserDiagnostic } from '~/lib/runtime/message-parser';
+import type { BoltAction } from '~/types/actions';
+import { applyFilePatch, isNewFilePatch } from '~/utils/patch';
+import { WORK_DIR } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+import type { EvalTask } from './eval-corpus';
+
+const logger = createScopedLogger('eval');
+
+const MESSAGE_ID = 'eval';
+
+// the output of a command that is kept in the report, the end of it has the error
+const OUTPUT_TAIL = 2000;
+
+export const DEFAULT_COMMAND_TIMEOUT = 5 * 60 * 1000;
+
+export interface EvalOptions {
+  provider: string;
+  model: string;
+
+  /** the id of the prompt of the `PromptLibrary` the tasks are run with */
+  promptId: string;
+
+  /** the server environment, with the API keys and `LLM_REPLAY_MODE` */
+  env?: Record<string, string>;
+
+  /** runs `npm install` and `npm run build` in the project of the response, without the API keys of `env` */
+  build?: boolean;
+  commandTimeout?: number;
+
+  /** keeps the project directories of the tasks for a look at the output */
+  keepProjects?: boolean;
+}
+
+export interface CommandResult {
+  command: string;
+  ok: boolean;
+  durationMs: number;
+
+  /** the end of the combined output */
+  output: string;
+}
+
+export interface EvalResult {
+  taskId: string;
+  promptId: string;
+  provider: string;
+  model: string;
+
+  /** structural problems the parser recovered from */
+  parseErrors: ParserDiagnostic['code'][];
+
+  /** actions that couldn't be applied, like patches that don't match the file */
+  failedActions: string[];
+  actions: Partial<Record<BoltAction['type'], number>>;
+
+  /** files of the project after the response, without `node_modules` */
+  fileCount: number;
+  missingFiles: string[];
+
+  /** shell commands of the response, recorded but not run */
+  shellCommands: string[];
+  install?: CommandResult;
+  build?: CommandResult;
+  usage: { promptTokens: number; completionTokens: number; totalTokens: number };
+  durationMs: number;
+
+  /** the request failed, the other fields are empty */
+  error?: string;
+  projectDir?: string;
+}
+
+/**
+ * Feeds a streamed response through the `StreamingMessageParser` like the chat does, collecting the actions and
+ * the diagnostics.
+ */
+export function createResponseParser() {
+  const actions: BoltAction[] = [];
+  const diagnostics: ParserDiagnostic[] = [];
+  const parser = new StreamingMessageParser({
+    callbacks: {
+      onActionClose: ({ action }) => actions.push(action),
+      onDiagnostic: (diagnostic) => diagnostics.push(diagnostic),
+    },
+  });
+  let text = '';
+
+  return {
+    actions,
+    diagnostics,
+    push(delta: string) {
+      text += delta;
+      parser.parse(MESSAGE_ID, text);
+    },
+    end() {
+      parser.end(MESSAGE_ID, text);
+    },
+  };
+}
+
+// paths of actions are relative to the work dir or absolute in it, nothing may be written outside the project
+function projectPath(projectDir: string, filePath: string) {
+  const relativePath = filePath.replace(WORK_DIR, '').replace(/^\/+/, '');
+  const fullPath = resolve(projectDir, relativePath);
+
+  if (relative(projectDir, fullPath).startsWith('..')) {
+    throw new Error(`${filePath} is outside of the project`);
+  }
+
+  return fullPath;
+}
+
+async function writeProjectFile(path: string, content: string) {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, content);
+}
+
+/**
+ * Applies the file actions of a response to a project directory. Shell, start and Supabase actions are not run,
+ * the harness installs and builds the project itself.
+ * @returns The actions that failed, with the reason
+ */
+export async function applyActions(projectDir: string, actions: BoltAction[]) {
+  const failed: string[] = [];
+
+  for (const action of actions) {
+    try {
+      switch (action.type) {
+        case 'file': {
+          await writeProjectFile(projectPath(projectDir, action.filePath), action.content);
+          break;
+        }
+        case 'patch': {
+          const path = projectPath(projectDir, action.filePath);
+
+          // like in the webcontainer, only patches of empty search blocks may create the file
+          const content = await readFile(path, 'utf-8').catch((error) => {
+            if (isNewFilePatch(action.content)) {
+              return '';
+            }
+
+            throw error;
+          });
+          await writeProjectFile(path, applyFilePatch(content, action.content));
+          break;
+        }
+        case 'delete': {
+          await rm(projectPath(projectDir, action.filePath), { recursive: true, force: true });
+          break;
+        }
+        case 'rename': {
+          const newPath = projectPath(projectDir, action.newFilePath);
+          await mkdir(dirname(newPath), { recursive: true });
+          await rename(projectPath(projectDir, action.filePath), newPath);
+          break;
+        }
+        case 'mkdir': {
+          await mkdir(projectPath(projectDir, action.filePath), { recursive: true });
+          break;
+        }
+      }
+    } catch (error) {
+      failed.push(`${action.type} ${'filePath' in action ? action.filePath : ''}: ${(error as Error).message}`);
+    }
+  }
+
+  return failed;
+}
+
+async function listFiles(dir: string, base = dir): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries
+      .filter((entry) => entry.name !== 'node_modules')
+      .map((entry) =>
+        entry.isDirectory() ? listFiles(join(dir, entry.name), base) : [relative(base, join(dir, entry.name))],
+      ),
+  );
+
+  return files.flat();
+}
+
+/*
+ * the projects are written by the model, their scripts must not see the API keys of the environment, and install
+ * scripts of the dependencies don't run at all. NODE_ENV is left out too, a production one would make npm skip the
+ * dev dependencies the build needs
+ */
+const COMMAND_ENV_KEYS = ['PATH', 'HOME'];
+
+function commandEnv(): NodeJS.ProcessEnv {
+  const env = { ...process.env };
+
+  for (const key of Object.keys(env)) {
+    if (!COMMAND_ENV_KEYS.includes(key)) {
+      delete env[key];
+    }
+  }
+
+  env.HOME ??= tmpdir();
+  env.CI = 'true';
+
+  return env;
+}
+
+export function runCommand(command: string, cwd: string, timeout: number): Promise<CommandResult> {
+  const start = Date.now();
+
+  return new Promise((resolvePromise) => {
+    // a group of its own, so a timeout kills npm and everything it started, not just the shell
+    const child = spawn(command, { cwd, shell: true, detached: true, env: commandEnv() });
+    let output = '';
+    let settled = false;
+
+    const append = (data: Buffer) => {
+      output = (output + data.toString()).slice(-OUTPUT_TAIL);
+    };
+
+    const settle = (ok: boolean) => {
+      if (!settled) {
+        settled = true;
+        clearTimeout(timer);
+        resolvePromise({ command, ok, durationMs: Date.now() - start, output });
+      }
+    };
+
+    child.stdout.on('data', append);
+    child.stderr.on('data', append);
+
+    const timer = setTimeout(() => {
+      append(Buffer.from(`\nTimed out after ${timeout}ms`));
+
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        // the group has exited already
+      }
+
+      // processes that escaped the group may still hold the pipes open
+      settle(false);
+    }, timeout);
+
+    child.on('error', (error) => {
+      append(Buffer.from(`\n${error.message}`));
+      settle(false);
+    });
+    child.on('close', (code) => settle(code === 0));
+  });
+}
+
+/**
+ * Installs and builds the project, the build is skipped if the project has no build script.
+ */
+async function buildProject(projectDir: string, timeout: number) {
+  let scripts: Record<string, string> | undefined;
+
+  try {
+    scripts = JSON.parse(await readFile(join(projectDir, 'package.json'), 'utf-8')).scripts;
+  } catch {
+    return {};
+  }
+
+  const install = await runCommand('npm install --ignore-scripts --no-audit --no-fund', projectDir, timeout);
+
+  if (!install.ok || !scripts?.build) {
+    return { install };
+  }
+
+  return { install, build: await runCommand('npm run build', projectDir, timeout) };
+}
+
+/**
+ * Runs a task through `streamText` with the prompt and model of the options and scores what the response builds.
+ */
+export async function runEvalTask(task: EvalTask, options: EvalOptions): Promise<EvalResult> {
+  const { provider, model, promptId } = options;
+  const start = Date.now();
+  const projectDir = await mkdtemp(join(tmpdir(), `bolt-eval-${task.id}-`));
+  const result: EvalResult = {
+    taskId: task.id,
+    promptId,
+    provider,
+    model,
+    parseErrors: [],
+    failedActions: [],
+    actions: {},
+    fileCount: 0,
+    missingFiles: task.expectedFiles ?? [],
+    shellCommands: [],
+    usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    durationMs: 0,
+  };
+
+  try {
+    for (const [path, content] of Object.entries(task.files ?? {})) {
+      await writeProjectFile(join(projectDir, path), content);
+    }
+
+    const response = await streamText({
+      messages: [{ role: 'user', content: `[Model: ${model}]\n\n[Provider: ${provider}]\n\n${task.prompt}` }],
+      env: options.env as unknown as Env,
+      files: Object.fromEntries(
+        Object.entries(task.files ?? {}).map(([path, content]) => [
+          `${WORK_DIR}/${path}`,
+          { type: 'file', content, isBinary: false },
+        ]),
+      ),
+      promptId,
+      chatMode: 'build',
+
+      // a response of another model would be scored as the response of this one
+      fallback: false,
+    });
+    const parser = createResponseParser();
+
+    for await (const part of response.fullStream) {
+      if (part.type === 'text-delta') {
+        parser.push(part.textDelta);
+      } else if (part.type === 'error') {
+        throw part.error instanceof Error ? part.error : new Error(String(part.error?.message ?? part.error));
+      }
+    }
+
+    parser.end();
+
+    const usage = await response.usage;
+    result.usage = {
+      promptTokens: usage.promptTokens || 0,
+      completionTokens: usage.completionTokens || 0,
+      totalTokens: usage.totalTokens || 0,
+    };
+    result.parseErrors = parser.diagnostics.map((diagnostic) => diagnostic.code);
+
+    for (const action of parser.actions) {
+      result.actions[action.type] = (result.actions[action.type] ?? 0) + 1;
+
+      if (action.type === 'shell') {
+        result.shellCommands.push(action.content.trim());
+      }
+    }
+
+    result.failedActions = await applyActions(projectDir, parser.actions);
+
+    const files = await listFiles(projectDir);
+    result.fileCount = files.length;
+    result.missingFiles = (task.expectedFiles ?? []).filter((file) => !files.includes(file));
+
+    if (options.build !== false) {
+      Object.assign(result, await buildProject(projectDir, options.commandTimeout ?? DEFAULT_COMMAND_TIMEOUT));
+    }
+  } catch (error) {
+    logger.error(`Task ${task.id} failed`, error);
+    result.error = error instanceof Error ? error.message : String(error);
+  } finally {
+    result.durationMs = Date.now() - start;
+
+    if (options.keepProjects) {
+      result.projectDir = projectDir;
+    } else {
+      await rm(projectDir, { recursive: true, force: true });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { EvalResult } from './eval-harness';
+import { compareReports, scoreResult, summarizeReport, type EvalReport } from './eval-report';
+
+const result = (overrides: Partial<EvalResult> = {}): EvalResult => ({
+  taskId: 'counter',
+  promptId: 'default',
+  provider: 'OpenAI',
+  model: 'gpt-4o',
+  parseErrors: [],
+  failedActions: [],
+  actions: { file: 3 },
+  fileCount: 3,
+  missingFiles: [],
+  shellCommands: [],
+  install: { command: 'npm install', ok: true, durationMs: 1, output: '' },
+  build: { command: 'npm run build', ok: true, durationMs: 1, output: '' },
+  usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+  durationMs: 10,
+  ...overrides,
+});
+
+const report = (promptId: string, results: EvalResult[]): EvalReport => ({
+  promptId,
+  provider: 'OpenAI',
+  model: 'gpt-4o',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  results,
+});
+
+describe('scoreResult', () => {
+  it('should score the passed checks', () => {
+    expect(scoreResult(result())).toBe(1);
+    expect(scoreResult(result({ build: { command: 'npm run build', ok: false, durationMs: 1, output: '' } }))).toBe(
+      5 / 6,
+    );
+    expect(scoreResult(result({ install: undefined, build: undefined, missingFiles: ['index.html'] }))).toBe(3 / 4);
+    expect(scoreResult(result({ error: 'No API key' }))).toBe(0);
+  });
+});
+
+describe('compareReports', () => {
+  it('should mark the metrics that got worse', () => {
+    const base = report('default', [result(), result({ taskId: 'todo' })]);
+    const head = report('optimized', [
+      result({ usage: { promptTokens: 50, completionTokens: 50, totalTokens: 100 } }),
+      result({ taskId: 'todo', parseErrors: ['unclosed-action'], fileCount: 2 }),
+    ]);
+
+    expect(summarizeReport(head)).toMatchObject({ tasks: 2, parseErrors: 1, builds: { passed: 2, total: 2 } });
+
+    const changes = Object.fromEntries(compareReports(base, head).map((change) => [change.metric, change]));
+
+    expect(changes.parseErrors).toMatchObject({ base: 0, head: 1, regression: true });
+    expect(changes.score.regression).toBe(true);
+    expect(changes.averageFileCount).toMatchObject({ base: 3, head: 2.5, regression: true });
+    expect(changes.totalTokens).toMatchObject({ base: 300, head: 250, regression: false });
+    expect(changes.builds.regression).toBe(false);
+  });
+});
@@ -0,0 +1,165 @@
+import type { EvalResult } from './eval-harness';
+
+/** the results of a corpus run with one prompt and model */
+export interface EvalReport {
+  promptId: string;
+  provider: string;
+  model: string;
+  createdAt: string;
+  results: EvalResult[];
+}
+
+export interface EvalSummary {
+  promptId: string;
+  tasks: number;
+
+  /** the mean score of the tasks, from 0 to 1 */
+  score: number;
+  errors: number;
+  parseErrors: number;
+  failedActions: number;
+  missingFiles: number;
+
+  /** tasks that built, of the tasks that were built */
+  builds: { passed: number; total: number };
+  averageFileCount: number;
+  totalTokens: number;
+}
+
+export interface MetricChange {
+  metric: keyof Omit<EvalSummary, 'promptId' | 'tasks' | 'builds'> | 'builds';
+  base: number;
+  head: number;
+
+  /** the change is for the worse, like a lower score or more parse errors */
+  regression: boolean;
+}
+
+// the token count is in neither, a longer response can be a better one
+const HIGHER_IS_BETTER = new Set<MetricChange['metric']>(['score', 'builds', 'averageFileCount']);
+const LOWER_IS_BETTER = new Set<MetricChange['metric']>(['errors', 'parseErrors', 'failedActions', 'missingFiles']);
+
+/**
+ * Scores a task from 0 to 1 by the checks it passed: the request, the parser, the actions, the expected files
+ * and the build, if the project was built.
+ */
+export function scoreResult(result: EvalResult) {
+  if (result.error) {
+    return 0;
+  }
+
+  const checks = [
+    result.parseErrors.length === 0,
+    result.failedActions.length === 0,
+    result.missingFiles.length === 0,
+    result.fileCount > 0,
+  ];
+
+  if (result.install) {
+    checks.push(result.install.ok);
+  }
+
+  if (result.build) {
+    checks.push(result.build.ok);
+  }
+
+  return checks.filter(Boolean).length / checks.length;
+}
+
+export function summarizeReport(report: EvalReport): EvalSummary {
+  const { results } = report;
+  const sum = (value: (result: EvalResult) => number) => results.reduce((total, result) => total + value(result), 0);
+  const built = results.filter((result) => result.build);
+
+  return {
+    promptId: report.promptId,
+    tasks: results.length,
+    score: results.length ? sum(scoreResult) / results.length : 0,
+    errors: results.filter((result) => result.error).length,
+    parseErrors: sum((result) => result.parseErrors.length),
+    failedActions: sum((result) => result.failedActions.length),
+    missingFiles: sum((result) => result.missingFiles.length),
+    builds: { passed: built.filter((result) => result.build?.ok).length, total: built.length },
+    averageFileCount: results.length ? sum((result) => result.fileCount) / results.length : 0,
+    totalTokens: sum((result) => result.usage.totalTokens),
+  };
+}
+
+/**
+ * The changes of the metrics from a base report to a head report, like a prompt change against the current one.
+ */
+export function compareReports(base: EvalReport, head: EvalReport): MetricChange[] {
+  const baseSummary = summarizeReport(base);
+  const headSummary = summarizeReport(head);
+  const metrics: MetricChange['metric'][] = [
+    'score',
+    'builds',
+    'errors',
+    'parseErrors',
+    'failedActions',
+    'missingFiles',
+    'averageFileCount',
+    'totalTokens',
+  ];
+
+  return metrics.map((metric) => {
+    const value = (summary: EvalSummary) => (metric === 'builds' ? summary.builds.passed : summary[metric]);
+    const change = value(headSummary) - value(baseSummary);
+
+    return {
+      metric,
+      base: value(baseSummary),
+      head: value(headSummary),
+      regression: (HIGHER_IS_BETTER.has(metric) && change < 0) || (LOWER_IS_BETTER.has(metric) && change > 0),
+    };
+  });
+}
+
+const formatNumber = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(2));
+
+function buildStatus(result: EvalResult) {
+  if (result.build) {
+    return result.build.ok ? 'ok' : 'failed';
+  }
+
+  return result.install?.ok === false ? 'no install' : '-';
+}
+
+/**
+ * A plain text table of a report, one row per task.
+ */
+export function formatReport(report: EvalReport) {
+  const summary = summarizeReport(report);
+  const rows = report.results.map((result) =>
+    [
+      result.taskId.padEnd(20),
+      formatNumber(scoreResult(result)).padStart(5),
+      String(result.parseErrors.length).padStart(6),
+      String(result.fileCount).padStart(5),
+      buildStatus(result).padEnd(10),
+      String(result.usage.totalTokens).padStart(7),
+      result.error ?? '',
+    ].join('  '),
+  );
+
+  return [
+    `${report.promptId} (${report.provider}/${report.model})`,
+    ['task'.padEnd(20), 'score', 'parse'.padStart(6), 'files', 'build'.padEnd(10), 'tokens'.padStart(7)].join('  '),
+    ...rows,
+    `score ${formatNumber(summary.score)}, builds ${summary.builds.passed}/${summary.builds.total}, ` +
+      `${summary.parseErrors} parse errors, ${summary.failedActions} failed actions, ${summary.totalTokens} tokens`,
+  ].join('\n');
+}
+
+/**
+ * A plain text table of the changes between two reports, regressions are marked.
+ */
+export function formatComparison(base: EvalReport, head: EvalReport) {
+  return [
+    `${base.promptId} -> ${head.promptId}`,
+    ...compareReports(base, head).map(
+      ({ metric, base: baseValue, head: headValue, regression }) =>
+        `${metric.padEnd(18)} ${formatNumber(baseValue).padStart(8)} -> ${formatNumber(headValue).padStart(8)}${regression ? '  regression' : ''}`,
+    ),
+  ].join('\n');
+}
@@ -0,0 +1,182 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ActionFunctionArgs } from '@remix-run/cloudflare';
+import { simulateReadableStream, type LanguageModelV1CallOptions, type LanguageModelV1StreamPart } from 'ai';
+import { MockLanguageModelV1 } from 'ai/test';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { action } from '~/routes/api.chat';
+import { PROVIDER_LIST, WORK_DIR } from '~/utils/constants';
+import type { ReplayMode } from './replay-provider';
+
+const openai = PROVIDER_LIST.find((p) => p.name === 'OpenAI')!;
+
+const response = [
+  'I will add a counter.\n\n',
+  '<boltArtifact id="counter" title="Counter">\n',
+  '<boltAction type="file" filePath="src/App.tsx">export default function App() {}</boltAction>\n',
+  '</boltArtifact>',
+];
+
+const systemPromptOf = (options: LanguageModelV1CallOptions) =>
+  options.prompt.find((message) => message.role === 'system')?.content ?? '';
+
+// the live provider the fixtures are recorded from, it answers the summary, the context selection and the coder
+const liveModel = () =>
+  new MockLanguageModelV1({
+    doGenerate: async (options) => ({
+      text: systemPromptOf(options).includes('summarize')
+        ? '# Project Overview\n- **Project**: Counter'
+        : '<updateContextBuffer>\n<includeFile path="src/App.tsx"/>\n</updateContextBuffer>',
+      finishReason: 'stop',
+      usage: { promptTokens: 100, completionTokens: 10 },
+      rawCall: { rawPrompt: null, rawSettings: {} },
+    }),
+    doStream: async () => ({
+      stream: simulateReadableStream({
+        chunks: [
+          ...response.map((textDelta): LanguageModelV1StreamPart => ({ type: 'text-delta', textDelta })),
+          { type: 'finish', finishReason: 'stop', usage: { promptTokens: 200, completionTokens: 40 } },
+        ],
+      }),
+      rawCall: { rawPrompt: null, rawSettings: {} },
+    }),
+  });
+
+const chatRequest = (signal?: AbortSignal, options: Record<string, unknown> = {}) =>
+  new Request('http://localhost/api/chat', {
+    method: 'POST',
+    signal,
+    headers: { Cookie: `apiKeys=${encodeURIComponent(JSON.stringify({ OpenAI: 'sk-test' }))}` },
+    body: JSON.stringify({
+      messages: [{ id: '1', role: 'user', content: '[Model: gpt-4o]\n\n[Provider: OpenAI]\n\nAdd a counter' }],
+      files: {
+        [`${WORK_DIR}/src/App.tsx`]: { type: 'file', content: 'export default function App() {}', isBinary: false },
+      },
+      promptId: 'default',
+      contextOptimization: true,
+      chatMode: 'build',
+      maxLLMSteps: 1,
+      ...options,
+    }),
+  });
+
+const chat = async (mode: ReplayMode, fixturesDir: string) => {
+  const context = { cloudflare: { env: { LLM_REPLAY_MODE: mode, LLM_FIXTURES_DIR: fixturesDir } } };
+  const res = await action({ request: chatRequest(), context, params: {} } as unknown as ActionFunctionArgs);
+
+  // the message ids are random, everything else of the stream comes from the fixtures
+  return (await res.text()).replace(/"messageId":"[^"]+"/g, '"messageId":"msg"');
+};
+
+describe('api.chat', () => {
+  let fixturesDir: string;
+
+  beforeAll(async () => {
+    fixturesDir = await mkdtemp(join(tmpdir(), 'chat-fixtures-'));
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('should replay a recorded chat without calling the provider', async () => {
+    const getModelInstance = vi.spyOn(openai, 'getModelInstance').mockImplementation(liveModel);
+    const recorded = await chat('record', fixturesDir);
+
+    // the summary, the context selection and the response
+    expect(await readdir(fixturesDir)).toHaveLength(3);
+
+    getModelInstance.mockImplementation(() => {
+      throw new Error('The provider must not be called when replaying');
+    });
+
+    const replayed = await chat('replay', fixturesDir);
+
+    expect(replayed).toBe(recorded);
+    expect(replayed).toContain('"type":"chatSummary","summary":"# Project Overview\\n- **Project**: Counter"');
+    expect(replayed).toContain('"type":"codeContext","files":["src/App.tsx"]');
+    expect(replayed).toContain(JSON.stringify(response[1]));
+    expect(replayed).toContain('"promptTokens":400');
+  });
+
+  it('should stop the calls to the provider when the request is aborted', async () => {
+    const signals: (AbortSignal | undefined)[] = [];
+    const model = liveModel();
+    const doGenerate = model.doGenerate.bind(model);
+
+    model.doGenerate = async (options) => {
+      signals.push(options.abortSignal);
+      return doGenerate(options);
+    };
+
+    // the response never finishes on its own, only the abort ends it
+    model.doStream = async (options) => {
+      signals.push(options.abortSignal);
+
+      return {
+        stream: new ReadableStream<LanguageModelV1StreamPart>({
+          start(controller) {
+            controller.enqueue({ type: 'text-delta', textDelta: response[0] });
+            options.abortSignal?.addEventListener('abort', () => controller.error(options.abortSignal?.reason));
+          },
+        }),
+        rawCall: { rawPrompt: null, rawSettings: {} },
+      };
+    };
+
+    vi.spyOn(openai, 'getModelInstance').mockReturnValue(model);
+
+    const controller = new AbortController();
+    const res = await action({
+      request: chatRequest(controller.signal),
+      context: { cloudflare: { env: {} } },
+      params: {},
+    } as unknown as ActionFunctionArgs);
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let body = '';
+
+    while (!body.includes(JSON.stringify(response[0]))) {
+      body += decoder.decode((await reader.read()).value);
+    }
+
+    controller.abort();
+    await reader.cancel();
+
+    // the summary, the context selection and the response
+    expect(signals).toHaveLength(3);
+    expect(signals.every((signal) => signal?.aborted)).toBe(true);
+  });
+
+  it('should report the usage of a response that failed over before it streamed', async () => {
+    const model = liveModel();
+    const doStream = model.doStream.bind(model);
+    let streams = 0;
+
+    // the first model can't be reached, a network failure isn't retried by the AI SDK
+    model.doStream = async (options) => {
+      if (streams++ === 0) {
+        throw new TypeError('fetch failed');
+      }
+
+      return doStream(options);
+    };
+
+    vi.spyOn(openai, 'getModelInstance').mockReturnValue(model);
+
+    const res = await action({
+      request: chatRequest(undefined, { fallbackChain: [{ provider: 'OpenAI', model: 'gpt-4o-mini' }] }),
+      context: { cloudflare: { env: {} } },
+      params: {},
+    } as unknown as ActionFunctionArgs);
+    const body = await res.text();
+
+    expect(streams).toBe(2);
+    expect(body).toContain('"status":"connected"');
+    expect(body).toContain(JSON.stringify(response[1]));
+    expect(body).toContain('"type":"usage"');
+    expect(body).toContain('"message":"Response Generated"');
+  });
+});
@@ -0,0 +1,38 @@
+import { tool, type ToolSet } from 'ai';
+import { z } from 'zod';
+import { ARTIFACT_TOOL_NAMES, ARTIFACT_TOOL_RESULT } from '~/utils/constants';
+
+/**
+ * Steps the model needs at least to write a project file by file when artifact actions are tool calls.
+ */
+export const ARTIFACT_TOOLS_MIN_STEPS = 25;
+
+/**
+ * Tools that replace the `<boltArtifact>` protocol for models with native function calling. They don't do
+ * anything on the server, the client turns the tool calls into artifact actions and runs them in the
+ * workbench. Acknowledging the call lets the model continue with its next step.
+ */
+export const artifactTools: ToolSet = {
+  [ARTIFACT_TOOL_NAMES.WRITE_FILE]: tool({
+    description: 'Create a file or overwrite an existing file in the project with the given content.',
+    parameters: z.object({
+      filePath: z.string().describe('Path of the file relative to the project root, e.g. src/App.tsx'),
+      content: z.string().describe('The complete content of the file'),
+    }),
+    execute: async () => ARTIFACT_TOOL_RESULT,
+  }),
+  [ARTIFACT_TOOL_NAMES.RUN_COMMAND]: tool({
+    description: 'Run a shell command in the project root, e.g. to install dependencies.',
+    parameters: z.object({
+      command: z.string().describe('The shell command to run'),
+    }),
+    execute: async () => ARTIFACT_TOOL_RESULT,
+  }),
+  [ARTIFACT_TOOL_NAMES.START_DEV_SERVER]: tool({
+    description: 'Start the development server of the project. Call it once, after all other actions.',
+    parameters: z.object({
+      command: z.string().describe('The command that starts the dev server, e.g. npm run dev'),
+    }),
+    execute: async () => ARTIFACT_TOOL_RESULT,
+  }),
+};
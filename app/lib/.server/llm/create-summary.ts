@@ -4,6 +4,8 @@ import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROVIDER_LIST } from '~/utils/constant
 import { extractCurrentContext, extractPropertiesFromMessage, simplifyBoltActions } from './utils';
 import { createScopedLogger } from '~/utils/logger';
 import { LLMManager } from '~/lib/modules/llm/manager';
+import type { StageModel } from '~/lib/modules/llm/stage-models';
+import { withReplay } from './replay-provider';
 
 const logger = createScopedLogger('create-summary');
 
@@ -15,6 +17,12 @@ export async function createSummary(props: {
   promptId?: string;
   contextOptimization?: boolean;
   onFinish?: (resp: GenerateTextResult<Record<string, CoreTool<any, any>>, never>) => void;
+
+  /** runs with this model instead of the one selected in the last user message */
+  model?: StageModel;
+
+  /** stops the request to the provider, the chat request's signal when the user stops the response */
+  abortSignal?: AbortSignal;
 }) {
   const { messages, env: serverEnv, apiKeys, providerSettings, onFinish } = props;
   let currentModel = DEFAULT_MODEL;
@@ -39,6 +47,11 @@ export async function createSummary(props: {
     return message;
   });
 
+  if (props.model) {
+    currentModel = props.model.model;
+    currentProvider = props.model.provider;
+  }
+
   const provider = PROVIDER_LIST.find((p) => p.name === currentProvider) || DEFAULT_PROVIDER;
   const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider);
   let modelDetails = staticModels.find((m) => m.name === currentModel);
@@ -179,12 +192,13 @@ ${slicedMessages
 
 Please provide a summary of the chat till now including the hitorical summary of the chat.
 `,
-    model: provider.getModelInstance({
+    model: withReplay(provider, serverEnv).getModelInstance({
       model: currentModel,
       serverEnv,
       apiKeys,
       providerSettings,
     }),
+    abortSignal: props.abortSignal,
   });
 
   const response = resp.text;
@@ -255,6 +255,22 @@ export class FallbackManager {
     return healthResult.success;
   }
 
+  /**
+   * Check if a provider is healthy by its name, for fallback chains the user configured
+   */
+  async isProviderHealthy(
+    providerName: string,
+    options: {
+      apiKeys?: Record<string, string>;
+      providerSettings?: Record<string, IProviderSetting>;
+      serverEnv?: any;
+    },
+  ): Promise<boolean> {
+    const provider = PROVIDER_LIST.find((p) => p.name === providerName);
+
+    return provider ? this._isProviderHealthy(provider, options) : false;
+  }
+
   /**
    * Get the next available fallback model when the current model fails
    */
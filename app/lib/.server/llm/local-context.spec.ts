@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { FileMap } from './constants';
+import { ContextIndex, selectLocalContext, tokenize } from './local-context';
+
+const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+
+const files: FileMap = {
+  '/home/project/src/components/Header.tsx': file(
+    'export function Header() { return <nav className="header">Logo</nav>; }',
+  ),
+  '/home/project/src/components/Footer.tsx': file('export function Footer() { return <footer>Copyright</footer>; }'),
+  '/home/project/src/lib/cart.ts': file('export function addToCart(item) { cartItems.push(item); updateCartTotal(); }'),
+  '/home/project/src/lib/api.ts': file('export async function fetchProducts() { return fetch("/api/products"); }'),
+  '/home/project/node_modules/react/index.js': file('module.exports = header;'),
+  '/home/project/src': { type: 'folder' },
+};
+
+const message = (content: string) => ({
+  role: 'user' as const,
+  content: `[Model: gpt-4o]\n\n[Provider: OpenAI]\n\n${content}`,
+});
+
+describe('tokenize', () => {
+  it('should split identifiers and drop stop words', () => {
+    expect(tokenize('const useChatHistory = snake_case;')).toEqual([
+      'use',
+      'chat',
+      'history',
+      'usechathistory',
+      'snake',
+      'case',
+    ]);
+  });
+});
+
+describe('ContextIndex', () => {
+  it('should rank files by their paths and identifiers', () => {
+    const index = new ContextIndex(files);
+
+    expect(index.size).toBe(4);
+    expect(index.search(new Map([['cart', 1]])).map(({ path }) => path)).toEqual(['/home/project/src/lib/cart.ts']);
+    expect(index.search(new Map([['header', 1]]))[0].path).toBe('/home/project/src/components/Header.tsx');
+    expect(index.search(new Map([['unknown', 1]]))).toEqual([]);
+  });
+});
+
+describe('selectLocalContext', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should select the files that match the latest message', async () => {
+    const selected = await selectLocalContext({
+      messages: [message('Add a footer'), { role: 'assistant', content: 'Done' }, message('Fix the cart total')],
+      files,
+    });
+
+    expect(selected.selector).toBe('bm25');
+    expect(Object.keys(selected.files)).toEqual(['src/lib/cart.ts']);
+  });
+
+  it('should rerank the matches by embedding similarity', async () => {
+    const embed = vi.fn(async (_url: string, init: RequestInit) => {
+      const { input } = JSON.parse(init.body as string) as { input: string[] };
+
+      // the query and the footer point the same way
+      const embeddings = input.map((text) => (text.includes('Footer') || !text.includes('\n') ? [1, 0] : [0, 1]));
+
+      return Response.json({ embeddings });
+    });
+    vi.stubGlobal('fetch', embed);
+
+    const selected = await selectLocalContext({
+      messages: [message('Make the header and the footer sticky')],
+      files,
+      embeddings: { baseUrl: 'http://127.0.0.1:11434', model: 'nomic-embed-text' },
+    });
+
+    expect(selected.selector).toBe('bm25+embeddings');
+    expect(Object.keys(selected.files)).toEqual(['src/components/Footer.tsx', 'src/components/Header.tsx']);
+    expect(embed.mock.calls[0][0]).toBe('http://127.0.0.1:11434/api/embed');
+  });
+
+  it('should fall back to BM25 when the embeddings are not available', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('model not found', { status: 404 })),
+    );
+
+    const selected = await selectLocalContext({
+      messages: [message('Change the header logo')],
+      files,
+      embeddings: { baseUrl: 'http://127.0.0.1:11434', model: 'nomic-embed-text' },
+    });
+
+    expect(selected.selector).toBe('bm25');
+    expect(Object.keys(selected.files)[0]).toBe('src/components/Header.tsx');
+  });
+});
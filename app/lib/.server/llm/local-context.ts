@@ -0,0 +1,320 @@
+import ignore from 'ignore';
+import type { Message } from 'ai';
+import type { LocalContextSelector } from '~/types/context';
+import { createScopedLogger } from '~/utils/logger';
+import { IGNORE_PATTERNS, type FileMap } from './constants';
+import { extractPropertiesFromMessage } from './utils';
+
+const logger = createScopedLogger('local-context');
+const ig = ignore().add(IGNORE_PATTERNS);
+
+// the same number of files the model is allowed to put in the context buffer
+export const MAX_CONTEXT_FILES = 5;
+
+// BM25 term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// terms in the path describe the whole file, they count as often as this
+const PATH_WEIGHT = 3;
+
+// the summary describes the whole chat, the latest message what has to be done now
+const SUMMARY_WEIGHT = 0.3;
+
+// only the start of very large files is indexed
+const MAX_INDEXED_CHARS = 50_000;
+
+// files the embeddings rerank, and how much of each file they see
+const EMBEDDING_CANDIDATES = 20;
+const EMBEDDING_CHARS = 2000;
+
+const STOP_WORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'with',
+  'this',
+  'that',
+  'from',
+  'into',
+  'are',
+  'was',
+  'can',
+  'you',
+  'please',
+  'const',
+  'let',
+  'var',
+  'function',
+  'return',
+  'import',
+  'export',
+  'default',
+  'new',
+  'if',
+  'else',
+  'true',
+  'false',
+  'null',
+  'undefined',
+]);
+
+/**
+ * Splits text into lowercase terms. Identifiers are split at camel case and snake case boundaries and
+ * also kept whole, so `useChatHistory` matches `chat history` as well as itself.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const word of text.match(/[A-Za-z][A-Za-z0-9]*|\d+/g) ?? []) {
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .toLowerCase()
+      .split(' ');
+
+    if (parts.length > 1) {
+      parts.push(word.toLowerCase());
+    }
+
+    for (const part of parts) {
+      if (part.length > 1 && !STOP_WORDS.has(part)) {
+        terms.push(part);
+      }
+    }
+  }
+
+  return terms;
+}
+
+function countTerms(terms: string[], weight = 1, counts = new Map<string, number>()) {
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) ?? 0) + weight);
+  }
+
+  return counts;
+}
+
+interface IndexedFile {
+  path: string;
+  terms: Map<string, number>;
+  length: number;
+}
+
+export interface RankedFile {
+  path: string;
+  score: number;
+}
+
+/**
+ * In-memory BM25 index over the paths and identifiers of the project files.
+ */
+export class ContextIndex {
+  #files: IndexedFile[] = [];
+  #documentFrequency = new Map<string, number>();
+  #averageLength = 0;
+
+  constructor(files: FileMap) {
+    for (const [path, dirent] of Object.entries(files)) {
+      if (dirent?.type !== 'file' || dirent.isBinary || ig.ignores(toRelativePath(path))) {
+        continue;
+      }
+
+      const terms = countTerms(tokenize(toRelativePath(path)), PATH_WEIGHT);
+      countTerms(tokenize(dirent.content.slice(0, MAX_INDEXED_CHARS)), 1, terms);
+
+      const length = [...terms.values()].reduce((sum, count) => sum + count, 0);
+
+      for (const term of terms.keys()) {
+        this.#documentFrequency.set(term, (this.#documentFrequency.get(term) ?? 0) + 1);
+      }
+
+      this.#files.push({ path, terms, length });
+    }
+
+    this.#averageLength = this.#files.reduce((sum, file) => sum + file.length, 0) / (this.#files.length || 1);
+  }
+
+  get size() {
+    return this.#files.length;
+  }
+
+  /**
+   * Ranks the files against weighted query terms, best first. Files that match none of them are left out.
+   * @param query Query terms and their weights
+   */
+  search(query: Map<string, number>): RankedFile[] {
+    const ranked: RankedFile[] = [];
+
+    for (const file of this.#files) {
+      let score = 0;
+
+      for (const [term, weight] of query) {
+        const frequency = file.terms.get(term);
+
+        if (!frequency) {
+          continue;
+        }
+
+        const documentFrequency = this.#documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (this.#files.length - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        const saturation =
+          (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * file.length) / (this.#averageLength || 1)));
+
+        score += weight * idf * saturation;
+      }
+
+      if (score > 0) {
+        ranked.push({ path: file.path, score });
+      }
+    }
+
+    return ranked.sort((a, b) => b.score - a.score);
+  }
+}
+
+function toRelativePath(path: string) {
+  return path.replace('/home/project/', '');
+}
+
+export interface EmbeddingOptions {
+  /** base URL of the Ollama server */
+  baseUrl: string;
+  model: string;
+
+  /** stops the embedding requests when the user stops the response */
+  abortSignal?: AbortSignal;
+}
+
+// file embeddings by model, path and content, files rarely change between turns
+const embeddingCache = new Map<string, number[]>();
+const MAX_CACHED_EMBEDDINGS = 2000;
+
+function hashContent(content: string) {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < content.length; i++) {
+    hash = Math.imul(hash ^ content.charCodeAt(i), 0x01000193);
+  }
+
+  return (hash >>> 0).toString(36);
+}
+
+async function embed(texts: string[], options: EmbeddingOptions): Promise<number[][]> {
+  const response = await fetch(`${options.baseUrl}/api/embed`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: options.model, input: texts }),
+    signal: options.abortSignal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Embedding request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const { embeddings } = (await response.json()) as { embeddings: number[][] };
+
+  return embeddings;
+}
+
+function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+async function rerankWithEmbeddings(
+  ranked: RankedFile[],
+  files: FileMap,
+  query: string,
+  options: EmbeddingOptions,
+): Promise<RankedFile[]> {
+  const candidates = ranked.slice(0, EMBEDDING_CANDIDATES);
+  const texts = candidates.map(({ path }) => {
+    const dirent = files[path];
+    const content = dirent?.type === 'file' ? dirent.content.slice(0, EMBEDDING_CHARS) : '';
+
+    return `${toRelativePath(path)}\n${content}`;
+  });
+  const keys = texts.map((text, i) => `${options.model}:${candidates[i].path}:${hashContent(text)}`);
+  const missing = texts.filter((_, i) => !embeddingCache.has(keys[i]));
+  const [queryEmbedding, ...fileEmbeddings] = await embed([query, ...missing], options);
+
+  if (embeddingCache.size + missing.length > MAX_CACHED_EMBEDDINGS) {
+    embeddingCache.clear();
+  }
+
+  let next = 0;
+
+  for (let i = 0; i < texts.length; i++) {
+    if (!embeddingCache.has(keys[i])) {
+      embeddingCache.set(keys[i], fileEmbeddings[next++]);
+    }
+  }
+
+  // both scores count the same, BM25 is scaled to the best match
+  const topScore = candidates[0]?.score || 1;
+
+  return candidates
+    .map((candidate, i) => ({
+      path: candidate.path,
+      score: (0.5 * candidate.score) / topScore + 0.5 * cosineSimilarity(queryEmbedding, embeddingCache.get(keys[i])!),
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Selects the context files without a model call, by ranking the project files against the latest user
+ * message and the chat summary. With embedding options the best BM25 matches are reranked by similarity,
+ * if the embeddings are not available the BM25 ranking is used as it is.
+ * @returns The selected files, keyed by path relative to the project, and how they were selected
+ */
+export async function selectLocalContext(props: {
+  messages: Omit<Message, 'id'>[];
+  files: FileMap;
+  summary?: string;
+  embeddings?: EmbeddingOptions;
+}): Promise<{ files: FileMap; selector: LocalContextSelector }> {
+  const { messages, files, summary, embeddings } = props;
+  const lastUserMessage = messages.filter((message) => message.role === 'user').pop();
+
+  if (!lastUserMessage) {
+    throw new Error('No user message found');
+  }
+
+  const { content } = extractPropertiesFromMessage(lastUserMessage);
+  const query = countTerms(tokenize(content));
+  countTerms(tokenize(summary ?? ''), SUMMARY_WEIGHT, query);
+
+  const index = new ContextIndex(files);
+  let ranked = index.search(query);
+  let selector: LocalContextSelector = 'bm25';
+
+  if (embeddings && ranked.length > 0) {
+    try {
+      ranked = await rerankWithEmbeddings(ranked, files, content, embeddings);
+      selector = 'bm25+embeddings';
+    } catch (error) {
+      logger.warn('Embeddings not available, using BM25 only', error);
+    }
+  }
+
+  // files the user names are always included
+  const mentioned = ranked.filter(({ path }) => content.includes(toRelativePath(path).split('/').pop()!));
+  const selected = [...new Set([...mentioned, ...ranked].map(({ path }) => path))].slice(0, MAX_CONTEXT_FILES);
+
+  logger.debug(`Selected ${selected.length} of ${index.size} files with ${selector}`);
+
+  return {
+    files: Object.fromEntries(selected.map((path) => [toRelativePath(path), files[path]])),
+    selector,
+  };
+}
@@ -0,0 +1,172 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { simulateReadableStream, type LanguageModelV1StreamPart } from 'ai';
+import { MockLanguageModelV1 } from 'ai/test';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import { action } from '~/routes/v1.chat.completions';
+import { loader } from '~/routes/v1.models';
+import { PROVIDER_LIST } from '~/utils/constants';
+import { toCoreMessages } from './openai-gateway';
+
+const openai = PROVIDER_LIST.find((p) => p.name === 'OpenAI')!;
+
+const model = () =>
+  new MockLanguageModelV1({
+    doGenerate: async () => ({
+      text: 'Hello there',
+      finishReason: 'stop',
+      usage: { promptTokens: 12, completionTokens: 3 },
+      rawCall: { rawPrompt: null, rawSettings: {} },
+    }),
+    doStream: async () => ({
+      stream: simulateReadableStream({
+        chunks: [
+          { type: 'text-delta', textDelta: 'Hello' },
+          { type: 'text-delta', textDelta: ' there' },
+          { type: 'finish', finishReason: 'length', usage: { promptTokens: 12, completionTokens: 3 } },
+        ] as LanguageModelV1StreamPart[],
+      }),
+      rawCall: { rawPrompt: null, rawSettings: {} },
+    }),
+  });
+
+const completions = (body: unknown, env: Record<string, string> = {}, headers: Record<string, string> = {}) =>
+  action({
+    request: new Request('http://localhost/v1/chat/completions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    }),
+    context: { cloudflare: { env } },
+    params: {},
+  } as unknown as ActionFunctionArgs);
+
+const messages = [
+  { role: 'system', content: 'Be brief' },
+  { role: 'user', content: 'Hi' },
+];
+
+// the key of the browser, without a gateway token the keys of the server are not used
+const ownKey = { Cookie: `apiKeys=${encodeURIComponent(JSON.stringify({ OpenAI: 'sk-test' }))}` };
+
+describe('/v1/chat/completions', () => {
+  beforeEach(() => {
+    vi.spyOn(openai, 'getModelInstance').mockImplementation(model);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should answer in the OpenAI format', async () => {
+    const res = await completions({ model: 'openai/gpt-4o', messages }, {}, ownKey);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      object: 'chat.completion',
+      model: 'OpenAI/gpt-4o',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'Hello there' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+    });
+  });
+
+  it('should stream server-sent chunks', async () => {
+    const res = await completions(
+      { model: 'OpenAI/gpt-4o', messages, stream: true, stream_options: { include_usage: true } },
+      {},
+      ownKey,
+    );
+    const events = (await res.text()).split('\n\n').filter(Boolean);
+
+    expect(res.headers.get('Content-Type')).toContain('text/event-stream');
+    expect(events.at(-1)).toBe('data: [DONE]');
+
+    const chunks = events.slice(0, -1).map((event) => JSON.parse(event.slice('data: '.length)));
+
+    expect(chunks.map((chunk) => chunk.choices[0]?.delta.content ?? '').join('')).toBe('Hello there');
+    expect(chunks.at(-2).choices[0].finish_reason).toBe('length');
+    expect(chunks.at(-1)).toMatchObject({ choices: [], usage: { total_tokens: 15 } });
+  });
+
+  it('should reject unknown models and missing tokens', async () => {
+    expect((await completions({ model: 'gpt-4o', messages })).status).toBe(400);
+    expect((await completions({ model: 'OpenAI/gpt-0', messages })).status).toBe(404);
+
+    const unauthorized = await completions({ model: 'OpenAI/gpt-4o', messages }, { LLM_GATEWAY_TOKEN: 'secret' });
+
+    expect(unauthorized.status).toBe(401);
+    expect(await unauthorized.json()).toMatchObject({ error: { code: 'invalid_api_key' } });
+
+    const authorized = await completions(
+      { model: 'OpenAI/gpt-4o', messages },
+      { LLM_GATEWAY_TOKEN: 'secret' },
+      { Authorization: 'Bearer secret' },
+    );
+
+    expect(authorized.status).toBe(200);
+  });
+
+  it('should only use the keys of the server with a gateway token', async () => {
+    const anonymous = await completions({ model: 'OpenAI/gpt-4o', messages });
+
+    expect(anonymous.status).toBe(401);
+    expect(await anonymous.json()).toMatchObject({ error: { message: expect.stringContaining('LLM_GATEWAY_TOKEN') } });
+  });
+
+  it('should reject malformed image urls', async () => {
+    const res = await completions(
+      { model: 'OpenAI/gpt-4o', messages: [{ role: 'user', content: [{ type: 'image_url', image_url: 'cat.png' }] }] },
+      {},
+      ownKey,
+    );
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: { type: 'invalid_request_error' } });
+  });
+});
+
+describe('/v1/models', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should list the models with their provider', async () => {
+    vi.spyOn(LLMManager.getInstance(), 'updateModelList').mockResolvedValue(openai.staticModels);
+
+    const res = await loader({
+      request: new Request('http://localhost/v1/models'),
+      context: { cloudflare: { env: {} } },
+      params: {},
+    } as unknown as LoaderFunctionArgs);
+    const { data } = await res.json<{ data: unknown[] }>();
+
+    expect(data).toContainEqual({ id: 'OpenAI/gpt-4o', object: 'model', created: 0, owned_by: 'OpenAI' });
+  });
+});
+
+describe('toCoreMessages', () => {
+  it('should convert text and image parts', () => {
+    expect(
+      toCoreMessages([
+        { role: 'developer', content: [{ type: 'text', text: 'Be brief' }] },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image_url', image_url: { url: 'https://example.com/cat.png' } },
+          ],
+        },
+      ]),
+    ).toEqual([
+      { role: 'system', content: 'Be brief' },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is this?' },
+          { type: 'image', image: new URL('https://example.com/cat.png') },
+        ],
+      },
+    ]);
+    expect(() => toCoreMessages([{ role: 'tool', content: '{}' }])).toThrow('not supported');
+  });
+});
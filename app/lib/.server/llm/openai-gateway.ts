@@ -0,0 +1,309 @@
+import type { CoreMessage, FinishReason, LanguageModelUsage } from 'ai';
+import type { BaseProvider } from '~/lib/modules/llm/base-provider';
+import type { LLMManager } from '~/lib/modules/llm/manager';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+
+/*
+ * The OpenAI wire format of `/v1/chat/completions` and `/v1/models`, so tools that speak it can use the providers
+ * and keys configured in bolt. Models are addressed as `<provider>/<model>`, like `Anthropic/claude-3-5-sonnet-latest`.
+ */
+
+type ContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } | string };
+
+export interface ChatCompletionMessage {
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool' | 'function';
+  content: string | ContentPart[] | null;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatCompletionMessage[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  stop?: string | string[];
+  seed?: number;
+}
+
+/** an error in the OpenAI error format, `type` and `code` are the ones OpenAI uses for the same case */
+export class GatewayError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly type = 'invalid_request_error',
+    readonly code: string | null = null,
+  ) {
+    super(message);
+    this.name = 'GatewayError';
+  }
+}
+
+export function createErrorResponse(error: GatewayError) {
+  return new Response(
+    JSON.stringify({ error: { message: error.message, type: error.type, param: null, code: error.code } }),
+    {
+      status: error.status,
+      headers: { 'Content-Type': 'application/json' },
+    },
+  );
+}
+
+function getGatewayToken(serverEnv?: Env | Record<string, string>) {
+  const env = (serverEnv ?? {}) as Record<string, string | undefined>;
+  return env.LLM_GATEWAY_TOKEN || process?.env?.LLM_GATEWAY_TOKEN;
+}
+
+// compares every byte, so the time of a comparison doesn't tell how much of the token was right
+function timingSafeEqual(a: string, b: string) {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let difference = left.length ^ right.length;
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    difference |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+
+  return difference === 0;
+}
+
+/**
+ * Checks the bearer token of a request against `LLM_GATEWAY_TOKEN`. Without a token configured any request passes,
+ * but it can't use the API keys of the server, see `checkServerKeyAccess`.
+ */
+export function checkGatewayToken(request: Request, serverEnv?: Env | Record<string, string>) {
+  const token = getGatewayToken(serverEnv);
+
+  if (!token) {
+    return;
+  }
+
+  const authorization = request.headers.get('Authorization') ?? '';
+
+  if (!timingSafeEqual(authorization, `Bearer ${token}`)) {
+    throw new GatewayError('Incorrect or missing gateway token', 401, 'invalid_request_error', 'invalid_api_key');
+  }
+}
+
+/**
+ * Without `LLM_GATEWAY_TOKEN` the gateway would relay anyone to the providers with the API keys of the server, so
+ * requests then have to send the key of the provider in their cookies. Providers without keys, like Ollama, are open.
+ */
+export function checkServerKeyAccess(
+  provider: BaseProvider,
+  apiKeys: Record<string, string>,
+  serverEnv?: Env | Record<string, string>,
+) {
+  if (getGatewayToken(serverEnv) || !provider.config.apiTokenKey || apiKeys[provider.name]) {
+    return;
+  }
+
+  throw new GatewayError(
+    `The API key of ${provider.name} on the server is only used with LLM_GATEWAY_TOKEN set, send a key of your own`,
+    401,
+    'invalid_request_error',
+    'invalid_api_key',
+  );
+}
+
+/** the id of a model in the gateway */
+export const toGatewayModelId = (model: ModelInfo) => `${model.provider}/${model.name}`;
+
+/**
+ * Resolves a `<provider>/<model>` id, the model name may have slashes of its own like the OpenRouter ones.
+ */
+export async function resolveGatewayModel(
+  llmManager: LLMManager,
+  id: string,
+  options: Parameters<LLMManager['getModelListFromProvider']>[1],
+): Promise<{ provider: BaseProvider; model: ModelInfo }> {
+  const separator = id?.indexOf('/') ?? -1;
+
+  if (separator <= 0) {
+    throw new GatewayError(`The model must be given as <provider>/<model>, got ${id}`, 400, 'invalid_request_error');
+  }
+
+  const providerName = id.slice(0, separator).toLowerCase();
+  const modelName = id.slice(separator + 1);
+  const provider = llmManager.getAllProviders().find((p) => p.name.toLowerCase() === providerName);
+
+  if (!provider) {
+    throw new GatewayError(`The provider of ${id} does not exist`, 404, 'invalid_request_error', 'model_not_found');
+  }
+
+  const models = await llmManager.getModelListFromProvider(provider, options);
+  const model = models.find((m) => m.name === modelName);
+
+  if (!model) {
+    throw new GatewayError(`The model ${id} does not exist`, 404, 'invalid_request_error', 'model_not_found');
+  }
+
+  return { provider, model };
+}
+
+function toImageUrl(imageUrl: unknown) {
+  const url = typeof imageUrl === 'string' ? imageUrl : (imageUrl as { url?: unknown } | undefined)?.url;
+
+  try {
+    return new URL(url as string);
+  } catch {
+    throw new GatewayError(`Invalid image_url: ${String(url)}`, 400);
+  }
+}
+
+function toText(content: ChatCompletionMessage['content']) {
+  if (!content || typeof content === 'string') {
+    return content ?? '';
+  }
+
+  return content.map((part) => (part.type === 'text' ? part.text : '')).join('');
+}
+
+/**
+ * Converts OpenAI messages to the messages of the AI SDK. Tool calls are not supported, the gateway answers
+ * with text only.
+ */
+export function toCoreMessages(messages: ChatCompletionMessage[]): CoreMessage[] {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new GatewayError('messages must be a non-empty array', 400);
+  }
+
+  return messages.map((message): CoreMessage => {
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+        return { role: 'system', content: toText(message.content) };
+      case 'assistant':
+        return { role: 'assistant', content: toText(message.content) };
+      case 'user': {
+        if (!Array.isArray(message.content)) {
+          return { role: 'user', content: message.content ?? '' };
+        }
+
+        return {
+          role: 'user',
+          content: message.content.map((part) => {
+            if (part.type === 'image_url') {
+              return { type: 'image', image: toImageUrl(part.image_url) };
+            }
+
+            return { type: 'text', text: part.text };
+          }),
+        };
+      }
+      default:
+        throw new GatewayError(`Messages with the role ${message.role} are not supported`, 400);
+    }
+  });
+}
+
+/** the settings of the AI SDK call for the sampling fields of a request */
+export function toCallSettings(body: ChatCompletionRequest, model: ModelInfo) {
+  return {
+    maxTokens: body.max_completion_tokens ?? body.max_tokens ?? model.maxTokenAllowed,
+    temperature: body.temperature,
+    topP: body.top_p,
+    presencePenalty: body.presence_penalty,
+    frequencyPenalty: body.frequency_penalty,
+    stopSequences: typeof body.stop === 'string' ? [body.stop] : body.stop,
+    seed: body.seed,
+  };
+}
+
+export function toFinishReason(reason: FinishReason) {
+  switch (reason) {
+    case 'length':
+      return 'length';
+    case 'content-filter':
+      return 'content_filter';
+    case 'tool-calls':
+      return 'tool_calls';
+    default:
+      return 'stop';
+  }
+}
+
+export function toUsage(usage: LanguageModelUsage) {
+  return {
+    prompt_tokens: usage.promptTokens || 0,
+    completion_tokens: usage.completionTokens || 0,
+    total_tokens: usage.totalTokens || 0,
+  };
+}
+
+export function createCompletion(
+  id: string,
+  model: string,
+  result: { text: string; finishReason: FinishReason; usage: LanguageModelUsage },
+) {
+  return {
+    id,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [
+      {
+        index: 0,
+        message: { role: 'assistant', content: result.text },
+        finish_reason: toFinishReason(result.finishReason),
+      },
+    ],
+    usage: toUsage(result.usage),
+  };
+}
+
+/**
+ * Streams a response as server-sent `chat.completion.chunk` events, ending with `[DONE]`. Errors of the provider
+ * arrive after the status has been sent, they are sent as an error event like OpenAI does.
+ */
+export function createCompletionStream(
+  id: string,
+  model: string,
+  fullStream: AsyncIterable<
+    | { type: 'text-delta'; textDelta: string }
+    | { type: 'finish'; finishReason: FinishReason; usage: LanguageModelUsage }
+    | { type: 'error'; error: unknown }
+    | { type: string }
+  >,
+  includeUsage = false,
+) {
+  const encoder = new TextEncoder();
+  const created = Math.floor(Date.now() / 1000);
+  const chunk = (choices: unknown[], extra: Record<string, unknown> = {}) =>
+    encoder.encode(
+      `data: ${JSON.stringify({ id, object: 'chat.completion.chunk', created, model, choices, ...extra })}\n\n`,
+    );
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      controller.enqueue(chunk([{ index: 0, delta: { role: 'assistant', content: '' }, finish_reason: null }]));
+
+      try {
+        for await (const part of fullStream) {
+          if (part.type === 'text-delta' && 'textDelta' in part) {
+            controller.enqueue(chunk([{ index: 0, delta: { content: part.textDelta }, finish_reason: null }]));
+          } else if (part.type === 'finish' && 'finishReason' in part) {
+            controller.enqueue(chunk([{ index: 0, delta: {}, finish_reason: toFinishReason(part.finishReason) }]));
+
+            if (includeUsage) {
+              controller.enqueue(chunk([], { usage: toUsage(part.usage) }));
+            }
+          } else if (part.type === 'error' && 'error' in part) {
+            throw part.error;
+          }
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'The provider failed';
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: { message, type: 'server_error' } })}\n\n`));
+      }
+
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
+}
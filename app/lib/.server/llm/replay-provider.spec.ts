@@ -0,0 +1,102 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { generateText, simulateReadableStream, streamText, type LanguageModelV1StreamPart } from 'ai';
+import { MockLanguageModelV1 } from 'ai/test';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PROVIDER_LIST } from '~/utils/constants';
+import { getReplayConfig, ReplayProvider, withReplay, type ReplayConfig } from './replay-provider';
+
+const chunks: LanguageModelV1StreamPart[] = [
+  { type: 'response-metadata', id: 'resp-1', timestamp: new Date('2026-01-01T00:00:00.000Z') },
+  { type: 'text-delta', textDelta: 'Hello' },
+  { type: 'text-delta', textDelta: ' world' },
+  { type: 'finish', finishReason: 'stop', usage: { promptTokens: 10, completionTokens: 2 } },
+];
+
+const upstream = () =>
+  new MockLanguageModelV1({
+    doStream: async () => ({
+      stream: simulateReadableStream({ chunks }),
+      rawCall: { rawPrompt: null, rawSettings: {} },
+    }),
+    doGenerate: async () => ({
+      text: 'Generated',
+      finishReason: 'stop',
+      usage: { promptTokens: 10, completionTokens: 1 },
+      rawCall: { rawPrompt: null, rawSettings: {} },
+    }),
+  });
+
+describe('getReplayConfig', () => {
+  it('should only replay with a valid mode', () => {
+    expect(getReplayConfig({ LLM_REPLAY_MODE: 'replay', LLM_FIXTURES_DIR: 'fixtures' })).toEqual({
+      mode: 'replay',
+      fixturesDir: 'fixtures',
+    });
+    expect(getReplayConfig({ LLM_REPLAY_MODE: 'off' })).toBeUndefined();
+    expect(withReplay(PROVIDER_LIST[0], {})).toBe(PROVIDER_LIST[0]);
+  });
+});
+
+describe('ReplayProvider', () => {
+  const openai = PROVIDER_LIST.find((p) => p.name === 'OpenAI')!;
+  let config: ReplayConfig;
+
+  beforeEach(async () => {
+    config = { mode: 'record', fixturesDir: await mkdtemp(join(tmpdir(), 'llm-fixtures-')) };
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(config.fixturesDir, { recursive: true, force: true });
+  });
+
+  const stream = async (replayConfig: ReplayConfig, prompt = 'Say hello') => {
+    const model = new ReplayProvider(openai, replayConfig).getModelInstance({ model: 'gpt-4o' });
+    const result = streamText({ model, prompt, experimental_generateMessageId: () => 'msg-1' });
+    const parts = [];
+
+    for await (const part of result.fullStream) {
+      parts.push(part);
+    }
+
+    return parts;
+  };
+
+  it('should replay a recorded stream without calling the provider', async () => {
+    const getModelInstance = vi.spyOn(openai, 'getModelInstance').mockImplementation(upstream);
+    const recorded = await stream(config);
+
+    expect(await readdir(config.fixturesDir)).toHaveLength(1);
+
+    getModelInstance.mockImplementation(() => {
+      throw new Error('The provider must not be called when replaying');
+    });
+
+    expect(await stream({ ...config, mode: 'replay' })).toEqual(recorded);
+  });
+
+  it('should replay a generated response', async () => {
+    vi.spyOn(openai, 'getModelInstance').mockImplementation(upstream);
+
+    const model = (mode: ReplayConfig['mode']) =>
+      new ReplayProvider(openai, { ...config, mode }).getModelInstance({ model: 'gpt-4o' });
+    await generateText({ model: model('record'), prompt: 'Say something' });
+
+    const { text } = await generateText({ model: model('replay'), prompt: 'Say something' });
+
+    expect(text).toBe('Generated');
+  });
+
+  it('should fail for prompts that were not recorded', async () => {
+    vi.spyOn(openai, 'getModelInstance').mockImplementation(upstream);
+    await stream(config);
+
+    const parts = await stream({ ...config, mode: 'replay' }, 'Say goodbye');
+
+    expect(parts.find((part) => part.type === 'error')).toMatchObject({
+      error: { message: expect.stringContaining('No recorded response of OpenAI/gpt-4o') },
+    });
+  });
+});
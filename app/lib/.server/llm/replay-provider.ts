@@ -0,0 +1,230 @@
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from 'ai';
+import { BaseProvider } from '~/lib/modules/llm/base-provider';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('replay-provider');
+
+/** `record` saves the responses of the providers as fixtures, `replay` answers from the fixtures only */
+export type ReplayMode = 'record' | 'replay';
+
+export interface ReplayConfig {
+  mode: ReplayMode;
+
+  /** the directory of the fixture files, one file per prompt hash */
+  fixturesDir: string;
+}
+
+export const DEFAULT_FIXTURES_DIR = 'llm-fixtures';
+
+type GenerateResult = Awaited<ReturnType<LanguageModelV1['doGenerate']>>;
+
+/** a recorded response, `parts` for streamed responses and `result` for generated ones */
+export interface ReplayFixture {
+  provider: string;
+  model: string;
+  recordedAt: string;
+  rawCall: { rawPrompt: unknown; rawSettings: Record<string, unknown> };
+  parts?: LanguageModelV1StreamPart[];
+  result?: Omit<GenerateResult, 'rawCall' | 'rawResponse' | 'request'>;
+}
+
+/**
+ * The replay settings of the server environment, `undefined` if `LLM_REPLAY_MODE` is not set.
+ */
+export function getReplayConfig(serverEnv?: Env | Record<string, string>): ReplayConfig | undefined {
+  const env = (serverEnv ?? {}) as Record<string, string | undefined>;
+  const mode = env.LLM_REPLAY_MODE || process?.env?.LLM_REPLAY_MODE;
+
+  if (mode !== 'record' && mode !== 'replay') {
+    return undefined;
+  }
+
+  return {
+    mode,
+    fixturesDir: env.LLM_FIXTURES_DIR || process?.env?.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR,
+  };
+}
+
+/**
+ * The hash the fixture of a call is stored under. It covers everything that changes the response: the model,
+ * the prompt, the tools and the settings, but not the abort signal or the headers.
+ */
+export async function hashPrompt(provider: string, model: string, options: LanguageModelV1CallOptions) {
+  const { createHash } = await import('node:crypto');
+  const { abortSignal: _abortSignal, headers: _headers, ...call } = options;
+
+  return createHash('sha256')
+    .update(JSON.stringify({ provider, model, ...call }))
+    .digest('hex')
+    .slice(0, 32);
+}
+
+// dates don't survive JSON, the response metadata has one
+function reviveDates(_key: string, value: unknown) {
+  return _key === 'timestamp' && typeof value === 'string' ? new Date(value) : value;
+}
+
+async function fixturePath(config: ReplayConfig, hash: string) {
+  const path = await import('node:path');
+  return path.resolve(config.fixturesDir, `${hash}.json`);
+}
+
+async function readFixture(config: ReplayConfig, hash: string, provider: string, model: string) {
+  const { readFile } = await import('node:fs/promises');
+  const file = await fixturePath(config, hash);
+
+  try {
+    return JSON.parse(await readFile(file, 'utf-8'), reviveDates) as ReplayFixture;
+  } catch {
+    throw new Error(
+      `No recorded response of ${provider}/${model} for prompt ${hash} in ${config.fixturesDir}, record it with LLM_REPLAY_MODE=record`,
+    );
+  }
+}
+
+async function writeFixture(config: ReplayConfig, hash: string, fixture: ReplayFixture) {
+  const { mkdir, writeFile } = await import('node:fs/promises');
+  const file = await fixturePath(config, hash);
+
+  await mkdir(config.fixturesDir, { recursive: true });
+  await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+  logger.info(`Recorded ${fixture.provider}/${fixture.model} as ${file}`);
+}
+
+/**
+ * A model that answers from fixtures, or records the answers of the real model in record mode. Streamed
+ * responses are replayed part for part in the recorded order.
+ */
+class ReplayLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1';
+  readonly defaultObjectGenerationMode = 'json';
+  readonly provider: string;
+  readonly modelId: string;
+
+  constructor(
+    provider: string,
+    modelId: string,
+    private readonly _config: ReplayConfig,
+
+    // created only when recording, replaying needs no API keys
+    private readonly _createModel: () => LanguageModelV1,
+  ) {
+    this.provider = provider;
+    this.modelId = modelId;
+  }
+
+  async doGenerate(options: LanguageModelV1CallOptions): Promise<GenerateResult> {
+    const hash = await hashPrompt(this.provider, this.modelId, options);
+
+    if (this._config.mode === 'replay') {
+      const fixture = await readFixture(this._config, hash, this.provider, this.modelId);
+
+      if (!fixture.result) {
+        throw new Error(`The recorded response of prompt ${hash} was streamed, not generated`);
+      }
+
+      return { ...fixture.result, rawCall: fixture.rawCall };
+    }
+
+    const result = await this._createModel().doGenerate(options);
+    const { rawCall, rawResponse: _rawResponse, request: _request, ...recorded } = result;
+
+    await writeFixture(this._config, hash, {
+      provider: this.provider,
+      model: this.modelId,
+      recordedAt: new Date().toISOString(),
+      rawCall,
+      result: recorded,
+    });
+
+    return result;
+  }
+
+  async doStream(options: LanguageModelV1CallOptions): Promise<Awaited<ReturnType<LanguageModelV1['doStream']>>> {
+    const hash = await hashPrompt(this.provider, this.modelId, options);
+
+    if (this._config.mode === 'replay') {
+      const fixture = await readFixture(this._config, hash, this.provider, this.modelId);
+
+      if (!fixture.parts) {
+        throw new Error(`The recorded response of prompt ${hash} was generated, not streamed`);
+      }
+
+      const parts = fixture.parts;
+
+      return {
+        stream: new ReadableStream<LanguageModelV1StreamPart>({
+          start(controller) {
+            parts.forEach((part) => controller.enqueue(part));
+            controller.close();
+          },
+        }),
+        rawCall: fixture.rawCall,
+      };
+    }
+
+    const result = await this._createModel().doStream(options);
+    const parts: LanguageModelV1StreamPart[] = [];
+    const config = this._config;
+    const fixture = { provider: this.provider, model: this.modelId, rawCall: result.rawCall };
+
+    return {
+      ...result,
+      stream: result.stream.pipeThrough(
+        new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+          transform(part, controller) {
+            parts.push(part.type === 'error' ? { type: 'error', error: serializeError(part.error) } : part);
+            controller.enqueue(part);
+          },
+          async flush() {
+            await writeFixture(config, hash, { ...fixture, recordedAt: new Date().toISOString(), parts });
+          },
+        }),
+      ),
+    };
+  }
+}
+
+// errors are recorded with their message, class instances don't survive JSON
+function serializeError(error: unknown) {
+  return error instanceof Error ? { name: error.name, message: error.message } : error;
+}
+
+/**
+ * A provider that records the responses of another provider to fixture files, or replays them without calling
+ * it. It takes the name and the models of the provider it stands in for, so the chat pipeline can't tell them
+ * apart.
+ */
+export class ReplayProvider extends BaseProvider {
+  name: string;
+  staticModels: BaseProvider['staticModels'];
+  config: BaseProvider['config'];
+
+  constructor(
+    private readonly _provider: BaseProvider,
+    private readonly _replay: ReplayConfig,
+  ) {
+    super();
+    this.name = _provider.name;
+    this.staticModels = _provider.staticModels;
+    this.config = _provider.config;
+    this.getDynamicModels = _provider.getDynamicModels?.bind(_provider);
+  }
+
+  getModelInstance(options: Parameters<BaseProvider['getModelInstance']>[0]): LanguageModelV1 {
+    return new ReplayLanguageModel(this.name, options.model, this._replay, () =>
+      this._provider.getModelInstance(options),
+    );
+  }
+}
+
+/**
+ * The provider the server paths call models with, a `ReplayProvider` of it if `LLM_REPLAY_MODE` is set.
+ * @param provider The provider of the model
+ * @param serverEnv The environment of the request
+ */
+export function withReplay(provider: BaseProvider, serverEnv?: Env | Record<string, string>): BaseProvider {
+  const config = getReplayConfig(serverEnv);
+
+  return config ? new ReplayProvider(provider, config) : provider;
+}
@@ -0,0 +1,126 @@
+import { simulateReadableStream, streamText, type LanguageModelV1StreamPart } from 'ai';
+import { MockLanguageModelV1 } from 'ai/test';
+import { describe, expect, it } from 'vitest';
+import {
+  createContinuationPrompt,
+  findOpenTags,
+  findOverlap,
+  resolveSegmentLimit,
+  seamTransform,
+  trimSeam,
+} from './response-segments';
+
+const artifact = '<boltArtifact id="todo-app" title="Todo App">';
+const action = '<boltAction type="file" filePath="src/App.tsx">';
+const previous = `Let me build it.\n\n${artifact}\n${action}\nimport { useState } from 'react';\n\nexport default function App() {\n  const [todos, setTodos] = useSta`;
+
+describe('resolveSegmentLimit', () => {
+  const model = { provider: 'OpenAI', model: 'gpt-4o' };
+
+  it('should prefer the user setting over the one of the model', () => {
+    const info = { name: 'gpt-4o', label: 'GPT-4o', provider: 'OpenAI', maxTokenAllowed: 8000, maxResponseSegments: 4 };
+
+    expect(resolveSegmentLimit(model, info, { 'OpenAI/gpt-4o': 6 })).toBe(6);
+    expect(resolveSegmentLimit(model, info, {})).toBe(4);
+    expect(resolveSegmentLimit(model)).toBe(2);
+  });
+
+  it('should clamp the user setting', () => {
+    expect(resolveSegmentLimit(model, undefined, { 'OpenAI/gpt-4o': 1000 })).toBe(20);
+    expect(resolveSegmentLimit(model, undefined, { 'OpenAI/gpt-4o': 0 })).toBe(2);
+    expect(resolveSegmentLimit(model, undefined, { 'OpenAI/gpt-4o': 'many' as unknown as number })).toBe(2);
+  });
+});
+
+describe('findOpenTags', () => {
+  it('should find the artifact and action the response stopped in', () => {
+    expect(findOpenTags(previous)).toEqual({ artifact, action });
+    expect(findOpenTags(`${previous}te([]);\n}</boltAction>\n`)).toEqual({ artifact, action: undefined });
+    expect(findOpenTags(`${previous}te([]);\n}</boltAction>\n</boltArtifact>\nDone.`)).toEqual({});
+  });
+});
+
+describe('createContinuationPrompt', () => {
+  it('should name the open action and quote the end of the response', () => {
+    const prompt = createContinuationPrompt(previous);
+
+    expect(prompt).toContain(`inside the action \`${action}\``);
+    expect(prompt).toContain('  const [todos, setTodos] = useSta\n</response_end>');
+  });
+});
+
+describe('findOverlap', () => {
+  it('should find the end of the response the continuation starts with', () => {
+    expect(findOverlap(previous, '  const [todos, setTodos] = useState([]);')).toBe(34);
+    expect(findOverlap(previous, 'te([]);')).toBe(0);
+  });
+
+  it('should ignore short and whitespace overlaps', () => {
+    expect(findOverlap('return (\n    ', '    <div>')).toBe(0);
+  });
+});
+
+describe('trimSeam', () => {
+  it('should remove tags that are opened again and repeated text', () => {
+    expect(trimSeam(previous, `${artifact}\n${action}\n  const [todos, setTodos] = useState([]);`)).toBe('te([]);');
+    expect(trimSeam(previous, 'te([]);')).toBe('te([]);');
+  });
+
+  it('should keep a new action', () => {
+    const closed = `${previous}te([]);\n}</boltAction>\n`;
+    const next = '<boltAction type="shell">npm run dev</boltAction>';
+
+    expect(trimSeam(closed, next)).toBe(next);
+  });
+});
+
+describe('seamTransform', () => {
+  it('should trim the start of a streamed continuation', async () => {
+    const chunks: LanguageModelV1StreamPart[] = [
+      { type: 'text-delta', textDelta: `${artifact}\n` },
+      { type: 'text-delta', textDelta: `${action}\n  const [todos, ` },
+      { type: 'text-delta', textDelta: 'setTodos] = useState([]);\n' },
+      { type: 'text-delta', textDelta: '  return <ul />;\n}' },
+      { type: 'finish', finishReason: 'stop', usage: { promptTokens: 10, completionTokens: 5 } },
+    ];
+
+    const result = streamText({
+      model: new MockLanguageModelV1({
+        doStream: async () => ({
+          stream: simulateReadableStream({ chunks }),
+          rawCall: { rawPrompt: null, rawSettings: {} },
+        }),
+      }),
+      prompt: 'Continue',
+      experimental_transform: seamTransform(previous),
+    });
+
+    await result.consumeStream();
+
+    expect(await result.text).toBe('te([]);\n  return <ul />;\n}');
+  });
+
+  it('should keep trimming after the reasoning of the continuation', async () => {
+    const chunks: LanguageModelV1StreamPart[] = [
+      { type: 'reasoning', textDelta: 'Continue the state hook.' },
+      { type: 'text-delta', textDelta: `${action}\n  const [todos, setTodos] = useState([]);` },
+      { type: 'finish', finishReason: 'stop', usage: { promptTokens: 10, completionTokens: 5 } },
+    ];
+
+    const result = streamText({
+      model: new MockLanguageModelV1({
+        doStream: async () => ({
+          stream: simulateReadableStream({ chunks }),
+          rawCall: { rawPrompt: null, rawSettings: {} },
+        }),
+      }),
+      prompt: 'Continue',
+      experimental_transform: seamTransform(previous),
+    });
+
+    await result.consumeStream();
+
+    expect(await result.text).toBe('te([]);');
+    expect(await result.reasoning).toBe('Continue the state hook.');
+  });
+});
@@ -0,0 +1,226 @@
+import type { StreamTextTransform, TextStreamPart, ToolSet } from 'ai';
+import { CONTINUE_PROMPT } from '~/lib/common/prompts/prompts';
+import { pricingKey } from '~/lib/modules/llm/pricing';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+import type { StageModel } from '~/lib/modules/llm/stage-models';
+import { MAX_SEGMENT_LIMIT } from '~/utils/constants';
+import { MAX_RESPONSE_SEGMENTS } from './constants';
+
+// how much of the end of the response a continuation is compared against
+const SEAM_WINDOW = 2000;
+
+// shorter overlaps are more likely a coincidence, like the indentation of the next line
+const MIN_OVERLAP = 12;
+
+// lines of the response the continuation prompt quotes
+const QUOTED_LINES = 3;
+
+// stream parts that don't end the start of a continuation
+const SEAM_NEUTRAL_PARTS = ['step-start', 'reasoning', 'reasoning-signature', 'redacted-reasoning'];
+
+const ARTIFACT_OPEN = /<boltArtifact\b[^>]*>/g;
+const ACTION_OPEN = /<boltAction\b[^>]*>/g;
+
+/**
+ * How many segments a response of the model may have, the user setting first, then the one of the model.
+ * The user setting comes from the client and is clamped to `MAX_SEGMENT_LIMIT`.
+ * @param model The provider and model of the response
+ * @param info The model info, if the model is known
+ * @param overrides User set limits by `pricingKey`
+ */
+export function resolveSegmentLimit(model: StageModel, info?: ModelInfo, overrides?: Record<string, number>) {
+  const override = Number(overrides?.[pricingKey(model.provider, model.model)]);
+
+  if (Number.isFinite(override) && override >= 1) {
+    return Math.min(Math.floor(override), MAX_SEGMENT_LIMIT);
+  }
+
+  return info?.maxResponseSegments ?? MAX_RESPONSE_SEGMENTS;
+}
+
+export interface OpenTags {
+  /** the opening tag of the artifact the response stopped in */
+  artifact?: string;
+
+  /** the opening tag of the action the response stopped in */
+  action?: string;
+}
+
+function lastOpenTag(text: string, open: RegExp, close: string) {
+  const tags = [...text.matchAll(open)];
+  const last = tags[tags.length - 1];
+
+  if (!last || text.indexOf(close, last.index) !== -1) {
+    return undefined;
+  }
+
+  return last[0];
+}
+
+/**
+ * Finds the artifact and the action that are still open at the end of a response.
+ */
+export function findOpenTags(text: string): OpenTags {
+  const artifact = lastOpenTag(text, ARTIFACT_OPEN, '</boltArtifact>');
+
+  if (!artifact) {
+    return {};
+  }
+
+  const artifactContent = text.slice(text.lastIndexOf(artifact));
+
+  return { artifact, action: lastOpenTag(artifactContent, ACTION_OPEN, '</boltAction>') };
+}
+
+/**
+ * The prompt that continues a response that was cut off. It names the artifact and action the response stopped
+ * in and quotes its last lines, so the model continues right there instead of opening them again.
+ * @param text The response so far
+ */
+export function createContinuationPrompt(text: string) {
+  const { artifact, action } = findOpenTags(text);
+  const lastLines = text.split('\n').slice(-QUOTED_LINES).join('\n');
+  let position = '';
+
+  if (action) {
+    position = `Your response stopped inside the action \`${action}\` of the artifact \`${artifact}\`. Continue the content of the action, do not open the artifact or the action again.`;
+  } else if (artifact) {
+    position = `Your response stopped inside the artifact \`${artifact}\`, after the last action was closed. Continue with the next action, do not open the artifact again.`;
+  }
+
+  return `${CONTINUE_PROMPT}
+${position}
+Your response ends with these characters, continue right after them:
+<response_end>
+${lastLines}
+</response_end>`;
+}
+
+/**
+ * Length of the longest end of `previous` that `next` starts with. Overlaps shorter than `MIN_OVERLAP`
+ * or of whitespace only are not counted.
+ */
+export function findOverlap(previous: string, next: string) {
+  for (let length = Math.min(previous.length, next.length); length >= MIN_OVERLAP; length--) {
+    const candidate = next.slice(0, length);
+
+    if (candidate.trim() && previous.endsWith(candidate)) {
+      return length;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Removes the artifact and action tags a continuation opens again although they are still open.
+ */
+function stripReopenedTags(text: string, open: OpenTags) {
+  let stripped = text;
+
+  if (open.artifact) {
+    stripped = stripped.replace(/^\s*<boltArtifact\b[^>]*>\s*/, '');
+  }
+
+  if (open.action) {
+    const reopened = stripped.match(/^\s*(<boltAction\b[^>]*>)/);
+
+    if (reopened && reopened[1] === open.action) {
+      stripped = stripped.slice(reopened[0].length);
+    }
+  }
+
+  return stripped;
+}
+
+/**
+ * Whether the start of a continuation can still turn into artifact or action tags that are opened again.
+ */
+function mayReopenTags(text: string, open: OpenTags) {
+  if (!open.artifact) {
+    return false;
+  }
+
+  const rest = text.replace(/^\s*(?:<boltArtifact\b[^>]*>\s*)?(?:<boltAction\b[^>]*>)?/, '');
+
+  return (
+    rest === '' ||
+    '<boltArtifact'.startsWith(rest) ||
+    '<boltAction'.startsWith(rest) ||
+    /^<bolt(?:Artifact|Action)\b[^>]*$/.test(rest)
+  );
+}
+
+/**
+ * Removes what a continuation repeats of the response: text at the end of the response it starts with again,
+ * and artifact and action tags it opens again although they are still open.
+ * @param previous The response so far
+ * @param next The start of the continuation
+ */
+export function trimSeam(previous: string, next: string) {
+  const open = findOpenTags(previous);
+  const tail = previous.slice(-SEAM_WINDOW);
+  const withoutTags = stripReopenedTags(next, open);
+
+  return withoutTags.slice(findOverlap(tail, withoutTags));
+}
+
+/**
+ * Stream transform for a continuation of a response. The start of the continuation is held back until it
+ * can't be a repetition of the response anymore, then it is trimmed with `trimSeam`, so that the parser of
+ * the client sees one seamless response.
+ * @param previous The response so far
+ */
+export function seamTransform<TOOLS extends ToolSet>(previous: string): StreamTextTransform<TOOLS> {
+  const open = findOpenTags(previous);
+  const tail = previous.slice(-SEAM_WINDOW);
+
+  return () => {
+    let buffer = '';
+    let trimmed = false;
+
+    const release = (controller: TransformStreamDefaultController<TextStreamPart<TOOLS>>) => {
+      trimmed = true;
+
+      const text = trimSeam(previous, buffer);
+
+      if (text) {
+        controller.enqueue({ type: 'text-delta', textDelta: text });
+      }
+    };
+
+    return new TransformStream<TextStreamPart<TOOLS>, TextStreamPart<TOOLS>>({
+      transform(part, controller) {
+        if (trimmed) {
+          controller.enqueue(part);
+          return;
+        }
+
+        if (part.type !== 'text-delta') {
+          // steps and reasoning come before the text, anything else ends the seam
+          if (!SEAM_NEUTRAL_PARTS.includes(part.type)) {
+            release(controller);
+          }
+
+          controller.enqueue(part);
+
+          return;
+        }
+
+        buffer += part.textDelta;
+
+        const rest = stripReopenedTags(buffer, open);
+        const mayRepeat = buffer.length < SEAM_WINDOW && (tail.includes(rest) || mayReopenTags(buffer, open));
+
+        if (!mayRepeat) {
+          release(controller);
+        }
+      },
+      flush(controller) {
+        if (!trimmed) {
+          release(controller);
+        }
+      },
+    });
+  };
+}
@@ -6,6 +6,8 @@ import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROVIDER_LIST } from '~/utils/constant
 import { createFilesContext, extractCurrentContext, extractPropertiesFromMessage, simplifyBoltActions } from './utils';
 import { createScopedLogger } from '~/utils/logger';
 import { LLMManager } from '~/lib/modules/llm/manager';
+import type { StageModel } from '~/lib/modules/llm/stage-models';
+import { withReplay } from './replay-provider';
 
 // Common patterns to ignore, similar to .gitignore
 
@@ -22,6 +24,12 @@ export async function selectContext(props: {
   contextOptimization?: boolean;
   summary: string;
   onFinish?: (resp: GenerateTextResult<Record<string, CoreTool<any, any>>, never>) => void;
+
+  /** runs with this model instead of the one selected in the last user message */
+  model?: StageModel;
+
+  /** stops the request to the provider, the chat request's signal when the user stops the response */
+  abortSignal?: AbortSignal;
 }) {
   const { messages, env: serverEnv, apiKeys, files, providerSettings, summary, onFinish } = props;
   let currentModel = DEFAULT_MODEL;
@@ -47,6 +55,11 @@ export async function selectContext(props: {
     return message;
   });
 
+  if (props.model) {
+    currentModel = props.model.model;
+    currentProvider = props.model.provider;
+  }
+
   const provider = PROVIDER_LIST.find((p) => p.name === currentProvider) || DEFAULT_PROVIDER;
   const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider);
   let modelDetails = staticModels.find((m) => m.name === currentModel);
@@ -168,12 +181,13 @@ export async function selectContext(props: {
         * if the buffer is full, you need to exclude files that is not needed and include files that is relevent.
 
         `,
-    model: provider.getModelInstance({
+    model: withReplay(provider, serverEnv).getModelInstance({
       model: currentModel,
       serverEnv,
       apiKeys,
       providerSettings,
     }),
+    abortSignal: props.abortSignal,
   });
 
   const response = resp.text;
@@ -0,0 +1,193 @@
+import {
+  APICallError,
+  createDataStream,
+  RetryError,
+  simulateReadableStream,
+  streamText,
+  type LanguageModelV1StreamPart,
+} from 'ai';
+import { MockLanguageModelV1 } from 'ai/test';
+import { describe, expect, it, vi } from 'vitest';
+import { isFailoverError, mergeWithFailover, type FailoverEvent } from './stream-failover';
+
+const apiError = (statusCode: number) =>
+  new APICallError({
+    message: `Status ${statusCode}`,
+    url: 'https://api.example.com',
+    requestBodyValues: {},
+    statusCode,
+  });
+
+const respond = (chunks: LanguageModelV1StreamPart[]) =>
+  streamText({
+    model: new MockLanguageModelV1({
+      doStream: async () => ({
+        stream: simulateReadableStream({ chunks }),
+        rawCall: { rawPrompt: null, rawSettings: {} },
+      }),
+    }),
+    prompt: 'Build a todo app',
+    onError: () => undefined,
+  });
+
+const finish: LanguageModelV1StreamPart = {
+  type: 'finish',
+  finishReason: 'stop',
+  usage: { promptTokens: 10, completionTokens: 5 },
+};
+
+async function readAll(stream: ReadableStream<string>) {
+  const parts: string[] = [];
+
+  for await (const part of stream as unknown as AsyncIterable<string>) {
+    parts.push(part);
+  }
+
+  return parts.join('');
+}
+
+describe('isFailoverError', () => {
+  it('should fail over on rate limits, server errors and network failures', () => {
+    expect(isFailoverError(apiError(429))).toBe(true);
+    expect(isFailoverError(apiError(503))).toBe(true);
+    expect(isFailoverError(new TypeError('fetch failed'))).toBe(true);
+    expect(
+      isFailoverError(
+        new RetryError({ message: 'Retries failed', reason: 'maxRetriesExceeded', errors: [apiError(500)] }),
+      ),
+    ).toBe(true);
+  });
+
+  it('should not fail over on errors of the request', () => {
+    expect(isFailoverError(apiError(401))).toBe(false);
+    expect(isFailoverError(apiError(400))).toBe(false);
+    expect(isFailoverError(new Error('Invalid tool call'))).toBe(false);
+    expect(isFailoverError(new DOMException('This operation was aborted', 'AbortError'))).toBe(false);
+    expect(isFailoverError(undefined)).toBe(false);
+  });
+});
+
+describe('mergeWithFailover', () => {
+  const primary = { provider: 'Anthropic', model: 'claude-3-5-sonnet-latest' };
+  const fallback = { provider: 'OpenAI', model: 'gpt-4o' };
+
+  it('should continue the response with the next model of the chain', async () => {
+    const restart = vi.fn(async () => respond([{ type: 'text-delta', textDelta: 'world' }, finish]));
+    const events: FailoverEvent[] = [];
+
+    const output = await readAll(
+      createDataStream({
+        execute(dataStream) {
+          mergeWithFailover(
+            dataStream,
+            respond([
+              { type: 'text-delta', textDelta: 'Hello ' },
+              { type: 'error', error: apiError(529) },
+            ]),
+            { model: primary, chain: [primary, fallback], restart, onSwitch: (event) => events.push(event) },
+          );
+        },
+      }),
+    );
+
+    expect(output).toContain('0:"Hello "');
+    expect(output).toContain('0:"world"');
+    expect(output).not.toContain('3:');
+    expect(restart).toHaveBeenCalledWith(fallback, 'Hello ');
+    expect(events.map(({ status, to, attempt }) => [status, to.provider, attempt])).toEqual([
+      ['connecting', 'OpenAI', 2],
+      ['connected', 'OpenAI', 2],
+    ]);
+  });
+
+  it('should fail over when the provider rejects the call', async () => {
+    const restart = vi.fn(async () => respond([{ type: 'text-delta', textDelta: 'Hello' }, finish]));
+    const rejected = streamText({
+      model: new MockLanguageModelV1({
+        doStream: async () => {
+          throw apiError(429);
+        },
+      }),
+      prompt: 'Build a todo app',
+      maxRetries: 0,
+      onError: () => undefined,
+    });
+
+    const output = await readAll(
+      createDataStream({
+        execute(dataStream) {
+          mergeWithFailover(dataStream, rejected, { model: primary, chain: [primary, fallback], restart });
+        },
+      }),
+    );
+
+    expect(restart).toHaveBeenCalledWith(fallback, '');
+    expect(output).toContain('0:"Hello"');
+    expect(output).not.toContain('3:');
+  });
+
+  it('should skip models that are not available and report the error once the chain is exhausted', async () => {
+    const restart = vi.fn();
+    const events: FailoverEvent[] = [];
+
+    const output = await readAll(
+      createDataStream({
+        execute(dataStream) {
+          mergeWithFailover(dataStream, respond([{ type: 'error', error: apiError(429) }]), {
+            model: primary,
+            chain: [fallback],
+            restart,
+            isAvailable: async () => false,
+            onSwitch: (event) => events.push(event),
+          });
+        },
+        onError: (error) => (error as Error).message,
+      }),
+    );
+
+    expect(output).toContain('3:"Status 429"');
+    expect(restart).not.toHaveBeenCalled();
+    expect(events.map(({ status }) => status)).toEqual(['failed']);
+  });
+
+  it('should stream reasoning as its own parts', async () => {
+    const output = await readAll(
+      createDataStream({
+        execute(dataStream) {
+          mergeWithFailover(
+            dataStream,
+            respond([
+              { type: 'reasoning', textDelta: 'The user wants a list.' },
+              { type: 'text-delta', textDelta: 'Here it is' },
+              finish,
+            ]),
+            { model: primary, chain: [], restart: vi.fn() },
+          );
+        },
+      }),
+    );
+
+    expect(output).toContain('g:"The user wants a list."');
+    expect(output).toContain('0:"Here it is"');
+  });
+
+  it('should pass other errors through', async () => {
+    const restart = vi.fn();
+
+    const output = await readAll(
+      createDataStream({
+        execute(dataStream) {
+          mergeWithFailover(dataStream, respond([{ type: 'error', error: apiError(401) }]), {
+            model: primary,
+            chain: [fallback],
+            restart,
+          });
+        },
+        onError: (error) => (error as Error).message,
+      }),
+    );
+
+    expect(output).toContain('3:"Status 401"');
+    expect(restart).not.toHaveBeenCalled();
+  });
+});
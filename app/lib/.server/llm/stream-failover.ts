@@ -0,0 +1,225 @@
+import { RetryError, type DataStreamWriter, type StreamTextResult, type ToolSet } from 'ai';
+import type { StageModel } from '~/lib/modules/llm/stage-models';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('stream-failover');
+
+// network failures of the provider request, before or while streaming
+const NETWORK_ERRORS = ['fetch failed', 'econnrefused', 'econnreset', 'etimedout', 'enotfound', 'socket hang up'];
+
+/**
+ * Whether the chat should fail over to the next model of the fallback chain: the provider is rate limited,
+ * has a server error or can't be reached. Errors of the request itself, like a wrong API key, are not
+ * fixed by another model of the same provider and are shown to the user.
+ */
+export function isFailoverError(error: unknown): boolean {
+  // the AI SDK retries failed calls and reports the last error
+  const cause = RetryError.isInstance(error) ? error.lastError : error;
+
+  if (!cause || typeof cause !== 'object') {
+    return false;
+  }
+
+  // the user stopped the response, no other model should pick it up
+  if ((cause as Error).name === 'AbortError') {
+    return false;
+  }
+
+  const { statusCode, status, message } = cause as { statusCode?: number; status?: number; message?: string };
+  const code = statusCode ?? status;
+
+  if (code === 429 || (code !== undefined && code >= 500)) {
+    return true;
+  }
+
+  const lowerMessage = message?.toLowerCase() ?? '';
+
+  return code === undefined && NETWORK_ERRORS.some((networkError) => lowerMessage.includes(networkError));
+}
+
+export type FailoverStatus = 'connecting' | 'connected' | 'failed';
+
+export interface FailoverEvent {
+  status: FailoverStatus;
+
+  /** the model that failed */
+  from: StageModel;
+
+  /** the model that takes over, the failed one if the chain is exhausted */
+  to: StageModel;
+
+  /** position of `to` in the fallback chain, starting at 1 */
+  attempt: number;
+  maxAttempts: number;
+  reason: string;
+}
+
+export interface FailoverOptions {
+  /** the model the result streams from */
+  model: StageModel;
+
+  /** models to fail over to, in order */
+  chain: StageModel[];
+
+  /**
+   * Starts the response again with the next model of the chain.
+   * @param model The model to continue with
+   * @param partialText What the failed model streamed before it failed, empty if it failed right away
+   */
+  restart: (model: StageModel, partialText: string) => Promise<StreamTextResult<ToolSet, never>>;
+
+  /** skips models of the chain that are known to be down */
+  isAvailable?: (model: StageModel) => Promise<boolean>;
+
+  onSwitch?: (event: FailoverEvent) => void;
+}
+
+const isSameModel = (a: StageModel, b: StageModel) => a.provider === b.provider && a.model === b.model;
+
+/**
+ * Merges a streamed response into the data stream like `mergeIntoDataStream` does. When the provider fails
+ * while streaming, with a rate limit, a server error or a network failure, the error is held back and the
+ * response continues with the next model of the chain from what was streamed so far. The error reaches the
+ * client only if no model of the chain is left.
+ * @param dataStream The data stream of the chat response
+ * @param result The response of the first model
+ * @param options The chain and how to restart the response
+ */
+export function mergeWithFailover(
+  dataStream: DataStreamWriter,
+  result: StreamTextResult<ToolSet, never>,
+  options: FailoverOptions,
+) {
+  mergeAttempt(dataStream, result, options, { attempt: 0 });
+}
+
+interface AttemptState {
+  /** position of the model in the chain, 0 for the first model */
+  attempt: number;
+
+  /** the model this attempt took over from, and why */
+  failed?: { model: StageModel; reason: string };
+}
+
+function mergeAttempt(
+  dataStream: DataStreamWriter,
+  result: StreamTextResult<ToolSet, never>,
+  options: FailoverOptions,
+  state: AttemptState,
+) {
+  const { model, chain, restart, isAvailable, onSwitch } = options;
+  let error: unknown;
+  let next: { model: StageModel; index: number } | undefined;
+  let started = false;
+  const decoder = new TextDecoder();
+
+  /*
+   * the text the model streamed before it failed, `result.text` never settles if the provider rejected the call
+   * itself because no step was recorded
+   */
+  let partialText = '';
+
+  const reason = () => (error instanceof Error ? error.message : String(error));
+  const switchEvent = (status: FailoverStatus, to: StageModel, attempt: number): FailoverEvent => ({
+    status,
+    from: model,
+    to,
+    attempt,
+    maxAttempts: chain.length,
+    reason: reason(),
+  });
+
+  const findNext = async () => {
+    for (let index = state.attempt; index < chain.length; index++) {
+      const candidate = chain[index];
+
+      if (isSameModel(candidate, model)) {
+        continue;
+      }
+
+      if (!isAvailable || (await isAvailable(candidate))) {
+        return { model: candidate, index };
+      }
+
+      logger.debug(`Skipping ${candidate.provider}/${candidate.model}, the provider is not available`);
+    }
+
+    return undefined;
+  };
+
+  const stream = result
+    .toDataStream({
+      // reasoning is streamed as its own parts, the client shows it apart from the response
+      sendReasoning: true,
+      getErrorMessage: (streamError) => {
+        error = streamError;
+        return dataStream.onError?.(streamError) ?? 'An error occurred.';
+      },
+    })
+    .pipeThrough(
+      new TransformStream<Uint8Array, string>({
+        async transform(chunk, controller) {
+          // every chunk is one part, error parts start with their type code
+          const part = decoder.decode(chunk);
+          const isError = part.startsWith('3:');
+
+          if (part.startsWith('0:')) {
+            partialText += JSON.parse(part.slice(2));
+          }
+
+          if (!isError && !started && state.failed) {
+            started = true;
+            onSwitch?.({
+              status: 'connected',
+              from: state.failed.model,
+              to: model,
+              attempt: state.attempt,
+              maxAttempts: chain.length,
+              reason: state.failed.reason,
+            });
+          }
+
+          if (!isError || !isFailoverError(error)) {
+            controller.enqueue(part);
+            return;
+          }
+
+          next = await findNext();
+
+          if (!next) {
+            if (chain.length > 0) {
+              onSwitch?.(switchEvent('failed', model, state.attempt));
+            }
+
+            controller.enqueue(part);
+
+            return;
+          }
+
+          logger.warn(
+            `${model.provider}/${model.model} failed, continuing with ${next.model.provider}/${next.model.model}`,
+          );
+          onSwitch?.(switchEvent('connecting', next.model, next.index + 1));
+        },
+        async flush() {
+          if (!next) {
+            return;
+          }
+
+          const nextResult = await restart(next.model, partialText);
+
+          mergeAttempt(
+            dataStream,
+            nextResult,
+            { ...options, model: next.model },
+            {
+              attempt: next.index + 1,
+              failed: { model, reason: reason() },
+            },
+          );
+        },
+      }),
+    );
+
+  dataStream.merge(stream as ReadableStream<any>);
+}
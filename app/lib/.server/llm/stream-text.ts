@@ -3,20 +3,37 @@ import { MAX_TOKENS, type FileMap } from './constants';
 import { getSystemPrompt } from '~/lib/common/prompts/prompts';
 import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODIFICATIONS_TAG_NAME, PROVIDER_LIST, WORK_DIR } from '~/utils/constants';
 import type { IProviderSetting } from '~/types/model';
+import type { PromptCacheUsage } from '~/lib/modules/llm/prompt-cache';
 import { PromptLibrary } from '~/lib/common/prompt-library';
+import type { CustomPrompt } from '~/lib/common/custom-prompts';
+import { createRulesPrompt, findProjectRules } from '~/lib/common/project-rules';
 import { allowedHTMLElements } from '~/utils/markdown';
 import { LLMManager } from '~/lib/modules/llm/manager';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+import { getModelCapabilities } from '~/lib/modules/llm/capabilities';
+import {
+  createReasoningProviderOptions,
+  resolveReasoningSettings,
+  type ReasoningSettings,
+} from '~/lib/modules/llm/reasoning';
+import type { StageModel } from '~/lib/modules/llm/stage-models';
 import { createScopedLogger } from '~/utils/logger';
 import { createFilesContext, extractPropertiesFromMessage } from './utils';
 import { discussPrompt } from '~/lib/common/prompts/discuss-prompt';
+import { toolCallingPrompt } from '~/lib/common/prompts/tool-calling-prompt';
 import type { DesignScheme } from '~/types/design-scheme';
 import { rateLimitRetryHandler } from '~/lib/.server/retry-handler';
 import { fallbackManager } from './fallback-manager';
+import { fitToContextWindow, type TokenBudget } from './token-budget';
+import { getTokenizerFamily, loadTokenizer } from './tokenizer';
+import { withReplay } from './replay-provider';
 import { toast } from 'react-toastify';
 
 export type Messages = Message[];
 
 export interface StreamingOptions extends Omit<Parameters<typeof _streamText>[0], 'model'> {
+  /** artifact actions are native tool calls instead of `<boltArtifact>` tags, see `artifactTools` */
+  toolCalling?: boolean;
   supabaseConnection?: {
     isConnected: boolean;
     hasSelectedProject: boolean;
@@ -45,21 +62,39 @@ export async function streamText(props: {
   files?: FileMap;
   providerSettings?: Record<string, IProviderSetting>;
   promptId?: string;
+
+  /** the custom prompt `promptId` refers to, if it is one */
+  customPrompt?: CustomPrompt;
   contextOptimization?: boolean;
   contextFiles?: FileMap;
   summary?: string;
   messageSliceId?: number;
   chatMode?: 'discuss' | 'build';
   designScheme?: DesignScheme;
+
+  /** called with the token breakdown of the prompt and the model once it has been fitted into the context window */
+  onTokenBudget?: (budget: TokenBudget, model: ModelInfo) => void;
+
+  /** called with the prompt cache reads and writes of providers that support prompt caching */
+  onPromptCacheUsage?: (usage: PromptCacheUsage) => void;
+
+  /** runs with this model instead of the one selected in the last user message */
+  model?: StageModel;
+
+  /** reasoning effort or budget of the model, ignored by providers that don't support it */
+  reasoning?: ReasoningSettings;
+
+  /** switches to another provider when the model fails, on by default */
+  fallback?: boolean;
 }) {
   const {
     messages,
     env: serverEnv,
-    options,
     apiKeys,
     files,
     providerSettings,
     promptId,
+    customPrompt,
     contextOptimization,
     contextFiles,
     summary,
@@ -80,16 +115,21 @@ export async function streamText(props: {
       newMessage.content = sanitizeText(message.content);
     }
 
-    // Sanitize all text parts in parts array, if present
+    // Sanitize all text parts in parts array, if present, the reasoning of earlier responses is not sent back
     if (Array.isArray(message.parts)) {
-      newMessage.parts = message.parts.map((part) =>
-        part.type === 'text' ? { ...part, text: sanitizeText(part.text) } : part,
-      );
+      newMessage.parts = message.parts
+        .filter((part) => part.type !== 'reasoning')
+        .map((part) => (part.type === 'text' ? { ...part, text: sanitizeText(part.text) } : part));
     }
 
     return newMessage;
   });
 
+  if (props.model) {
+    currentModel = props.model.model;
+    currentProvider = props.model.provider;
+  }
+
   let provider = PROVIDER_LIST.find((p) => p.name === currentProvider) || DEFAULT_PROVIDER;
   const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider);
   let modelDetails = staticModels.find((m) => m.name === currentModel);
@@ -124,48 +164,46 @@ export async function streamText(props: {
     `Max tokens for model ${modelDetails.name} is ${dynamicMaxTokens} based on ${modelDetails.maxTokenAllowed} or ${MAX_TOKENS}`,
   );
 
+  let options = props.options;
+
+  // the MCP tools are sent with every request, models that can't call tools would fail it
+  if (options?.tools && getModelCapabilities(modelDetails).toolCalling === false) {
+    logger.warn(`${modelDetails.name} can't call tools, sending the request without them`);
+    options = { ...options, tools: undefined, toolChoice: undefined, toolCalling: false };
+  }
+
   let systemPrompt =
-    PromptLibrary.getPropmtFromLibrary(promptId || 'default', {
-      cwd: WORK_DIR,
-      allowedHtmlElements: allowedHTMLElements,
-      modificationTagName: MODIFICATIONS_TAG_NAME,
-      designScheme,
-      supabase: {
-        isConnected: options?.supabaseConnection?.isConnected || false,
-        hasSelectedProject: options?.supabaseConnection?.hasSelectedProject || false,
-        credentials: options?.supabaseConnection?.credentials || undefined,
+    PromptLibrary.getPropmtFromLibrary(
+      promptId || 'default',
+      {
+        cwd: WORK_DIR,
+        allowedHtmlElements: allowedHTMLElements,
+        modificationTagName: MODIFICATIONS_TAG_NAME,
+        designScheme,
+        supabase: {
+          isConnected: options?.supabaseConnection?.isConnected || false,
+          hasSelectedProject: options?.supabaseConnection?.hasSelectedProject || false,
+          credentials: options?.supabaseConnection?.credentials || undefined,
+        },
       },
-    }) ?? getSystemPrompt();
+      customPrompt,
+    ) ?? getSystemPrompt();
 
-  if (chatMode === 'build' && contextFiles && contextOptimization) {
-    const codeContext = createFilesContext(contextFiles, true);
+  // the rules of the project apply in both modes and are as stable as the prompt itself
+  const rulesPrompt = createRulesPrompt(findProjectRules(files));
+  const discussSystemPrompt = `${discussPrompt()}${rulesPrompt}`;
+  systemPrompt = `${systemPrompt}${rulesPrompt}`;
 
-    systemPrompt = `${systemPrompt}
+  const useContextBuffer = chatMode === 'build' && contextFiles && contextOptimization;
 
-    Below is the artifact containing the context loaded into context buffer for you to have knowledge of and might need changes to fullfill current user request.
-    CONTEXT BUFFER:
-    ---
-    ${codeContext}
-    ---
-    `;
+  if (useContextBuffer && summary) {
+    if (props.messageSliceId) {
+      processedMessages = processedMessages.slice(props.messageSliceId);
+    } else {
+      const lastMessage = processedMessages.pop();
 
-    if (summary) {
-      systemPrompt = `${systemPrompt}
-      below is the chat history till now
-      CHAT SUMMARY:
-      ---
-      ${props.summary}
-      ---
-      `;
-
-      if (props.messageSliceId) {
-        processedMessages = processedMessages.slice(props.messageSliceId);
-      } else {
-        const lastMessage = processedMessages.pop();
-
-        if (lastMessage) {
-          processedMessages = [lastMessage];
-        }
+      if (lastMessage) {
+        processedMessages = [lastMessage];
       }
     }
   }
@@ -180,11 +218,13 @@ export async function streamText(props: {
     }
   }
 
+  let lockedFilesPrompt = '';
+
   if (effectiveLockedFilePaths.size > 0) {
     const lockedFilesListString = Array.from(effectiveLockedFilePaths)
       .map((filePath) => `- ${filePath}`)
       .join('\n');
-    systemPrompt = `${systemPrompt}
+    lockedFilesPrompt = `
 
     IMPORTANT: The following files are locked and MUST NOT be modified in any way. Do not suggest or make any changes to these files. You can proceed with the request but DO NOT make any changes to these files specifically:
     ${lockedFilesListString}
@@ -194,6 +234,62 @@ export async function streamText(props: {
     console.log('No locked files found from any source for prompt.');
   }
 
+  const toolCallingInstructions = options?.toolCalling
+    ? `
+    ${toolCallingPrompt()}
+    `
+    : '';
+
+  // the context buffer and the chat history have to fit next to the response
+  await loadTokenizer(getTokenizerFamily(modelDetails.provider, modelDetails.name));
+
+  const fitted = fitToContextWindow({
+    model: modelDetails,
+    maxOutputTokens: dynamicMaxTokens,
+    system:
+      chatMode === 'build' ? `${systemPrompt}${lockedFilesPrompt}${toolCallingInstructions}` : discussSystemPrompt,
+    summary: useContextBuffer ? summary : undefined,
+    files: useContextBuffer ? contextFiles : undefined,
+    messages: processedMessages,
+  });
+
+  processedMessages = fitted.messages;
+  logger.debug('Token budget', JSON.stringify(fitted.budget));
+  props.onTokenBudget?.(fitted.budget, modelDetails);
+
+  /*
+   * the prompt from the library is stable across turns, the context buffer as long as the same files are selected.
+   * The chat summary changes every turn, it comes after the last breakpoint
+   */
+  const cacheBreakpoints = [systemPrompt];
+
+  if (useContextBuffer) {
+    const codeContext = createFilesContext(fitted.files ?? {}, true);
+
+    systemPrompt = `${systemPrompt}
+
+    Below is the artifact containing the context loaded into context buffer for you to have knowledge of and might need changes to fullfill current user request.
+    CONTEXT BUFFER:
+    ---
+    ${codeContext}
+    ---
+    `;
+
+    cacheBreakpoints.push(systemPrompt);
+
+    if (summary) {
+      systemPrompt = `${systemPrompt}
+      below is the chat history till now
+      CHAT SUMMARY:
+      ---
+      ${props.summary}
+      ---
+      `;
+    }
+  }
+
+  systemPrompt = `${systemPrompt}${lockedFilesPrompt}${toolCallingInstructions}`;
+
   logger.info(`Sending llm call to ${provider.name} with model ${modelDetails.name}`);
 
   // console.log(systemPrompt, processedMessages);
@@ -202,7 +298,7 @@ export async function streamText(props: {
   let currentModelDetails = modelDetails;
   const fallbackAttempted = false;
   let fallbackCount = 0;
-  const maxFallbackAttempts = 3;
+  const maxFallbackAttempts = props.fallback === false ? 0 : 3;
   const requestTimeout = 30000; // 30 seconds timeout
 
   // Create timeout promise
@@ -215,13 +311,21 @@ export async function streamText(props: {
   };
 
   // Enhanced LLM call with timeout
-  const executeStreamTextWithTimeout = async (modelInstance: any, systemText: string, maxTokens: number) => {
+  const executeStreamTextWithTimeout = async (
+    modelInstance: any,
+    systemText: string,
+    maxTokens: number,
+    reasoning?: ReasoningSettings,
+  ) => {
     const streamPromise = _streamText({
       model: modelInstance,
       system: systemText,
       maxTokens,
       messages: convertToCoreMessages(processedMessages as any),
       ...options,
+
+      // Anthropic and Google take the thinking budget with the call, the other providers with the model
+      providerOptions: { ...options?.providerOptions, ...createReasoningProviderOptions(provider.name, reasoning) },
     });
 
     return Promise.race([streamPromise, createTimeoutPromise(requestTimeout)]);
@@ -240,17 +344,22 @@ export async function streamText(props: {
         logger.info(`📡 محاولة الاتصال بالمزود البديل...`);
       }
 
+      const reasoning = resolveReasoningSettings(provider.name, props.reasoning);
+
       retryResult = await rateLimitRetryHandler.executeWithRetry(
         async () => {
           return await executeStreamTextWithTimeout(
-            provider.getModelInstance({
+            withReplay(provider, serverEnv).getModelInstance({
               model: currentModelDetails.name,
               serverEnv,
               apiKeys,
               providerSettings,
+              promptCache: { breakpoints: cacheBreakpoints, onUsage: props.onPromptCacheUsage },
+              reasoning,
             }),
-            chatMode === 'build' ? systemPrompt : discussPrompt(),
+            chatMode === 'build' ? systemPrompt : discussSystemPrompt,
             currentModelDetails.maxTokenAllowed || dynamicMaxTokens,
+            reasoning,
           );
         },
         `LLM call to ${provider.name} (attempt ${fallbackCount + 1})`,
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+import type { FileMap } from './constants';
+import { fitToContextWindow } from './token-budget';
+import { countTokens, getTokenizerFamily, loadTokenizer } from './tokenizer';
+
+const model: ModelInfo = {
+  name: 'test-model',
+  label: 'Test Model',
+  provider: 'Test',
+  maxTokenAllowed: 1000,
+  contextWindow: 3000,
+};
+
+const file = (size: number) => ({ type: 'file' as const, content: 'word '.repeat(size), isBinary: false });
+
+const message = (role: 'user' | 'assistant', size: number) => ({ role, content: `${role} ${'word '.repeat(size)}` });
+
+describe('countTokens', () => {
+  it('should count words, numbers, symbols and line breaks', () => {
+    expect(countTokens('')).toBe(0);
+    expect(countTokens('hello world', 'openai')).toBe(2);
+    expect(countTokens('const value = 42;\n', 'openai')).toBe(6);
+    expect(countTokens('你好世界')).toBe(4);
+  });
+
+  it('should detect the tokenizer family from provider and model', () => {
+    expect(getTokenizerFamily('Anthropic', 'claude-3-5-sonnet-latest')).toBe('anthropic');
+    expect(getTokenizerFamily('OpenRouter', 'openai/gpt-4o')).toBe('openai');
+    expect(getTokenizerFamily('Groq', 'llama-3.3-70b-versatile')).toBe('llama');
+    expect(getTokenizerFamily('Cohere', 'command-r-plus')).toBe('generic');
+  });
+
+  it('should count exactly with the tokenizer of the family once it is loaded', async () => {
+    const code = 'export default function App() {\n  return <div className="app" />;\n}\n';
+    const estimate = countTokens(code, 'anthropic');
+
+    await loadTokenizer('openai');
+    await loadTokenizer('anthropic');
+
+    expect(countTokens(code, 'openai')).toBe(17);
+    expect(countTokens('<|endoftext|>', 'openai')).toBe(7);
+    expect(countTokens(code, 'anthropic')).toBe(estimate);
+  });
+});
+
+describe('fitToContextWindow', () => {
+  it('should keep everything that fits', () => {
+    const messages = [message('user', 10), message('assistant', 10), message('user', 10)];
+    const files: FileMap = { '/home/project/src/a.ts': file(10) };
+
+    const fitted = fitToContextWindow({ model, maxOutputTokens: 1000, system: 'system', files, messages });
+
+    expect(fitted.messages).toBe(messages);
+    expect(fitted.files).toEqual(files);
+    expect(fitted.budget).toMatchObject({ contextWindow: 3000, trimmedMessages: 0, droppedFiles: [] });
+    expect(fitted.budget.total).toBe(fitted.budget.system + fitted.budget.files + fitted.budget.messages);
+  });
+
+  it('should condense the oldest messages first', () => {
+    const messages = [message('user', 1200), message('assistant', 2000), message('user', 10), message('assistant', 10)];
+
+    const fitted = fitToContextWindow({ model, maxOutputTokens: 1000, system: 'system', messages });
+
+    expect(fitted.budget.trimmedMessages).toBe(2);
+    expect(fitted.messages).toHaveLength(3);
+    expect(fitted.messages[0].content).toContain('2 earlier messages were left out');
+    expect(fitted.messages.slice(1)).toEqual(messages.slice(2));
+    expect(fitted.budget.total).toBeLessThanOrEqual(1900);
+  });
+
+  it('should drop the files that are not mentioned in the conversation', () => {
+    const files: FileMap = {
+      '/home/project/src/big.ts': file(1500),
+      '/home/project/src/App.tsx': file(600),
+    };
+
+    const fitted = fitToContextWindow({
+      model,
+      maxOutputTokens: 1000,
+      system: 'system',
+      files,
+      messages: [message('user', 10), { role: 'user', content: 'Fix the header in App.tsx' }],
+    });
+
+    expect(Object.keys(fitted.files!)).toEqual(['/home/project/src/App.tsx']);
+    expect(fitted.budget.droppedFiles).toEqual(['/home/project/src/big.ts']);
+  });
+});
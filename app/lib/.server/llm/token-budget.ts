@@ -0,0 +1,148 @@
+import type { Message } from 'ai';
+import { getContextWindow } from '~/lib/modules/llm/capabilities';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+import type { TokenBudgetAnnotation } from '~/types/context';
+import { createScopedLogger } from '~/utils/logger';
+import type { FileMap } from './constants';
+import { countMessageTokens, countTokens, getTokenizerFamily, type TokenizerFamily } from './tokenizer';
+import { createFilesContext } from './utils';
+
+const logger = createScopedLogger('token-budget');
+
+// leaves room for the estimate being off
+const SAFETY_MARGIN = 0.05;
+
+// the most recent messages are never trimmed, the current request needs them
+const MIN_KEPT_MESSAGES = 2;
+
+// dropped messages are condensed to the start of every user request
+const CONDENSED_REQUEST_LENGTH = 200;
+
+export type TokenBudget = Omit<TokenBudgetAnnotation, 'type'>;
+
+type BudgetMessage = Omit<Message, 'id'>;
+
+function countFileTokens(files: FileMap, family: TokenizerFamily) {
+  const tokens = new Map<string, number>();
+
+  for (const filePath of Object.keys(files)) {
+    tokens.set(filePath, countTokens(createFilesContext({ [filePath]: files[filePath] }, true), family));
+  }
+
+  return tokens;
+}
+
+function condenseMessages(messages: BudgetMessage[]): BudgetMessage {
+  const requests = messages
+    .filter((message) => message.role === 'user' && typeof message.content === 'string')
+    .map((message) => {
+      const text = message.content.replace(/\s+/g, ' ').trim();
+      return `- ${text.length > CONDENSED_REQUEST_LENGTH ? `${text.slice(0, CONDENSED_REQUEST_LENGTH)}...` : text}`;
+    });
+
+  return {
+    role: 'user',
+    content: `[${messages.length} earlier messages were left out to fit the context window. Earlier requests:]\n${requests.join('\n')}`,
+  };
+}
+
+// files mentioned in the conversation are the most relevant, the rest keep the order of the selection
+function rankFiles(files: FileMap, messages: BudgetMessage[]) {
+  const recentText = messages
+    .slice(-MIN_KEPT_MESSAGES * 2)
+    .map((message) => (typeof message.content === 'string' ? message.content : ''))
+    .join('\n');
+
+  const paths = Object.keys(files);
+  const mentioned = (filePath: string) => recentText.includes(filePath.split('/').pop() ?? filePath);
+
+  return [...paths.filter(mentioned), ...paths.filter((filePath) => !mentioned(filePath))];
+}
+
+/**
+ * Fits the prompt into the context window of the model. The oldest messages are condensed first, then the
+ * least relevant context files are dropped. If it still doesn't fit, only the most recent messages are kept
+ * and the request is sent anyway, the provider decides whether it's too large.
+ * @param options.system System prompt without the context files and the summary
+ * @param options.files Context files that are added to the system prompt
+ */
+export function fitToContextWindow<T extends BudgetMessage>(options: {
+  model: ModelInfo;
+  maxOutputTokens: number;
+  system: string;
+  summary?: string;
+  files?: FileMap;
+  messages: T[];
+}): { messages: (T | BudgetMessage)[]; files?: FileMap; budget: TokenBudget } {
+  const { model, maxOutputTokens, system, summary } = options;
+  const family = getTokenizerFamily(model.provider, model.name);
+  const contextWindow = getContextWindow(model);
+  const available = Math.floor((contextWindow - maxOutputTokens) * (1 - SAFETY_MARGIN));
+
+  const systemTokens = countTokens(system, family);
+  const summaryTokens = countTokens(summary ?? '', family);
+  const fileTokens = countFileTokens(options.files ?? {}, family);
+  const messageTokens = options.messages.map((message) => countMessageTokens(message, family));
+
+  const sum = (values: Iterable<number>) => [...values].reduce((total, value) => total + value, 0);
+
+  let messages: (T | BudgetMessage)[] = options.messages;
+  let messagesTotal = sum(messageTokens);
+  let filePaths = rankFiles(options.files ?? {}, options.messages);
+  let filesTotal = sum(fileTokens.values());
+  let trimmedMessages = 0;
+
+  const total = () => systemTokens + summaryTokens + filesTotal + messagesTotal;
+
+  // condense the oldest messages, one at a time
+  while (total() > available && trimmedMessages < options.messages.length - MIN_KEPT_MESSAGES) {
+    trimmedMessages++;
+
+    const condensed = condenseMessages(options.messages.slice(0, trimmedMessages));
+    messages = [condensed, ...options.messages.slice(trimmedMessages)];
+    messagesTotal = countMessageTokens(condensed, family) + sum(messageTokens.slice(trimmedMessages));
+  }
+
+  // drop the least relevant files
+  while (total() > available && filePaths.length > 0) {
+    filesTotal -= fileTokens.get(filePaths.at(-1)!) ?? 0;
+    filePaths = filePaths.slice(0, -1);
+  }
+
+  if (total() > available) {
+    const kept = options.messages.slice(-MIN_KEPT_MESSAGES);
+
+    trimmedMessages = options.messages.length - kept.length;
+    messages = kept;
+    messagesTotal = sum(messageTokens.slice(-MIN_KEPT_MESSAGES));
+
+    logger.warn(`Prompt of ~${total()} tokens exceeds the ${available} tokens available for ${model.name}`);
+  }
+
+  const allFiles = Object.keys(options.files ?? {});
+  const droppedFiles = allFiles.filter((filePath) => !filePaths.includes(filePath));
+  const files = options.files
+    ? Object.fromEntries(
+        allFiles
+          .filter((filePath) => filePaths.includes(filePath))
+          .map((filePath) => [filePath, options.files![filePath]]),
+      )
+    : undefined;
+
+  return {
+    messages,
+    files,
+    budget: {
+      model: model.name,
+      contextWindow,
+      maxOutputTokens,
+      system: systemTokens,
+      summary: summaryTokens,
+      files: filesTotal,
+      messages: messagesTotal,
+      total: total(),
+      trimmedMessages,
+      droppedFiles,
+    },
+  };
+}
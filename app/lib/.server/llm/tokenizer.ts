@@ -0,0 +1,152 @@
+import type { Message } from 'ai';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('tokenizer');
+
+export type TokenizerFamily = 'openai' | 'anthropic' | 'gemini' | 'llama' | 'generic';
+
+interface TokenizerProfile {
+  /** letters of a word that usually end up in a single token */
+  wordChars: number;
+
+  /** digits per token, the Llama tokenizers split numbers into single digits */
+  digitChars: number;
+
+  /** punctuation and symbol characters per token */
+  symbolChars: number;
+}
+
+/*
+ * Rough profiles of the tokenizer families. They lean towards overestimating, which only costs a bit of
+ * context while underestimating gets the request rejected.
+ */
+const PROFILES: Record<TokenizerFamily, TokenizerProfile> = {
+  openai: { wordChars: 6, digitChars: 3, symbolChars: 2 },
+  anthropic: { wordChars: 5, digitChars: 3, symbolChars: 1.5 },
+  gemini: { wordChars: 6, digitChars: 1, symbolChars: 2 },
+  llama: { wordChars: 5, digitChars: 3, symbolChars: 1.5 },
+  generic: { wordChars: 4.5, digitChars: 2, symbolChars: 1.5 },
+};
+
+// tokens added by the chat format around every message
+const MESSAGE_OVERHEAD = 4;
+
+/*
+ * Exact counters of the families with a published tokenizer, loaded on first use by `loadTokenizer` because the
+ * ranks are megabytes. The other families and a tokenizer that is still loading use the profiles.
+ */
+const encoders: Partial<Record<TokenizerFamily, (text: string) => number>> = {};
+const loading: Partial<Record<TokenizerFamily, Promise<void>>> = {};
+
+/*
+ * Same split as the GPT pre-tokenizer: contractions, words with their leading space, numbers, runs of
+ * symbols and whitespace. BPE merges never cross these boundaries.
+ */
+const PRE_TOKENIZER_REGEX = /'(?:s|t|re|ve|m|ll|d)| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+/gu;
+
+// scripts without spaces between words, every character is roughly one token
+const WIDE_CHAR_REGEX = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+
+export function getTokenizerFamily(provider: string, model: string): TokenizerFamily {
+  const name = `${provider}/${model}`.toLowerCase();
+
+  if (/claude|anthropic/.test(name)) {
+    return 'anthropic';
+  }
+
+  if (/gpt|openai|\bo[1-9]\b|\/o[1-9]|chatgpt/.test(name)) {
+    return 'openai';
+  }
+
+  if (/gemini|gemma|google/.test(name)) {
+    return 'gemini';
+  }
+
+  if (/llama|mistral|mixtral|codestral|qwen|deepseek/.test(name)) {
+    return 'llama';
+  }
+
+  return 'generic';
+}
+
+async function createOpenAIEncoder() {
+  const [lite, { default: o200kBase }] = await Promise.all([
+    import('js-tiktoken/lite'),
+    import('js-tiktoken/ranks/o200k_base'),
+  ]);
+  const tiktoken = new lite.Tiktoken(o200kBase);
+
+  // special tokens in a prompt are counted as text, they are not special in user content
+  return (text: string) => tiktoken.encode(text, [], []).length;
+}
+
+/**
+ * Loads the exact tokenizer of a family, `countTokens` estimates until it's loaded. Families without one resolve
+ * right away, a tokenizer that fails to load leaves the estimate in place.
+ */
+export function loadTokenizer(family: TokenizerFamily) {
+  if (family !== 'openai') {
+    return Promise.resolve();
+  }
+
+  loading[family] ??= createOpenAIEncoder().then(
+    (encode) => {
+      encoders[family] = encode;
+    },
+    (error) => {
+      logger.warn(`Failed to load the ${family} tokenizer, token counts are estimated`, error);
+    },
+  );
+
+  return loading[family];
+}
+
+/**
+ * Counts the tokens the model's tokenizer produces for a text, exactly once `loadTokenizer` loaded the tokenizer
+ * of the family. Otherwise the text is split like BPE tokenizers do before merging and every piece is priced by
+ * the family's profile.
+ */
+export function countTokens(text: string, family: TokenizerFamily = 'generic') {
+  if (!text) {
+    return 0;
+  }
+
+  const encode = encoders[family];
+
+  if (encode) {
+    return encode(text);
+  }
+
+  const profile = PROFILES[family];
+  let tokens = 0;
+
+  for (const [piece] of text.matchAll(PRE_TOKENIZER_REGEX)) {
+    const wideChars = piece.match(WIDE_CHAR_REGEX)?.length ?? 0;
+
+    if (wideChars > 0) {
+      tokens += wideChars + Math.ceil((piece.length - wideChars) / profile.wordChars);
+      continue;
+    }
+
+    const trimmed = piece.trimStart();
+
+    if (!trimmed) {
+      // whitespace runs are merged, line breaks mostly are not
+      tokens += Math.max(1, piece.split('\n').length - 1);
+    } else if (/^\p{L}/u.test(trimmed)) {
+      tokens += Math.ceil(trimmed.length / profile.wordChars);
+    } else if (/^\p{N}/u.test(trimmed)) {
+      tokens += Math.ceil(trimmed.length / profile.digitChars);
+    } else {
+      tokens += Math.ceil(trimmed.length / profile.symbolChars);
+    }
+  }
+
+  return tokens;
+}
+
+export function countMessageTokens(message: Omit<Message, 'id'>, family: TokenizerFamily = 'generic') {
+  const content = typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+
+  return countTokens(content, family) + MESSAGE_OVERHEAD;
+}
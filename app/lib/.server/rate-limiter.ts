@@ -135,6 +135,17 @@ export const enhancerRateLimiter = new RateLimiter({
   },
 });
 
+export const gatewayRateLimiter = new RateLimiter({
+  windowMs: 60 * 1000, // 1 minute
+  maxRequests: 30, // 30 requests per minute
+  keyGenerator: (request) => {
+    const forwarded = request.headers.get('x-forwarded-for');
+    const ip = forwarded ? forwarded.split(',')[0] : 'unknown';
+
+    return `gateway:${ip}`;
+  },
+});
+
 // Helper function to create rate limit response
 export function createRateLimitResponse(resetTime: number) {
   const resetDate = new Date(resetTime);
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { mergeCustomPrompts, renderPromptTemplate, type CustomPrompt } from './custom-prompts';
+import { PromptLibrary, type PromptOptions } from './prompt-library';
+
+const options: PromptOptions = {
+  cwd: '/home/project',
+  allowedHtmlElements: ['a', 'b'],
+  modificationTagName: 'bolt_file_modifications',
+  designScheme: { font: ['sans-serif'], palette: { primary: '#9E7FFF' }, features: ['rounded'] },
+  supabase: {
+    isConnected: true,
+    hasSelectedProject: true,
+    credentials: { supabaseUrl: 'https://example.supabase.co', anonKey: 'anon' },
+  },
+};
+
+const customPrompt: CustomPrompt = {
+  id: 'custom-team',
+  label: 'Team Prompt',
+  description: 'The prompt of our team',
+  template: 'Work in {{cwd}}.',
+  version: 1,
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('renderPromptTemplate', () => {
+  it('should replace the template variables', () => {
+    expect(renderPromptTemplate('Work in {{ cwd }}, use {{allowedHtmlElements}}.', options)).toBe(
+      'Work in /home/project, use <a>, <b>.',
+    );
+    expect(renderPromptTemplate('{{supabase.isConnected}} {{supabase.url}}', options)).toBe(
+      'true https://example.supabase.co',
+    );
+    expect(renderPromptTemplate('{{designScheme}}', options)).toContain('PALETTE: {"primary":"#9E7FFF"}');
+    expect(renderPromptTemplate('{{supabase.anonKey}}', { ...options, supabase: undefined })).toBe('');
+  });
+
+  it('should leave unknown variables as they are', () => {
+    expect(renderPromptTemplate('Work in {{cwdd}}.', options)).toBe('Work in {{cwdd}}.');
+  });
+});
+
+describe('mergeCustomPrompts', () => {
+  it('should keep the later version of a prompt', () => {
+    const updated = { ...customPrompt, template: 'Work in {{cwd}} and test.', version: 2 };
+    const other = { ...customPrompt, id: 'custom-other' };
+
+    expect(mergeCustomPrompts([customPrompt], [updated, other])).toEqual([updated, other]);
+    expect(mergeCustomPrompts([updated], [customPrompt])).toEqual([updated]);
+  });
+});
+
+describe('PromptLibrary', () => {
+  it('should render the custom prompt that is selected', () => {
+    expect(PromptLibrary.getPropmtFromLibrary('custom-team', options, customPrompt)).toBe('Work in /home/project.');
+    expect(PromptLibrary.getList([customPrompt]).map((prompt) => prompt.id)).toContain('custom-team');
+  });
+
+  it('should return nothing for unknown prompts', () => {
+    expect(PromptLibrary.getPropmtFromLibrary('custom-team', options)).toBeUndefined();
+  });
+});
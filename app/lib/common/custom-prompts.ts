@@ -0,0 +1,91 @@
+import type { PromptOptions } from './prompt-library';
+
+/** a system prompt written by the user, stored in the browser and sent with every chat request that uses it */
+export interface CustomPrompt {
+  id: string;
+  label: string;
+  description: string;
+
+  /** the prompt, with `{{variable}}` placeholders for the variables in `PROMPT_VARIABLES` */
+  template: string;
+
+  /** counts the saves of the prompt, to tell apart copies shared between machines */
+  version: number;
+  updatedAt: string;
+}
+
+export const CUSTOM_PROMPT_PREFIX = 'custom-';
+
+// the template variables with what they are replaced with
+const VARIABLES: Record<string, { description: string; render: (options: PromptOptions) => string }> = {
+  cwd: {
+    description: 'The working directory of the project',
+    render: (options) => options.cwd,
+  },
+  allowedHtmlElements: {
+    description: 'The HTML elements the response may use for formatting',
+    render: (options) => options.allowedHtmlElements.map((tagName) => `<${tagName}>`).join(', '),
+  },
+  modificationTagName: {
+    description: 'The tag the user modifications of files are sent in',
+    render: (options) => options.modificationTagName,
+  },
+  designScheme: {
+    description: 'The fonts, palette and features the user picked, empty if there is none',
+    render: ({ designScheme }) =>
+      designScheme
+        ? `FONT: ${JSON.stringify(designScheme.font)}
+PALETTE: ${JSON.stringify(designScheme.palette)}
+FEATURES: ${JSON.stringify(designScheme.features)}`
+        : '',
+  },
+  'supabase.isConnected': {
+    description: '`true` if Supabase is connected',
+    render: ({ supabase }) => String(!!supabase?.isConnected),
+  },
+  'supabase.hasSelectedProject': {
+    description: '`true` if a Supabase project is selected',
+    render: ({ supabase }) => String(!!supabase?.hasSelectedProject),
+  },
+  'supabase.url': {
+    description: 'The URL of the selected Supabase project, empty if there is none',
+    render: ({ supabase }) => supabase?.credentials?.supabaseUrl ?? '',
+  },
+  'supabase.anonKey': {
+    description: 'The anon key of the selected Supabase project, empty if there is none',
+    render: ({ supabase }) => supabase?.credentials?.anonKey ?? '',
+  },
+};
+
+export const PROMPT_VARIABLES = Object.entries(VARIABLES).map(([name, { description }]) => ({ name, description }));
+
+/**
+ * Replaces the `{{variable}}` placeholders of a template. Unknown variables are left as they are, so a typo
+ * shows up in the preview instead of silently turning into an empty string.
+ * @param template The prompt template
+ * @param options What the variables are replaced with
+ */
+export function renderPromptTemplate(template: string, options: PromptOptions) {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (placeholder, name: string) =>
+    VARIABLES[name] ? VARIABLES[name].render(options) : placeholder,
+  );
+}
+
+/**
+ * Merges imported custom prompts into the existing ones, of two prompts with the same id the later version is kept.
+ * @param existing The custom prompts of this browser
+ * @param imported The custom prompts of an imported settings export
+ */
+export function mergeCustomPrompts(existing: CustomPrompt[], imported: CustomPrompt[]) {
+  const merged = new Map(existing.map((prompt) => [prompt.id, prompt]));
+
+  for (const prompt of imported) {
+    const current = merged.get(prompt.id);
+
+    if (!current || prompt.version > current.version) {
+      merged.set(prompt.id, prompt);
+    }
+  }
+
+  return [...merged.values()];
+}
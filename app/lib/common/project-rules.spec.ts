@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import type { FileMap } from '~/lib/stores/files';
+import { WORK_DIR } from '~/utils/constants';
+import { createRulesPrompt, findProjectRules, PROJECT_RULES_TEMPLATE } from './project-rules';
+
+const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+
+describe('findProjectRules', () => {
+  it('should find the rules files without their comments', () => {
+    const files: FileMap = {
+      [`${WORK_DIR}/AGENTS.md`]: file('Use pnpm.'),
+      [`${WORK_DIR}/.bolt/rules.md`]: file('<!-- for the AI -->\nTailwind only.'),
+      [`${WORK_DIR}/src/AGENTS.md`]: file('Not a project rules file.'),
+    };
+
+    expect(findProjectRules(files)).toEqual([
+      { path: '.bolt/rules.md', content: 'Tailwind only.' },
+      { path: 'AGENTS.md', content: 'Use pnpm.' },
+    ]);
+  });
+
+  it('should leave out a new rules file until it is filled in', () => {
+    expect(findProjectRules({ [`${WORK_DIR}/.bolt/rules.md`]: file(PROJECT_RULES_TEMPLATE) })).toEqual([]);
+  });
+});
+
+describe('createRulesPrompt', () => {
+  it('should name the file of every rule', () => {
+    const prompt = createRulesPrompt([{ path: 'AGENTS.md', content: 'Use pnpm.' }]);
+
+    expect(prompt).toContain('<rules file="AGENTS.md">\nUse pnpm.\n</rules>');
+    expect(createRulesPrompt([])).toBe('');
+  });
+});
@@ -0,0 +1,76 @@
+import type { FileMap } from '~/lib/stores/files';
+import { WORK_DIR } from '~/utils/constants';
+
+/** rules files of a project, relative to the work dir, all that exist are used in this order */
+export const PROJECT_RULES_FILES = ['.bolt/rules.md', 'AGENTS.md'];
+
+// longer rules files are cut off, they are sent with every request
+const MAX_RULES_LENGTH = 8000;
+
+/** the content of a new rules file, the comments are left out of the prompt */
+export const PROJECT_RULES_TEMPLATE = `<!--
+Project rules: instructions the AI follows in every chat of this project. Write them below this comment,
+for example:
+
+- Use pnpm to install packages
+- Style with Tailwind only, no CSS files
+- Never change the files in src/legacy
+-->
+
+`;
+
+export interface ProjectRules {
+  /** the path of the rules file, relative to the work dir */
+  path: string;
+  content: string;
+}
+
+/**
+ * The rules files of the project with their content, without HTML comments. Files that are empty without
+ * their comments are left out.
+ * @param files The files of the project
+ */
+export function findProjectRules(files?: FileMap): ProjectRules[] {
+  const rules: ProjectRules[] = [];
+
+  for (const path of PROJECT_RULES_FILES) {
+    const file = files?.[`${WORK_DIR}/${path}`];
+
+    if (file?.type !== 'file' || file.isBinary) {
+      continue;
+    }
+
+    let content = file.content.replace(/<!--[\s\S]*?-->/g, '').trim();
+
+    if (!content) {
+      continue;
+    }
+
+    if (content.length > MAX_RULES_LENGTH) {
+      content = `${content.slice(0, MAX_RULES_LENGTH)}\n[the rest of the rules file was cut off]`;
+    }
+
+    rules.push({ path, content });
+  }
+
+  return rules;
+}
+
+/**
+ * The part of the system prompt with the project rules, an empty string if there are none.
+ */
+export function createRulesPrompt(rules: ProjectRules[]) {
+  if (rules.length === 0) {
+    return '';
+  }
+
+  const files = rules.map((rule) => `<rules file="${rule.path}">\n${rule.content}\n</rules>`).join('\n');
+
+  return `
+
+<project_rules>
+The user keeps these rules for this project. Follow them in every response, where they conflict with the instructions above the rules of the project win.
+${files}
+</project_rules>
+`;
+}
@@ -2,6 +2,10 @@ import { getSystemPrompt } from './prompts/prompts';
 import optimized from './prompts/optimized';
 import { getFineTunedPrompt } from './prompts/new-prompt';
 import type { DesignScheme } from '~/types/design-scheme';
+import { renderPromptTemplate, type CustomPrompt } from './custom-prompts';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('PromptLibrary');
 
 export interface PromptOptions {
   cwd: string;
@@ -43,8 +47,8 @@ export class PromptLibrary {
       get: (options) => optimized(options),
     },
   };
-  static getList() {
-    return Object.entries(this.library).map(([key, value]) => {
+  static getList(customPrompts: CustomPrompt[] = []) {
+    const builtIn = Object.entries(this.library).map(([key, value]) => {
       const { label, description } = value;
       return {
         id: key,
@@ -52,14 +56,29 @@ export class PromptLibrary {
         description,
       };
     });
+
+    return [...builtIn, ...customPrompts.map(({ id, label, description }) => ({ id, label, description }))];
   }
-  static getPropmtFromLibrary(promptId: string, options: PromptOptions) {
+
+  /**
+   * The system prompt with the given id, rendered with the options.
+   * @param promptId The id of a prompt of the library or of the custom prompt
+   * @param options What the prompt is rendered with
+   * @param customPrompt The custom prompt the user selected, the server can't look them up itself
+   * @returns The prompt, or `undefined` for an unknown id, like a custom prompt that has been deleted
+   */
+  static getPropmtFromLibrary(promptId: string, options: PromptOptions, customPrompt?: CustomPrompt) {
+    if (customPrompt && customPrompt.id === promptId) {
+      return renderPromptTemplate(customPrompt.template, options);
+    }
+
     const prompt = this.library[promptId];
 
     if (!prompt) {
-      throw 'Prompt Now Found';
+      logger.warn(`Prompt not found: ${promptId}`);
+      return undefined;
     }
 
-    return this.library[promptId]?.get(options);
+    return prompt.get(options);
   }
 }
@@ -168,6 +168,11 @@ The year is 2025.
     - shell: Running commands (use --yes for npx/npm create, && for sequences, NEVER re-run dev servers)
     - start: Starting project (use ONLY for project startup, LAST action)
     - file: Creating/updating files (add filePath and contentType attributes)
+    - patch: Small edits to EXISTING files (add filePath attribute, content is search/replace blocks)
+    - delete: Deleting a file or folder (add filePath attribute, empty content)
+    - rename: Renaming/moving a file or folder (add filePath and newFilePath attributes, empty content)
+    - mkdir: Creating an empty folder (add filePath attribute, empty content)
+    - ALWAYS use delete/rename/mkdir instead of rm/mv/mkdir shell commands
 
   File Action Rules:
     - Only include new/modified files
@@ -175,6 +180,18 @@ The year is 2025.
     - NEVER use diffs for new files or SQL migrations
     - FORBIDDEN: Binary files, base64 assets
 
+  Patch Action Rules:
+    - Prefer patch over file when changing a few lines of a large existing file
+    - Content is one or more blocks, in file order:
+      <<<<<<< SEARCH
+      exact lines from the latest file content
+      =======
+      replacement lines
+      >>>>>>> REPLACE
+    - SEARCH must match the latest file content EXACTLY (indentation included) and be unique in the file
+    - Unified diff hunks (@@ -1,3 +1,3 @@) are also accepted
+    - NEVER patch new files, unseen files or SQL migrations, use file instead
+
   Action Order:
     - Create files BEFORE shell commands that depend on them
     - Update package.json FIRST, then install dependencies
@@ -0,0 +1,15 @@
+import { ARTIFACT_TOOL_NAMES } from '~/utils/constants';
+
+export const toolCallingPrompt = () => `
+<tool_calling_instructions>
+  IMPORTANT: Native tool calling is enabled for this conversation. This OVERRIDES the artifact instructions above.
+
+  - NEVER write \`<boltArtifact>\` or \`<boltAction>\` tags. Use the following tools instead:
+    - \`${ARTIFACT_TOOL_NAMES.WRITE_FILE}\`: create or overwrite a file. Always pass the complete, updated content of the file.
+    - \`${ARTIFACT_TOOL_NAMES.RUN_COMMAND}\`: run a shell command, e.g. to install dependencies.
+    - \`${ARTIFACT_TOOL_NAMES.START_DEV_SERVER}\`: start the development server. Only call it once, after all files are written and dependencies are installed.
+  - Call the tools in the order the actions have to run, exactly like the actions of an artifact. Install dependencies before starting the dev server.
+  - The tools only queue the actions. They run in the user's workbench once your response is complete, so don't wait for their output.
+  - Keep the text of your response short, the user sees every tool call as part of the changes.
+</tool_calling_instructions>
+`;
@@ -1,52 +1,64 @@
 import type { Message } from 'ai';
 import { useCallback, useState } from 'react';
-import { StreamingMessageParser } from '~/lib/runtime/message-parser';
+import { actionRegistry } from '~/lib/runtime/actions';
+import { StreamingMessageParser, type ParserCallbacks } from '~/lib/runtime/message-parser';
+import { ToolCallParser } from '~/lib/runtime/tool-call-parser';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('useMessageParser');
 
-const messageParser = new StreamingMessageParser({
-  callbacks: {
-    onArtifactOpen: (data) => {
-      logger.trace('onArtifactOpen', data);
-
-      workbenchStore.showWorkbench.set(true);
-      workbenchStore.addArtifact(data);
-    },
-    onArtifactClose: (data) => {
-      logger.trace('onArtifactClose');
-
-      workbenchStore.updateArtifact(data, { closed: true });
-    },
-    onActionOpen: (data) => {
-      logger.trace('onActionOpen', data.action);
-
-      // we only add shell actions when when the close tag got parsed because only then we have the content
-      if (data.action.type === 'file') {
-        workbenchStore.addAction(data);
-      }
-    },
-    onActionClose: (data) => {
-      logger.trace('onActionClose', data.action);
+const callbacks: ParserCallbacks = {
+  onArtifactOpen: (data) => {
+    logger.trace('onArtifactOpen', data);
 
-      if (data.action.type !== 'file') {
-        workbenchStore.addAction(data);
-      }
+    workbenchStore.showWorkbench.set(true);
+    workbenchStore.addArtifact(data);
+  },
+  onArtifactClose: (data) => {
+    logger.trace('onArtifactClose');
+
+    workbenchStore.updateArtifact(data, { closed: true });
+  },
+  onActionOpen: (data) => {
+    logger.trace('onActionOpen', data.action);
+
+    // we only add non-streaming actions when the close tag got parsed because only then we have the content
+    if (actionRegistry.get(data.action.type)?.streaming) {
+      workbenchStore.addAction(data);
+    }
+  },
+  onActionClose: (data) => {
+    logger.trace('onActionClose', data.action);
+
+    if (!actionRegistry.get(data.action.type)?.streaming) {
+      workbenchStore.addAction(data);
+    }
 
-      workbenchStore.runAction(data);
-    },
-    onActionStream: (data) => {
-      logger.trace('onActionStream', data.action);
-      workbenchStore.runAction(data, true);
-    },
+    workbenchStore.runAction(data);
   },
-});
+  onActionStream: (data) => {
+    logger.trace('onActionStream', data.action);
+    workbenchStore.runAction(data, true);
+  },
+  onDiagnostic: (diagnostic) => {
+    logger.debug('onDiagnostic', diagnostic);
+  },
+};
+
+const messageParser = new StreamingMessageParser({ callbacks });
+
+// artifact actions of models that use native tool calling instead of `<boltArtifact>` tags
+const toolCallParser = new ToolCallParser({ callbacks });
+
 const extractTextContent = (message: Message) =>
   Array.isArray(message.content)
     ? (message.content.find((item) => item.type === 'text')?.text as string) || ''
     : message.content;
 
+const extractToolInvocations = (message: Message) =>
+  (message.parts ?? []).flatMap((part) => (part.type === 'tool-invocation' ? [part.toolInvocation] : []));
+
 export function useMessageParser() {
   const [parsedMessages, setParsedMessages] = useState<{ [key: number]: string }>({});
 
@@ -56,11 +68,25 @@ export function useMessageParser() {
     if (import.meta.env.DEV && !isLoading) {
       reset = true;
       messageParser.reset();
+      toolCallParser.reset();
     }
 
     for (const [index, message] of messages.entries()) {
       if (message.role === 'assistant' || message.role === 'user') {
-        const newParsedContent = messageParser.parse(message.id, extractTextContent(message));
+        const textContent = extractTextContent(message);
+        let newParsedContent = messageParser.parse(message.id, textContent);
+
+        if (message.role === 'assistant') {
+          const complete = !isLoading || index < messages.length - 1;
+
+          if (complete) {
+            // closes artifacts and actions the model never closed
+            messageParser.end(message.id, textContent);
+          }
+
+          newParsedContent += toolCallParser.parse(message.id, extractToolInvocations(message), complete);
+        }
+
         setParsedMessages((prevParsed) => ({
           ...prevParsed,
           [index]: !reset ? (prevParsed[index] || '') + newParsedContent : newParsedContent,
@@ -7,12 +7,18 @@ import {
   latestBranchStore,
   autoSelectStarterTemplate,
   enableContextOptimizationStore,
+  enableToolCallingStore,
+  contextSelectionStore,
+  contextEmbeddingModelStore,
   tabConfigurationStore,
   resetTabConfiguration as resetTabConfig,
   updateProviderSettings as updateProviderSettingsStore,
   updateLatestBranch,
   updateAutoSelectTemplate,
   updateContextOptimization,
+  updateToolCalling,
+  updateContextSelection,
+  updateContextEmbeddingModel,
   updateEventLogs,
   updatePromptId,
 } from '~/lib/stores/settings';
@@ -20,6 +26,7 @@ import { useCallback, useEffect, useState } from 'react';
 import Cookies from 'js-cookie';
 import type { IProviderSetting, ProviderInfo, IProviderConfig } from '~/types/model';
 import type { TabWindowConfig } from '~/components/@settings/core/types';
+import type { ContextSelectionMode } from '~/types/context';
 import { logStore } from '~/lib/stores/logs';
 import { getLocalStorage, setLocalStorage } from '~/lib/persistence';
 
@@ -58,6 +65,12 @@ export interface UseSettingsReturn {
   setAutoSelectTemplate: (enabled: boolean) => void;
   contextOptimizationEnabled: boolean;
   enableContextOptimization: (enabled: boolean) => void;
+  toolCallingEnabled: boolean;
+  enableToolCalling: (enabled: boolean) => void;
+  contextSelection: ContextSelectionMode;
+  setContextSelection: (mode: ContextSelectionMode) => void;
+  contextEmbeddingModel: string;
+  setContextEmbeddingModel: (model: string) => void;
 
   // Tab configuration
   tabConfiguration: TabWindowConfig;
@@ -78,6 +91,9 @@ export function useSettings(): UseSettingsReturn {
   const autoSelectTemplate = useStore(autoSelectStarterTemplate);
   const [activeProviders, setActiveProviders] = useState<ProviderInfo[]>([]);
   const contextOptimizationEnabled = useStore(enableContextOptimizationStore);
+  const toolCallingEnabled = useStore(enableToolCallingStore);
+  const contextSelection = useStore(contextSelectionStore);
+  const contextEmbeddingModel = useStore(contextEmbeddingModelStore);
   const tabConfiguration = useStore(tabConfigurationStore);
   const [settings, setSettings] = useState<Settings>(() => {
     const storedSettings = getLocalStorage('settings');
@@ -143,6 +159,21 @@ export function useSettings(): UseSettingsReturn {
     logStore.logSystem(`Context optimization ${enabled ? 'enabled' : 'disabled'}`);
   }, []);
 
+  const enableToolCalling = useCallback((enabled: boolean) => {
+    updateToolCalling(enabled);
+    logStore.logSystem(`Native tool calling ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
+  const setContextSelection = useCallback((mode: ContextSelectionMode) => {
+    updateContextSelection(mode);
+    logStore.logSystem(`Context selection set to ${mode}`);
+  }, []);
+
+  const setContextEmbeddingModel = useCallback((model: string) => {
+    updateContextEmbeddingModel(model);
+    logStore.logSystem(`Context embedding model set to ${model || 'none'}`);
+  }, []);
+
   const setTheme = useCallback(
     (theme: Settings['theme']) => {
       saveSettings({ theme });
@@ -197,6 +228,12 @@ export function useSettings(): UseSettingsReturn {
     setAutoSelectTemplate,
     contextOptimizationEnabled,
     enableContextOptimization,
+    toolCallingEnabled,
+    enableToolCalling,
+    contextSelection,
+    setContextSelection,
+    contextEmbeddingModel,
+    setContextEmbeddingModel,
     setTheme,
     setLanguage,
     setNotifications,
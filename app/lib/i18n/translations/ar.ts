@@ -119,6 +119,113 @@ export const ar: TranslationKeys = {
     updateFailed: 'فشل في تحديث الإعدادات',
   },
 
+  // Command safety policy
+  commandPolicy: {
+    title: 'أمان أوامر الطرفية',
+    description:
+      'يتم فحص الأوامر التي يكتبها الذكاء الاصطناعي قبل تشغيلها في الطرفية. أنماط الحظر تمنع الأمر دائماً، وأنماط السماح تتخطى فحص الأوامر الخطرة لكل أمر متسلسل تطابقه بمفرده.',
+    dangerousCommands: 'الأوامر الخطرة',
+    confirm: 'طلب التأكيد',
+    block: 'حظر',
+    allow: 'سماح',
+    denyPatterns: 'أنماط الحظر',
+    allowPatterns: 'أنماط السماح',
+    patternsHint: 'نمط واحد في كل سطر. استخدم * كحرف بدل أو /regex/ للتعبيرات النمطية.',
+  },
+
+  spending: {
+    title: 'حدود الإنفاق',
+    description:
+      'يتم حساب التكلفة من استخدام الرموز وأسعار النموذج. الطلبات التي تتجاوز أحد الحدود تعرض تحذيراً أو يتم رفضها.',
+    daily: 'الحد اليومي (دولار)',
+    perChat: 'الحد لكل محادثة (دولار)',
+    noLimit: 'بدون حد',
+    mode: 'عند الوصول إلى الحد',
+    warn: 'تحذير',
+    block: 'رفض الطلب',
+    spentToday: 'المُنفق اليوم',
+    pricing: 'أسعار النماذج',
+    pricingHint: 'دولار لكل مليون رمز. تتجاوز الأسعار المنشورة، مثلاً للمزودين المخصصين أو المتوافقين مع OpenAI.',
+    provider: 'المزود',
+    model: 'النموذج',
+    input: 'الإدخال',
+    output: 'الإخراج',
+    cacheRead: 'الإدخال المخزن مؤقتاً',
+    add: 'إضافة',
+    remove: 'إزالة',
+  },
+
+  stageModels: {
+    title: 'النماذج لكل مرحلة',
+    description:
+      'المهام المساعدة مثل التلخيص واختيار السياق لا تحتاج إلى النموذج الذي يكتب الشيفرة. افتراضياً تستخدم النموذج الصغير من المزود المحدد، وتستخدم المراحل الأخرى النموذج المحدد في المحادثة.',
+    default: 'افتراضي',
+    model: 'النموذج',
+    summary: 'تلخيص المحادثة',
+    contextSelection: 'اختيار السياق',
+    coder: 'توليد الشيفرة',
+    enhancer: 'تحسين الطلب',
+    templateSelection: 'اختيار القالب',
+  },
+
+  fallbackChain: {
+    title: 'النماذج البديلة',
+    description:
+      'عندما يتجاوز مزود نموذج المحادثة حد المعدل أو يحدث خطأ في الخادم أو يتعذر الوصول إليه أثناء الرد، يكمل الرد بأول نموذج متاح من هذه القائمة.',
+    empty: 'لا توجد نماذج بديلة، تظهر أخطاء المزود في المحادثة.',
+    provider: 'المزود',
+    moveUp: 'نقل لأعلى',
+    moveDown: 'نقل لأسفل',
+  },
+
+  segmentLimits: {
+    title: 'أجزاء الرد',
+    description:
+      'الرد الذي يصل إلى حد الإخراج للنموذج يُكمل في جزء آخر. النماذج التي ليس لها حد هنا تُكمل حتى عدد الأجزاء الافتراضي لها.',
+    segments: 'الأجزاء',
+    invalid: 'اختر مزوداً ونموذجاً وعدداً من الأجزاء بين 1 و 20',
+  },
+
+  capabilities: {
+    vision: 'يقبل الصور',
+    toolCalling: 'يستدعي الأدوات',
+    reasoning: 'يفكر قبل الإجابة',
+    jsonMode: 'وضع JSON',
+    context: 'نافذة السياق',
+    output: 'أقصى إخراج',
+    noImages: 'النموذج المحدد لا يقبل الصور',
+    removeImages: 'أزل الصور أو اختر نموذجاً يقبلها',
+    noTools: 'النموذج المحدد لا يمكنه استدعاء الأدوات، لا تُرسل أدوات MCP',
+  },
+
+  reasoning: {
+    title: 'نماذج الاستدلال',
+    description:
+      'مقدار تفكير نماذج الاستدلال قبل الإجابة. يقبل OpenAI و GitHub و xAI مستوى جهد، ويقبل OpenRouter مستوى جهد أو ميزانية رموز، ويقبل Anthropic و Google ميزانية رموز.',
+    effort: 'الجهد',
+    budget: 'ميزانية الرموز',
+    low: 'منخفض',
+    medium: 'متوسط',
+    high: 'مرتفع',
+    invalid: 'اختر مزوداً ونموذجاً ومستوى جهد أو ميزانية',
+  },
+
+  customPrompts: {
+    title: 'الموجهات المخصصة',
+    description:
+      'موجهات نظام خاصة بك، يمكن اختيارها في مكتبة الموجهات. تُحفظ في هذا المتصفح وتُضمَّن في تصدير الإعدادات.',
+    new: 'موجه جديد',
+    label: 'الاسم',
+    promptDescription: 'الوصف',
+    template: 'القالب',
+    variables: 'المتغيرات، انقر للإدراج',
+    preview: 'معاينة',
+    save: 'حفظ',
+    delete: 'حذف',
+    version: 'الإصدار',
+    invalid: 'أدخل اسماً وقالباً',
+  },
+
   // Theme
   theme: {
     light: 'فاتح',
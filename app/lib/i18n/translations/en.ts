@@ -117,6 +117,113 @@ export const en = {
     updateFailed: 'Failed to update settings',
   },
 
+  // Command safety policy
+  commandPolicy: {
+    title: 'Shell Command Safety',
+    description:
+      'Commands written by the AI are checked before they run in the terminal. Deny patterns always block, allow patterns skip the dangerous command check for each chained command they match on their own.',
+    dangerousCommands: 'Dangerous commands',
+    confirm: 'Ask for confirmation',
+    block: 'Block',
+    allow: 'Allow',
+    denyPatterns: 'Deny patterns',
+    allowPatterns: 'Allow patterns',
+    patternsHint: 'One pattern per line. Use * as a wildcard or /regex/ for regular expressions.',
+  },
+
+  spending: {
+    title: 'Spending Limits',
+    description:
+      'Costs are calculated from the token usage and the prices of the model. Requests that would go over a limit show a warning or are refused.',
+    daily: 'Daily limit (USD)',
+    perChat: 'Per-chat limit (USD)',
+    noLimit: 'No limit',
+    mode: 'When a limit is reached',
+    warn: 'Warn',
+    block: 'Refuse the request',
+    spentToday: 'Spent today',
+    pricing: 'Model prices',
+    pricingHint: 'USD per million tokens. Overrides the published prices, e.g. for custom or OpenAI-like providers.',
+    provider: 'Provider',
+    model: 'Model',
+    input: 'Input',
+    output: 'Output',
+    cacheRead: 'Cached input',
+    add: 'Add',
+    remove: 'Remove',
+  },
+
+  stageModels: {
+    title: 'Models per Stage',
+    description:
+      'Housekeeping calls like summaries and context selection do not need the model that writes the code. By default they use the small model of the selected provider, the other stages use the model selected in the chat.',
+    default: 'Default',
+    model: 'Model',
+    summary: 'Chat summary',
+    contextSelection: 'Context selection',
+    coder: 'Code generation',
+    enhancer: 'Prompt enhancer',
+    templateSelection: 'Template selection',
+  },
+
+  fallbackChain: {
+    title: 'Fallback Models',
+    description:
+      'When the provider of the chat model is rate limited, has a server error or cannot be reached while answering, the answer continues with the first available model of this list.',
+    empty: 'No fallback models, errors of the provider are shown in the chat.',
+    provider: 'Provider',
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+  },
+
+  segmentLimits: {
+    title: 'Response Segments',
+    description:
+      'A response that reaches the output limit of the model is continued in another segment. Models without a limit here continue up to their default number of segments.',
+    segments: 'Segments',
+    invalid: 'Choose a provider, a model and between 1 and 20 segments',
+  },
+
+  capabilities: {
+    vision: 'Accepts images',
+    toolCalling: 'Calls tools',
+    reasoning: 'Reasons before answering',
+    jsonMode: 'JSON mode',
+    context: 'Context window',
+    output: 'Max output',
+    noImages: 'The selected model does not accept images',
+    removeImages: 'Remove the images or choose a model that accepts them',
+    noTools: 'The selected model cannot call tools, MCP tools are not sent',
+  },
+
+  reasoning: {
+    title: 'Reasoning Models',
+    description:
+      'How much reasoning models think before they answer. OpenAI, GitHub and xAI take an effort, OpenRouter takes an effort or a token budget, Anthropic and Google take a token budget.',
+    effort: 'Effort',
+    budget: 'Budget tokens',
+    low: 'Low',
+    medium: 'Medium',
+    high: 'High',
+    invalid: 'Choose a provider, a model and an effort or a budget',
+  },
+
+  customPrompts: {
+    title: 'Custom Prompts',
+    description:
+      'System prompts of your own, selectable in the prompt library. They are stored in this browser and included in the settings export.',
+    new: 'New prompt',
+    label: 'Name',
+    promptDescription: 'Description',
+    template: 'Template',
+    variables: 'Variables, click to insert',
+    preview: 'Preview',
+    save: 'Save',
+    delete: 'Delete',
+    version: 'Version',
+    invalid: 'Enter a name and a template',
+  },
+
   // Theme
   theme: {
     light: 'Light',
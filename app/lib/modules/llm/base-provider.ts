@@ -1,5 +1,7 @@
 import type { LanguageModelV1 } from 'ai';
 import type { ProviderInfo, ProviderConfig, ModelInfo } from './types';
+import type { PromptCacheOptions } from './prompt-cache';
+import type { ReasoningSettings } from './reasoning';
 import type { IProviderSetting } from '~/types/model';
 import { createOpenAI } from '@ai-sdk/openai';
 import { LLMManager } from './manager';
@@ -114,6 +116,8 @@ export abstract class BaseProvider implements ProviderInfo {
     serverEnv?: Env;
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
+    promptCache?: PromptCacheOptions;
+    reasoning?: ReasoningSettings;
   }): LanguageModelV1;
 }
 
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { formatTokenCount, getContextWindow, getModelCapabilities } from './capabilities';
+import type { ModelInfo } from './types';
+
+const model = (name: string, info: Partial<ModelInfo> = {}): ModelInfo => ({
+  name,
+  label: name,
+  provider: 'Test',
+  maxTokenAllowed: 8000,
+  ...info,
+});
+
+describe('getContextWindow', () => {
+  it('should prefer the context window of the model info', () => {
+    expect(getContextWindow(model('test-model', { contextWindow: 3000 }))).toBe(3000);
+    expect(getContextWindow(model('claude-3-haiku-20240307'))).toBe(200_000);
+    expect(getContextWindow(model('test-model'))).toBe(32_000);
+  });
+});
+
+describe('getModelCapabilities', () => {
+  it('should infer the capabilities of known model families', () => {
+    expect(getModelCapabilities(model('gpt-4o'))).toEqual({
+      vision: true,
+      toolCalling: true,
+      reasoning: undefined,
+      jsonMode: true,
+    });
+    expect(getModelCapabilities(model('deepseek-reasoner'))).toMatchObject({
+      vision: false,
+      toolCalling: false,
+      reasoning: true,
+    });
+    expect(getModelCapabilities(model('o1-mini'))).toMatchObject({ vision: false, toolCalling: false });
+    expect(getModelCapabilities(model('llama-3.2-90b-vision-preview'))).toMatchObject({ vision: true });
+    expect(getModelCapabilities(model('llama-3.3-70b-versatile'))).toMatchObject({ vision: false, toolCalling: true });
+    expect(getModelCapabilities(model('llama3.1:8b'))).toMatchObject({ vision: false });
+  });
+
+  it('should prefer the capabilities the provider reported', () => {
+    const capabilities = getModelCapabilities(model('my-model', { capabilities: { vision: true } }));
+
+    expect(capabilities.vision).toBe(true);
+    expect(capabilities.toolCalling).toBeUndefined();
+    expect(getModelCapabilities(model('gpt-4o', { capabilities: { toolCalling: false } })).toolCalling).toBe(false);
+  });
+});
+
+describe('formatTokenCount', () => {
+  it('should shorten thousands and millions', () => {
+    expect(formatTokenCount(512)).toBe('512');
+    expect(formatTokenCount(128_000)).toBe('128K');
+    expect(formatTokenCount(1_048_576)).toBe('1M');
+  });
+});
@@ -0,0 +1,114 @@
+import type { ModelInfo } from './types';
+
+export interface ModelCapabilities {
+  /** accepts images in user messages */
+  vision?: boolean;
+
+  /** can call tools, needed for MCP tools and artifact tool calls */
+  toolCalling?: boolean;
+
+  /** thinks before it answers, like o1 or DeepSeek R1 */
+  reasoning?: boolean;
+
+  /** has a mode that only returns valid JSON */
+  jsonMode?: boolean;
+}
+
+export type ModelCapability = keyof ModelCapabilities;
+
+interface CapabilityPatterns {
+  /** model families known to lack the capability, checked first */
+  unsupported?: RegExp;
+  supported: RegExp;
+}
+
+// name patterns of model families, for models whose provider doesn't report capabilities
+const CAPABILITY_PATTERNS: Record<ModelCapability, CapabilityPatterns> = {
+  vision: {
+    unsupported:
+      /o1-mini|o1-preview|o3-mini|gpt-3\.5|gpt-4(-\d|$)|deepseek-(chat|coder|reasoner|r1|v[23])|r1-distill|codestral|mixtral|mistral-(large|saba|tiny|nemo|7b)|qwq|coder|llama-?3(\.[13])?[-:]|grok-(beta|2-1212|3)|gemma-?2|command/,
+    supported:
+      /claude-3|claude-(sonnet|opus|haiku)-4|gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|\bo[134](\b|-)|gemini|vision|pixtral|llava|-vl\b|-vl-|vl:|llama-?4|gemma-?3|grok-4|mistral-(small|medium)-3|nova-(pro|lite)|moondream|minicpm-v/,
+  },
+  toolCalling: {
+    unsupported:
+      /o1-mini|o1-preview|deepseek-reasoner|deepseek-r1|r1-distill|gemma|llava|moondream|qwq|vision-preview|code-?llama|phi|claude-2|claude-instant|online/,
+    supported:
+      /claude|gpt-4|gpt-3\.5-turbo|gpt-5|\bo[134](\b|-)|gemini|mistral|mixtral|codestral|pixtral|ministral|llama-?3\.[1-9]|llama-?4|qwen|deepseek-(chat|v[23])|grok|command-r|hermes|nova|nemotron/,
+  },
+  reasoning: {
+    supported:
+      /\bo[134](\b|-)|deepseek-reasoner|deepseek-r1|r1-distill|qwq|qwen-?3|claude-3-7|claude-(sonnet|opus)-4|gemini-2\.5|thinking|grok-3-mini|grok-4|magistral/,
+  },
+  jsonMode: {
+    unsupported: /o1-mini|o1-preview|deepseek-reasoner|deepseek-r1|claude/,
+    supported:
+      /gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-3\.5-turbo|gpt-5|\bo[134](\b|-)|gemini|mistral|mixtral|ministral|codestral|deepseek-chat|grok|llama-?3|qwen|command-r/,
+  },
+};
+
+// context windows of model families that don't set `contextWindow`, the first match wins
+const CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/gemini-(1\.5|2)/, 1_000_000],
+  [/gpt-4\.1/, 1_000_000],
+  [/claude/, 200_000],
+  [/\bo[1-9]\b|\bo[1-9]-/, 200_000],
+  [/gpt-4o|gpt-4-turbo|gpt-5/, 128_000],
+  [/gpt-3\.5/, 16_000],
+  [/gpt-4/, 8_000],
+  [/llama-?3\.[1-9]|llama-?4|mistral-large|codestral|grok/, 128_000],
+  [/deepseek/, 64_000],
+  [/qwen|mixtral/, 32_000],
+];
+
+export const DEFAULT_CONTEXT_WINDOW = 32_000;
+
+export function getContextWindow(model: ModelInfo) {
+  if (model.contextWindow) {
+    return model.contextWindow;
+  }
+
+  const name = model.name.toLowerCase();
+
+  return CONTEXT_WINDOWS.find(([pattern]) => pattern.test(name))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+function inferCapability(name: string, capability: ModelCapability) {
+  const { unsupported, supported } = CAPABILITY_PATTERNS[capability];
+
+  if (unsupported?.test(name)) {
+    return false;
+  }
+
+  return supported.test(name) ? true : undefined;
+}
+
+/**
+ * Capabilities of a model, the ones the provider reported first, then the ones known of the model family.
+ * A capability is `undefined` if it is not known, inputs are only blocked for capabilities that are `false`.
+ */
+export function getModelCapabilities(model: ModelInfo): ModelCapabilities {
+  const name = model.name.toLowerCase();
+  const capabilities: ModelCapabilities = {};
+
+  for (const capability of Object.keys(CAPABILITY_PATTERNS) as ModelCapability[]) {
+    capabilities[capability] = model.capabilities?.[capability] ?? inferCapability(name, capability);
+  }
+
+  return capabilities;
+}
+
+/**
+ * Short form of a token count for badges, like `128K` or `1M`.
+ */
+export function formatTokenCount(tokens: number) {
+  if (tokens >= 1_000_000) {
+    return `${Math.round(tokens / 100_000) / 10}M`;
+  }
+
+  if (tokens >= 1000) {
+    return `${Math.round(tokens / 1000)}K`;
+  }
+
+  return String(tokens);
+}
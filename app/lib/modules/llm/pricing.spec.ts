@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCost, checkSpending, checkSpentLimits, estimateRequestCost, formatCost } from './pricing';
+import type { ModelPricing } from './pricing';
+
+const pricing: ModelPricing = { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 };
+
+describe('calculateCost', () => {
+  it('should price prompt, completion and cached tokens', () => {
+    expect(calculateCost({ promptTokens: 1_000_000, completionTokens: 0 }, pricing)).toBe(3);
+    expect(calculateCost({ promptTokens: 0, completionTokens: 100_000 }, pricing)).toBeCloseTo(1.5);
+    expect(
+      calculateCost(
+        { promptTokens: 0, completionTokens: 0, cacheReadTokens: 1_000_000, cacheWriteTokens: 1_000_000 },
+        pricing,
+      ),
+    ).toBeCloseTo(4.05);
+  });
+
+  it('should price cached tokens like input tokens without cache prices', () => {
+    expect(
+      calculateCost({ promptTokens: 0, completionTokens: 0, cacheReadTokens: 1_000_000 }, { input: 2, output: 8 }),
+    ).toBe(2);
+  });
+});
+
+describe('checkSpending', () => {
+  const estimate = estimateRequestCost(10_000, pricing);
+
+  it('should allow requests within the limits', () => {
+    expect(checkSpending(estimate, { limits: { mode: 'warn' }, spentToday: 100, spentInChat: 100 })).toEqual({
+      exceeded: false,
+    });
+    expect(
+      checkSpending(estimate, { limits: { daily: 1, mode: 'block' }, spentToday: 0.5, spentInChat: 0 }).exceeded,
+    ).toBe(false);
+  });
+
+  it('should report the limit that would be exceeded', () => {
+    const daily = checkSpending(estimate, { limits: { daily: 1, mode: 'block' }, spentToday: 0.99, spentInChat: 0 });
+
+    expect(daily.exceeded).toBe(true);
+    expect(daily.message).toContain('daily budget of $1.00');
+
+    const perChat = checkSpending(estimate, {
+      limits: { perChat: 0.05, mode: 'warn' },
+      spentToday: 0,
+      spentInChat: 0.03,
+    });
+
+    expect(perChat.exceeded).toBe(true);
+    expect(perChat.message).toContain('chat budget of $0.05');
+  });
+});
+
+describe('checkSpentLimits', () => {
+  it('should report a limit that has been reached before the request', () => {
+    const daily = checkSpentLimits({ limits: { daily: 1, mode: 'block' }, spentToday: 1, spentInChat: 0 });
+
+    expect(daily.exceeded).toBe(true);
+    expect(daily.message).toContain('daily budget of $1.00 has been reached');
+    expect(
+      checkSpentLimits({ limits: { perChat: 0.5, mode: 'block' }, spentToday: 0, spentInChat: 0.6 }).message,
+    ).toContain('chat budget of $0.50 has been reached');
+  });
+
+  it('should leave limits with budget left to the estimate of the request', () => {
+    expect(
+      checkSpentLimits({ limits: { daily: 1, perChat: 0.5, mode: 'block' }, spentToday: 0.99, spentInChat: 0.49 }),
+    ).toEqual({ exceeded: false });
+  });
+});
+
+describe('formatCost', () => {
+  it('should show small costs with more precision', () => {
+    expect(formatCost(1.234)).toBe('$1.23');
+    expect(formatCost(0.00123)).toBe('$0.0012');
+  });
+});
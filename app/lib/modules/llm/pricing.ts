@@ -0,0 +1,117 @@
+/** prices in USD per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+
+  /** price of prompt tokens read from the prompt cache, defaults to the input price */
+  cacheRead?: number;
+
+  /** price of prompt tokens written to the prompt cache, defaults to the input price */
+  cacheWrite?: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+}
+
+export type SpendingLimitMode = 'warn' | 'block';
+
+export interface SpendingLimits {
+  /** USD per calendar day across all chats */
+  daily?: number;
+
+  /** USD per chat */
+  perChat?: number;
+  mode: SpendingLimitMode;
+}
+
+/** sent with every chat request so the server can check the limits before calling the model */
+export interface SpendingState {
+  limits: SpendingLimits;
+  spentToday: number;
+  spentInChat: number;
+}
+
+export interface SpendingCheck {
+  exceeded: boolean;
+  message?: string;
+}
+
+// completion tokens a request is expected to produce when checking the limits, the real count is only known afterwards
+export const EXPECTED_COMPLETION_TOKENS = 2000;
+
+const PER_MILLION = 1_000_000;
+
+// user settings per model, like prices and segment limits, are keyed by provider and model
+export const pricingKey = (provider: string, model: string) => `${provider}/${model}`;
+
+/**
+ * Cost of a model call in USD. Cached prompt tokens are reported separately from `promptTokens` by the
+ * providers that support prompt caching, so they are priced on top of it.
+ */
+export function calculateCost(usage: TokenUsage, pricing: ModelPricing) {
+  const cacheRead = (usage.cacheReadTokens ?? 0) * (pricing.cacheRead ?? pricing.input);
+  const cacheWrite = (usage.cacheWriteTokens ?? 0) * (pricing.cacheWrite ?? pricing.input);
+
+  return (
+    (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output + cacheRead + cacheWrite) /
+    PER_MILLION
+  );
+}
+
+export function estimateRequestCost(promptTokens: number, pricing: ModelPricing) {
+  return calculateCost({ promptTokens, completionTokens: EXPECTED_COMPLETION_TOKENS }, pricing);
+}
+
+export function formatCost(cost: number) {
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Checks whether a request of the estimated cost would go over the daily or the per-chat limit.
+ */
+export function checkSpending(estimate: number, spending: SpendingState): SpendingCheck {
+  const { limits, spentToday, spentInChat } = spending;
+
+  if (limits.daily !== undefined && spentToday + estimate > limits.daily) {
+    return {
+      exceeded: true,
+      message: `This request (~${formatCost(estimate)}) would exceed the daily budget of ${formatCost(limits.daily)}, ${formatCost(spentToday)} spent today`,
+    };
+  }
+
+  if (limits.perChat !== undefined && spentInChat + estimate > limits.perChat) {
+    return {
+      exceeded: true,
+      message: `This request (~${formatCost(estimate)}) would exceed the chat budget of ${formatCost(limits.perChat)}, ${formatCost(spentInChat)} spent in this chat`,
+    };
+  }
+
+  return { exceeded: false };
+}
+
+/**
+ * Checks whether the daily or the per-chat limit has been reached already, before any model of a request is called.
+ */
+export function checkSpentLimits(spending: SpendingState): SpendingCheck {
+  const { limits, spentToday, spentInChat } = spending;
+
+  if (limits.daily !== undefined && spentToday >= limits.daily) {
+    return {
+      exceeded: true,
+      message: `The daily budget of ${formatCost(limits.daily)} has been reached, ${formatCost(spentToday)} spent today`,
+    };
+  }
+
+  if (limits.perChat !== undefined && spentInChat >= limits.perChat) {
+    return {
+      exceeded: true,
+      message: `The chat budget of ${formatCost(limits.perChat)} has been reached, ${formatCost(spentInChat)} spent in this chat`,
+    };
+  }
+
+  return { exceeded: false };
+}
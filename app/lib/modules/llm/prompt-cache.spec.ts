@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createAnthropicCacheFetch, splitSystemPrompt, type PromptCacheUsage } from './prompt-cache';
+
+describe('splitSystemPrompt', () => {
+  it('should split the system prompt at the end of every breakpoint prefix', () => {
+    expect(splitSystemPrompt('base|context|locked', ['base|', 'base|context|'])).toEqual([
+      { text: 'base|', cache: true },
+      { text: 'context|', cache: true },
+      { text: 'locked', cache: false },
+    ]);
+  });
+
+  it('should cache a system prompt without matching breakpoints as a whole', () => {
+    expect(splitSystemPrompt('discuss', ['base'])).toEqual([{ text: 'discuss', cache: true }]);
+  });
+});
+
+describe('createAnthropicCacheFetch', () => {
+  it('should add cache breakpoints and report the cache usage of the stream', async () => {
+    const onUsage = vi.fn<(usage: PromptCacheUsage) => void>();
+    const events = [
+      'event: message_start',
+      'data: {"type":"message_start","message":{"usage":{"input_tokens":5,"cache_read_input_tokens":1200,"cache_creation_input_tokens":300}}}',
+      '',
+      'event: message_stop',
+      'data: {"type":"message_stop"}',
+      '',
+    ].join('\n');
+
+    const baseFetch = vi.fn<typeof fetch>(
+      async () => new Response(events, { headers: { 'content-type': 'text/event-stream' } }),
+    );
+    const cacheFetch = createAnthropicCacheFetch({ breakpoints: ['base '], onUsage }, baseFetch);
+
+    const response = await cacheFetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      body: JSON.stringify({ system: 'base rest', stream: true }),
+    });
+
+    expect(await response.text()).toBe(events);
+    expect(JSON.parse(baseFetch.mock.calls[0][1]!.body as string).system).toEqual([
+      { type: 'text', text: 'base ', cache_control: { type: 'ephemeral' } },
+      { type: 'text', text: 'rest' },
+    ]);
+    expect(onUsage).toHaveBeenCalledWith({ cacheReadTokens: 1200, cacheWriteTokens: 300 });
+  });
+
+  it('should split a system prompt the SDK sends as a text block', async () => {
+    const baseFetch = vi.fn<typeof fetch>(async () => new Response('{}'));
+    const cacheFetch = createAnthropicCacheFetch({ breakpoints: ['base '] }, baseFetch);
+
+    await cacheFetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      body: JSON.stringify({ system: [{ type: 'text', text: 'base rest' }] }),
+    });
+
+    expect(JSON.parse(baseFetch.mock.calls[0][1]!.body as string).system).toEqual([
+      { type: 'text', text: 'base ', cache_control: { type: 'ephemeral' } },
+      { type: 'text', text: 'rest' },
+    ]);
+  });
+});
@@ -0,0 +1,228 @@
+export interface PromptCacheUsage {
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+/**
+ * Per-request prompt caching. Providers that support it put a cache breakpoint at the end of every prefix
+ * of the system prompt in `breakpoints` and report the cache usage of the response.
+ */
+export interface PromptCacheOptions {
+  /** prefixes of the system prompt that stay the same across turns, shortest first */
+  breakpoints: string[];
+  onUsage?: (usage: PromptCacheUsage) => void;
+}
+
+export interface SystemPromptBlock {
+  text: string;
+  cache: boolean;
+}
+
+/**
+ * Splits the system prompt at the end of every breakpoint prefix it starts with. A system prompt that
+ * matches none of them, like the discuss prompt, is stable as a whole and cached as one block.
+ */
+export function splitSystemPrompt(system: string, breakpoints: string[]): SystemPromptBlock[] {
+  const blocks: SystemPromptBlock[] = [];
+  let offset = 0;
+
+  for (const prefix of breakpoints) {
+    if (prefix.length <= offset || !system.startsWith(prefix)) {
+      continue;
+    }
+
+    blocks.push({ text: system.slice(offset, prefix.length), cache: true });
+    offset = prefix.length;
+  }
+
+  if (blocks.length === 0) {
+    return [{ text: system, cache: true }];
+  }
+
+  if (offset < system.length) {
+    blocks.push({ text: system.slice(offset), cache: false });
+  }
+
+  // the API rejects empty text blocks
+  return blocks.filter((block) => block.text.trim().length > 0);
+}
+
+function readAnthropicUsage(usage: any): PromptCacheUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+
+  return {
+    cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+    cacheWriteTokens: usage.cache_creation_input_tokens ?? 0,
+  };
+}
+
+// the cache usage is part of the `message_start` event at the beginning of the stream
+function observeAnthropicStream(body: ReadableStream<Uint8Array>, onUsage: (usage: PromptCacheUsage) => void) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let reported = false;
+
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        controller.enqueue(chunk);
+
+        if (reported) {
+          return;
+        }
+
+        buffer += decoder.decode(chunk, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data:') || !line.includes('"message_start"')) {
+            continue;
+          }
+
+          try {
+            const usage = readAnthropicUsage(JSON.parse(line.slice(5)).message?.usage);
+
+            if (usage) {
+              reported = true;
+              onUsage(usage);
+            }
+          } catch {
+            // not our concern, the SDK reports malformed events
+          }
+        }
+      },
+    }),
+  );
+}
+
+// the SDK sends the system prompt as a single text block, the text of a prompt that has no breakpoints of its own
+function readAnthropicSystem(system: unknown) {
+  if (typeof system === 'string') {
+    return system;
+  }
+
+  if (Array.isArray(system) && system.length === 1 && system[0]?.type === 'text' && !system[0].cache_control) {
+    return system[0].text as string;
+  }
+
+  return undefined;
+}
+
+/**
+ * Fetch for the Anthropic SDK that sends the system prompt as text blocks with `cache_control`
+ * breakpoints and reads the cache usage from the response.
+ */
+export function createAnthropicCacheFetch(cache: PromptCacheOptions, baseFetch: typeof fetch = fetch): typeof fetch {
+  return async (input, init) => {
+    let body = init?.body;
+
+    if (typeof body === 'string') {
+      try {
+        const request = JSON.parse(body);
+        const system = readAnthropicSystem(request.system);
+
+        if (system) {
+          request.system = splitSystemPrompt(system, cache.breakpoints).map(({ text, cache: cached }) =>
+            cached ? { type: 'text', text, cache_control: { type: 'ephemeral' } } : { type: 'text', text },
+          );
+          body = JSON.stringify(request);
+        }
+      } catch {
+        // send bodies that aren't JSON as they are
+      }
+    }
+
+    const response = await baseFetch(input, { ...init, body });
+
+    if (!response.ok || !response.body || !cache.onUsage) {
+      return response;
+    }
+
+    if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+      const clone = response.clone();
+      const usage = readAnthropicUsage(((await clone.json().catch(() => undefined)) as any)?.usage);
+
+      if (usage) {
+        cache.onUsage(usage);
+      }
+
+      return response;
+    }
+
+    return new Response(observeAnthropicStream(response.body, cache.onUsage), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+}
+
+interface BedrockUsage {
+  cacheReadInputTokens?: number;
+  cacheWriteInputTokens?: number;
+}
+
+type BedrockStreamEvent = { metadata?: { usage?: BedrockUsage } };
+
+type BedrockMiddleware = (
+  next: (args: { input: object }) => Promise<{ output: object }>,
+) => (args: { input: object }) => Promise<{ output: object }>;
+
+// the parts of the `BedrockRuntimeClient` of the AWS SDK that are used here
+interface BedrockClient {
+  middlewareStack: { add: (middleware: BedrockMiddleware, options: { step: 'initialize'; name: string }) => void };
+}
+
+function toCacheUsage(usage: BedrockUsage): PromptCacheUsage {
+  return { cacheReadTokens: usage.cacheReadInputTokens ?? 0, cacheWriteTokens: usage.cacheWriteInputTokens ?? 0 };
+}
+
+async function* observeBedrockStream(
+  stream: AsyncIterable<BedrockStreamEvent>,
+  onUsage: (usage: PromptCacheUsage) => void,
+) {
+  for await (const event of stream) {
+    const usage = event.metadata?.usage;
+
+    if (usage) {
+      onUsage(toCacheUsage(usage));
+    }
+
+    yield event;
+  }
+}
+
+/**
+ * Adds `cachePoint` blocks to the system prompt of Bedrock Converse requests and reads the cache usage
+ * from the stream metadata. Only Claude models on Bedrock support cache points.
+ */
+export function addBedrockCachePoints(client: BedrockClient, cache: PromptCacheOptions) {
+  client.middlewareStack.add(
+    (next) => async (args) => {
+      const input = args.input as { system?: { text?: string }[] };
+      const [first, ...rest] = input.system ?? [];
+
+      if (first?.text && rest.length === 0) {
+        input.system = splitSystemPrompt(first.text, cache.breakpoints).flatMap(({ text, cache: cached }) =>
+          cached ? [{ text }, { cachePoint: { type: 'default' } }] : [{ text }],
+        ) as { text?: string }[];
+      }
+
+      const result = await next(args);
+      const output = result.output as { stream?: AsyncIterable<BedrockStreamEvent>; usage?: BedrockUsage };
+
+      if (cache.onUsage && output.stream) {
+        output.stream = observeBedrockStream(output.stream, cache.onUsage);
+      } else if (cache.onUsage && output.usage) {
+        cache.onUsage(toCacheUsage(output.usage));
+      }
+
+      return result;
+    },
+    { step: 'initialize', name: 'boltPromptCache' },
+  );
+}
@@ -3,6 +3,7 @@ import type { ModelInfo } from '~/lib/modules/llm/types';
 import type { LanguageModelV1 } from 'ai';
 import type { IProviderSetting } from '~/types/model';
 import { createAmazonBedrock } from '@ai-sdk/amazon-bedrock';
+import { addBedrockCachePoints, type PromptCacheOptions } from '~/lib/modules/llm/prompt-cache';
 
 interface AWSBedRockConfig {
   region: string;
@@ -25,42 +26,61 @@ export default class AmazonBedrockProvider extends BaseProvider {
       label: 'Claude 3.5 Sonnet v2 (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 200000,
+      contextWindow: 200000,
+      capabilities: { vision: true, toolCalling: true, jsonMode: false },
     },
     {
       name: 'anthropic.claude-3-5-sonnet-20240620-v1:0',
       label: 'Claude 3.5 Sonnet (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 4096,
+      maxResponseSegments: 4,
+      contextWindow: 200000,
+      capabilities: { vision: true, toolCalling: true, jsonMode: false },
     },
     {
       name: 'anthropic.claude-3-sonnet-20240229-v1:0',
       label: 'Claude 3 Sonnet (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 4096,
+      maxResponseSegments: 4,
+      contextWindow: 200000,
+      capabilities: { vision: true, toolCalling: true, jsonMode: false },
     },
     {
       name: 'anthropic.claude-3-haiku-20240307-v1:0',
       label: 'Claude 3 Haiku (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 4096,
+      maxResponseSegments: 4,
+      contextWindow: 200000,
+      capabilities: { vision: true, toolCalling: true, jsonMode: false },
     },
     {
       name: 'amazon.nova-pro-v1:0',
       label: 'Amazon Nova Pro (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 5120,
+      maxResponseSegments: 3,
+      contextWindow: 300000,
+      capabilities: { vision: true, toolCalling: true, jsonMode: false },
     },
     {
       name: 'amazon.nova-lite-v1:0',
       label: 'Amazon Nova Lite (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 5120,
+      maxResponseSegments: 3,
+      contextWindow: 300000,
+      capabilities: { vision: true, toolCalling: true, jsonMode: false },
     },
     {
       name: 'mistral.mistral-large-2402-v1:0',
       label: 'Mistral Large 24.02 (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 8192,
+      contextWindow: 32000,
+      capabilities: { vision: false, toolCalling: true, jsonMode: true },
     },
   ];
 
@@ -96,8 +116,9 @@ export default class AmazonBedrockProvider extends BaseProvider {
     serverEnv: any;
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
+    promptCache?: PromptCacheOptions;
   }): LanguageModelV1 {
-    const { model, serverEnv, apiKeys, providerSettings } = options;
+    const { model, serverEnv, apiKeys, providerSettings, promptCache } = options;
 
     const { apiKey } = this.getProviderBaseUrlAndKey({
       apiKeys,
@@ -113,7 +134,15 @@ export default class AmazonBedrockProvider extends BaseProvider {
 
     const config = this._parseAndValidateConfig(apiKey);
     const bedrock = createAmazonBedrock(config);
+    const instance = bedrock(model);
 
-    return bedrock(model);
+    // the provider doesn't expose the AWS client, the cache points are added through its middleware stack
+    const client = (instance as any).config?.client;
+
+    if (promptCache && client && model.includes('anthropic.claude')) {
+      addBedrockCachePoints(client, promptCache);
+    }
+
+    return instance;
   }
 }
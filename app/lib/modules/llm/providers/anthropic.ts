@@ -3,6 +3,7 @@ import type { ModelInfo } from '~/lib/modules/llm/types';
 import type { LanguageModelV1 } from 'ai';
 import type { IProviderSetting } from '~/types/model';
 import { createAnthropic } from '@ai-sdk/anthropic';
+import { createAnthropicCacheFetch, type PromptCacheOptions } from '~/lib/modules/llm/prompt-cache';
 
 export default class AnthropicProvider extends BaseProvider {
   name = 'Anthropic';
@@ -18,28 +19,64 @@ export default class AnthropicProvider extends BaseProvider {
       label: 'Claude 3.7 Sonnet',
       provider: 'Anthropic',
       maxTokenAllowed: 128000,
+      contextWindow: 200000,
+      capabilities: { vision: true, toolCalling: true, reasoning: true, jsonMode: false },
+      pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
     },
     {
       name: 'claude-3-5-sonnet-latest',
       label: 'Claude 3.5 Sonnet (new)',
       provider: 'Anthropic',
       maxTokenAllowed: 8000,
+      contextWindow: 200000,
+      capabilities: { vision: true, toolCalling: true, jsonMode: false },
+      pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
     },
     {
       name: 'claude-3-5-sonnet-20240620',
       label: 'Claude 3.5 Sonnet (old)',
       provider: 'Anthropic',
       maxTokenAllowed: 8000,
+      contextWindow: 200000,
+      capabilities: { vision: true, toolCalling: true, jsonMode: false },
+      pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
     },
     {
       name: 'claude-3-5-haiku-latest',
       label: 'Claude 3.5 Haiku (new)',
       provider: 'Anthropic',
       maxTokenAllowed: 8000,
+      contextWindow: 200000,
+      capabilities: { vision: true, toolCalling: true, jsonMode: false },
+      pricing: { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+    },
+    {
+      name: 'claude-3-opus-latest',
+      label: 'Claude 3 Opus',
+      provider: 'Anthropic',
+      maxTokenAllowed: 8000,
+      contextWindow: 200000,
+      capabilities: { vision: true, toolCalling: true, jsonMode: false },
+      pricing: { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+    },
+    {
+      name: 'claude-3-sonnet-20240229',
+      label: 'Claude 3 Sonnet',
+      provider: 'Anthropic',
+      maxTokenAllowed: 8000,
+      contextWindow: 200000,
+      capabilities: { vision: true, toolCalling: true, jsonMode: false },
+      pricing: { input: 3, output: 15 },
+    },
+    {
+      name: 'claude-3-haiku-20240307',
+      label: 'Claude 3 Haiku',
+      provider: 'Anthropic',
+      maxTokenAllowed: 8000,
+      contextWindow: 200000,
+      capabilities: { vision: true, toolCalling: true, jsonMode: false },
+      pricing: { input: 0.25, output: 1.25, cacheRead: 0.03, cacheWrite: 0.3 },
     },
-    { name: 'claude-3-opus-latest', label: 'Claude 3 Opus', provider: 'Anthropic', maxTokenAllowed: 8000 },
-    { name: 'claude-3-sonnet-20240229', label: 'Claude 3 Sonnet', provider: 'Anthropic', maxTokenAllowed: 8000 },
-    { name: 'claude-3-haiku-20240307', label: 'Claude 3 Haiku', provider: 'Anthropic', maxTokenAllowed: 8000 },
   ];
 
   async getDynamicModels(
@@ -84,8 +121,9 @@ export default class AnthropicProvider extends BaseProvider {
     serverEnv: Env;
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
+    promptCache?: PromptCacheOptions;
   }) => LanguageModelV1 = (options) => {
-    const { apiKeys, providerSettings, serverEnv, model } = options;
+    const { apiKeys, providerSettings, serverEnv, model, promptCache } = options;
     const { apiKey } = this.getProviderBaseUrlAndKey({
       apiKeys,
       providerSettings,
@@ -96,6 +134,7 @@ export default class AnthropicProvider extends BaseProvider {
     const anthropic = createAnthropic({
       apiKey,
       headers: { 'anthropic-beta': 'output-128k-2025-02-19' },
+      fetch: promptCache ? createAnthropicCacheFetch(promptCache) : undefined,
     });
 
     return anthropic(model);
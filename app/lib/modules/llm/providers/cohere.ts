@@ -4,6 +4,9 @@ import type { IProviderSetting } from '~/types/model';
 import type { LanguageModelV1 } from 'ai';
 import { createCohere } from '@ai-sdk/cohere';
 
+// responses are continued for more segments, to be as long as the ones of models with 8k output tokens
+const OUTPUT_LIMITS = { maxTokenAllowed: 4096, maxResponseSegments: 4 };
+
 export default class CohereProvider extends BaseProvider {
   name = 'Cohere';
   getApiKeyLink = 'https://dashboard.cohere.com/api-keys';
@@ -13,16 +16,16 @@ export default class CohereProvider extends BaseProvider {
   };
 
   staticModels: ModelInfo[] = [
-    { name: 'command-r-plus-08-2024', label: 'Command R plus Latest', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command-r-08-2024', label: 'Command R Latest', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command-r-plus', label: 'Command R plus', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command-r', label: 'Command R', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command', label: 'Command', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command-nightly', label: 'Command Nightly', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command-light', label: 'Command Light', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command-light-nightly', label: 'Command Light Nightly', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'c4ai-aya-expanse-8b', label: 'c4AI Aya Expanse 8b', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'c4ai-aya-expanse-32b', label: 'c4AI Aya Expanse 32b', provider: 'Cohere', maxTokenAllowed: 4096 },
+    { name: 'command-r-plus-08-2024', label: 'Command R plus Latest', provider: 'Cohere', ...OUTPUT_LIMITS },
+    { name: 'command-r-08-2024', label: 'Command R Latest', provider: 'Cohere', ...OUTPUT_LIMITS },
+    { name: 'command-r-plus', label: 'Command R plus', provider: 'Cohere', ...OUTPUT_LIMITS },
+    { name: 'command-r', label: 'Command R', provider: 'Cohere', ...OUTPUT_LIMITS },
+    { name: 'command', label: 'Command', provider: 'Cohere', ...OUTPUT_LIMITS },
+    { name: 'command-nightly', label: 'Command Nightly', provider: 'Cohere', ...OUTPUT_LIMITS },
+    { name: 'command-light', label: 'Command Light', provider: 'Cohere', ...OUTPUT_LIMITS },
+    { name: 'command-light-nightly', label: 'Command Light Nightly', provider: 'Cohere', ...OUTPUT_LIMITS },
+    { name: 'c4ai-aya-expanse-8b', label: 'c4AI Aya Expanse 8b', provider: 'Cohere', ...OUTPUT_LIMITS },
+    { name: 'c4ai-aya-expanse-32b', label: 'c4AI Aya Expanse 32b', provider: 'Cohere', ...OUTPUT_LIMITS },
   ];
 
   getModelInstance(options: {
@@ -3,6 +3,7 @@ import type { ModelInfo } from '~/lib/modules/llm/types';
 import type { IProviderSetting } from '~/types/model';
 import type { LanguageModelV1 } from 'ai';
 import { createOpenAI } from '@ai-sdk/openai';
+import type { ReasoningSettings } from '~/lib/modules/llm/reasoning';
 
 export default class GithubProvider extends BaseProvider {
   name = 'Github';
@@ -14,13 +15,62 @@ export default class GithubProvider extends BaseProvider {
 
   // find more in https://github.com/marketplace?type=models
   staticModels: ModelInfo[] = [
-    { name: 'gpt-4o', label: 'GPT-4o', provider: 'Github', maxTokenAllowed: 8000 },
-    { name: 'o1', label: 'o1-preview', provider: 'Github', maxTokenAllowed: 100000 },
-    { name: 'o1-mini', label: 'o1-mini', provider: 'Github', maxTokenAllowed: 8000 },
-    { name: 'gpt-4o-mini', label: 'GPT-4o Mini', provider: 'Github', maxTokenAllowed: 8000 },
-    { name: 'gpt-4-turbo', label: 'GPT-4 Turbo', provider: 'Github', maxTokenAllowed: 8000 },
-    { name: 'gpt-4', label: 'GPT-4', provider: 'Github', maxTokenAllowed: 8000 },
-    { name: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo', provider: 'Github', maxTokenAllowed: 8000 },
+    {
+      name: 'gpt-4o',
+      label: 'GPT-4o',
+      provider: 'Github',
+      maxTokenAllowed: 8000,
+      contextWindow: 128000,
+      capabilities: { vision: true, toolCalling: true, jsonMode: true },
+    },
+    {
+      name: 'o1',
+      label: 'o1-preview',
+      provider: 'Github',
+      maxTokenAllowed: 100000,
+      contextWindow: 200000,
+      capabilities: { vision: true, toolCalling: true, reasoning: true, jsonMode: true },
+    },
+    {
+      name: 'o1-mini',
+      label: 'o1-mini',
+      provider: 'Github',
+      maxTokenAllowed: 8000,
+      contextWindow: 128000,
+      capabilities: { vision: false, toolCalling: false, reasoning: true, jsonMode: false },
+    },
+    {
+      name: 'gpt-4o-mini',
+      label: 'GPT-4o Mini',
+      provider: 'Github',
+      maxTokenAllowed: 8000,
+      contextWindow: 128000,
+      capabilities: { vision: true, toolCalling: true, jsonMode: true },
+    },
+    {
+      name: 'gpt-4-turbo',
+      label: 'GPT-4 Turbo',
+      provider: 'Github',
+      maxTokenAllowed: 8000,
+      contextWindow: 128000,
+      capabilities: { vision: true, toolCalling: true, jsonMode: true },
+    },
+    {
+      name: 'gpt-4',
+      label: 'GPT-4',
+      provider: 'Github',
+      maxTokenAllowed: 8000,
+      contextWindow: 8192,
+      capabilities: { vision: false, toolCalling: true, jsonMode: false },
+    },
+    {
+      name: 'gpt-3.5-turbo',
+      label: 'GPT-3.5 Turbo',
+      provider: 'Github',
+      maxTokenAllowed: 8000,
+      contextWindow: 16385,
+      capabilities: { vision: false, toolCalling: true, jsonMode: true },
+    },
   ];
 
   getModelInstance(options: {
@@ -28,8 +78,9 @@ export default class GithubProvider extends BaseProvider {
     serverEnv: Env;
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
+    reasoning?: ReasoningSettings;
   }): LanguageModelV1 {
-    const { model, serverEnv, apiKeys, providerSettings } = options;
+    const { model, serverEnv, apiKeys, providerSettings, reasoning } = options;
 
     const { apiKey } = this.getProviderBaseUrlAndKey({
       apiKeys,
@@ -48,6 +99,6 @@ export default class GithubProvider extends BaseProvider {
       apiKey,
     });
 
-    return openai(model);
+    return openai(model, { reasoningEffort: reasoning?.effort });
   }
 }
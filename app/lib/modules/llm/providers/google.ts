@@ -13,19 +13,70 @@ export default class GoogleProvider extends BaseProvider {
   };
 
   staticModels: ModelInfo[] = [
-    { name: 'gemini-1.5-flash-latest', label: 'Gemini 1.5 Flash', provider: 'Google', maxTokenAllowed: 8192 },
+    {
+      name: 'gemini-1.5-flash-latest',
+      label: 'Gemini 1.5 Flash',
+      provider: 'Google',
+      maxTokenAllowed: 8192,
+      contextWindow: 1048576,
+      capabilities: { vision: true, toolCalling: true, jsonMode: true },
+    },
     {
       name: 'gemini-2.0-flash-thinking-exp-01-21',
       label: 'Gemini 2.0 Flash-thinking-exp-01-21',
       provider: 'Google',
       maxTokenAllowed: 65536,
+      contextWindow: 1048576,
+      capabilities: { vision: true, toolCalling: false, reasoning: true, jsonMode: false },
+    },
+    {
+      name: 'gemini-2.0-flash-exp',
+      label: 'Gemini 2.0 Flash',
+      provider: 'Google',
+      maxTokenAllowed: 8192,
+      contextWindow: 1048576,
+      capabilities: { vision: true, toolCalling: true, jsonMode: true },
+    },
+    {
+      name: 'gemini-1.5-flash-002',
+      label: 'Gemini 1.5 Flash-002',
+      provider: 'Google',
+      maxTokenAllowed: 8192,
+      contextWindow: 1048576,
+      capabilities: { vision: true, toolCalling: true, jsonMode: true },
+    },
+    {
+      name: 'gemini-1.5-flash-8b',
+      label: 'Gemini 1.5 Flash-8b',
+      provider: 'Google',
+      maxTokenAllowed: 8192,
+      contextWindow: 1048576,
+      capabilities: { vision: true, toolCalling: true, jsonMode: true },
+    },
+    {
+      name: 'gemini-1.5-pro-latest',
+      label: 'Gemini 1.5 Pro',
+      provider: 'Google',
+      maxTokenAllowed: 8192,
+      contextWindow: 2097152,
+      capabilities: { vision: true, toolCalling: true, jsonMode: true },
+    },
+    {
+      name: 'gemini-1.5-pro-002',
+      label: 'Gemini 1.5 Pro-002',
+      provider: 'Google',
+      maxTokenAllowed: 8192,
+      contextWindow: 2097152,
+      capabilities: { vision: true, toolCalling: true, jsonMode: true },
+    },
+    {
+      name: 'gemini-exp-1206',
+      label: 'Gemini exp-1206',
+      provider: 'Google',
+      maxTokenAllowed: 8192,
+      contextWindow: 2097152,
+      capabilities: { vision: true, toolCalling: true, jsonMode: true },
     },
-    { name: 'gemini-2.0-flash-exp', label: 'Gemini 2.0 Flash', provider: 'Google', maxTokenAllowed: 8192 },
-    { name: 'gemini-1.5-flash-002', label: 'Gemini 1.5 Flash-002', provider: 'Google', maxTokenAllowed: 8192 },
-    { name: 'gemini-1.5-flash-8b', label: 'Gemini 1.5 Flash-8b', provider: 'Google', maxTokenAllowed: 8192 },
-    { name: 'gemini-1.5-pro-latest', label: 'Gemini 1.5 Pro', provider: 'Google', maxTokenAllowed: 8192 },
-    { name: 'gemini-1.5-pro-002', label: 'Gemini 1.5 Pro-002', provider: 'Google', maxTokenAllowed: 8192 },
-    { name: 'gemini-exp-1206', label: 'Gemini exp-1206', provider: 'Google', maxTokenAllowed: 8192 },
   ];
 
   async getDynamicModels(
@@ -59,7 +110,9 @@ export default class GoogleProvider extends BaseProvider {
       name: m.name.replace('models/', ''),
       label: `${m.displayName} - context ${Math.floor((m.inputTokenLimit + m.outputTokenLimit) / 1000) + 'k'}`,
       provider: this.name,
-      maxTokenAllowed: m.inputTokenLimit + m.outputTokenLimit || 8000,
+      maxTokenAllowed: m.outputTokenLimit || 8000,
+      contextWindow: m.inputTokenLimit + m.outputTokenLimit || undefined,
+      capabilities: m.thinking ? { reasoning: true } : undefined,
     }));
   }
 
@@ -13,17 +13,61 @@ export default class GroqProvider extends BaseProvider {
   };
 
   staticModels: ModelInfo[] = [
-    { name: 'llama-3.1-8b-instant', label: 'Llama 3.1 8b (Groq)', provider: 'Groq', maxTokenAllowed: 8000 },
-    { name: 'llama-3.2-11b-vision-preview', label: 'Llama 3.2 11b (Groq)', provider: 'Groq', maxTokenAllowed: 8000 },
-    { name: 'llama-3.2-90b-vision-preview', label: 'Llama 3.2 90b (Groq)', provider: 'Groq', maxTokenAllowed: 8000 },
-    { name: 'llama-3.2-3b-preview', label: 'Llama 3.2 3b (Groq)', provider: 'Groq', maxTokenAllowed: 8000 },
-    { name: 'llama-3.2-1b-preview', label: 'Llama 3.2 1b (Groq)', provider: 'Groq', maxTokenAllowed: 8000 },
-    { name: 'llama-3.3-70b-versatile', label: 'Llama 3.3 70b (Groq)', provider: 'Groq', maxTokenAllowed: 8000 },
+    {
+      name: 'llama-3.1-8b-instant',
+      label: 'Llama 3.1 8b (Groq)',
+      provider: 'Groq',
+      maxTokenAllowed: 8000,
+      contextWindow: 131072,
+      capabilities: { vision: false, toolCalling: true, jsonMode: true },
+    },
+    {
+      name: 'llama-3.2-11b-vision-preview',
+      label: 'Llama 3.2 11b (Groq)',
+      provider: 'Groq',
+      maxTokenAllowed: 8000,
+      contextWindow: 8192,
+      capabilities: { vision: true, toolCalling: false, jsonMode: true },
+    },
+    {
+      name: 'llama-3.2-90b-vision-preview',
+      label: 'Llama 3.2 90b (Groq)',
+      provider: 'Groq',
+      maxTokenAllowed: 8000,
+      contextWindow: 8192,
+      capabilities: { vision: true, toolCalling: false, jsonMode: true },
+    },
+    {
+      name: 'llama-3.2-3b-preview',
+      label: 'Llama 3.2 3b (Groq)',
+      provider: 'Groq',
+      maxTokenAllowed: 8000,
+      contextWindow: 8192,
+      capabilities: { vision: false, toolCalling: true, jsonMode: true },
+    },
+    {
+      name: 'llama-3.2-1b-preview',
+      label: 'Llama 3.2 1b (Groq)',
+      provider: 'Groq',
+      maxTokenAllowed: 8000,
+      contextWindow: 8192,
+      capabilities: { vision: false, toolCalling: true, jsonMode: true },
+    },
+    {
+      name: 'llama-3.3-70b-versatile',
+      label: 'Llama 3.3 70b (Groq)',
+      provider: 'Groq',
+      maxTokenAllowed: 8000,
+      contextWindow: 131072,
+      capabilities: { vision: false, toolCalling: true, jsonMode: true },
+    },
     {
       name: 'deepseek-r1-distill-llama-70b',
       label: 'Deepseek R1 Distill Llama 70b (Groq)',
       provider: 'Groq',
       maxTokenAllowed: 131072,
+      contextWindow: 131072,
+      capabilities: { vision: false, toolCalling: false, reasoning: true, jsonMode: false },
     },
   ];
 
@@ -61,6 +105,7 @@ export default class GroqProvider extends BaseProvider {
       label: `${m.id} - context ${m.context_window ? Math.floor(m.context_window / 1000) + 'k' : 'N/A'} [ by ${m.owned_by}]`,
       provider: this.name,
       maxTokenAllowed: Math.min(m.context_window || 8192, 16384),
+      contextWindow: m.context_window,
     }));
   }
 
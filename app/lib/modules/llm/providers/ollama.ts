@@ -23,6 +23,9 @@ export interface OllamaModel {
   details: OllamaModelDetails;
 }
 
+// model families of the vision encoders Ollama bundles with multimodal models
+const VISION_FAMILIES = ['clip', 'mllama'];
+
 export interface OllamaApiResponse {
   models: OllamaModel[];
 }
@@ -97,6 +100,9 @@ export default class OllamaProvider extends BaseProvider {
       label: `${model.name} (${model.details.parameter_size})`,
       provider: this.name,
       maxTokenAllowed: 8000,
+      capabilities: model.details.families?.some((family) => VISION_FAMILIES.includes(family))
+        ? { vision: true }
+        : undefined,
     }));
   }
 
@@ -3,6 +3,7 @@ import type { ModelInfo } from '~/lib/modules/llm/types';
 import type { IProviderSetting } from '~/types/model';
 import type { LanguageModelV1 } from 'ai';
 import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import { createOpenRouterReasoning, type ReasoningSettings } from '~/lib/modules/llm/reasoning';
 
 interface OpenRouterModel {
   name: string;
@@ -12,6 +13,12 @@ interface OpenRouterModel {
     prompt: number;
     completion: number;
   };
+  architecture?: {
+    input_modalities?: string[];
+  };
+
+  /** request parameters the model accepts, like `tools` and `response_format` */
+  supported_parameters?: string[];
 }
 
 interface OpenRouterModelsResponse {
@@ -70,7 +77,13 @@ export default class OpenRouterProvider extends BaseProvider {
       provider: 'OpenRouter',
       maxTokenAllowed: 8000,
     },
-    { name: 'cohere/command', label: 'Cohere Command (OpenRouter)', provider: 'OpenRouter', maxTokenAllowed: 4096 },
+    {
+      name: 'cohere/command',
+      label: 'Cohere Command (OpenRouter)',
+      provider: 'OpenRouter',
+      maxTokenAllowed: 4096,
+      maxResponseSegments: 4,
+    },
   ];
 
   async getDynamicModels(
@@ -94,6 +107,13 @@ export default class OpenRouterProvider extends BaseProvider {
           label: `${m.name} - in:$${(m.pricing.prompt * 1_000_000).toFixed(2)} out:$${(m.pricing.completion * 1_000_000).toFixed(2)} - context ${Math.floor(m.context_length / 1000)}k`,
           provider: this.name,
           maxTokenAllowed: 8000,
+          contextWindow: m.context_length,
+          capabilities: {
+            vision: m.architecture?.input_modalities?.includes('image'),
+            toolCalling: m.supported_parameters?.includes('tools'),
+            reasoning: m.supported_parameters?.includes('reasoning'),
+            jsonMode: m.supported_parameters?.includes('response_format'),
+          },
         }));
     } catch (error) {
       console.error('Error getting OpenRouter models:', error);
@@ -106,8 +126,9 @@ export default class OpenRouterProvider extends BaseProvider {
     serverEnv: Env;
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
+    reasoning?: ReasoningSettings;
   }): LanguageModelV1 {
-    const { model, serverEnv, apiKeys, providerSettings } = options;
+    const { model, serverEnv, apiKeys, providerSettings, reasoning } = options;
 
     const { apiKey } = this.getProviderBaseUrlAndKey({
       apiKeys,
@@ -123,6 +144,7 @@ export default class OpenRouterProvider extends BaseProvider {
 
     const openRouter = createOpenRouter({
       apiKey,
+      extraBody: reasoning ? { reasoning: createOpenRouterReasoning(reasoning) } : undefined,
     });
     const instance = openRouter.chat(model) as LanguageModelV1;
 
@@ -3,6 +3,7 @@ import type { ModelInfo } from '~/lib/modules/llm/types';
 import type { IProviderSetting } from '~/types/model';
 import type { LanguageModelV1 } from 'ai';
 import { createOpenAI } from '@ai-sdk/openai';
+import type { ReasoningSettings } from '~/lib/modules/llm/reasoning';
 
 export default class OpenAIProvider extends BaseProvider {
   name = 'OpenAI';
@@ -13,11 +14,51 @@ export default class OpenAIProvider extends BaseProvider {
   };
 
   staticModels: ModelInfo[] = [
-    { name: 'gpt-4o', label: 'GPT-4o', provider: 'OpenAI', maxTokenAllowed: 8000 },
-    { name: 'gpt-4o-mini', label: 'GPT-4o Mini', provider: 'OpenAI', maxTokenAllowed: 8000 },
-    { name: 'gpt-4-turbo', label: 'GPT-4 Turbo', provider: 'OpenAI', maxTokenAllowed: 8000 },
-    { name: 'gpt-4', label: 'GPT-4', provider: 'OpenAI', maxTokenAllowed: 8000 },
-    { name: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo', provider: 'OpenAI', maxTokenAllowed: 8000 },
+    {
+      name: 'gpt-4o',
+      label: 'GPT-4o',
+      provider: 'OpenAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 128000,
+      capabilities: { vision: true, toolCalling: true, jsonMode: true },
+      pricing: { input: 2.5, output: 10, cacheRead: 1.25 },
+    },
+    {
+      name: 'gpt-4o-mini',
+      label: 'GPT-4o Mini',
+      provider: 'OpenAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 128000,
+      capabilities: { vision: true, toolCalling: true, jsonMode: true },
+      pricing: { input: 0.15, output: 0.6, cacheRead: 0.075 },
+    },
+    {
+      name: 'gpt-4-turbo',
+      label: 'GPT-4 Turbo',
+      provider: 'OpenAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 128000,
+      capabilities: { vision: true, toolCalling: true, jsonMode: true },
+      pricing: { input: 10, output: 30 },
+    },
+    {
+      name: 'gpt-4',
+      label: 'GPT-4',
+      provider: 'OpenAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 8192,
+      capabilities: { vision: false, toolCalling: true, jsonMode: false },
+      pricing: { input: 30, output: 60 },
+    },
+    {
+      name: 'gpt-3.5-turbo',
+      label: 'GPT-3.5 Turbo',
+      provider: 'OpenAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 16385,
+      capabilities: { vision: false, toolCalling: true, jsonMode: true },
+      pricing: { input: 0.5, output: 1.5 },
+    },
   ];
 
   async getDynamicModels(
@@ -66,8 +107,9 @@ export default class OpenAIProvider extends BaseProvider {
     serverEnv: Env;
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
+    reasoning?: ReasoningSettings;
   }): LanguageModelV1 {
-    const { model, serverEnv, apiKeys, providerSettings } = options;
+    const { model, serverEnv, apiKeys, providerSettings, reasoning } = options;
 
     const { apiKey } = this.getProviderBaseUrlAndKey({
       apiKeys,
@@ -85,6 +127,6 @@ export default class OpenAIProvider extends BaseProvider {
       apiKey,
     });
 
-    return openai(model);
+    return openai(model, { reasoningEffort: reasoning?.effort });
   }
 }
@@ -18,18 +18,24 @@ export default class TogetherProvider extends BaseProvider {
       label: 'Qwen/Qwen2.5-Coder-32B-Instruct',
       provider: 'Together',
       maxTokenAllowed: 8000,
+      contextWindow: 32768,
+      capabilities: { vision: false, toolCalling: true, jsonMode: true },
     },
     {
       name: 'meta-llama/Llama-3.2-90B-Vision-Instruct-Turbo',
       label: 'meta-llama/Llama-3.2-90B-Vision-Instruct-Turbo',
       provider: 'Together',
       maxTokenAllowed: 8000,
+      contextWindow: 131072,
+      capabilities: { vision: true, toolCalling: false, jsonMode: true },
     },
     {
       name: 'mistralai/Mixtral-8x7B-Instruct-v0.1',
       label: 'Mixtral 8x7B Instruct',
       provider: 'Together',
       maxTokenAllowed: 8192,
+      contextWindow: 32768,
+      capabilities: { vision: false, toolCalling: true, jsonMode: true },
     },
   ];
 
@@ -67,6 +73,7 @@ export default class TogetherProvider extends BaseProvider {
       label: `${m.display_name} - in:$${m.pricing.input.toFixed(2)} out:$${m.pricing.output.toFixed(2)} - context ${Math.floor(m.context_length / 1000)}k`,
       provider: this.name,
       maxTokenAllowed: 8000,
+      contextWindow: m.context_length,
     }));
   }
 
@@ -3,6 +3,7 @@ import type { ModelInfo } from '~/lib/modules/llm/types';
 import type { IProviderSetting } from '~/types/model';
 import type { LanguageModelV1 } from 'ai';
 import { createOpenAI } from '@ai-sdk/openai';
+import type { ReasoningSettings } from '~/lib/modules/llm/reasoning';
 
 export default class XAIProvider extends BaseProvider {
   name = 'xAI';
@@ -13,9 +14,30 @@ export default class XAIProvider extends BaseProvider {
   };
 
   staticModels: ModelInfo[] = [
-    { name: 'grok-3-beta', label: 'xAI Grok 3 Beta', provider: 'xAI', maxTokenAllowed: 8000 },
-    { name: 'grok-beta', label: 'xAI Grok Beta', provider: 'xAI', maxTokenAllowed: 8000 },
-    { name: 'grok-2-1212', label: 'xAI Grok2 1212', provider: 'xAI', maxTokenAllowed: 8000 },
+    {
+      name: 'grok-3-beta',
+      label: 'xAI Grok 3 Beta',
+      provider: 'xAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 131072,
+      capabilities: { vision: false, toolCalling: true, jsonMode: true },
+    },
+    {
+      name: 'grok-beta',
+      label: 'xAI Grok Beta',
+      provider: 'xAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 131072,
+      capabilities: { vision: false, toolCalling: true, jsonMode: true },
+    },
+    {
+      name: 'grok-2-1212',
+      label: 'xAI Grok2 1212',
+      provider: 'xAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 131072,
+      capabilities: { vision: false, toolCalling: true, jsonMode: true },
+    },
   ];
 
   getModelInstance(options: {
@@ -23,8 +45,9 @@ export default class XAIProvider extends BaseProvider {
     serverEnv: Env;
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
+    reasoning?: ReasoningSettings;
   }): LanguageModelV1 {
-    const { model, serverEnv, apiKeys, providerSettings } = options;
+    const { model, serverEnv, apiKeys, providerSettings, reasoning } = options;
 
     const { apiKey } = this.getProviderBaseUrlAndKey({
       apiKeys,
@@ -43,6 +66,6 @@ export default class XAIProvider extends BaseProvider {
       apiKey,
     });
 
-    return openai(model);
+    return openai(model, { reasoningEffort: reasoning?.effort });
   }
 }
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { createOpenRouterReasoning, createReasoningProviderOptions, resolveReasoningSettings } from './reasoning';
+
+describe('resolveReasoningSettings', () => {
+  it('should keep the settings the provider supports', () => {
+    expect(resolveReasoningSettings('OpenAI', { effort: 'high', budgetTokens: 4000 })).toEqual({ effort: 'high' });
+    expect(resolveReasoningSettings('OpenRouter', { effort: 'high', budgetTokens: 4000 })).toEqual({
+      budgetTokens: 4000,
+    });
+    expect(resolveReasoningSettings('OpenAI', { budgetTokens: 4000 })).toBeUndefined();
+    expect(resolveReasoningSettings('Anthropic', { effort: 'high', budgetTokens: 4000 })).toEqual({
+      budgetTokens: 4000,
+    });
+  });
+
+  it('should ignore providers without reasoning controls', () => {
+    expect(resolveReasoningSettings('Deepseek', { effort: 'low' })).toBeUndefined();
+    expect(resolveReasoningSettings('OpenAI')).toBeUndefined();
+  });
+});
+
+describe('createOpenRouterReasoning', () => {
+  it('should send either a budget or an effort', () => {
+    expect(createOpenRouterReasoning({ budgetTokens: 2000 })).toEqual({ max_tokens: 2000 });
+    expect(createOpenRouterReasoning({ effort: 'medium' })).toEqual({ effort: 'medium' });
+  });
+});
+
+describe('createReasoningProviderOptions', () => {
+  it('should send the thinking budget of Anthropic and Google with the call', () => {
+    expect(createReasoningProviderOptions('Anthropic', { budgetTokens: 500 })).toEqual({
+      anthropic: { thinking: { type: 'enabled', budgetTokens: 1024 } },
+    });
+    expect(createReasoningProviderOptions('Google', { budgetTokens: 2000 })).toEqual({
+      google: { thinkingConfig: { thinkingBudget: 2000 } },
+    });
+    expect(createReasoningProviderOptions('OpenRouter', { budgetTokens: 2000 })).toBeUndefined();
+    expect(createReasoningProviderOptions('Anthropic')).toBeUndefined();
+  });
+});
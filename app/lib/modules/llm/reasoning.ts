@@ -0,0 +1,86 @@
+import type { ProviderMetadata } from 'ai';
+
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+export const REASONING_EFFORTS: ReasoningEffort[] = ['low', 'medium', 'high'];
+
+/** how much a reasoning model thinks before it answers, set per model by the user */
+export interface ReasoningSettings {
+  effort?: ReasoningEffort;
+
+  /** most tokens the model may spend on reasoning, wins over `effort` where both are supported */
+  budgetTokens?: number;
+}
+
+export type ReasoningControl = 'effort' | 'budget';
+
+/**
+ * The reasoning settings every provider passes on, the others ignore them.
+ */
+export const REASONING_CONTROLS: Record<string, ReasoningControl[]> = {
+  OpenAI: ['effort'],
+  Github: ['effort'],
+  xAI: ['effort'],
+  OpenRouter: ['effort', 'budget'],
+  Anthropic: ['budget'],
+  Google: ['budget'],
+};
+
+// the smallest thinking budget the Anthropic API accepts
+const ANTHROPIC_MIN_THINKING_BUDGET = 1024;
+
+/**
+ * The settings of a model the provider can pass on, `undefined` if there are none.
+ * @param provider The provider of the model
+ * @param settings The reasoning settings of the model
+ */
+export function resolveReasoningSettings(provider: string, settings?: ReasoningSettings) {
+  const controls = REASONING_CONTROLS[provider] ?? [];
+  const resolved: ReasoningSettings = {};
+
+  if (settings?.budgetTokens && controls.includes('budget')) {
+    resolved.budgetTokens = settings.budgetTokens;
+  } else if (settings?.effort && controls.includes('effort')) {
+    resolved.effort = settings.effort;
+  }
+
+  return resolved.budgetTokens || resolved.effort ? resolved : undefined;
+}
+
+/**
+ * The `reasoning` request parameter of OpenRouter, it takes either an effort or a token budget.
+ */
+export function createOpenRouterReasoning(settings: ReasoningSettings) {
+  return settings.budgetTokens ? { max_tokens: settings.budgetTokens } : { effort: settings.effort };
+}
+
+/**
+ * The provider options of the call for providers that take the reasoning settings per call instead of per model,
+ * `undefined` for the others.
+ * @param provider The provider of the model
+ * @param settings The resolved reasoning settings of the model
+ */
+export function createReasoningProviderOptions(
+  provider: string,
+  settings?: ReasoningSettings,
+): ProviderMetadata | undefined {
+  if (!settings?.budgetTokens) {
+    return undefined;
+  }
+
+  switch (provider) {
+    case 'Anthropic':
+      return {
+        anthropic: {
+          thinking: {
+            type: 'enabled',
+            budgetTokens: Math.max(settings.budgetTokens, ANTHROPIC_MIN_THINKING_BUDGET),
+          },
+        },
+      };
+    case 'Google':
+      return { google: { thinkingConfig: { thinkingBudget: settings.budgetTokens } } };
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { resolveStageModel } from './stage-models';
+
+const selected = { provider: 'Anthropic', model: 'claude-3-7-sonnet-20250219' };
+
+describe('resolveStageModel', () => {
+  it('should prefer the model assigned to the stage', () => {
+    const assigned = { provider: 'OpenAI', model: 'gpt-4o' };
+
+    expect(resolveStageModel('summary', { summary: assigned }, selected)).toBe(assigned);
+    expect(resolveStageModel('coder', { coder: assigned }, selected)).toBe(assigned);
+  });
+
+  it('should use the small model of the selected provider for housekeeping stages', () => {
+    expect(resolveStageModel('contextSelection', {}, selected)).toEqual({
+      provider: 'Anthropic',
+      model: 'claude-3-5-haiku-latest',
+    });
+    expect(resolveStageModel('summary', undefined, { provider: 'Ollama', model: 'llama3' })).toEqual({
+      provider: 'Ollama',
+      model: 'llama3',
+    });
+  });
+
+  it('should use the selected model for the other stages', () => {
+    expect(resolveStageModel('coder', {}, selected)).toBe(selected);
+    expect(resolveStageModel('enhancer', { enhancer: { provider: '', model: '' } }, selected)).toBe(selected);
+  });
+});
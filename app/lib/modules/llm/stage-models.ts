@@ -0,0 +1,52 @@
+/** the model calls that make up a chat turn, and the ones around it */
+export type ModelStage = 'summary' | 'contextSelection' | 'coder' | 'enhancer' | 'templateSelection';
+
+export const MODEL_STAGES: ModelStage[] = ['summary', 'contextSelection', 'coder', 'enhancer', 'templateSelection'];
+
+export interface StageModel {
+  provider: string;
+  model: string;
+}
+
+/** models the user assigned to stages, stages without one use the default of the stage */
+export type StageModels = Partial<Record<ModelStage, StageModel>>;
+
+/*
+ * summaries, context selection and template selection don't need the model that writes the code, the
+ * small model of the same provider works with the same API key
+ */
+const HOUSEKEEPING_MODELS: Record<string, string> = {
+  Anthropic: 'claude-3-5-haiku-latest',
+  OpenAI: 'gpt-4o-mini',
+  Google: 'gemini-1.5-flash-latest',
+  Deepseek: 'deepseek-chat',
+};
+
+const HOUSEKEEPING_STAGES: ModelStage[] = ['summary', 'contextSelection', 'templateSelection'];
+
+/**
+ * The model a stage runs with: the one the user assigned to it, otherwise the small model of the selected
+ * provider for housekeeping stages, otherwise the model selected in the chat.
+ * @param stage The stage to resolve
+ * @param stageModels The models the user assigned to stages
+ * @param selected The provider and model selected in the chat
+ */
+export function resolveStageModel(
+  stage: ModelStage,
+  stageModels: StageModels | undefined,
+  selected: StageModel,
+): StageModel {
+  const assigned = stageModels?.[stage];
+
+  if (assigned?.provider && assigned.model) {
+    return assigned;
+  }
+
+  const housekeepingModel = HOUSEKEEPING_MODELS[selected.provider];
+
+  if (HOUSEKEEPING_STAGES.includes(stage) && housekeepingModel) {
+    return { provider: selected.provider, model: housekeepingModel };
+  }
+
+  return selected;
+}
@@ -1,11 +1,29 @@
 import type { LanguageModelV1 } from 'ai';
 import type { IProviderSetting } from '~/types/model';
+import type { ModelCapabilities } from './capabilities';
+import type { ModelPricing } from './pricing';
+import type { PromptCacheOptions } from './prompt-cache';
+import type { ReasoningSettings } from './reasoning';
 
 export interface ModelInfo {
   name: string;
   label: string;
   provider: string;
+
+  /** output tokens the model may generate in one response */
   maxTokenAllowed: number;
+
+  /** input plus output tokens the model accepts, estimated from the model family if not set */
+  contextWindow?: number;
+
+  /** USD per million tokens, can be overridden by the user for providers that don't publish prices */
+  pricing?: ModelPricing;
+
+  /** responses that hit `maxTokenAllowed` are continued up to this many segments, `MAX_RESPONSE_SEGMENTS` if not set */
+  maxResponseSegments?: number;
+
+  /** what the model accepts and can do, inferred from the model family if not set */
+  capabilities?: ModelCapabilities;
 }
 
 export interface ProviderInfo {
@@ -21,6 +39,12 @@ export interface ProviderInfo {
     serverEnv: Env;
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
+
+    /** cache breakpoints for providers that support prompt caching, ignored by the others */
+    promptCache?: PromptCacheOptions;
+
+    /** reasoning effort or budget for providers that support it, see `REASONING_CONTROLS` */
+    reasoning?: ReasoningSettings;
   }) => LanguageModelV1;
   getApiKeyLink?: string;
   labelForGetApiKey?: string;
@@ -2,11 +2,24 @@ import type { Message } from 'ai';
 import { createScopedLogger } from '~/utils/logger';
 import type { ChatHistoryItem } from './useChatHistory';
 import type { Snapshot } from './types'; // Import Snapshot type
+import type { PendingChangeStatus } from '~/lib/stores/plan';
+
+export interface ChatCost {
+  /** USD spent in the chat */
+  total: number;
+
+  /** USD per assistant message, by message id */
+  messages: Record<string, number>;
+}
 
 export interface IChatMetadata {
-  gitUrl: string;
+  gitUrl?: string;
   gitBranch?: string;
   netlifySiteId?: string;
+  cost?: ChatCost;
+
+  /** statuses of the changes staged in plan mode, by pending change id, a restored chat only replays approved ones */
+  plan?: Record<string, PendingChangeStatus>;
 }
 
 const logger = createScopedLogger('ChatHistory');
@@ -302,6 +315,32 @@ export async function updateChatMetadata(
   await setMessages(db, id, chat.messages, chat.urlId, chat.description, chat.timestamp, metadata);
 }
 
+/**
+ * Merges fields into the metadata of a chat in a single transaction, so messages stored meanwhile are kept
+ */
+export async function mergeChatMetadata(db: IDBDatabase, id: string, metadata: Partial<IChatMetadata>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('chats', 'readwrite');
+    const store = transaction.objectStore('chats');
+    const request = store.get(id);
+
+    request.onsuccess = () => {
+      const chat = request.result as ChatHistoryItem | undefined;
+
+      if (!chat) {
+        reject(new Error('Chat not found'));
+        return;
+      }
+
+      const update = store.put({ ...chat, metadata: { ...chat.metadata, ...metadata } });
+
+      update.onsuccess = () => resolve();
+      update.onerror = () => reject(update.error);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
 export async function getSnapshot(db: IDBDatabase, chatId: string): Promise<Snapshot | undefined> {
   return new Promise((resolve, reject) => {
     const transaction = db.transaction('snapshots', 'readonly');
@@ -15,13 +15,16 @@ import {
   createChatFromMessages,
   getSnapshot,
   setSnapshot,
+  mergeChatMetadata,
   type IChatMetadata,
 } from './db';
 import type { FileMap } from '~/lib/stores/files';
+import type { PendingChangeStatus } from '~/lib/stores/plan';
 import type { Snapshot } from './types';
 import { webcontainer } from '~/lib/webcontainer';
 import { detectProjectCommands, createCommandActionsString } from '~/utils/projectCommands';
 import type { ContextAnnotation } from '~/types/context';
+import { recordSpend } from '~/lib/stores/spending';
 
 export interface ChatHistoryItem {
   id: string;
@@ -39,6 +42,43 @@ export const db = persistenceEnabled ? await openDatabase() : undefined;
 export const chatId = atom<string | undefined>(undefined);
 export const description = atom<string | undefined>(undefined);
 export const chatMetadata = atom<IChatMetadata | undefined>(undefined);
+
+// adds the cost of an assistant message to the chat and to the spending of the day, once per message
+function recordMessageCost(messageId: string, cost: number) {
+  const metadata = chatMetadata.get();
+  const chatCost = metadata?.cost ?? { total: 0, messages: {} };
+
+  if (messageId in chatCost.messages) {
+    return;
+  }
+
+  chatMetadata.set({
+    ...metadata,
+    cost: { total: chatCost.total + cost, messages: { ...chatCost.messages, [messageId]: cost } },
+  });
+  recordSpend(cost);
+}
+
+/**
+ * Keeps the status of a change staged in plan mode with the chat, so it isn't replayed unapproved after a reload
+ * @param id ID of the pending change
+ * @param status New status of the change
+ */
+export function recordPendingChangeStatus(id: string, status: PendingChangeStatus) {
+  const metadata = chatMetadata.get();
+  const plan = { ...metadata?.plan, [id]: status };
+  const currentChatId = chatId.get();
+
+  chatMetadata.set({ ...metadata, plan });
+
+  // a chat that hasn't been stored yet gets the metadata with its first messages
+  if (db && currentChatId) {
+    mergeChatMetadata(db, currentChatId, { plan }).catch((error) =>
+      logStore.logError('Failed to store the status of a pending change', error),
+    );
+  }
+}
+
 export function useChatHistory() {
   const navigate = useNavigate();
   const { id: mixedId } = useLoaderData<{ id?: string }>();
@@ -303,6 +343,12 @@ ${value.content}
         if (filteredAnnotations.find((annotation) => annotation.type === 'chatSummary')) {
           chatSummary = filteredAnnotations.find((annotation) => annotation.type === 'chatSummary')?.summary;
         }
+
+        const cost = filteredAnnotations.find((annotation) => annotation.type === 'usage')?.value?.cost;
+
+        if (typeof cost === 'number') {
+          recordMessageCost(lastMessage.id, cost);
+        }
       }
 
       takeSnapshot(messages[messages.length - 1].id, workbenchStore.files.get(), _urlId, chatSummary);
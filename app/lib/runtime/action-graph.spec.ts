@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { actionDependsOn, getActionPaths, isInstallCommand } from './action-graph';
+import { actionRegistry } from './actions';
+import type { BoltAction } from '~/types/actions';
+
+const file = (filePath: string): BoltAction => ({ type: 'file', filePath, content: '' });
+const shell = (content: string): BoltAction => ({ type: 'shell', content });
+
+describe('ActionGraph', () => {
+  afterEach(() => {
+    actionRegistry.unregister('screenshot');
+  });
+
+  it('should detect install commands', () => {
+    expect(isInstallCommand('npm install')).toBe(true);
+    expect(isInstallCommand('pnpm add -D vite && npm i')).toBe(true);
+    expect(isInstallCommand('npm install && npm run dev')).toBe(false);
+    expect(isInstallCommand('npm run build')).toBe(false);
+  });
+
+  it('should only order file writes that touch the same path', () => {
+    expect(actionDependsOn(file('src/App.tsx'), file('src/main.tsx'))).toBe(false);
+    expect(actionDependsOn(file('src/App.tsx'), file('./src/App.tsx'))).toBe(true);
+    expect(actionDependsOn(file('src/components/Button.tsx'), { type: 'mkdir', filePath: 'src', content: '' })).toBe(
+      true,
+    );
+  });
+
+  it('should let installs wait only on package manifests', () => {
+    expect(actionDependsOn(shell('npm install'), file('package.json'))).toBe(true);
+    expect(actionDependsOn(shell('npm install'), file('src/App.tsx'))).toBe(false);
+    expect(actionDependsOn(file('src/App.tsx'), shell('npm install'))).toBe(false);
+  });
+
+  it('should run commands after every earlier action', () => {
+    expect(actionDependsOn({ type: 'start', content: 'npm run dev' }, file('src/App.tsx'))).toBe(true);
+    expect(actionDependsOn(shell('npm run lint'), shell('npm install'))).toBe(true);
+    expect(actionDependsOn(file('src/App.tsx'), shell('npx create-vite .'))).toBe(true);
+  });
+
+  it('should order custom actions by the paths of their definition', () => {
+    const screenshot = { type: 'screenshot', content: '', output: 'screenshots/home.png' } as unknown as BoltAction;
+
+    expect(actionDependsOn(file('src/App.tsx'), screenshot)).toBe(true);
+
+    actionRegistry.register<{ content: string; output: string }>({
+      type: 'screenshot',
+      paths: (action) => [action.output],
+      execute: () => Promise.resolve(),
+    });
+
+    expect(getActionPaths(screenshot)).toEqual(['screenshots/home.png']);
+    expect(actionDependsOn(file('src/App.tsx'), screenshot)).toBe(false);
+    expect(actionDependsOn(file('screenshots/home.png'), screenshot)).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+import type { BoltAction } from '~/types/actions';
+import { actionRegistry } from './actions';
+import { splitCommand } from './command-policy';
+
+/**
+ * Files that package manager installs read. Installs only wait on writes to these.
+ */
+const PACKAGE_MANIFEST_FILES = [
+  'package.json',
+  'package-lock.json',
+  'pnpm-lock.yaml',
+  'pnpm-workspace.yaml',
+  'yarn.lock',
+  'bun.lockb',
+  '.npmrc',
+];
+
+const INSTALL_COMMAND_REGEX = /^(?:(?:npm|pnpm|yarn|bun)\s+(?:install|i|ci|add)\b.*|yarn)$/;
+
+type CommandAction = Extract<BoltAction, { type: 'shell' | 'start' | 'build' | 'test' }>;
+
+function isCommandAction(action: BoltAction): action is CommandAction {
+  return action.type === 'shell' || action.type === 'start' || action.type === 'build' || action.type === 'test';
+}
+
+// action types without a `paths` hook, nothing is known about what they touch
+function isOpaqueAction(action: BoltAction) {
+  return !isCommandAction(action) && !actionRegistry.get(action.type)?.paths;
+}
+
+/**
+ * Checks if every part of a shell command is a dependency install, e.g. `npm install && pnpm add -D vite`.
+ * Installs only touch `node_modules` and lock files so they don't need to block other file writes.
+ */
+export function isInstallCommand(command: string) {
+  const parts = splitCommand(command);
+
+  return parts.length > 0 && parts.every((part) => INSTALL_COMMAND_REGEX.test(part));
+}
+
+function normalizePath(filePath: string) {
+  return filePath.replace(/^\.?\/+/, '').replace(/\/+$/, '');
+}
+
+/**
+ * Returns the workspace paths an action reads or writes, relative to the work directory, from the `paths` hook
+ * of its definition.
+ */
+export function getActionPaths(action: BoltAction): string[] {
+  const paths = actionRegistry.get(action.type)?.paths?.(action) ?? [];
+
+  return paths.filter(Boolean).map(normalizePath);
+}
+
+function pathsOverlap(a: string, b: string) {
+  return a === b || a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
+}
+
+function touchesPackageManifest(action: BoltAction) {
+  return getActionPaths(action).some((filePath) => PACKAGE_MANIFEST_FILES.includes(filePath));
+}
+
+/**
+ * Decides whether `action` has to wait for `previous`, an action that came before it in the same artifact.
+ *
+ * - Commands share the single bolt shell, so they always run one after another.
+ * - Installs only wait on writes to package manifests, other commands wait on every earlier file change.
+ * - File changes wait on earlier changes to the same path (or a parent/child path) and on earlier
+ *   commands that may write files themselves, like scaffolding scripts. Installs and dev servers don't.
+ * - Custom action types wait on everything before them and everything after them waits on them.
+ */
+export function actionDependsOn(action: BoltAction, previous: BoltAction) {
+  if (isOpaqueAction(action) || isOpaqueAction(previous)) {
+    return true;
+  }
+
+  if (isCommandAction(action)) {
+    if (isCommandAction(previous)) {
+      return true;
+    }
+
+    if (action.type === 'shell' && isInstallCommand(action.content)) {
+      return touchesPackageManifest(previous);
+    }
+
+    return true;
+  }
+
+  if (isCommandAction(previous)) {
+    return previous.type === 'build' || (previous.type === 'shell' && !isInstallCommand(previous.content));
+  }
+
+  const previousPaths = getActionPaths(previous);
+
+  return getActionPaths(action).some((filePath) => previousPaths.some((other) => pathsOverlap(filePath, other)));
+}
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { actionRegistry } from './actions';
+import { StreamingMessageParser, type ActionCallback, type DiagnosticCallback } from './message-parser';
+
+describe('ActionRegistry', () => {
+  afterEach(() => {
+    actionRegistry.unregister('screenshot');
+  });
+
+  it('should parse a registered custom action with its attributes', () => {
+    actionRegistry.register({
+      type: 'screenshot',
+      attributes: [
+        { name: 'url', required: true },
+        { name: 'device', oneOf: ['mobile', 'desktop'] },
+      ],
+      prepareContent: (content) => content.toUpperCase(),
+      execute: () => Promise.resolve(),
+    });
+
+    const onActionClose = vi.fn<ActionCallback>();
+    const parser = new StreamingMessageParser({ callbacks: { onActionClose } });
+
+    parser.parse(
+      'message_1',
+      '<boltArtifact id="artifact_1" title="Screenshot"><boltAction type="screenshot" url="/" device="mobile">home</boltAction></boltArtifact>',
+    );
+
+    expect(onActionClose).toHaveBeenCalledTimes(1);
+    expect(onActionClose.mock.calls[0][0].action).toEqual({
+      type: 'screenshot',
+      url: '/',
+      device: 'mobile',
+      content: 'HOME',
+    });
+  });
+
+  it('should reject attribute values outside of the schema', () => {
+    actionRegistry.register({
+      type: 'screenshot',
+      attributes: [{ name: 'device', oneOf: ['mobile', 'desktop'] }],
+      execute: () => Promise.resolve(),
+    });
+
+    const onActionClose = vi.fn<ActionCallback>();
+    const onDiagnostic = vi.fn<DiagnosticCallback>();
+    const parser = new StreamingMessageParser({ callbacks: { onActionClose, onDiagnostic } });
+
+    parser.parse(
+      'message_1',
+      '<boltArtifact id="artifact_1" title="Screenshot"><boltAction type="screenshot" device="watch"></boltAction></boltArtifact>',
+    );
+
+    expect(onActionClose).not.toHaveBeenCalled();
+    expect(onDiagnostic).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'invalid-action', message: 'Invalid screenshot device: watch' }),
+    );
+  });
+
+  it('should register the built-in action types', () => {
+    expect(actionRegistry.types).toEqual(
+      expect.arrayContaining(['file', 'patch', 'delete', 'rename', 'mkdir', 'shell', 'start', 'build', 'supabase']),
+    );
+  });
+});
@@ -0,0 +1,189 @@
+import type { WebContainer } from '@webcontainer/api';
+import type { ActionAlert, BaseAction, DeployAlert, SupabaseAlert } from '~/types/actions';
+import type { BoltShell } from '~/utils/shell';
+import type { ActionState, ActionStateUpdate, FileOperations } from './action-runner';
+
+export class ActionCommandError extends Error {
+  readonly _output: string;
+  readonly _header: string;
+
+  constructor(message: string, output: string) {
+    // Create a formatted message that includes both the error message and output
+    const formattedMessage = `Failed To Execute Shell Command: ${message}\n\nOutput:\n${output}`;
+    super(formattedMessage);
+
+    // Set the output separately so it can be accessed programmatically
+    this._header = message;
+    this._output = output;
+
+    // Maintain proper prototype chain
+    Object.setPrototypeOf(this, ActionCommandError.prototype);
+
+    // Set the name of the error for better debugging
+    this.name = 'ActionCommandError';
+  }
+
+  // Optional: Add a method to get just the terminal output
+  get output() {
+    return this._output;
+  }
+  get header() {
+    return this._header;
+  }
+}
+
+/**
+ * A command the command safety policy didn't let run. It is not a failure of the command, so it raises a policy
+ * alert with the rule that matched instead of an alert that offers a fix.
+ */
+export class CommandBlockedError extends Error {
+  constructor(
+    readonly command: string,
+    readonly reason = 'Blocked by the command policy',
+  ) {
+    super(`Command blocked by the command policy: ${command}`);
+    Object.setPrototypeOf(this, CommandBlockedError.prototype);
+    this.name = 'CommandBlockedError';
+  }
+
+  toAlert(): ActionAlert {
+    return {
+      type: 'warning',
+      title: 'Command Blocked',
+      description: this.reason,
+      content: this.command,
+      source: 'policy',
+    };
+  }
+}
+
+export interface ActionAttributeSchema {
+  /** attribute name on the `<boltAction>` tag, also used as the property name on the action */
+  name: string;
+  required?: boolean;
+
+  /** allowed values, the parser rejects the action if the attribute has any other value */
+  oneOf?: string[];
+}
+
+/**
+ * Everything an executor may use while running an action. It is created by the `ActionRunner`
+ * for every execution.
+ */
+export interface ActionContext {
+  actionId: string;
+  runnerId: string;
+  isStreaming: boolean;
+  webcontainer: WebContainer;
+  getShell: () => BoltShell;
+  fileOperations?: FileOperations;
+  onAlert?: (alert: ActionAlert) => void;
+  onSupabaseAlert?: (alert: SupabaseAlert) => void;
+  onDeployAlert?: (alert: DeployAlert) => void;
+  onServerReady?: () => void;
+
+  /** throws a `CommandBlockedError` if the command safety policy doesn't allow the command */
+  checkCommand: (command: string) => Promise<void>;
+
+  /** update the state of the action, e.g. to fail it with a specific error */
+  update: (state: ActionStateUpdate) => void;
+  setBuildOutput: (output: { path: string; exitCode: number; output: string }) => void;
+}
+
+export type ActionViewSegment = string | { code: string; openFile?: string };
+
+export interface ActionViewNode {
+  label: string;
+  status: 'passed' | 'failed' | 'skipped';
+
+  /** shown below the label, e.g. the assertion error of a failed test */
+  detail?: string;
+  children?: ActionViewNode[];
+}
+
+/**
+ * Describes how an action is listed in an artifact. Inline `code` segments with `openFile` open that
+ * file in the workbench when clicked.
+ */
+export interface ActionView {
+  label: ActionViewSegment[];
+
+  /** command shown in a shell code block below the label */
+  command?: string;
+
+  /** workbench view that is opened when the label is clicked */
+  openView?: 'code' | 'diff' | 'preview';
+
+  /** show the error of a failed action below the label */
+  showError?: boolean;
+
+  /** collapsible pass/fail tree below the label, like the results of a test run */
+  tree?: ActionViewNode[];
+}
+
+/*
+ * The hooks are methods, so definitions of specific action types can be registered and listed as definitions of
+ * any action.
+ */
+export interface ActionDefinition<T extends BaseAction = BaseAction> {
+  type: string;
+  attributes?: ActionAttributeSchema[];
+
+  /** whether the content is streamed to the executor while it's being generated, like file writes */
+  streaming?: boolean;
+
+  /**
+   * Whether the action keeps running after `execute` resolved, e.g. a dev server. The executor is then
+   * responsible for moving the action to `complete` or `failed`.
+   */
+  detached?: boolean;
+
+  /** throw to reject an action whose attributes don't fit together */
+  validate?(action: T): void;
+
+  /** clean up the raw content from the tag, `isStreaming` is true for partial content */
+  prepareContent?(content: string, action: T, isStreaming: boolean): string;
+
+  /**
+   * Paths the action reads or writes, relative to the work directory. They order the action after earlier actions
+   * on the same paths and are restored by a rollback. Custom actions without the hook wait on every action before
+   * them and every action after them waits on them.
+   */
+  paths?(action: T): string[];
+
+  /**
+   * Runs the action. Throwing an `ActionCommandError` fails the action and raises an alert with the
+   * command output. Executors can also fail the action themselves through `context.update`.
+   */
+  execute(action: ActionState & T, context: ActionContext): Promise<void>;
+
+  render?(action: ActionState & T): ActionView;
+}
+
+export class ActionRegistry {
+  #definitions = new Map<string, ActionDefinition>();
+
+  /**
+   * Register an action type. Registering a type again replaces the previous definition.
+   * @param definition Attribute schema, executor and renderer of the action type
+   */
+  register<T extends BaseAction>(definition: ActionDefinition<T>) {
+    this.#definitions.set(definition.type, definition);
+  }
+
+  unregister(type: string) {
+    this.#definitions.delete(type);
+  }
+
+  get(type: string | undefined) {
+    return type ? this.#definitions.get(type) : undefined;
+  }
+
+  has(type: string) {
+    return this.#definitions.has(type);
+  }
+
+  get types() {
+    return [...this.#definitions.keys()];
+  }
+}
@@ -1,11 +1,16 @@
 import type { WebContainer } from '@webcontainer/api';
 import { path as nodePath } from '~/utils/path';
 import { atom, map, type MapStore } from 'nanostores';
-import type { ActionAlert, BoltAction, DeployAlert, FileHistory, SupabaseAction, SupabaseAlert } from '~/types/actions';
+import type { ActionAlert, BoltAction, DeployAlert, FileHistory, SupabaseAlert } from '~/types/actions';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
 import type { ActionCallbackData } from './message-parser';
 import type { BoltShell } from '~/utils/shell';
+import { actionDependsOn, getActionPaths } from './action-graph';
+import type { CommandChecker } from './command-policy';
+import { ActionCommandError, CommandBlockedError, type ActionContext } from './action-registry';
+import { actionRegistry, writeWorkdirFile } from './actions';
+import type { TestRunResult } from './test-results';
 
 const logger = createScopedLogger('ActionRunner');
 
@@ -16,6 +21,9 @@ export type BaseActionState = BoltAction & {
   abort: () => void;
   executed: boolean;
   abortSignal: AbortSignal;
+
+  /** results of a test action, shown as a tree in the artifact */
+  testResults?: TestRunResult;
 };
 
 export type FailedActionState = BoltAction &
@@ -26,46 +34,56 @@ export type FailedActionState = BoltAction &
 
 export type ActionState = BaseActionState | FailedActionState;
 
-type BaseActionUpdate = Partial<Pick<BaseActionState, 'status' | 'abort' | 'executed'>>;
+type BaseActionUpdate = Partial<Pick<BaseActionState, 'status' | 'abort' | 'executed' | 'testResults'>>;
 
 export type ActionStateUpdate =
-  | BaseActionUpdate
-  | (Omit<BaseActionUpdate, 'status'> & { status: 'failed'; error: string });
+  BaseActionUpdate | (Omit<BaseActionUpdate, 'status'> & { status: 'failed'; error: string });
 
 type ActionsMap = MapStore<Record<string, ActionState>>;
 
-class ActionCommandError extends Error {
-  readonly _output: string;
-  readonly _header: string;
-
-  constructor(message: string, output: string) {
-    // Create a formatted message that includes both the error message and output
-    const formattedMessage = `Failed To Execute Shell Command: ${message}\n\nOutput:\n${output}`;
-    super(formattedMessage);
+/**
+ * File system operations that have to go through the workbench so that lock checks,
+ * the file tree and the editor stay in sync. Paths are absolute WebContainer paths.
+ */
+export interface FileOperations {
+  isLocked: (path: string) => boolean;
+  isFolder: (path: string) => boolean;
+  createFolder: (folderPath: string) => Promise<boolean>;
+  deleteFile: (filePath: string) => Promise<boolean>;
+  deleteFolder: (folderPath: string) => Promise<boolean>;
+  renameFile: (oldPath: string, newPath: string) => Promise<boolean>;
+  restorePath: (path: string) => void;
+}
 
-    // Set the output separately so it can be accessed programmatically
-    this._header = message;
-    this._output = output;
+/** `unavailable` once the pre-images would take more than `MAX_SNAPSHOT_BYTES` */
+export type RollbackStatus = 'idle' | 'running' | 'complete' | 'failed' | 'unavailable';
 
-    // Maintain proper prototype chain
-    Object.setPrototypeOf(this, ActionCommandError.prototype);
+// pre-images are kept in memory until the next artifact, a large folder that is deleted or renamed can't be restored
+const MAX_SNAPSHOT_BYTES = 20 * 1024 * 1024;
 
-    // Set the name of the error for better debugging
-    this.name = 'ActionCommandError';
-  }
+// generated folders of `IGNORE_PATTERNS`, they are restored empty and come back with the next install or build
+const SNAPSHOT_IGNORED_FOLDERS = new Set(['node_modules', '.git', 'dist', 'build', '.next', 'coverage', '.cache']);
 
-  // Optional: Add a method to get just the terminal output
-  get output() {
-    return this._output;
-  }
-  get header() {
-    return this._header;
-  }
-}
+/**
+ * Content of a path before the artifact first touched it. `null` means the path didn't exist.
+ */
+type PreImage = { type: 'file'; content: Uint8Array } | { type: 'folder' } | null;
 
 export class ActionRunner {
   #webcontainer: Promise<WebContainer>;
-  #currentExecutionPromise: Promise<void> = Promise.resolve();
+
+  /**
+   * Latest execution of every scheduled action, in the order the actions were first scheduled.
+   * Used to build the dependency graph so independent actions can run concurrently.
+   */
+  #executions = new Map<string, Promise<void>>();
+
+  /**
+   * Pre-images of every path touched by this artifact, keyed by path relative to the work directory,
+   * in the order they were first touched.
+   */
+  #preImages = new Map<string, PreImage>();
+  #snapshotBytes = 0;
   #shellTerminal: () => BoltShell;
   runnerId = atom<string>(`${Date.now()}`);
   actions: ActionsMap = map({});
@@ -73,6 +91,10 @@ export class ActionRunner {
   onSupabaseAlert?: (alert: SupabaseAlert) => void;
   onDeployAlert?: (alert: DeployAlert) => void;
   onServerReady?: () => void;
+  fileOperations?: FileOperations;
+  checkCommand?: CommandChecker;
+  canRollback = atom<boolean>(false);
+  rollbackStatus = atom<RollbackStatus>('idle');
   buildOutput?: { path: string; exitCode: number; output: string };
 
   constructor(
@@ -82,6 +104,8 @@ export class ActionRunner {
     onSupabaseAlert?: (alert: SupabaseAlert) => void,
     onDeployAlert?: (alert: DeployAlert) => void,
     onServerReady?: () => void,
+    fileOperations?: FileOperations,
+    checkCommand?: CommandChecker,
   ) {
     this.#webcontainer = webcontainerPromise;
     this.#shellTerminal = getShellTerminal;
@@ -89,6 +113,8 @@ export class ActionRunner {
     this.onSupabaseAlert = onSupabaseAlert;
     this.onDeployAlert = onDeployAlert;
     this.onServerReady = onServerReady;
+    this.fileOperations = fileOperations;
+    this.checkCommand = checkCommand;
   }
 
   addAction(data: ActionCallbackData) {
@@ -114,10 +140,6 @@ export class ActionRunner {
       },
       abortSignal: abortController.signal,
     });
-
-    this.#currentExecutionPromise.then(() => {
-      this.#updateAction(actionId, { status: 'running' });
-    });
   }
 
   async runAction(data: ActionCallbackData, isStreaming: boolean = false) {
@@ -132,13 +154,15 @@ export class ActionRunner {
       return; // No return value here
     }
 
-    if (isStreaming && action.type !== 'file') {
+    if (isStreaming && !actionRegistry.get(action.type)?.streaming) {
       return; // No return value here
     }
 
     this.#updateAction(actionId, { ...action, ...data.action, executed: !isStreaming });
 
-    this.#currentExecutionPromise = this.#currentExecutionPromise
+    const dependencies = this.#getDependencies(actionId);
+
+    const execution = Promise.all(dependencies)
       .then(() => {
         return this.#executeAction(actionId, isStreaming);
       })
@@ -146,81 +170,60 @@ export class ActionRunner {
         console.error('Action failed:', error);
       });
 
-    await this.#currentExecutionPromise;
+    this.#executions.set(actionId, execution);
+
+    await execution;
 
     return;
   }
 
+  /**
+   * Collects the executions an action has to wait for: its own previous (streamed) execution
+   * and every earlier action it depends on. Actions stay `pending` until these settle.
+   */
+  #getDependencies(actionId: string) {
+    const action = this.actions.get()[actionId];
+    const dependencies: Promise<void>[] = [];
+
+    for (const [previousId, execution] of this.#executions) {
+      if (previousId === actionId) {
+        dependencies.push(execution);
+
+        // later actions are scheduled after this one and can't be dependencies
+        break;
+      }
+
+      const previous = this.actions.get()[previousId];
+
+      if (previous && actionDependsOn(action, previous)) {
+        dependencies.push(execution);
+      }
+    }
+
+    return dependencies;
+  }
+
   async #executeAction(actionId: string, isStreaming: boolean = false) {
     const action = this.actions.get()[actionId];
+    const definition = actionRegistry.get(action.type);
+
+    if (!definition) {
+      this.#updateAction(actionId, { status: 'failed', error: `Unknown action type: ${action.type}` });
+      logger.error(`Unknown action type: ${action.type}`);
+
+      return;
+    }
 
     this.#updateAction(actionId, { status: 'running' });
 
     try {
-      switch (action.type) {
-        case 'shell': {
-          await this.#runShellAction(action);
-          break;
-        }
-        case 'file': {
-          await this.#runFileAction(action);
-          break;
-        }
-        case 'supabase': {
-          try {
-            await this.handleSupabaseAction(action as SupabaseAction);
-          } catch (error: any) {
-            // Update action status
-            this.#updateAction(actionId, {
-              status: 'failed',
-              error: error instanceof Error ? error.message : 'Supabase action failed',
-            });
-
-            // Return early without re-throwing
-            return;
-          }
-          break;
-        }
-        case 'build': {
-          const buildOutput = await this.#runBuildAction(action);
+      await this.#recordPreImages(action);
 
-          // Store build output for deployment
-          this.buildOutput = buildOutput;
-          break;
-        }
-        case 'start': {
-          // making the start app non blocking
-
-          this.#runStartAction(action)
-            .then(() => this.#updateAction(actionId, { status: 'complete' }))
-            .catch((err: Error) => {
-              if (action.abortSignal.aborted) {
-                return;
-              }
-
-              this.#updateAction(actionId, { status: 'failed', error: 'Action failed' });
-              logger.error(`[${action.type}]:Action failed\n\n`, err);
-
-              if (!(err instanceof ActionCommandError)) {
-                return;
-              }
-
-              this.onAlert?.({
-                type: 'error',
-                title: 'Dev Server Failed',
-                description: err.header,
-                content: err.output,
-              });
-            });
-
-          /*
-           * adding a delay to avoid any race condition between 2 start actions
-           * i am up for a better approach
-           */
-          await new Promise((resolve) => setTimeout(resolve, 2000));
+      await definition.execute(action, await this.#createContext(actionId, isStreaming));
 
-          return;
-        }
+      if (definition.detached || this.actions.get()[actionId].status !== 'running') {
+        // detached actions settle on their own, others may have failed themselves through the context
+        return;
       }
 
       this.#updateAction(actionId, {
@@ -234,106 +237,187 @@ export class ActionRunner {
       this.#updateAction(actionId, { status: 'failed', error: 'Action failed' });
       logger.error(`[${action.type}]:Action failed\n\n`, error);
 
-      if (!(error instanceof ActionCommandError)) {
+      if (error instanceof CommandBlockedError) {
+        this.onAlert?.(error.toAlert());
+      } else if (error instanceof ActionCommandError) {
+        this.onAlert?.({
+          type: 'error',
+          title: 'Dev Server Failed',
+          description: error.header,
+          content: error.output,
+        });
+      } else {
         return;
       }
 
-      this.onAlert?.({
-        type: 'error',
-        title: 'Dev Server Failed',
-        description: error.header,
-        content: error.output,
-      });
-
       // re-throw the error to be caught in the promise chain
       throw error;
     }
   }
 
-  async #runShellAction(action: ActionState) {
-    if (action.type !== 'shell') {
-      unreachable('Expected shell action');
-    }
-
-    const shell = this.#shellTerminal();
-    await shell.ready();
+  async #createContext(actionId: string, isStreaming: boolean): Promise<ActionContext> {
+    return {
+      actionId,
+      runnerId: this.runnerId.get(),
+      isStreaming,
+      webcontainer: await this.#webcontainer,
+      getShell: this.#shellTerminal,
+      fileOperations: this.fileOperations,
+      onAlert: this.onAlert,
+      onSupabaseAlert: this.onSupabaseAlert,
+      onDeployAlert: this.onDeployAlert,
+      onServerReady: this.onServerReady,
+      checkCommand: (command) => this.#enforceCommandPolicy(command),
+      update: (state) => this.#updateAction(actionId, state),
+      setBuildOutput: (output) => {
+        this.buildOutput = output;
+      },
+    };
+  }
 
-    if (!shell || !shell.terminal || !shell.process) {
-      unreachable('Shell terminal not found');
+  async #enforceCommandPolicy(command: string) {
+    if (!this.checkCommand) {
+      return;
     }
 
-    const resp = await shell.executeCommand(this.runnerId.get(), action.content, () => {
-      logger.debug(`[${action.type}]:Aborting Action\n\n`, action);
-      action.abort();
-    });
-    logger.debug(`${action.type} Shell Response: [exit code:${resp?.exitCode}]`);
+    const { allowed, reason } = await this.checkCommand(command);
 
-    if (resp?.exitCode != 0) {
-      throw new ActionCommandError(`Failed To Execute Shell Command`, resp?.output || 'No Output Available');
+    if (!allowed) {
+      logger.warn(`Command blocked: ${command}`, reason);
+      throw new CommandBlockedError(command, reason);
     }
   }
 
-  async #runStartAction(action: ActionState) {
-    if (action.type !== 'start') {
-      unreachable('Expected shell action');
+  async #recordPreImages(action: ActionState) {
+    const paths = getActionPaths(action);
+
+    if (paths.length === 0 || this.rollbackStatus.get() === 'unavailable') {
+      return;
     }
 
-    if (!this.#shellTerminal) {
-      unreachable('Shell terminal not found');
+    const webcontainer = await this.#webcontainer;
+
+    for (const relativePath of paths) {
+      await this.#snapshotPath(webcontainer, relativePath);
+
+      if (this.#snapshotBytes > MAX_SNAPSHOT_BYTES) {
+        logger.warn(`Pre-images exceed ${MAX_SNAPSHOT_BYTES} bytes, the artifact can't be rolled back`);
+
+        this.#preImages.clear();
+        this.canRollback.set(false);
+        this.rollbackStatus.set('unavailable');
+
+        return;
+      }
     }
 
-    const shell = this.#shellTerminal();
-    await shell.ready();
+    this.canRollback.set(this.#preImages.size > 0);
+  }
 
-    if (!shell || !shell.terminal || !shell.process) {
-      unreachable('Shell terminal not found');
+  async #snapshotPath(webcontainer: WebContainer, relativePath: string) {
+    if (this.#preImages.has(relativePath)) {
+      return;
     }
 
-    const resp = await shell.executeCommand(this.runnerId.get(), action.content, () => {
-      logger.debug(`[${action.type}]:Aborting Action\n\n`, action);
-      action.abort();
-    });
-    logger.debug(`${action.type} Shell Response: [exit code:${resp?.exitCode}]`);
+    try {
+      const entries = await webcontainer.fs.readdir(relativePath, { withFileTypes: true });
+
+      this.#preImages.set(relativePath, { type: 'folder' });
+
+      if (SNAPSHOT_IGNORED_FOLDERS.has(nodePath.basename(relativePath))) {
+        return;
+      }
+
+      for (const entry of entries) {
+        if (this.#snapshotBytes > MAX_SNAPSHOT_BYTES) {
+          return;
+        }
+
+        await this.#snapshotPath(webcontainer, nodePath.join(relativePath, entry.name));
+      }
 
-    if (resp?.exitCode != 0) {
-      throw new ActionCommandError('Failed To Start Application', resp?.output || 'No Output Available');
+      return;
+    } catch {
+      // not a folder
+    }
+
+    try {
+      const content = await webcontainer.fs.readFile(relativePath);
+      this.#preImages.set(relativePath, { type: 'file', content });
+      this.#snapshotBytes += content.byteLength;
+    } catch {
+      await this.#recordMissingFolders(webcontainer, nodePath.dirname(relativePath));
+      this.#preImages.set(relativePath, null);
     }
+  }
 
-    // Call onServerReady callback when start action succeeds
-    if (this.onServerReady) {
-      this.onServerReady();
+  // record folders that are about to be created so a rollback doesn't leave them behind empty
+  async #recordMissingFolders(webcontainer: WebContainer, folder: string) {
+    if (folder === '.' || this.#preImages.has(folder)) {
+      return;
     }
 
-    return resp;
+    try {
+      await webcontainer.fs.readdir(folder);
+    } catch {
+      await this.#recordMissingFolders(webcontainer, nodePath.dirname(folder));
+      this.#preImages.set(folder, null);
+    }
   }
 
-  async #runFileAction(action: ActionState) {
-    if (action.type !== 'file') {
-      unreachable('Expected file action');
+  /**
+   * Restores every path touched by this artifact to its state before the artifact started.
+   * Changes made by shell commands outside of the artifact's file actions are not tracked, and the contents of
+   * generated folders like `node_modules` are not restored.
+   */
+  async rollback() {
+    const status = this.rollbackStatus.get();
+
+    if (status === 'running' || status === 'unavailable') {
+      return;
     }
 
+    this.rollbackStatus.set('running');
+
     const webcontainer = await this.#webcontainer;
-    const relativePath = nodePath.relative(webcontainer.workdir, action.filePath);
 
-    let folder = nodePath.dirname(relativePath);
+    // undo in reverse order so children are removed before their folders and folders exist before their files
+    const preImages = [...this.#preImages].reverse();
+
+    try {
+      for (const [relativePath, preImage] of preImages) {
+        if (preImage === null) {
+          await webcontainer.fs.rm(relativePath, { recursive: true, force: true });
+          continue;
+        }
+
+        this.fileOperations?.restorePath(nodePath.join(webcontainer.workdir, relativePath));
+
+        if (preImage.type === 'folder') {
+          await webcontainer.fs.mkdir(relativePath, { recursive: true });
+          continue;
+        }
+
+        const folder = nodePath.dirname(relativePath);
 
-    // remove trailing slashes
-    folder = folder.replace(/\/+$/g, '');
+        if (folder !== '.') {
+          await webcontainer.fs.mkdir(folder, { recursive: true });
+        }
 
-    if (folder !== '.') {
-      try {
-        await webcontainer.fs.mkdir(folder, { recursive: true });
-        logger.debug('Created folder', folder);
-      } catch (error) {
-        logger.error('Failed to create folder\n\n', error);
+        await webcontainer.fs.writeFile(relativePath, preImage.content);
       }
-    }
 
-    try {
-      await webcontainer.fs.writeFile(relativePath, action.content);
-      logger.debug(`File written ${relativePath}`);
+      logger.debug(`Rolled back ${preImages.length} paths`);
+
+      this.#preImages.clear();
+      this.#snapshotBytes = 0;
+      this.canRollback.set(false);
+      this.rollbackStatus.set('complete');
     } catch (error) {
-      logger.error('Failed to write file\n\n', error);
+      logger.error('Rollback failed\n\n', error);
+      this.rollbackStatus.set('failed');
+
+      throw error;
     }
   }
 
@@ -357,156 +441,16 @@ export class ActionRunner {
   }
 
   async saveFileHistory(filePath: string, history: FileHistory) {
-    // const webcontainer = await this.#webcontainer;
+    const webcontainer = await this.#webcontainer;
     const historyPath = this.#getHistoryPath(filePath);
 
-    await this.#runFileAction({
-      type: 'file',
-      filePath: historyPath,
-      content: JSON.stringify(history),
-      changeSource: 'auto-save',
-    } as any);
+    await writeWorkdirFile(webcontainer, historyPath, JSON.stringify(history));
   }
 
   #getHistoryPath(filePath: string) {
     return nodePath.join('.history', filePath);
   }
 
-  async #runBuildAction(action: ActionState) {
-    if (action.type !== 'build') {
-      unreachable('Expected build action');
-    }
-
-    // Trigger build started alert
-    this.onDeployAlert?.({
-      type: 'info',
-      title: 'Building Application',
-      description: 'Building your application...',
-      stage: 'building',
-      buildStatus: 'running',
-      deployStatus: 'pending',
-      source: 'netlify',
-    });
-
-    const webcontainer = await this.#webcontainer;
-
-    // Create a new terminal specifically for the build
-    const buildProcess = await webcontainer.spawn('npm', ['run', 'build']);
-
-    let output = '';
-    buildProcess.output.pipeTo(
-      new WritableStream({
-        write(data) {
-          output += data;
-        },
-      }),
-    );
-
-    const exitCode = await buildProcess.exit;
-
-    if (exitCode !== 0) {
-      // Trigger build failed alert
-      this.onDeployAlert?.({
-        type: 'error',
-        title: 'Build Failed',
-        description: 'Your application build failed',
-        content: output || 'No build output available',
-        stage: 'building',
-        buildStatus: 'failed',
-        deployStatus: 'pending',
-        source: 'netlify',
-      });
-
-      throw new ActionCommandError('Build Failed', output || 'No Output Available');
-    }
-
-    // Trigger build success alert
-    this.onDeployAlert?.({
-      type: 'success',
-      title: 'Build Completed',
-      description: 'Your application was built successfully',
-      stage: 'deploying',
-      buildStatus: 'complete',
-      deployStatus: 'running',
-      source: 'netlify',
-    });
-
-    // Check for common build directories
-    const commonBuildDirs = ['dist', 'build', 'out', 'output', '.next', 'public'];
-
-    let buildDir = '';
-
-    // Try to find the first existing build directory
-    for (const dir of commonBuildDirs) {
-      const dirPath = nodePath.join(webcontainer.workdir, dir);
-
-      try {
-        await webcontainer.fs.readdir(dirPath);
-        buildDir = dirPath;
-        break;
-      } catch {
-        continue;
-      }
-    }
-
-    // If no build directory was found, use the default (dist)
-    if (!buildDir) {
-      buildDir = nodePath.join(webcontainer.workdir, 'dist');
-    }
-
-    return {
-      path: buildDir,
-      exitCode,
-      output,
-    };
-  }
-  async handleSupabaseAction(action: SupabaseAction) {
-    const { operation, content, filePath } = action;
-    logger.debug('[Supabase Action]:', { operation, filePath, content });
-
-    switch (operation) {
-      case 'migration':
-        if (!filePath) {
-          throw new Error('Migration requires a filePath');
-        }
-
-        // Show alert for migration action
-        this.onSupabaseAlert?.({
-          type: 'info',
-          title: 'Supabase Migration',
-          description: `Create migration file: ${filePath}`,
-          content,
-          source: 'supabase',
-        });
-
-        // Only create the migration file
-        await this.#runFileAction({
-          type: 'file',
-          filePath,
-          content,
-          changeSource: 'supabase',
-        } as any);
-        return { success: true };
-
-      case 'query': {
-        // Always show the alert and let the SupabaseAlert component handle connection state
-        this.onSupabaseAlert?.({
-          type: 'info',
-          title: 'Supabase Query',
-          description: 'Execute database query',
-          content,
-          source: 'supabase',
-        });
-
-        // The actual execution will be triggered from SupabaseChatAlert
-        return { pending: true };
-      }
-
-      default:
-        throw new Error(`Unknown operation: ${operation}`);
-    }
-  }
-
   // Add this method declaration to the class
   handleDeployAction(
     stage: 'building' | 'deploying' | 'complete',
@@ -0,0 +1,199 @@
+import type { WebContainer } from '@webcontainer/api';
+import type { DeleteAction, FileAction, MkdirAction, PatchAction, RenameAction } from '~/types/actions';
+import type { ActionContext, ActionDefinition } from '~/lib/runtime/action-registry';
+import { createScopedLogger } from '~/utils/logger';
+import { path as nodePath } from '~/utils/path';
+import { applyFilePatch, isNewFilePatch, PatchApplyError } from '~/utils/patch';
+import { unreachable } from '~/utils/unreachable';
+
+const logger = createScopedLogger('ActionRunner');
+
+export function cleanoutMarkdownSyntax(content: string) {
+  const codeBlockRegex = /^\s*```\w*\n([\s\S]*?)\n\s*```\s*$/;
+  const match = content.match(codeBlockRegex);
+
+  if (match) {
+    return match[1]; // Remove common leading 4-space indent
+  } else {
+    return content;
+  }
+}
+
+export function cleanEscapedTags(content: string) {
+  return content.replace(/&lt;/g, '<').replace(/&gt;/g, '>');
+}
+
+/**
+ * Writes a file relative to the work directory and creates its parent folders.
+ */
+export async function writeWorkdirFile(webcontainer: WebContainer, filePath: string, content: string) {
+  const relativePath = nodePath.relative(webcontainer.workdir, filePath);
+
+  let folder = nodePath.dirname(relativePath);
+
+  // remove trailing slashes
+  folder = folder.replace(/\/+$/g, '');
+
+  if (folder !== '.') {
+    try {
+      await webcontainer.fs.mkdir(folder, { recursive: true });
+      logger.debug('Created folder', folder);
+    } catch (error) {
+      logger.error('Failed to create folder\n\n', error);
+    }
+  }
+
+  try {
+    await webcontainer.fs.writeFile(relativePath, content);
+    logger.debug(`File written ${relativePath}`);
+  } catch (error) {
+    logger.error('Failed to write file\n\n', error);
+  }
+}
+
+export const fileAction: ActionDefinition<FileAction> = {
+  type: 'file',
+  attributes: [{ name: 'filePath', required: true }],
+  streaming: true,
+  paths: (action) => [action.filePath],
+  prepareContent: (content, action, isStreaming) => {
+    // Remove markdown code block syntax if present and file is not markdown
+    if (!action.filePath?.endsWith('.md')) {
+      content = cleanoutMarkdownSyntax(content);
+      content = cleanEscapedTags(content);
+    }
+
+    return isStreaming ? content : content + '\n';
+  },
+  execute: async (action, { webcontainer }) => {
+    await writeWorkdirFile(webcontainer, action.filePath, action.content);
+  },
+  render: (action) => ({ label: ['Create ', { code: action.filePath, openFile: action.filePath }] }),
+};
+
+export const patchAction: ActionDefinition<PatchAction> = {
+  type: 'patch',
+  attributes: [{ name: 'filePath', required: true }],
+  paths: (action) => [action.filePath],
+
+  // patches may be wrapped in a ```diff block as well
+  prepareContent: (content) => cleanEscapedTags(cleanoutMarkdownSyntax(content)),
+  execute: async (action, { webcontainer, update, onAlert }) => {
+    const relativePath = nodePath.relative(webcontainer.workdir, action.filePath);
+
+    try {
+      let currentContent: string;
+
+      try {
+        currentContent = await webcontainer.fs.readFile(relativePath, 'utf-8');
+      } catch {
+        if (!isNewFilePatch(action.content)) {
+          throw new PatchApplyError(`File ${action.filePath} does not exist`, 0, action.content);
+        }
+
+        await writeWorkdirFile(webcontainer, action.filePath, applyFilePatch('', action.content));
+
+        return;
+      }
+
+      const patchedContent = applyFilePatch(currentContent, action.content);
+
+      await webcontainer.fs.writeFile(relativePath, patchedContent);
+      logger.debug(`File patched ${relativePath}`);
+    } catch (error) {
+      if (!(error instanceof PatchApplyError)) {
+        throw error;
+      }
+
+      update({ status: 'failed', error: error.message });
+      logger.error(`[${action.type}]:Patch failed for ${action.filePath}\n\n`, error);
+
+      onAlert?.({
+        type: 'error',
+        title: 'Patch Failed',
+        description: `${action.filePath}: ${error.message}`,
+        content: error.hunk,
+        source: 'patch',
+      });
+    }
+  },
+  render: (action) => ({ label: ['Update ', { code: action.filePath, openFile: action.filePath }], showError: true }),
+};
+
+async function runFileSystemAction(action: DeleteAction | RenameAction | MkdirAction, context: ActionContext) {
+  const { webcontainer, fileOperations, update } = context;
+
+  if (!fileOperations) {
+    unreachable('File operations not available');
+  }
+
+  try {
+    const fullPath = nodePath.join(webcontainer.workdir, action.filePath);
+
+    if (fileOperations.isLocked(fullPath)) {
+      throw new Error(`${action.filePath} is locked`);
+    }
+
+    switch (action.type) {
+      case 'delete': {
+        if (fileOperations.isFolder(fullPath)) {
+          await fileOperations.deleteFolder(fullPath);
+        } else {
+          await fileOperations.deleteFile(fullPath);
+        }
+
+        logger.debug(`Deleted ${action.filePath}`);
+        break;
+      }
+      case 'rename': {
+        const newFullPath = nodePath.join(webcontainer.workdir, action.newFilePath);
+
+        if (fileOperations.isLocked(newFullPath)) {
+          throw new Error(`${action.newFilePath} is locked`);
+        }
+
+        await fileOperations.renameFile(fullPath, newFullPath);
+        logger.debug(`Renamed ${action.filePath} to ${action.newFilePath}`);
+        break;
+      }
+      case 'mkdir': {
+        await fileOperations.createFolder(fullPath);
+        logger.debug(`Created folder ${action.filePath}`);
+        break;
+      }
+    }
+  } catch (error) {
+    update({ status: 'failed', error: error instanceof Error ? error.message : `${action.type} action failed` });
+    logger.error(`[${action.type}]:Action failed\n\n`, error);
+  }
+}
+
+export const deleteAction: ActionDefinition<DeleteAction> = {
+  type: 'delete',
+  attributes: [{ name: 'filePath', required: true }],
+  paths: (action) => [action.filePath],
+  execute: runFileSystemAction,
+  render: (action) => ({ label: ['Delete ', { code: action.filePath }], showError: true }),
+};
+
+export const renameAction: ActionDefinition<RenameAction> = {
+  type: 'rename',
+  attributes: [
+    { name: 'filePath', required: true },
+    { name: 'newFilePath', required: true },
+  ],
+  paths: (action) => [action.filePath, action.newFilePath],
+  execute: runFileSystemAction,
+  render: (action) => ({
+    label: ['Rename ', { code: action.filePath }, ' to ', { code: action.newFilePath, openFile: action.newFilePath }],
+    showError: true,
+  }),
+};
+
+export const mkdirAction: ActionDefinition<MkdirAction> = {
+  type: 'mkdir',
+  attributes: [{ name: 'filePath', required: true }],
+  paths: (action) => [action.filePath],
+  execute: runFileSystemAction,
+  render: (action) => ({ label: ['Create folder ', { code: action.filePath }], showError: true }),
+};
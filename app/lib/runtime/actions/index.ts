@@ -0,0 +1,30 @@
+import { ActionRegistry, type ActionDefinition } from '~/lib/runtime/action-registry';
+import { deleteAction, fileAction, mkdirAction, patchAction, renameAction } from './file';
+import { buildAction, shellAction, startAction } from './shell';
+import { supabaseAction } from './supabase';
+import { testAction } from './test';
+
+/**
+ * Every action type the parser, the runner and the artifact UI know about. Register custom action
+ * types here to make them available to the model's `<boltAction>` tags.
+ */
+export const actionRegistry = new ActionRegistry();
+
+const builtinActions: ActionDefinition[] = [
+  fileAction,
+  patchAction,
+  deleteAction,
+  renameAction,
+  mkdirAction,
+  shellAction,
+  startAction,
+  buildAction,
+  testAction,
+  supabaseAction,
+];
+
+for (const definition of builtinActions) {
+  actionRegistry.register(definition);
+}
+
+export { writeWorkdirFile } from './file';
@@ -0,0 +1,185 @@
+import type { BuildAction, ShellAction, StartAction, TestAction } from '~/types/actions';
+import {
+  ActionCommandError,
+  CommandBlockedError,
+  type ActionContext,
+  type ActionDefinition,
+} from '~/lib/runtime/action-registry';
+import type { ActionState } from '~/lib/runtime/action-runner';
+import { createScopedLogger } from '~/utils/logger';
+import { path as nodePath } from '~/utils/path';
+import { unreachable } from '~/utils/unreachable';
+
+const logger = createScopedLogger('ActionRunner');
+
+export async function runCommand(
+  action: ActionState & (ShellAction | StartAction | TestAction),
+  context: ActionContext,
+  command = action.content,
+) {
+  const shell = context.getShell();
+  await shell.ready();
+
+  if (!shell || !shell.terminal || !shell.process) {
+    unreachable('Shell terminal not found');
+  }
+
+  await context.checkCommand(command);
+
+  const resp = await shell.executeCommand(context.runnerId, command, () => {
+    logger.debug(`[${action.type}]:Aborting Action\n\n`, action);
+    action.abort();
+  });
+  logger.debug(`${action.type} Shell Response: [exit code:${resp?.exitCode}]`);
+
+  return resp;
+}
+
+export const shellAction: ActionDefinition<ShellAction> = {
+  type: 'shell',
+  execute: async (action, context) => {
+    const resp = await runCommand(action, context);
+
+    if (resp?.exitCode != 0) {
+      throw new ActionCommandError(`Failed To Execute Shell Command`, resp?.output || 'No Output Available');
+    }
+  },
+  render: (action) => ({ label: ['Run command'], command: action.content }),
+};
+
+export const startAction: ActionDefinition<StartAction> = {
+  type: 'start',
+
+  // making the start app non blocking
+  detached: true,
+  execute: async (action, context) => {
+    runCommand(action, context)
+      .then((resp) => {
+        if (resp?.exitCode != 0) {
+          throw new ActionCommandError('Failed To Start Application', resp?.output || 'No Output Available');
+        }
+
+        // Call onServerReady callback when start action succeeds
+        context.onServerReady?.();
+        context.update({ status: 'complete' });
+      })
+      .catch((err: Error) => {
+        if (action.abortSignal.aborted) {
+          return;
+        }
+
+        context.update({ status: 'failed', error: 'Action failed' });
+        logger.error(`[${action.type}]:Action failed\n\n`, err);
+
+        if (err instanceof CommandBlockedError) {
+          context.onAlert?.(err.toAlert());
+          return;
+        }
+
+        if (!(err instanceof ActionCommandError)) {
+          return;
+        }
+
+        context.onAlert?.({
+          type: 'error',
+          title: 'Dev Server Failed',
+          description: err.header,
+          content: err.output,
+        });
+      });
+
+    /*
+     * adding a delay to avoid any race condition between 2 start actions
+     * i am up for a better approach
+     */
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+  },
+  render: (action) => ({ label: ['Start Application'], command: action.content, openView: 'preview' }),
+};
+
+export const buildAction: ActionDefinition<BuildAction> = {
+  type: 'build',
+  execute: async (_action, { webcontainer, onDeployAlert, setBuildOutput }) => {
+    // Trigger build started alert
+    onDeployAlert?.({
+      type: 'info',
+      title: 'Building Application',
+      description: 'Building your application...',
+      stage: 'building',
+      buildStatus: 'running',
+      deployStatus: 'pending',
+      source: 'netlify',
+    });
+
+    // Create a new terminal specifically for the build
+    const buildProcess = await webcontainer.spawn('npm', ['run', 'build']);
+
+    let output = '';
+    buildProcess.output.pipeTo(
+      new WritableStream({
+        write(data) {
+          output += data;
+        },
+      }),
+    );
+
+    const exitCode = await buildProcess.exit;
+
+    if (exitCode !== 0) {
+      // Trigger build failed alert
+      onDeployAlert?.({
+        type: 'error',
+        title: 'Build Failed',
+        description: 'Your application build failed',
+        content: output || 'No build output available',
+        stage: 'building',
+        buildStatus: 'failed',
+        deployStatus: 'pending',
+        source: 'netlify',
+      });
+
+      throw new ActionCommandError('Build Failed', output || 'No Output Available');
+    }
+
+    // Trigger build success alert
+    onDeployAlert?.({
+      type: 'success',
+      title: 'Build Completed',
+      description: 'Your application was built successfully',
+      stage: 'deploying',
+      buildStatus: 'complete',
+      deployStatus: 'running',
+      source: 'netlify',
+    });
+
+    // Check for common build directories
+    const commonBuildDirs = ['dist', 'build', 'out', 'output', '.next', 'public'];
+
+    let buildDir = '';
+
+    // Try to find the first existing build directory
+    for (const dir of commonBuildDirs) {
+      const dirPath = nodePath.join(webcontainer.workdir, dir);
+
+      try {
+        await webcontainer.fs.readdir(dirPath);
+        buildDir = dirPath;
+        break;
+      } catch {
+        continue;
+      }
+    }
+
+    // If no build directory was found, use the default (dist)
+    if (!buildDir) {
+      buildDir = nodePath.join(webcontainer.workdir, 'dist');
+    }
+
+    // Store build output for deployment
+    setBuildOutput({
+      path: buildDir,
+      exitCode,
+      output,
+    });
+  },
+};
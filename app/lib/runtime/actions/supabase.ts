@@ -0,0 +1,60 @@
+import type { SupabaseAction } from '~/types/actions';
+import type { ActionDefinition } from '~/lib/runtime/action-registry';
+import { createScopedLogger } from '~/utils/logger';
+import { writeWorkdirFile } from './file';
+
+const logger = createScopedLogger('ActionRunner');
+
+export const supabaseAction: ActionDefinition<SupabaseAction> = {
+  type: 'supabase',
+  attributes: [{ name: 'operation', required: true, oneOf: ['migration', 'query'] }, { name: 'filePath' }],
+  paths: (action) => (action.filePath ? [action.filePath] : []),
+  validate: (action) => {
+    if (action.operation === 'migration' && !action.filePath) {
+      logger.warn('Migration requires a filePath');
+      throw new Error('Migration requires a filePath');
+    }
+  },
+  execute: async (action, { webcontainer, onSupabaseAlert, update }) => {
+    const { operation, content, filePath } = action;
+    logger.debug('[Supabase Action]:', { operation, filePath, content });
+
+    switch (operation) {
+      case 'migration': {
+        if (!filePath) {
+          update({ status: 'failed', error: 'Migration requires a filePath' });
+          return;
+        }
+
+        // Show alert for migration action
+        onSupabaseAlert?.({
+          type: 'info',
+          title: 'Supabase Migration',
+          description: `Create migration file: ${filePath}`,
+          content,
+          source: 'supabase',
+        });
+
+        // Only create the migration file
+        await writeWorkdirFile(webcontainer, filePath, content);
+        break;
+      }
+      case 'query': {
+        // Always show the alert and let the SupabaseAlert component handle connection state
+        onSupabaseAlert?.({
+          type: 'info',
+          title: 'Supabase Query',
+          description: 'Execute database query',
+          content,
+          source: 'supabase',
+        });
+
+        // The actual execution will be triggered from SupabaseChatAlert
+        break;
+      }
+      default: {
+        update({ status: 'failed', error: `Unknown operation: ${operation}` });
+      }
+    }
+  },
+};
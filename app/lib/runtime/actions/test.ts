@@ -0,0 +1,100 @@
+import type { WebContainer } from '@webcontainer/api';
+import type { TestAction } from '~/types/actions';
+import { ActionCommandError, type ActionDefinition, type ActionViewNode } from '~/lib/runtime/action-registry';
+import {
+  formatTestFailures,
+  parseJsonReport,
+  parseTap,
+  TEST_REPORT_PATH,
+  withJsonReporter,
+  type TestNode,
+} from '~/lib/runtime/test-results';
+import { createScopedLogger } from '~/utils/logger';
+import { path as nodePath } from '~/utils/path';
+import { runCommand } from './shell';
+
+const logger = createScopedLogger('ActionRunner');
+
+const DEFAULT_TEST_COMMAND = 'npm test';
+
+async function readTestScript(webcontainer: WebContainer) {
+  try {
+    const packageJson = JSON.parse(await webcontainer.fs.readFile('package.json', 'utf-8'));
+    return typeof packageJson.scripts?.test === 'string' ? (packageJson.scripts.test as string) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function readReport(webcontainer: WebContainer) {
+  try {
+    return await webcontainer.fs.readFile(TEST_REPORT_PATH, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+function toViewNodes(nodes: TestNode[]): ActionViewNode[] {
+  return nodes.map((node) => ({
+    label: node.name,
+    status: node.status,
+    detail: node.message,
+    children: node.children && toViewNodes(node.children),
+  }));
+}
+
+export const testAction: ActionDefinition<TestAction> = {
+  type: 'test',
+  prepareContent: (content) => content.trim() || DEFAULT_TEST_COMMAND,
+  execute: async (action, context) => {
+    const { webcontainer, update, onAlert } = context;
+    const command = withJsonReporter(action.content, await readTestScript(webcontainer));
+
+    // a report of an earlier run must not be mistaken for the results of this one
+    await webcontainer.fs.rm(TEST_REPORT_PATH, { force: true });
+    await webcontainer.fs.mkdir(nodePath.dirname(TEST_REPORT_PATH), { recursive: true });
+
+    const resp = await runCommand(action, context, command);
+    const report = await readReport(webcontainer);
+    const results =
+      (report !== undefined ? parseJsonReport(report, webcontainer.workdir) : undefined) ??
+      parseTap(resp?.output ?? '');
+
+    if (!results) {
+      if (resp?.exitCode != 0) {
+        throw new ActionCommandError('Failed To Run Tests', resp?.output || 'No Output Available');
+      }
+
+      return;
+    }
+
+    update({ testResults: results });
+
+    // the runner may also fail outside of a test, e.g. on a coverage threshold or an unhandled error
+    if (results.failed === 0 && resp?.exitCode != 0) {
+      throw new ActionCommandError('Failed To Run Tests', resp?.output || 'No Output Available');
+    }
+
+    if (results.failed > 0) {
+      const total = results.passed + results.failed + results.skipped;
+      const summary = `${results.failed} of ${total} tests failed`;
+
+      update({ status: 'failed', error: summary });
+      logger.debug(`[${action.type}]:${summary}`);
+
+      onAlert?.({
+        type: 'error',
+        title: 'Tests Failed',
+        description: summary,
+        content: formatTestFailures(results),
+        source: 'test',
+      });
+    }
+  },
+  render: (action) => ({
+    label: ['Run tests'],
+    command: action.content,
+    showError: true,
+    tree: action.testResults && toViewNodes(action.testResults.tests),
+  }),
+};
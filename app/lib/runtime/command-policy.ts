@@ -0,0 +1,133 @@
+export type CommandDecision = 'allow' | 'confirm' | 'block';
+
+export interface CommandPolicy {
+  /** chained parts matching one of these run without being classified */
+  allowPatterns: string[];
+
+  /** commands containing a part that matches one of these are always blocked */
+  denyPatterns: string[];
+
+  /** what to do with commands the classifier flags as dangerous */
+  dangerousCommands: CommandDecision;
+}
+
+export interface CommandEvaluation {
+  decision: CommandDecision;
+  reason?: string;
+}
+
+export interface CommandCheckResult {
+  allowed: boolean;
+  reason?: string;
+}
+
+export type CommandChecker = (command: string) => Promise<CommandCheckResult>;
+
+export const DEFAULT_COMMAND_POLICY: CommandPolicy = {
+  allowPatterns: [],
+  denyPatterns: [],
+  dangerousCommands: 'confirm',
+};
+
+const DANGEROUS_COMMANDS: Array<{ pattern: RegExp; reason: string }> = [
+  {
+    pattern: /\brm\s+(?:-\S+\s+)*-\S*[rR]\S*\s+(?:\S+\s+)*(?:\/|~|\$HOME|\.\.|\*|\.(?:\s|$))/,
+    reason: 'Recursively deletes the root, home, parent or whole working directory',
+  },
+  { pattern: /\bgit\s+push\b.*\s(?:--force(?:-with-lease)?|-f)\b/, reason: 'Force pushes to a git remote' },
+  { pattern: /\bgit\s+reset\s+.*--hard\b/, reason: 'Discards uncommitted git changes' },
+  { pattern: /\bgit\s+clean\s+(?:-\S+\s+)*-\S*f/, reason: 'Deletes untracked files' },
+  {
+    pattern: /\b(?:curl|wget)\b[^|]*\|\s*(?:sudo\s+)?(?:ba|z|da)?sh\b/,
+    reason: 'Pipes a downloaded script into a shell',
+  },
+  { pattern: /(?:^|[\s;&|])sudo\s/, reason: 'Runs a command as root' },
+  { pattern: /\bchmod\s+(?:-\S+\s+)*777\b/, reason: 'Makes files writable by everyone' },
+  { pattern: /\b(?:mkfs(?:\.\w+)?|dd\s+.*\bof=)/, reason: 'Writes to a disk or device directly' },
+  { pattern: /:\(\)\s*\{\s*:\s*\|\s*:\s*&\s*\}\s*;\s*:/, reason: 'Fork bomb' },
+  { pattern: /\b(?:npm|pnpm|yarn|bun)\s+publish\b/, reason: 'Publishes a package to a registry' },
+];
+
+/**
+ * Splits a command line into the commands that are chained with `&&`, `||`, `;` or new lines.
+ * Pipes are kept together since they form a single command.
+ */
+export function splitCommand(command: string) {
+  return command
+    .split(/&&|\|\||;|\n/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Checks a command against a policy pattern. Patterns are either a `/regex/flags` literal or a plain
+ * command where `*` matches anything, e.g. `npm run *`.
+ */
+export function matchesCommandPattern(command: string, pattern: string) {
+  const trimmedPattern = pattern.trim();
+
+  if (!trimmedPattern) {
+    return false;
+  }
+
+  const regexLiteral = trimmedPattern.match(/^\/(.+)\/([a-z]*)$/);
+
+  if (regexLiteral) {
+    try {
+      return new RegExp(regexLiteral[1], regexLiteral[2]).test(command);
+    } catch {
+      return false;
+    }
+  }
+
+  const wildcard = trimmedPattern
+    .split('*')
+    .map((segment) => segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${wildcard}$`).test(command.trim());
+}
+
+/**
+ * Returns why a command is considered dangerous, or `undefined` if it looks safe.
+ */
+export function classifyCommand(command: string) {
+  return DANGEROUS_COMMANDS.find(({ pattern }) => pattern.test(command))?.reason;
+}
+
+// pipes, redirects and substitutions can hide another command in a part that matches an allow pattern
+const SHELL_OPERATORS = /[|<>`]|\$\(|&/;
+
+/**
+ * Decides whether a command may run. Deny patterns and the dangerous command classifier are checked on the
+ * whole command and on every chained part. Allow patterns only apply to single parts, a dangerous part runs
+ * without confirmation only if it matches one itself and has no pipes, redirects or substitutions.
+ */
+export function evaluateCommand(command: string, policy: CommandPolicy): CommandEvaluation {
+  const parts = splitCommand(command);
+  const isAllowed = (part: string) =>
+    !SHELL_OPERATORS.test(part) && policy.allowPatterns.some((pattern) => matchesCommandPattern(part, pattern));
+
+  const denied = policy.denyPatterns.find(
+    (pattern) => matchesCommandPattern(command, pattern) || parts.some((part) => matchesCommandPattern(part, pattern)),
+  );
+
+  if (denied) {
+    return { decision: 'block', reason: `Matches deny pattern "${denied}"` };
+  }
+
+  // some dangerous commands span parts, like a fork bomb
+  const reason =
+    parts.map((part) => (isAllowed(part) ? undefined : classifyCommand(part))).find(Boolean) ??
+    (parts.length > 1 ? classifyCommand(command) : undefined);
+
+  if (reason) {
+    return { decision: policy.dangerousCommands, reason };
+  }
+
+  if (parts.length > 0 && parts.every(isAllowed)) {
+    return { decision: 'allow', reason: 'Matches an allow pattern' };
+  }
+
+  return { decision: 'allow' };
+}
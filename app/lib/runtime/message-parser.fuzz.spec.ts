@@ -0,0 +1,207 @@
+import { describe, expect, it } from 'vitest';
+import type { BoltAction } from '~/types/actions';
+import { StreamingMessageParser, type ParserDiagnostic } from './message-parser';
+
+const RUNS = 100;
+
+/**
+ * Small seeded PRNG (mulberry32) so failures can be reproduced from the seed in the test name.
+ */
+function createRandom(seed: number) {
+  let state = seed;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    int: (max: number) => Math.floor(next() * max),
+    pick: <T>(items: T[]) => items[Math.floor(next() * items.length)],
+    chance: (probability: number) => next() < probability,
+  };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+const WORDS = ['const', 'value', '=', 'return', 'foo', 'bar', '{', '}', '(', ')', '=>', 'a > b', '"quoted"', "'x'"];
+
+function randomText(random: Random, maxWords = 12) {
+  const words = Array.from({ length: random.int(maxWords) + 1 }, () => random.pick(WORDS));
+  return words.join(random.chance(0.2) ? '\n' : ' ');
+}
+
+function randomAction(random: Random, index: number): BoltAction {
+  switch (random.int(3)) {
+    case 0: {
+      return { type: 'file', filePath: `src/file-${index}.ts`, content: randomText(random) };
+    }
+    case 1: {
+      return { type: 'shell', content: `npm install pkg-${index}` };
+    }
+    default: {
+      return { type: 'start', content: `npm run dev -- --port ${3000 + index}` };
+    }
+  }
+}
+
+function attribute(random: Random, name: string, value: string) {
+  return random.chance(0.5) ? ` ${name}="${value}"` : ` ${name}='${value}'`;
+}
+
+function actionTag(random: Random, action: BoltAction) {
+  const filePath = action.type === 'file' ? attribute(random, 'filePath', action.filePath) : '';
+  return `<boltAction${attribute(random, 'type', action.type)}${filePath}>`;
+}
+
+interface GeneratedMessage {
+  parts: string[];
+  actions: BoltAction[];
+}
+
+function generateMessage(random: Random): GeneratedMessage {
+  const actions = Array.from({ length: random.int(5) + 1 }, (_, index) => randomAction(random, index));
+
+  const parts = [
+    `${randomText(random)} <strong>bold</strong> `,
+    `<boltArtifact${attribute(random, 'id', 'artifact')}${attribute(random, 'title', 'Title')}>`,
+    ...actions.flatMap((action) => [actionTag(random, action), action.content, '</boltAction>', '\n']),
+    '</boltArtifact>',
+    ` ${randomText(random)}`,
+  ];
+
+  return { parts, actions };
+}
+
+function chunk(random: Random, input: string) {
+  const chunks: string[] = [];
+  let position = 0;
+
+  while (position < input.length) {
+    const size = random.int(12) + 1;
+    chunks.push(input.slice(0, position + size));
+    position += size;
+  }
+
+  return chunks;
+}
+
+function parse(input: string, chunks: string[] = [input]) {
+  const closed: BoltAction[] = [];
+  const diagnostics: ParserDiagnostic[] = [];
+  let artifactsOpened = 0;
+
+  const parser = new StreamingMessageParser({
+    artifactElement: () => '[artifact]',
+    callbacks: {
+      onArtifactOpen: () => artifactsOpened++,
+      onActionClose: ({ action }) => closed.push(action),
+      onDiagnostic: (diagnostic) => diagnostics.push(diagnostic),
+    },
+  });
+
+  let output = '';
+
+  for (const part of chunks) {
+    output += parser.parse('message', part);
+  }
+
+  parser.end('message', input);
+
+  return { output, closed, diagnostics, artifactsOpened };
+}
+
+const expectedContent = (action: BoltAction) =>
+  action.type === 'file' ? `${action.content.trim()}\n` : action.content;
+
+describe('StreamingMessageParser (fuzz)', () => {
+  it.each(Array.from({ length: RUNS }, (_, seed) => seed))(
+    'should not depend on chunk boundaries (seed %i)',
+    (seed) => {
+      const random = createRandom(seed);
+      const input = generateMessage(random).parts.join('');
+
+      expect(parse(input, chunk(random, input))).toEqual(parse(input));
+    },
+  );
+
+  it.each(Array.from({ length: RUNS }, (_, seed) => seed))('should parse well-formed messages (seed %i)', (seed) => {
+    const random = createRandom(seed);
+    const { parts, actions } = generateMessage(random);
+    const { output, closed, diagnostics, artifactsOpened } = parse(parts.join(''));
+
+    expect(diagnostics).toEqual([]);
+    expect(artifactsOpened).toBe(1);
+    expect(output).not.toMatch(/<\/?bolt(Artifact|Action)/);
+    expect(closed.map((action) => action.content)).toEqual(actions.map(expectedContent));
+  });
+
+  it.each(Array.from({ length: RUNS }, (_, seed) => seed))(
+    'should salvage actions from malformed messages (seed %i)',
+    (seed) => {
+      const random = createRandom(seed);
+      const { parts, actions } = generateMessage(random);
+
+      const mutations = [
+        'drop-action-close',
+        'drop-artifact-close',
+        'stray-artifact-close',
+        'reopen-artifact',
+        'truncate',
+      ];
+      const mutation = random.pick(mutations);
+      const closeTags = parts.flatMap((part, index) => (part === '</boltAction>' ? [index] : []));
+      let expected = actions.map((action) => expectedContent(action).trim());
+
+      switch (mutation) {
+        case 'drop-action-close': {
+          // the action is still ended by the next action or the artifact close tag
+          parts[random.pick(closeTags)] = '';
+          break;
+        }
+        case 'drop-artifact-close': {
+          parts[parts.indexOf('</boltArtifact>')] = '';
+          break;
+        }
+        case 'stray-artifact-close': {
+          parts[random.pick(closeTags)] += '</boltArtifact>';
+          break;
+        }
+        case 'reopen-artifact': {
+          parts[random.pick(closeTags)] += '\n<boltArtifact id="artifact" title="Title">';
+          break;
+        }
+        case 'truncate': {
+          // the stream stops right before the last close tag
+          parts.splice(closeTags.at(-1)!);
+
+          // a command that was never closed may have been cut off and is dropped
+          if (actions.at(-1)!.type !== 'file') {
+            expected = expected.slice(0, -1);
+          }
+
+          break;
+        }
+      }
+
+      const input = parts.join('');
+      let result: ReturnType<typeof parse> | undefined;
+
+      expect(() => {
+        result = parse(input, chunk(random, input));
+      }).not.toThrow();
+
+      expect(result).toEqual(parse(input));
+
+      const { closed, diagnostics, artifactsOpened } = result!;
+
+      expect(diagnostics.length).toBeGreaterThan(0);
+      expect(artifactsOpened).toBe(1);
+      expect(closed.map((action) => action.content.trim())).toEqual(expected);
+    },
+  );
+});
@@ -1,7 +1,8 @@
-import type { ActionType, BoltAction, BoltActionData, FileAction, ShellAction, SupabaseAction } from '~/types/actions';
+import type { ActionType, BoltAction, BoltActionData } from '~/types/actions';
 import type { BoltArtifactData } from '~/types/artifact';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
+import { actionRegistry } from './actions';
 
 const ARTIFACT_TAG_OPEN = '<boltArtifact';
 const ARTIFACT_TAG_CLOSE = '</boltArtifact>';
@@ -23,8 +24,28 @@ export interface ActionCallbackData {
   action: BoltAction;
 }
 
+export type ParserDiagnosticCode =
+  | 'unclosed-action'
+  | 'unclosed-artifact'
+  | 'reopened-artifact'
+  | 'action-outside-artifact'
+  | 'stray-close-tag'
+  | 'invalid-action'
+  | 'duplicate-action';
+
+/**
+ * Malformed structure the parser recovered from. `position` is the index in the message the problem was found at.
+ */
+export interface ParserDiagnostic {
+  messageId: string;
+  code: ParserDiagnosticCode;
+  message: string;
+  position: number;
+}
+
 export type ArtifactCallback = (data: ArtifactCallbackData) => void;
 export type ActionCallback = (data: ActionCallbackData) => void;
+export type DiagnosticCallback = (diagnostic: ParserDiagnostic) => void;
 
 export interface ParserCallbacks {
   onArtifactOpen?: ArtifactCallback;
@@ -32,6 +53,7 @@ export interface ParserCallbacks {
   onActionOpen?: ActionCallback;
   onActionStream?: ActionCallback;
   onActionClose?: ActionCallback;
+  onDiagnostic?: DiagnosticCallback;
 }
 
 interface ElementFactoryProps {
@@ -52,24 +74,24 @@ interface MessageState {
   currentArtifact?: BoltArtifactData;
   currentAction: BoltActionData;
   actionId: number;
-}
 
-function cleanoutMarkdownSyntax(content: string) {
-  const codeBlockRegex = /^\s*```\w*\n([\s\S]*?)\n\s*```\s*$/;
-  const match = content.match(codeBlockRegex);
+  /** the current action couldn't be parsed, its content is skipped */
+  discardAction: boolean;
 
-  // console.log('matching', !!match, content);
+  /** last artifact of the message, actions that show up after it was closed are added to it */
+  lastArtifact?: BoltArtifactData;
 
-  if (match) {
-    return match[1]; // Remove common leading 4-space indent
-  } else {
-    return content;
-  }
+  /** the artifact was opened again, e.g. by a continuation segment, so it may repeat earlier actions */
+  reopened: boolean;
+  closedActions: Set<string>;
+  ended: boolean;
 }
 
-function cleanEscapedTags(content: string) {
-  return content.replace(/&lt;/g, '<').replace(/&gt;/g, '>');
-}
+/**
+ * Tags that end an action. Anything but the action's own close tag means the close tag is missing.
+ */
+const ACTION_END_TAGS = [ARTIFACT_ACTION_TAG_CLOSE, ARTIFACT_ACTION_TAG_OPEN, ARTIFACT_TAG_OPEN, ARTIFACT_TAG_CLOSE];
+
 export class StreamingMessageParser {
   #messages = new Map<string, MessageState>();
 
@@ -85,6 +107,10 @@ export class StreamingMessageParser {
         insideArtifact: false,
         currentAction: { content: '' },
         actionId: 0,
+        discardAction: false,
+        reopened: false,
+        closedActions: new Set(),
+        ended: false,
       };
 
       this.#messages.set(messageId, state);
@@ -136,52 +162,29 @@ export class StreamingMessageParser {
         }
 
         if (state.insideAction) {
-          const closeIndex = input.indexOf(ARTIFACT_ACTION_TAG_CLOSE, i);
+          const actionEnd = this.#findActionEnd(input, i);
 
           const currentAction = state.currentAction;
 
-          if (closeIndex !== -1) {
-            currentAction.content += input.slice(i, closeIndex);
+          if (actionEnd) {
+            currentAction.content += input.slice(i, actionEnd.index);
 
-            let content = currentAction.content.trim();
-
-            if ('type' in currentAction && currentAction.type === 'file') {
-              // Remove markdown code block syntax if present and file is not markdown
-              if (!currentAction.filePath.endsWith('.md')) {
-                content = cleanoutMarkdownSyntax(content);
-                content = cleanEscapedTags(content);
-              }
-
-              content += '\n';
+            if (actionEnd.tag !== ARTIFACT_ACTION_TAG_CLOSE) {
+              this.#report(messageId, 'unclosed-action', `Action closed by ${actionEnd.tag}`, actionEnd.index);
             }
 
-            currentAction.content = content;
-
-            this._options.callbacks?.onActionClose?.({
-              artifactId: currentArtifact.id,
-              messageId,
+            this.#closeAction(messageId, state);
 
-              /**
-               * We decrement the id because it's been incremented already
-               * when `onActionOpen` was emitted to make sure the ids are
-               * the same.
-               */
-              actionId: String(state.actionId - 1),
-
-              action: currentAction as BoltAction,
-            });
-
-            state.insideAction = false;
-            state.currentAction = { content: '' };
-
-            i = closeIndex + ARTIFACT_ACTION_TAG_CLOSE.length;
+            // other tags are handled by the next iteration
+            i = actionEnd.index + (actionEnd.tag === ARTIFACT_ACTION_TAG_CLOSE ? actionEnd.tag.length : 0);
           } else {
-            if ('type' in currentAction && currentAction.type === 'file') {
+            const definition = 'type' in currentAction ? actionRegistry.get(currentAction.type) : undefined;
+
+            if (definition?.streaming && !state.discardAction) {
               let content = input.slice(i);
 
-              if (!currentAction.filePath.endsWith('.md')) {
-                content = cleanoutMarkdownSyntax(content);
-                content = cleanEscapedTags(content);
+              if (definition.prepareContent) {
+                content = definition.prepareContent(content, currentAction, true);
               }
 
               this._options.callbacks?.onActionStream?.({
@@ -189,9 +192,8 @@ export class StreamingMessageParser {
                 messageId,
                 actionId: String(state.actionId - 1),
                 action: {
-                  ...(currentAction as FileAction),
+                  ...(currentAction as BoltAction),
                   content,
-                  filePath: currentAction.filePath,
                 },
               });
             }
@@ -201,21 +203,29 @@ export class StreamingMessageParser {
         } else {
           const actionOpenIndex = input.indexOf(ARTIFACT_ACTION_TAG_OPEN, i);
           const artifactCloseIndex = input.indexOf(ARTIFACT_TAG_CLOSE, i);
+          const artifactOpenIndex = this.#indexOfOpenTag(input, ARTIFACT_TAG_OPEN, i);
 
-          if (actionOpenIndex !== -1 && (artifactCloseIndex === -1 || actionOpenIndex < artifactCloseIndex)) {
-            const actionEndIndex = input.indexOf('>', actionOpenIndex);
+          if (
+            artifactOpenIndex !== -1 &&
+            (actionOpenIndex === -1 || artifactOpenIndex < actionOpenIndex) &&
+            (artifactCloseIndex === -1 || artifactOpenIndex < artifactCloseIndex)
+          ) {
+            const openTagEnd = input.indexOf('>', artifactOpenIndex);
 
-            if (actionEndIndex !== -1) {
-              state.insideAction = true;
+            if (openTagEnd === -1) {
+              break;
+            }
 
-              state.currentAction = this.#parseActionTag(input, actionOpenIndex, actionEndIndex);
+            // a continuation segment that starts over, keep adding actions to the open artifact
+            this.#report(messageId, 'reopened-artifact', 'Artifact opened inside an artifact', artifactOpenIndex);
 
-              this._options.callbacks?.onActionOpen?.({
-                artifactId: currentArtifact.id,
-                messageId,
-                actionId: String(state.actionId++),
-                action: state.currentAction as BoltAction,
-              });
+            state.reopened = true;
+            i = openTagEnd + 1;
+          } else if (actionOpenIndex !== -1 && (artifactCloseIndex === -1 || actionOpenIndex < artifactCloseIndex)) {
+            const actionEndIndex = input.indexOf('>', actionOpenIndex);
+
+            if (actionEndIndex !== -1) {
+              this.#openAction(messageId, state, input, actionOpenIndex, actionEndIndex);
 
               i = actionEndIndex + 1;
             } else {
@@ -239,7 +249,7 @@ export class StreamingMessageParser {
         while (j < input.length && potentialTag.length < ARTIFACT_TAG_OPEN.length) {
           potentialTag += input[j];
 
-          if (potentialTag === ARTIFACT_TAG_OPEN) {
+          if (potentialTag === ARTIFACT_TAG_OPEN || potentialTag === ARTIFACT_ACTION_TAG_OPEN) {
             const nextChar = input[j + 1];
 
             if (nextChar && nextChar !== '>' && nextChar !== ' ') {
@@ -250,44 +260,56 @@ export class StreamingMessageParser {
 
             const openTagEnd = input.indexOf('>', j);
 
-            if (openTagEnd !== -1) {
-              const artifactTag = input.slice(i, openTagEnd + 1);
+            if (openTagEnd === -1) {
+              earlyBreak = true;
+              break;
+            }
 
-              const artifactTitle = this.#extractAttribute(artifactTag, 'title') as string;
-              const type = this.#extractAttribute(artifactTag, 'type') as string;
-              const artifactId = this.#extractAttribute(artifactTag, 'id') as string;
+            if (potentialTag === ARTIFACT_ACTION_TAG_OPEN) {
+              output += this.#recoverArtifact(messageId, state, i);
 
-              if (!artifactTitle) {
-                logger.warn('Artifact title missing');
-              }
+              // the action tag itself is parsed inside the artifact
+              break;
+            }
 
-              if (!artifactId) {
-                logger.warn('Artifact id missing');
-              }
+            const artifactTag = input.slice(i, openTagEnd + 1);
 
-              state.insideArtifact = true;
+            const artifactTitle = this.#extractAttribute(artifactTag, 'title') as string;
+            const type = this.#extractAttribute(artifactTag, 'type') as string;
+            const artifactId = this.#extractAttribute(artifactTag, 'id') as string;
+
+            if (!artifactTitle) {
+              logger.warn('Artifact title missing');
+            }
 
-              const currentArtifact = {
-                id: artifactId,
-                title: artifactTitle,
-                type,
-              } satisfies BoltArtifactData;
+            if (!artifactId) {
+              logger.warn('Artifact id missing');
+            }
 
-              state.currentArtifact = currentArtifact;
+            state.insideArtifact = true;
 
-              this._options.callbacks?.onArtifactOpen?.({ messageId, ...currentArtifact });
+            const currentArtifact = {
+              id: artifactId,
+              title: artifactTitle,
+              type,
+            } satisfies BoltArtifactData;
 
-              const artifactFactory = this._options.artifactElement ?? createArtifactElement;
+            state.currentArtifact = currentArtifact;
+            state.lastArtifact = currentArtifact;
 
-              output += artifactFactory({ messageId });
+            this._options.callbacks?.onArtifactOpen?.({ messageId, ...currentArtifact });
 
-              i = openTagEnd + 1;
-            } else {
-              earlyBreak = true;
-            }
+            const artifactFactory = this._options.artifactElement ?? createArtifactElement;
+
+            output += artifactFactory({ messageId });
+
+            i = openTagEnd + 1;
 
             break;
-          } else if (!ARTIFACT_TAG_OPEN.startsWith(potentialTag)) {
+          } else if (
+            !ARTIFACT_TAG_OPEN.startsWith(potentialTag) &&
+            !ARTIFACT_ACTION_TAG_OPEN.startsWith(potentialTag)
+          ) {
             output += input.slice(i, j + 1);
             i = j + 1;
             break;
@@ -296,12 +318,29 @@ export class StreamingMessageParser {
           j++;
         }
 
-        if (j === input.length && ARTIFACT_TAG_OPEN.startsWith(potentialTag)) {
+        if (
+          j === input.length &&
+          (ARTIFACT_TAG_OPEN.startsWith(potentialTag) || ARTIFACT_ACTION_TAG_OPEN.startsWith(potentialTag))
+        ) {
           break;
         }
       } else {
-        output += input[i];
-        i++;
+        const closeTags = [ARTIFACT_TAG_CLOSE, ARTIFACT_ACTION_TAG_CLOSE];
+        const strayTag = closeTags.find((tag) => input.startsWith(tag, i));
+
+        if (!strayTag && input[i] === '<' && closeTags.some((tag) => tag.startsWith(input.slice(i)))) {
+          // wait for the rest of a possible close tag
+          break;
+        } else if (strayTag) {
+          // kept as text, it may be part of the message
+          this.#report(messageId, 'stray-close-tag', `${strayTag} outside of an artifact`, i);
+
+          output += strayTag;
+          i += strayTag.length;
+        } else {
+          output += input[i];
+          i++;
+        }
       }
 
       if (earlyBreak) {
@@ -314,62 +353,248 @@ export class StreamingMessageParser {
     return output;
   }
 
+  /**
+   * Called once the message is complete. Reports an artifact or action that was never closed and closes it.
+   * An unclosed streaming action is kept with the content it has since it was written already, any other
+   * action is dropped because a command that was cut off isn't safe to run.
+   * @param messageId Id of the message
+   * @param input The complete message
+   */
+  end(messageId: string, input: string) {
+    const state = this.#messages.get(messageId);
+
+    if (!state || state.ended) {
+      return;
+    }
+
+    state.ended = true;
+
+    if (state.insideAction) {
+      this.#report(messageId, 'unclosed-action', 'Message ended inside an action', input.length);
+
+      const { currentAction } = state;
+      const definition = 'type' in currentAction ? actionRegistry.get(currentAction.type) : undefined;
+
+      if (definition?.streaming) {
+        currentAction.content += input.slice(state.position);
+        this.#closeAction(messageId, state);
+      } else {
+        state.insideAction = false;
+        state.currentAction = { content: '' };
+      }
+    }
+
+    if (state.insideArtifact && state.currentArtifact) {
+      this.#report(messageId, 'unclosed-artifact', 'Message ended inside an artifact', input.length);
+
+      this._options.callbacks?.onArtifactClose?.({ messageId, ...state.currentArtifact });
+
+      state.insideArtifact = false;
+      state.currentArtifact = undefined;
+    }
+  }
+
   reset() {
     this.#messages.clear();
   }
 
+  #report(messageId: string, code: ParserDiagnosticCode, message: string, position: number) {
+    logger.warn(`[${code}] ${message}`);
+    this._options.callbacks?.onDiagnostic?.({ messageId, code, message, position });
+  }
+
+  /**
+   * Finds the earliest tag that ends the current action. `<boltAction` and `<boltArtifact` only count once the
+   * character after them is known, so a partial tag at the end of a chunk is not mistaken for one.
+   */
+  #findActionEnd(input: string, position: number) {
+    let end: { index: number; tag: string } | undefined;
+
+    for (const tag of ACTION_END_TAGS) {
+      const index = tag.endsWith('>') ? input.indexOf(tag, position) : this.#indexOfOpenTag(input, tag, position);
+
+      if (index !== -1 && (!end || index < end.index)) {
+        end = { index, tag };
+      }
+    }
+
+    return end;
+  }
+
+  #indexOfOpenTag(input: string, tag: string, position: number) {
+    let index = input.indexOf(tag, position);
+
+    while (index !== -1) {
+      const nextChar = input[index + tag.length];
+
+      if (nextChar === ' ' || nextChar === '>') {
+        return index;
+      }
+
+      index = input.indexOf(tag, index + 1);
+    }
+
+    return -1;
+  }
+
+  #openAction(messageId: string, state: MessageState, input: string, actionOpenIndex: number, actionEndIndex: number) {
+    state.insideAction = true;
+
+    try {
+      state.currentAction = this.#parseActionTag(input, actionOpenIndex, actionEndIndex);
+      state.discardAction = false;
+    } catch (error) {
+      this.#report(
+        messageId,
+        'invalid-action',
+        error instanceof Error ? error.message : 'Invalid action',
+        actionOpenIndex,
+      );
+
+      state.currentAction = { content: '' };
+      state.discardAction = true;
+
+      return;
+    }
+
+    this._options.callbacks?.onActionOpen?.({
+      artifactId: state.currentArtifact!.id,
+      messageId,
+      actionId: String(state.actionId++),
+      action: state.currentAction as BoltAction,
+    });
+  }
+
+  #closeAction(messageId: string, state: MessageState) {
+    const { currentAction, currentArtifact } = state;
+
+    state.insideAction = false;
+    state.currentAction = { content: '' };
+
+    if (state.discardAction || !currentArtifact) {
+      state.discardAction = false;
+      return;
+    }
+
+    let content = currentAction.content.trim();
+
+    const definition = 'type' in currentAction ? actionRegistry.get(currentAction.type) : undefined;
+
+    if (definition?.prepareContent) {
+      content = definition.prepareContent(content, currentAction, false);
+    }
+
+    currentAction.content = content;
+
+    const signature = JSON.stringify(currentAction);
+
+    // streaming actions were added to the workbench on open already and have to be closed
+    if (state.reopened && state.closedActions.has(signature) && !definition?.streaming) {
+      this.#report(
+        messageId,
+        'duplicate-action',
+        `Skipped repeated ${(currentAction as BoltAction).type} action`,
+        state.position,
+      );
+      return;
+    }
+
+    state.closedActions.add(signature);
+
+    this._options.callbacks?.onActionClose?.({
+      artifactId: currentArtifact.id,
+      messageId,
+
+      /**
+       * We decrement the id because it's been incremented already
+       * when `onActionOpen` was emitted to make sure the ids are
+       * the same.
+       */
+      actionId: String(state.actionId - 1),
+
+      action: currentAction as BoltAction,
+    });
+  }
+
+  /**
+   * Handles an action outside of any artifact. It's added to the last artifact of the message if it was closed
+   * too early, otherwise an artifact is opened for it.
+   */
+  #recoverArtifact(messageId: string, state: MessageState, position: number) {
+    this.#report(messageId, 'action-outside-artifact', 'Action outside of an artifact', position);
+
+    state.insideArtifact = true;
+
+    if (state.lastArtifact) {
+      state.currentArtifact = state.lastArtifact;
+      state.reopened = true;
+
+      return '';
+    }
+
+    const artifact = { id: `artifact-${messageId}`, title: 'Changes' } satisfies BoltArtifactData;
+
+    state.currentArtifact = artifact;
+    state.lastArtifact = artifact;
+
+    this._options.callbacks?.onArtifactOpen?.({ messageId, ...artifact });
+
+    const artifactFactory = this._options.artifactElement ?? createArtifactElement;
+
+    return artifactFactory({ messageId });
+  }
+
   #parseActionTag(input: string, actionOpenIndex: number, actionEndIndex: number) {
     const actionTag = input.slice(actionOpenIndex, actionEndIndex + 1);
 
     const actionType = this.#extractAttribute(actionTag, 'type') as ActionType;
 
-    const actionAttributes = {
+    const actionAttributes: Record<string, string | undefined> = {
       type: actionType,
       content: '',
     };
 
-    if (actionType === 'supabase') {
-      const operation = this.#extractAttribute(actionTag, 'operation');
-
-      if (!operation || !['migration', 'query'].includes(operation)) {
-        logger.warn(`Invalid or missing operation for Supabase action: ${operation}`);
-        throw new Error(`Invalid Supabase operation: ${operation}`);
-      }
+    const definition = actionRegistry.get(actionType);
 
-      (actionAttributes as SupabaseAction).operation = operation as 'migration' | 'query';
+    if (!definition) {
+      logger.warn(`Unknown action type '${actionType}'`);
 
-      if (operation === 'migration') {
-        const filePath = this.#extractAttribute(actionTag, 'filePath');
+      return actionAttributes as unknown as BoltAction;
+    }
 
-        if (!filePath) {
-          logger.warn('Migration requires a filePath');
-          throw new Error('Migration requires a filePath');
-        }
+    for (const { name, required, oneOf } of definition.attributes ?? []) {
+      const value = this.#extractAttribute(actionTag, name);
 
-        (actionAttributes as SupabaseAction).filePath = filePath;
+      if (oneOf && (!value || !oneOf.includes(value))) {
+        logger.warn(`Invalid or missing ${name} for ${actionType} action: ${value}`);
+        throw new Error(`Invalid ${actionType} ${name}: ${value}`);
       }
-    } else if (actionType === 'file') {
-      const filePath = this.#extractAttribute(actionTag, 'filePath') as string;
 
-      if (!filePath) {
-        logger.debug('File path not specified');
+      if (required && !value) {
+        logger.warn(`${actionType} action requires a ${name}`);
       }
 
-      (actionAttributes as FileAction).filePath = filePath;
-    } else if (!['shell', 'start'].includes(actionType)) {
-      logger.warn(`Unknown action type '${actionType}'`);
+      // required attributes are always set so the action has the shape its executor expects
+      if (required || value !== undefined) {
+        actionAttributes[name] = value;
+      }
     }
 
-    return actionAttributes as FileAction | ShellAction;
+    const action = actionAttributes as unknown as BoltAction;
+
+    definition.validate?.(action);
+
+    return action;
   }
 
   #extractAttribute(tag: string, attributeName: string): string | undefined {
-    const match = tag.match(new RegExp(`${attributeName}="([^"]*)"`, 'i'));
-    return match ? match[1] : undefined;
+    // require a leading space so `filePath` doesn't match inside `newFilePath`
+    const match = tag.match(new RegExp(`\\s${attributeName}=(?:"([^"]*)"|'([^']*)')`, 'i'));
+    return match ? (match[1] ?? match[2]) : undefined;
   }
 }
 
-const createArtifactElement: ElementFactory = (props) => {
+export const createArtifactElement: ElementFactory = (props) => {
   const elementProps = [
     'class="__boltArtifact__"',
     ...Object.entries(props).map(([key, value]) => {
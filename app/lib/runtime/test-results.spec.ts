@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { formatTestFailures, parseJsonReport, parseTap, TEST_REPORT_PATH, withJsonReporter } from './test-results';
+
+const jsonReport = JSON.stringify({
+  numTotalTests: 3,
+  testResults: [
+    {
+      name: '/home/project/src/sum.test.ts',
+      status: 'failed',
+      assertionResults: [
+        { ancestorTitles: ['sum'], title: 'adds numbers', status: 'passed', failureMessages: [] },
+        {
+          ancestorTitles: ['sum'],
+          title: 'adds negative numbers',
+          status: 'failed',
+          failureMessages: ['\u001b[31mAssertionError: expected -3 to be -2\u001b[39m\n    at src/sum.test.ts:9:20'],
+        },
+        { ancestorTitles: [], title: 'is exported', status: 'pending', failureMessages: [] },
+      ],
+    },
+    {
+      name: '/home/project/src/broken.test.ts',
+      status: 'failed',
+      message: 'SyntaxError: Unexpected token',
+      assertionResults: [],
+    },
+  ],
+});
+
+const tapOutput = `TAP version 13
+# Subtest: math
+    ok 1 - adds
+      ---
+      duration_ms: 0.5
+      ...
+    not ok 2 - divides
+      ---
+      error: 'expected 2 to equal 3'
+      ...
+    1..2
+not ok 1 - math
+ok 2 - strings # SKIP not implemented
+1..2
+`;
+
+describe('withJsonReporter', () => {
+  it('should add the JSON reporter to vitest and jest commands', () => {
+    expect(withJsonReporter('npx vitest')).toBe(
+      `npx vitest --run --reporter=default --reporter=json --outputFile.json=${TEST_REPORT_PATH}`,
+    );
+    expect(withJsonReporter('npx jest src')).toBe(`npx jest src --json --outputFile=${TEST_REPORT_PATH}`);
+  });
+
+  it('should resolve the runner of the test script', () => {
+    expect(withJsonReporter('npm test', 'jest --coverage')).toBe(`npm test -- --json --outputFile=${TEST_REPORT_PATH}`);
+    expect(withJsonReporter('pnpm run test', 'jest')).toBe(`pnpm run test --json --outputFile=${TEST_REPORT_PATH}`);
+  });
+
+  it('should leave unknown runners and command chains alone', () => {
+    expect(withJsonReporter('node --test')).toBe('node --test');
+    expect(withJsonReporter('npm test', 'mocha')).toBe('npm test');
+    expect(withJsonReporter('npm run build && npx vitest')).toBe('npm run build && npx vitest');
+  });
+});
+
+describe('parseJsonReport', () => {
+  it('should build a tree of files, describe blocks and tests', () => {
+    const result = parseJsonReport(jsonReport, '/home/project');
+
+    expect(result).toMatchObject({ passed: 1, failed: 2, skipped: 1 });
+    expect(result?.tests).toEqual([
+      {
+        name: 'src/sum.test.ts',
+        status: 'failed',
+        children: [
+          {
+            name: 'sum',
+            status: 'failed',
+            children: [
+              { name: 'adds numbers', status: 'passed' },
+              {
+                name: 'adds negative numbers',
+                status: 'failed',
+                message: 'AssertionError: expected -3 to be -2\n    at src/sum.test.ts:9:20',
+              },
+            ],
+          },
+          { name: 'is exported', status: 'skipped' },
+        ],
+      },
+      {
+        name: 'src/broken.test.ts',
+        status: 'failed',
+        children: [{ name: 'Test file failed to run', status: 'failed', message: 'SyntaxError: Unexpected token' }],
+      },
+    ]);
+  });
+
+  it('should reject input that is not a test report', () => {
+    expect(parseJsonReport('not json')).toBeUndefined();
+    expect(parseJsonReport('{"name":"app"}')).toBeUndefined();
+  });
+});
+
+describe('parseTap', () => {
+  it('should nest subtests and keep the diagnostics of failed tests', () => {
+    const result = parseTap(tapOutput);
+
+    expect(result).toMatchObject({ passed: 1, failed: 1, skipped: 1 });
+    expect(result?.tests).toEqual([
+      {
+        name: 'math',
+        status: 'failed',
+        children: [
+          { name: 'adds', status: 'passed' },
+          { name: 'divides', status: 'failed', message: "error: 'expected 2 to equal 3'" },
+        ],
+      },
+      { name: 'strings', status: 'skipped' },
+    ]);
+  });
+
+  it('should return undefined for output without test lines', () => {
+    expect(parseTap('npm ERR! missing script: test')).toBeUndefined();
+  });
+});
+
+describe('formatTestFailures', () => {
+  it('should list the failed tests with their path and assertion error', () => {
+    expect(formatTestFailures(parseJsonReport(jsonReport, '/home/project')!)).toBe(
+      [
+        'FAIL src/sum.test.ts > sum > adds negative numbers\nAssertionError: expected -3 to be -2\n    at src/sum.test.ts:9:20',
+        'FAIL src/broken.test.ts > Test file failed to run\nSyntaxError: Unexpected token',
+      ].join('\n\n'),
+    );
+  });
+});
@@ -0,0 +1,287 @@
+import { path as nodePath } from '~/utils/path';
+
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export interface TestNode {
+  name: string;
+  status: TestStatus;
+
+  /** assertion error and stack of a failed test */
+  message?: string;
+  children?: TestNode[];
+}
+
+export interface TestRunResult {
+  passed: number;
+  failed: number;
+  skipped: number;
+
+  /** test files (or suites for TAP) with their describe blocks and tests */
+  tests: TestNode[];
+}
+
+export type TestRunner = 'vitest' | 'jest';
+
+/** where the JSON reporter writes its report, relative to the project root */
+export const TEST_REPORT_PATH = 'node_modules/.cache/bolt/test-results.json';
+
+const MAX_REPORTED_FAILURES = 10;
+const MAX_FAILURE_LINES = 20;
+
+const ANSI_REGEX = /\u001b\[[0-9;?]*[a-zA-Z]/g;
+const SCRIPT_REGEX = /^(npm|pnpm|yarn|bun)\s+(?:run\s+)?test\s*$/;
+
+/**
+ * Detects the test runner of a command. Package manager invocations of the `test` script are resolved
+ * through the script itself, e.g. `npm test` with `"test": "vitest"`.
+ */
+export function detectTestRunner(command: string, testScript?: string): TestRunner | undefined {
+  const trimmed = command.trim();
+  const resolved = SCRIPT_REGEX.test(trimmed) ? (testScript ?? '') : trimmed;
+
+  if (/\bvitest\b/.test(resolved)) {
+    return 'vitest';
+  }
+
+  if (/\bjest\b/.test(resolved)) {
+    return 'jest';
+  }
+
+  return undefined;
+}
+
+/**
+ * Adds the arguments that make the test runner write a JSON report to `TEST_REPORT_PATH` and keep vitest
+ * from starting in watch mode. Commands of unknown runners and command chains are returned as they are,
+ * their results can only be read from TAP output.
+ */
+export function withJsonReporter(command: string, testScript?: string) {
+  const trimmed = command.trim();
+  const runner = detectTestRunner(trimmed, testScript);
+
+  if (!runner || /&&|\|\||;|\|/.test(trimmed)) {
+    return trimmed;
+  }
+
+  const args =
+    runner === 'vitest'
+      ? `--run --reporter=default --reporter=json --outputFile.json=${TEST_REPORT_PATH}`
+      : `--json --outputFile=${TEST_REPORT_PATH}`;
+
+  const match = trimmed.match(SCRIPT_REGEX);
+
+  // npm only passes arguments after `--` on to the script
+  const separator = match?.[1] === 'npm' ? ' -- ' : ' ';
+
+  return `${trimmed}${separator}${args}`;
+}
+
+function toStatus(status: string | undefined): TestStatus {
+  if (status === 'passed') {
+    return 'passed';
+  }
+
+  return status === 'failed' ? 'failed' : 'skipped';
+}
+
+function countTests(nodes: TestNode[], result: TestRunResult) {
+  for (const node of nodes) {
+    if (node.children) {
+      countTests(node.children, result);
+    } else {
+      result[node.status]++;
+    }
+  }
+}
+
+function toResult(tests: TestNode[]): TestRunResult {
+  const result: TestRunResult = { passed: 0, failed: 0, skipped: 0, tests };
+  countTests(tests, result);
+
+  return result;
+}
+
+// a suite failed if any test in it failed and is only skipped if every test in it was
+function suiteStatus(children: TestNode[]): TestStatus {
+  if (children.some((child) => child.status === 'failed')) {
+    return 'failed';
+  }
+
+  return children.length > 0 && children.every((child) => child.status === 'skipped') ? 'skipped' : 'passed';
+}
+
+function finalizeSuites(nodes: TestNode[]) {
+  for (const node of nodes) {
+    if (node.children) {
+      finalizeSuites(node.children);
+      node.status = suiteStatus(node.children);
+    }
+  }
+}
+
+/**
+ * Parses the report of the jest or vitest JSON reporter into a tree of test files, describe blocks and
+ * tests. Returns `undefined` if the input isn't such a report.
+ * @param input Content of the report file
+ * @param rootDir Directory the file paths in the tree are made relative to
+ */
+export function parseJsonReport(input: string, rootDir?: string): TestRunResult | undefined {
+  let report: any;
+
+  try {
+    report = JSON.parse(input);
+  } catch {
+    return undefined;
+  }
+
+  if (!Array.isArray(report?.testResults)) {
+    return undefined;
+  }
+
+  const files: TestNode[] = [];
+
+  for (const file of report.testResults) {
+    const filePath = String(file.name ?? 'unknown');
+    const name = rootDir && filePath.startsWith(rootDir) ? nodePath.relative(rootDir, filePath) : filePath;
+    const fileNode: TestNode = { name, status: 'passed', children: [] };
+
+    for (const assertion of file.assertionResults ?? []) {
+      let parent = fileNode;
+
+      for (const title of assertion.ancestorTitles ?? []) {
+        let suite = parent.children!.find((child) => child.children && child.name === title);
+
+        if (!suite) {
+          suite = { name: title, status: 'passed', children: [] };
+          parent.children!.push(suite);
+        }
+
+        parent = suite;
+      }
+
+      const status = toStatus(assertion.status);
+      const failureMessages: string[] = assertion.failureMessages ?? [];
+
+      parent.children!.push({
+        name: String(assertion.title),
+        status,
+        message: status === 'failed' && failureMessages.length > 0 ? stripAnsi(failureMessages.join('\n')) : undefined,
+      });
+    }
+
+    // files that failed before running any test, e.g. because of a syntax error
+    if (fileNode.children!.length === 0 && file.status === 'failed') {
+      fileNode.children!.push({ name: 'Test file failed to run', status: 'failed', message: stripAnsi(file.message) });
+    }
+
+    files.push(fileNode);
+  }
+
+  finalizeSuites(files);
+
+  return toResult(files);
+}
+
+/**
+ * Parses TAP output, e.g. of `node --test` or `tap`. Indented subtests become children of the test line
+ * that follows them and YAML diagnostics of failed tests become their message. Returns `undefined` if the
+ * output contains no test lines.
+ */
+export function parseTap(output: string): TestRunResult | undefined {
+  // tests of every nesting level that haven't been attached to their parent yet
+  const levels: TestNode[][] = [[]];
+  let diagnostics: { node: TestNode; indent: number; lines: string[] } | undefined;
+  let found = false;
+
+  for (const rawLine of output.replace(ANSI_REGEX, '').split('\n')) {
+    const line = rawLine.replace(/\s+$/, '');
+    const indent = line.length - line.trimStart().length;
+
+    if (diagnostics) {
+      if (line.trim() === '...') {
+        diagnostics.node.message = diagnostics.lines.join('\n').trim() || undefined;
+        diagnostics = undefined;
+      } else {
+        diagnostics.lines.push(line.slice(diagnostics.indent));
+      }
+
+      continue;
+    }
+
+    const match = line.trim().match(/^(not ok|ok)\b\s*\d*\s*(?:-\s*)?([^#]*?)\s*(?:#\s*(\w+).*)?$/);
+
+    if (!match) {
+      if (line.trim() === '---') {
+        const depth = Math.floor(indent / 4);
+        const node = levels[depth]?.at(-1);
+
+        if (node?.status === 'failed') {
+          diagnostics = { node, indent, lines: [] };
+        }
+      }
+
+      continue;
+    }
+
+    found = true;
+
+    const [, result, name, directive] = match;
+    const depth = Math.floor(indent / 4);
+    const skipped = directive && /^(skip|todo)$/i.test(directive);
+    const children = levels[depth + 1];
+
+    const node: TestNode = {
+      name: name || 'unnamed test',
+      status: skipped ? 'skipped' : result === 'ok' ? 'passed' : 'failed',
+    };
+
+    if (children?.length) {
+      node.children = children;
+      levels[depth + 1] = [];
+    }
+
+    while (levels.length <= depth) {
+      levels.push([]);
+    }
+
+    levels[depth].push(node);
+  }
+
+  return found ? toResult(levels[0]) : undefined;
+}
+
+function stripAnsi(input: unknown) {
+  return typeof input === 'string' ? input.replace(ANSI_REGEX, '') : undefined;
+}
+
+function collectFailures(nodes: TestNode[], path: string[], failures: { path: string[]; node: TestNode }[]) {
+  for (const node of nodes) {
+    if (node.children) {
+      collectFailures(node.children, [...path, node.name], failures);
+    } else if (node.status === 'failed') {
+      failures.push({ path: [...path, node.name], node });
+    }
+  }
+}
+
+/**
+ * Lists the failed tests with their assertion errors, in a compact form the model can act on.
+ */
+export function formatTestFailures(result: TestRunResult) {
+  const failures: { path: string[]; node: TestNode }[] = [];
+  collectFailures(result.tests, [], failures);
+
+  const sections = failures.slice(0, MAX_REPORTED_FAILURES).map(({ path, node }) => {
+    const lines = (node.message ?? '').trim().split('\n');
+    const message = lines.slice(0, MAX_FAILURE_LINES).join('\n');
+    const truncated = lines.length > MAX_FAILURE_LINES ? '\n...' : '';
+
+    return `FAIL ${path.join(' > ')}${message ? `\n${message}${truncated}` : ''}`;
+  });
+
+  if (failures.length > MAX_REPORTED_FAILURES) {
+    sections.push(`... and ${failures.length - MAX_REPORTED_FAILURES} more failed tests`);
+  }
+
+  return sections.join('\n\n');
+}
@@ -0,0 +1,54 @@
+import type { ToolInvocation } from 'ai';
+import { describe, expect, it, vi } from 'vitest';
+import type { ActionCallback, ArtifactCallback } from './message-parser';
+import { ToolCallParser } from './tool-call-parser';
+
+const writeFile: ToolInvocation = {
+  state: 'result',
+  toolCallId: 'call_1',
+  toolName: 'write_file',
+  args: { filePath: 'src/App.tsx', content: 'export default function App() {}' },
+  result: 'Queued',
+};
+
+const startDevServer: ToolInvocation = {
+  state: 'call',
+  toolCallId: 'call_2',
+  toolName: 'start_dev_server',
+  args: { command: 'npm run dev' },
+};
+
+describe('ToolCallParser', () => {
+  it('should turn artifact tool calls into actions of one artifact', () => {
+    const onArtifactOpen = vi.fn<ArtifactCallback>();
+    const onArtifactClose = vi.fn<ArtifactCallback>();
+    const onActionClose = vi.fn<ActionCallback>();
+
+    const parser = new ToolCallParser({
+      callbacks: { onArtifactOpen, onArtifactClose, onActionClose },
+      artifactElement: () => '[artifact]',
+    });
+
+    expect(parser.parse('message_1', [writeFile])).toBe('[artifact]');
+    expect(parser.parse('message_1', [writeFile, startDevServer], true)).toBe('');
+
+    expect(onArtifactOpen).toHaveBeenCalledTimes(1);
+    expect(onArtifactClose).toHaveBeenCalledTimes(1);
+    expect(onActionClose.mock.calls.map(([data]) => [data.actionId, data.action])).toEqual([
+      ['0', { type: 'file', filePath: 'src/App.tsx', content: 'export default function App() {}' }],
+      ['1', { type: 'start', content: 'npm run dev' }],
+    ]);
+  });
+
+  it('should ignore partial calls and tools of MCP servers', () => {
+    const onActionClose = vi.fn<ActionCallback>();
+    const parser = new ToolCallParser({ callbacks: { onActionClose } });
+
+    parser.parse('message_1', [
+      { state: 'partial-call', toolCallId: 'call_1', toolName: 'write_file', args: { filePath: 'src/App.tsx' } },
+      { state: 'call', toolCallId: 'call_2', toolName: 'search_docs', args: { query: 'vite' } },
+    ]);
+
+    expect(onActionClose).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,124 @@
+import type { ToolInvocation } from 'ai';
+import type { BoltAction } from '~/types/actions';
+import { ARTIFACT_TOOL_NAMES } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+import { createArtifactElement, type StreamingMessageParserOptions } from './message-parser';
+
+const logger = createScopedLogger('ToolCallParser');
+
+const ARTIFACT_TOOLS: string[] = Object.values(ARTIFACT_TOOL_NAMES);
+
+interface MessageState {
+  artifactId: string;
+  artifactOpen: boolean;
+  artifactClosed: boolean;
+  toolCallIds: Set<string>;
+  actionId: number;
+}
+
+export function isArtifactToolCall(toolName: string) {
+  return ARTIFACT_TOOLS.includes(toolName);
+}
+
+/**
+ * Converts the arguments of an artifact tool call into the action it stands for.
+ */
+export function toolCallToAction(toolName: string, args: Record<string, any>): BoltAction | undefined {
+  switch (toolName) {
+    case ARTIFACT_TOOL_NAMES.WRITE_FILE: {
+      if (typeof args.filePath !== 'string' || typeof args.content !== 'string') {
+        return undefined;
+      }
+
+      return { type: 'file', filePath: args.filePath, content: args.content };
+    }
+    case ARTIFACT_TOOL_NAMES.RUN_COMMAND: {
+      return typeof args.command === 'string' ? { type: 'shell', content: args.command } : undefined;
+    }
+    case ARTIFACT_TOOL_NAMES.START_DEV_SERVER: {
+      return typeof args.command === 'string' ? { type: 'start', content: args.command } : undefined;
+    }
+    default: {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Counterpart of the `StreamingMessageParser` for native tool calling. Every artifact tool call of a message
+ * becomes an action of a single artifact and is reported through the same callbacks, so the workbench
+ * doesn't know which protocol the model used.
+ */
+export class ToolCallParser {
+  #messages = new Map<string, MessageState>();
+
+  constructor(private _options: StreamingMessageParserOptions = {}) {}
+
+  /**
+   * Reports the tool calls that weren't seen yet and returns the artifact element for the message once
+   * the first artifact tool call shows up.
+   * @param messageId Id of the assistant message the tool calls belong to
+   * @param toolInvocations Tool invocations of the message so far
+   * @param complete Whether the message is complete, closes the artifact
+   */
+  parse(messageId: string, toolInvocations: ToolInvocation[], complete = false) {
+    let state = this.#messages.get(messageId);
+
+    if (!state) {
+      state = {
+        artifactId: `tools-${messageId}`,
+        artifactOpen: false,
+        artifactClosed: false,
+        toolCallIds: new Set(),
+        actionId: 0,
+      };
+
+      this.#messages.set(messageId, state);
+    }
+
+    const callbacks = this._options.callbacks;
+    let output = '';
+
+    for (const { state: invocationState, toolCallId, toolName, args } of toolInvocations) {
+      // arguments of partial calls are still being streamed
+      if (invocationState === 'partial-call' || !isArtifactToolCall(toolName) || state.toolCallIds.has(toolCallId)) {
+        continue;
+      }
+
+      state.toolCallIds.add(toolCallId);
+
+      const action = toolCallToAction(toolName, args ?? {});
+
+      if (!action) {
+        logger.warn(`Invalid arguments for tool '${toolName}'`, args);
+        continue;
+      }
+
+      if (!state.artifactOpen) {
+        state.artifactOpen = true;
+
+        callbacks?.onArtifactOpen?.({ messageId, id: state.artifactId, title: 'Changes' });
+
+        const artifactFactory = this._options.artifactElement ?? createArtifactElement;
+
+        output += artifactFactory({ messageId });
+      }
+
+      const data = { artifactId: state.artifactId, messageId, actionId: String(state.actionId++), action };
+
+      callbacks?.onActionOpen?.(data);
+      callbacks?.onActionClose?.(data);
+    }
+
+    if (complete && state.artifactOpen && !state.artifactClosed) {
+      state.artifactClosed = true;
+      callbacks?.onArtifactClose?.({ messageId, id: state.artifactId, title: 'Changes' });
+    }
+
+    return output;
+  }
+
+  reset() {
+    this.#messages.clear();
+  }
+}
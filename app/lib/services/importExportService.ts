@@ -1,6 +1,8 @@
 import Cookies from 'js-cookie';
 import { type Message } from 'ai';
 import { getAllChats, deleteChat } from '~/lib/persistence/chats';
+import { mergeCustomPrompts } from '~/lib/common/custom-prompts';
+import { CUSTOM_PROMPTS_KEY } from '~/lib/stores/customPrompts';
 
 interface ExtendedMessage extends Message {
   name?: string;
@@ -100,6 +102,9 @@ export class ImportExportService {
           // Context optimization
           contextOptimizationEnabled: this._safeGetItem('contextOptimizationEnabled'),
 
+          // Native tool calling
+          toolCallingEnabled: this._safeGetItem('toolCallingEnabled'),
+
           // Auto-select template
           autoSelectTemplate: this._safeGetItem('autoSelectTemplate'),
 
@@ -123,6 +128,7 @@ export class ImportExportService {
           // Prompt settings
           promptId: this._safeGetItem('promptId'),
           cachedPrompt: allCookies.cachedPrompt,
+          custom_prompts: this._safeGetItem(CUSTOM_PROMPTS_KEY),
         },
 
         // Connections
@@ -435,6 +441,16 @@ export class ImportExportService {
         }
       }
 
+      // Custom prompts are merged, so prompts only written on this machine are kept
+      if (Array.isArray(data.ui.custom_prompts)) {
+        try {
+          const existing = this._safeGetItem(CUSTOM_PROMPTS_KEY) ?? [];
+          this._safeSetItem(CUSTOM_PROMPTS_KEY, mergeCustomPrompts(existing, data.ui.custom_prompts));
+        } catch (err) {
+          console.error('Error importing custom prompts:', err);
+        }
+      }
+
       // Import UI cookies
       const uiCookies = ['tabConfiguration', 'cachedPrompt'];
       uiCookies.forEach((key) => {
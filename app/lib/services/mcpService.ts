@@ -374,7 +374,12 @@ export class MCPService {
     }
   }
 
-  async processToolInvocations(messages: Message[], dataStream: DataStreamWriter): Promise<Message[]> {
+  // the signal of the chat request stops the running tools when the user stops the response
+  async processToolInvocations(
+    messages: Message[],
+    dataStream: DataStreamWriter,
+    abortSignal?: AbortSignal,
+  ): Promise<Message[]> {
     const lastMessage = messages[messages.length - 1];
     const parts = lastMessage.parts;
 
@@ -409,8 +414,13 @@ export class MCPService {
               result = await toolInstance.execute(toolInvocation.args, {
                 messages: convertToCoreMessages(messages),
                 toolCallId,
+                abortSignal,
               });
             } catch (error) {
+              if (abortSignal?.aborted) {
+                throw error;
+              }
+
               logger.error(`error while calling tool "${toolName}":`, error);
               result = TOOL_EXECUTION_ERROR;
             }
@@ -0,0 +1,107 @@
+import { atom } from 'nanostores';
+import {
+  DEFAULT_COMMAND_POLICY,
+  evaluateCommand,
+  type CommandCheckResult,
+  type CommandPolicy,
+} from '~/lib/runtime/command-policy';
+import { logStore } from './logs';
+
+const COMMAND_POLICY_KEY = 'bolt_command_policy';
+
+export interface CommandConfirmation {
+  command: string;
+  reason?: string;
+}
+
+const isBrowser = typeof window !== 'undefined';
+
+const getInitialPolicy = (): CommandPolicy => {
+  if (!isBrowser) {
+    return DEFAULT_COMMAND_POLICY;
+  }
+
+  try {
+    const stored = localStorage.getItem(COMMAND_POLICY_KEY);
+    return stored ? { ...DEFAULT_COMMAND_POLICY, ...JSON.parse(stored) } : DEFAULT_COMMAND_POLICY;
+  } catch {
+    return DEFAULT_COMMAND_POLICY;
+  }
+};
+
+export const commandPolicyStore = atom<CommandPolicy>(getInitialPolicy());
+
+// the command that is currently waiting for the user to allow or reject it
+export const commandConfirmationStore = atom<CommandConfirmation | undefined>(undefined);
+
+let resolveConfirmation: ((allowed: boolean) => void) | undefined;
+let confirmationQueue: Promise<unknown> = Promise.resolve();
+
+export const updateCommandPolicy = (policy: Partial<CommandPolicy>) => {
+  const updated = { ...commandPolicyStore.get(), ...policy };
+
+  commandPolicyStore.set(updated);
+  localStorage.setItem(COMMAND_POLICY_KEY, JSON.stringify(updated));
+};
+
+export const resetCommandPolicy = () => {
+  commandPolicyStore.set(DEFAULT_COMMAND_POLICY);
+  localStorage.removeItem(COMMAND_POLICY_KEY);
+};
+
+export const resolveCommandConfirmation = (allowed: boolean) => {
+  resolveConfirmation?.(allowed);
+};
+
+function requestConfirmation(confirmation: CommandConfirmation) {
+  // only one command is held at a time, later ones wait for the previous answer
+  const request = confirmationQueue.then(
+    () =>
+      new Promise<boolean>((resolve) => {
+        resolveConfirmation = (allowed) => {
+          resolveConfirmation = undefined;
+          commandConfirmationStore.set(undefined);
+          resolve(allowed);
+        };
+
+        commandConfirmationStore.set(confirmation);
+      }),
+  );
+
+  confirmationQueue = request;
+
+  return request;
+}
+
+/**
+ * Check a command the model wants to run against the command policy. Dangerous commands may be held
+ * until the user allows or rejects them in the chat. Every decision is written to the event logs.
+ * Commands of restored or imported chats are held as well, the user may never have seen them.
+ * @param command The full command line
+ * @returns Whether the command may run and why
+ */
+export async function checkCommand(command: string): Promise<CommandCheckResult> {
+  const { decision, reason } = evaluateCommand(command, commandPolicyStore.get());
+
+  if (decision === 'allow') {
+    logStore.logSystem('Command allowed by policy', { command, reason });
+    return { allowed: true, reason };
+  }
+
+  if (decision === 'block') {
+    logStore.logWarning('Command blocked by policy', { command, reason });
+    return { allowed: false, reason };
+  }
+
+  logStore.logWarning('Command held for confirmation', { command, reason });
+
+  const allowed = await requestConfirmation({ command, reason });
+
+  if (allowed) {
+    logStore.logUserAction('Held command allowed by user', { command, reason });
+  } else {
+    logStore.logWarning('Held command rejected by user', { command, reason });
+  }
+
+  return { allowed, reason: allowed ? reason : `Rejected by user: ${reason}` };
+}
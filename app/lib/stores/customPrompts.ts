@@ -0,0 +1,64 @@
+import { atom } from 'nanostores';
+import { CUSTOM_PROMPT_PREFIX, type CustomPrompt } from '~/lib/common/custom-prompts';
+import { promptStore, updatePromptId } from './settings';
+
+export const CUSTOM_PROMPTS_KEY = 'bolt_custom_prompts';
+
+const isBrowser = typeof window !== 'undefined';
+
+const getInitialCustomPrompts = (): CustomPrompt[] => {
+  if (!isBrowser) {
+    return [];
+  }
+
+  try {
+    const stored = localStorage.getItem(CUSTOM_PROMPTS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+// system prompts written by the user, selectable in the prompt library next to the built-in ones
+export const customPromptsStore = atom<CustomPrompt[]>(getInitialCustomPrompts());
+
+const persist = (prompts: CustomPrompt[]) => {
+  customPromptsStore.set(prompts);
+  localStorage.setItem(CUSTOM_PROMPTS_KEY, JSON.stringify(prompts));
+};
+
+/**
+ * Save a new custom prompt, or a new version of an existing one.
+ * @param prompt The prompt, without an id for a new one
+ * @returns The saved prompt
+ */
+export const saveCustomPrompt = (
+  prompt: Pick<CustomPrompt, 'label' | 'description' | 'template'> & { id?: string },
+) => {
+  const prompts = customPromptsStore.get();
+  const existing = prompts.find((p) => p.id === prompt.id);
+  const saved: CustomPrompt = {
+    id: existing?.id ?? `${CUSTOM_PROMPT_PREFIX}${Date.now().toString(36)}`,
+    label: prompt.label,
+    description: prompt.description,
+    template: prompt.template,
+    version: (existing?.version ?? 0) + 1,
+    updatedAt: new Date().toISOString(),
+  };
+
+  persist(existing ? prompts.map((p) => (p.id === saved.id ? saved : p)) : [...prompts, saved]);
+
+  return saved;
+};
+
+/**
+ * Delete a custom prompt, the default prompt is selected instead if it was selected.
+ * @param id The id of the prompt
+ */
+export const deleteCustomPrompt = (id: string) => {
+  persist(customPromptsStore.get().filter((p) => p.id !== id));
+
+  if (promptStore.get() === id) {
+    updatePromptId('default');
+  }
+};
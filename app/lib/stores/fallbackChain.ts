@@ -0,0 +1,32 @@
+import { atom } from 'nanostores';
+import type { StageModel } from '~/lib/modules/llm/stage-models';
+
+const FALLBACK_CHAIN_KEY = 'bolt_fallback_chain';
+
+const isBrowser = typeof window !== 'undefined';
+
+const getInitialFallbackChain = (): StageModel[] => {
+  if (!isBrowser) {
+    return [];
+  }
+
+  try {
+    const stored = localStorage.getItem(FALLBACK_CHAIN_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+// models the chat fails over to, in order, when the selected model is rate limited or down
+export const fallbackChainStore = atom<StageModel[]>(getInitialFallbackChain());
+
+export const setFallbackChain = (chain: StageModel[]) => {
+  fallbackChainStore.set(chain);
+  localStorage.setItem(FALLBACK_CHAIN_KEY, JSON.stringify(chain));
+};
+
+export const resetFallbackChain = () => {
+  fallbackChainStore.set([]);
+  localStorage.removeItem(FALLBACK_CHAIN_KEY);
+};
@@ -920,6 +920,83 @@ export class FilesStore {
     }
   }
 
+  async renameFile(oldPath: string, newPath: string) {
+    const webcontainer = await this.#webcontainer;
+
+    try {
+      const oldRelativePath = path.relative(webcontainer.workdir, oldPath);
+      const newRelativePath = path.relative(webcontainer.workdir, newPath);
+
+      if (!oldRelativePath || !newRelativePath) {
+        throw new Error(`EINVAL: invalid path, rename '${oldRelativePath}' -> '${newRelativePath}'`);
+      }
+
+      const dirPath = path.dirname(newRelativePath);
+
+      if (dirPath !== '.') {
+        await webcontainer.fs.mkdir(dirPath, { recursive: true });
+      }
+
+      await webcontainer.fs.rename(oldRelativePath, newRelativePath);
+
+      const currentFiles = this.files.get();
+      const updates: FileMap = {};
+
+      // move the renamed entry and, for folders, everything below it
+      for (const [direntPath, dirent] of Object.entries(currentFiles)) {
+        if (direntPath !== oldPath && !direntPath.startsWith(oldPath + '/')) {
+          continue;
+        }
+
+        const movedPath = newPath + direntPath.slice(oldPath.length);
+
+        updates[direntPath] = undefined;
+        updates[movedPath] = dirent;
+
+        this.#deletedPaths.add(direntPath);
+        this.#deletedPaths.delete(movedPath);
+
+        const originalContent = this.#modifiedFiles.get(direntPath);
+
+        if (originalContent !== undefined) {
+          this.#modifiedFiles.delete(direntPath);
+          this.#modifiedFiles.set(movedPath, originalContent);
+        }
+      }
+
+      this.files.set({ ...currentFiles, ...updates });
+
+      this.#persistDeletedPaths();
+
+      logger.info(`Renamed: ${oldPath} -> ${newPath}`);
+
+      return true;
+    } catch (error) {
+      logger.error('Failed to rename\n\n', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop hiding a previously deleted path, e.g. when an artifact is rolled back and the path is written again
+   * @param filePath Path of the file or folder that is being restored
+   */
+  restoreDeletedPath(filePath: string) {
+    let changed = false;
+
+    for (const deletedPath of this.#deletedPaths) {
+      // a restored path needs its deleted parent folders back as well
+      if (deletedPath === filePath || filePath.startsWith(deletedPath + '/')) {
+        this.#deletedPaths.delete(deletedPath);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.#persistDeletedPaths();
+    }
+  }
+
   // method to persist deleted paths to localStorage
   #persistDeletedPaths() {
     try {
@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getUnapprovedStatus, PlanStore, previewPendingChanges, type PendingChange } from './plan';
+import type { BoltAction } from '~/types/actions';
+
+const stage = (actionId: string, action: BoltAction): PendingChange => ({
+  id: `message:${actionId}`,
+  data: { artifactId: 'artifact', messageId: 'message', actionId, action },
+  status: 'pending',
+  edited: false,
+});
+
+describe('PlanStore', () => {
+  it('should diff patches against files written earlier in the same plan', () => {
+    const previews = previewPendingChanges(
+      [
+        stage('0', { type: 'file', filePath: 'src/index.js', content: 'one\n' }),
+        stage('1', {
+          type: 'patch',
+          filePath: 'src/index.js',
+          content: '<<<<<<< SEARCH\none\n=======\ntwo\n>>>>>>> REPLACE',
+        }),
+      ],
+      {},
+    );
+
+    expect(previews['message:0'].diff).toContain('+one');
+    expect(previews['message:1'].diff).toContain('-one');
+    expect(previews['message:1'].diff).toContain('+two');
+  });
+
+  it('should report patches for files that do not exist', () => {
+    const previews = previewPendingChanges(
+      [
+        stage('0', {
+          type: 'patch',
+          filePath: 'missing.js',
+          content: '<<<<<<< SEARCH\na\n=======\nb\n>>>>>>> REPLACE',
+        }),
+      ],
+      {},
+    );
+
+    expect(previews['message:0'].error).toBe('File missing.js does not exist');
+  });
+
+  it('should diff patches that create a file against an empty one', () => {
+    const previews = previewPendingChanges(
+      [
+        stage('0', {
+          type: 'patch',
+          filePath: 'new.js',
+          content: '<<<<<<< SEARCH\n=======\nb\n>>>>>>> REPLACE',
+        }),
+      ],
+      {},
+    );
+
+    expect(previews['message:0'].error).toBeUndefined();
+    expect(previews['message:0'].diff).toContain('+b');
+  });
+
+  it('should report status changes and restore them without running unapproved changes after a reload', () => {
+    const onStatusChange = vi.fn();
+    const store = new PlanStore(onStatusChange);
+    const shell = stage('0', { type: 'shell', content: 'rm -rf dist' });
+    const file = stage('1', { type: 'file', filePath: 'index.js', content: 'one\n' });
+
+    store.stage(shell.data);
+    store.stage(file.data);
+    store.setStatus(file.id, 'rejected');
+
+    expect(onStatusChange.mock.calls).toEqual([
+      [shell.id, 'pending'],
+      [file.id, 'pending'],
+      [file.id, 'rejected'],
+    ]);
+
+    const saved = { [shell.id]: 'pending', [file.id]: 'rejected', 'message:2': 'approved' } as const;
+    const reloaded = new PlanStore(onStatusChange);
+
+    for (const change of [shell, file, stage('2', { type: 'shell', content: 'npm install' })]) {
+      const status = getUnapprovedStatus(change.data, saved);
+
+      if (status) {
+        reloaded.restore(change.data, status);
+      }
+    }
+
+    expect(Object.values(reloaded.changes.get()).map(({ id, status }) => [id, status])).toEqual([
+      [shell.id, 'pending'],
+      [file.id, 'rejected'],
+    ]);
+    expect(getUnapprovedStatus(stage('3', { type: 'shell', content: 'ls' }).data, saved)).toBeUndefined();
+    expect(onStatusChange).toHaveBeenCalledTimes(3);
+  });
+});
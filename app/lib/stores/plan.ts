@@ -0,0 +1,269 @@
+import { atom, map, type MapStore, type WritableAtom } from 'nanostores';
+import type { ActionCallbackData } from '~/lib/runtime/message-parser';
+import type { FileMap } from './files';
+import { diffFiles } from '~/utils/diff';
+import { applyFilePatch, isNewFilePatch } from '~/utils/patch';
+import { path } from '~/utils/path';
+import { WORK_DIR } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('PlanStore');
+
+const PLAN_MODE_KEY = 'bolt_plan_mode';
+
+export type PendingChangeStatus = 'pending' | 'approved' | 'rejected';
+
+export interface PendingChange {
+  id: string;
+  data: ActionCallbackData;
+  status: PendingChangeStatus;
+  edited: boolean;
+}
+
+export interface PendingChangePreview {
+  diff?: string;
+  error?: string;
+}
+
+type PendingChanges = MapStore<Record<string, PendingChange>>;
+
+type StatusChangeCallback = (id: string, status: PendingChangeStatus) => void;
+
+/**
+ * Holds the actions that were parsed while plan mode is enabled. Nothing in here touches the
+ * WebContainer, the workbench runs a change once it gets approved.
+ */
+export class PlanStore {
+  #chatId: string | undefined;
+  #onStatusChange?: StatusChangeCallback;
+
+  enabled: WritableAtom<boolean> = import.meta.hot?.data.planModeEnabled ?? atom(false);
+  changes: PendingChanges = import.meta.hot?.data.pendingChanges ?? map({});
+
+  /**
+   * @param onStatusChange Called when a change is staged or gets a new status, to keep the status with the chat
+   */
+  constructor(onStatusChange?: StatusChangeCallback) {
+    this.#onStatusChange = onStatusChange;
+
+    if (import.meta.hot) {
+      import.meta.hot.data.planModeEnabled = this.enabled;
+      import.meta.hot.data.pendingChanges = this.changes;
+    }
+  }
+
+  /**
+   * Load the plan mode setting of a chat
+   * @param chatId ID of the chat, undefined for a chat that hasn't been saved yet
+   */
+  setChatId(chatId: string | undefined) {
+    const previousChatId = this.#chatId;
+
+    if (chatId === previousChatId) {
+      return;
+    }
+
+    this.#chatId = chatId;
+
+    if (!chatId) {
+      this.enabled.set(false);
+      this.changes.set({});
+
+      return;
+    }
+
+    const saved = this.#readSettings()[chatId];
+
+    if (saved === undefined && previousChatId === undefined) {
+      // a new chat just got its ID, keep what the user picked before the first message
+      this.#persist();
+      return;
+    }
+
+    if (previousChatId !== undefined) {
+      this.changes.set({});
+    }
+
+    this.enabled.set(saved ?? false);
+  }
+
+  setEnabled(enabled: boolean) {
+    this.enabled.set(enabled);
+    this.#persist();
+  }
+
+  stage(data: ActionCallbackData) {
+    const id = getPendingChangeId(data);
+
+    if (this.changes.get()[id]) {
+      return;
+    }
+
+    this.changes.setKey(id, { id, data, status: 'pending', edited: false });
+    this.#onStatusChange?.(id, 'pending');
+  }
+
+  /**
+   * Stage an action of a restored chat with the status it had before the reload
+   * @param data The replayed action
+   * @param status Saved status of the change
+   */
+  restore(data: ActionCallbackData, status: PendingChangeStatus) {
+    const id = getPendingChangeId(data);
+
+    if (this.changes.get()[id]) {
+      return;
+    }
+
+    this.changes.setKey(id, { id, data, status, edited: false });
+  }
+
+  get(id: string) {
+    return this.changes.get()[id];
+  }
+
+  setStatus(id: string, status: PendingChangeStatus) {
+    const change = this.get(id);
+
+    if (!change) {
+      return;
+    }
+
+    this.changes.setKey(id, { ...change, status });
+    this.#onStatusChange?.(id, status);
+  }
+
+  /**
+   * Replace the content of a pending change, e.g. the file content or the shell command
+   * @param id ID of the pending change
+   * @param content New content of the action
+   */
+  edit(id: string, content: string) {
+    const change = this.get(id);
+
+    if (!change || change.status !== 'pending') {
+      return;
+    }
+
+    this.changes.setKey(id, {
+      ...change,
+      data: { ...change.data, action: { ...change.data.action, content } },
+      edited: true,
+    });
+  }
+
+  #readSettings(): Record<string, boolean> {
+    try {
+      const saved = localStorage.getItem(PLAN_MODE_KEY);
+      return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+      logger.error('Failed to read plan mode settings', error);
+      return {};
+    }
+  }
+
+  #persist() {
+    if (!this.#chatId || typeof localStorage === 'undefined') {
+      return;
+    }
+
+    try {
+      const settings = this.#readSettings();
+      settings[this.#chatId] = this.enabled.get();
+      localStorage.setItem(PLAN_MODE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      logger.error('Failed to persist plan mode settings', error);
+    }
+  }
+}
+
+export function getPendingChangeId({ messageId, actionId }: ActionCallbackData) {
+  return `${messageId}:${actionId}`;
+}
+
+/**
+ * The saved status of a replayed action that must not run, because it was staged in plan mode and never approved
+ * @param data The replayed action
+ * @param statuses Saved statuses of the chat's pending changes
+ */
+export function getUnapprovedStatus(data: ActionCallbackData, statuses: Record<string, PendingChangeStatus> = {}) {
+  const status = statuses[getPendingChangeId(data)];
+
+  return status && status !== 'approved' ? status : undefined;
+}
+
+/**
+ * Computes a diff for every pending file change. Changes are applied on top of each other in the order they
+ * were staged, so a patch on a file created earlier in the same plan diffs against that new file.
+ */
+export function previewPendingChanges(changes: PendingChange[], files: FileMap) {
+  const overlay = new Map<string, string | null>();
+  const previews: Record<string, PendingChangePreview> = {};
+
+  const readFile = (filePath: string) => {
+    if (overlay.has(filePath)) {
+      return overlay.get(filePath);
+    }
+
+    const dirent = files[filePath];
+
+    return dirent?.type === 'file' && !dirent.isBinary ? dirent.content : null;
+  };
+
+  for (const change of changes) {
+    if (change.status === 'rejected') {
+      continue;
+    }
+
+    const { action } = change.data;
+
+    switch (action.type) {
+      case 'file': {
+        const fullPath = path.join(WORK_DIR, action.filePath);
+        const original = readFile(fullPath) ?? '';
+
+        previews[change.id] = { diff: diffFiles(action.filePath, original, action.content) };
+        overlay.set(fullPath, action.content);
+        break;
+      }
+      case 'patch': {
+        const fullPath = path.join(WORK_DIR, action.filePath);
+        let original = readFile(fullPath);
+
+        // the runner creates the file for a patch of empty search blocks, so it diffs against an empty one
+        if (original == null && isNewFilePatch(action.content)) {
+          original = '';
+        }
+
+        if (original == null) {
+          previews[change.id] = { error: `File ${action.filePath} does not exist` };
+          break;
+        }
+
+        try {
+          const patched = applyFilePatch(original, action.content);
+
+          previews[change.id] = { diff: diffFiles(action.filePath, original, patched) };
+          overlay.set(fullPath, patched);
+        } catch (error) {
+          previews[change.id] = { error: error instanceof Error ? error.message : 'Patch does not apply' };
+        }
+
+        break;
+      }
+      case 'delete': {
+        overlay.set(path.join(WORK_DIR, action.filePath), null);
+        break;
+      }
+      case 'rename': {
+        const fullPath = path.join(WORK_DIR, action.filePath);
+
+        overlay.set(path.join(WORK_DIR, action.newFilePath), readFile(fullPath) ?? null);
+        overlay.set(fullPath, null);
+        break;
+      }
+    }
+  }
+
+  return previews;
+}
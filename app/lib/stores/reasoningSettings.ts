@@ -0,0 +1,47 @@
+import { atom } from 'nanostores';
+import { pricingKey } from '~/lib/modules/llm/pricing';
+import type { ReasoningSettings } from '~/lib/modules/llm/reasoning';
+
+const REASONING_SETTINGS_KEY = 'bolt_reasoning_settings';
+
+const isBrowser = typeof window !== 'undefined';
+
+const getInitialReasoningSettings = (): Record<string, ReasoningSettings> => {
+  if (!isBrowser) {
+    return {};
+  }
+
+  try {
+    const stored = localStorage.getItem(REASONING_SETTINGS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+// reasoning effort or budget of reasoning models, keyed by `provider/model`
+export const reasoningSettingsStore = atom<Record<string, ReasoningSettings>>(getInitialReasoningSettings());
+
+/**
+ * Set the reasoning settings of a model, or go back to the defaults of the provider.
+ * @param provider The provider of the model
+ * @param model The model name
+ * @param settings The effort or budget, `undefined` for the defaults
+ */
+export const setReasoningSettings = (provider: string, model: string, settings: ReasoningSettings | undefined) => {
+  const updated = { ...reasoningSettingsStore.get() };
+
+  if (settings) {
+    updated[pricingKey(provider, model)] = settings;
+  } else {
+    delete updated[pricingKey(provider, model)];
+  }
+
+  reasoningSettingsStore.set(updated);
+  localStorage.setItem(REASONING_SETTINGS_KEY, JSON.stringify(updated));
+};
+
+export const resetReasoningSettings = () => {
+  reasoningSettingsStore.set({});
+  localStorage.removeItem(REASONING_SETTINGS_KEY);
+};
@@ -0,0 +1,46 @@
+import { atom } from 'nanostores';
+import { pricingKey } from '~/lib/modules/llm/pricing';
+
+const SEGMENT_LIMITS_KEY = 'bolt_segment_limits';
+
+const isBrowser = typeof window !== 'undefined';
+
+const getInitialSegmentLimits = (): Record<string, number> => {
+  if (!isBrowser) {
+    return {};
+  }
+
+  try {
+    const stored = localStorage.getItem(SEGMENT_LIMITS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+// how many segments a response that hits the output limit may have, keyed by `provider/model`
+export const segmentLimitsStore = atom<Record<string, number>>(getInitialSegmentLimits());
+
+/**
+ * Set the segment limit of a model, or go back to the default of the model.
+ * @param provider The provider of the model
+ * @param model The model name
+ * @param limit The number of segments, `undefined` for the default
+ */
+export const setSegmentLimit = (provider: string, model: string, limit: number | undefined) => {
+  const updated = { ...segmentLimitsStore.get() };
+
+  if (limit) {
+    updated[pricingKey(provider, model)] = limit;
+  } else {
+    delete updated[pricingKey(provider, model)];
+  }
+
+  segmentLimitsStore.set(updated);
+  localStorage.setItem(SEGMENT_LIMITS_KEY, JSON.stringify(updated));
+};
+
+export const resetSegmentLimits = () => {
+  segmentLimitsStore.set({});
+  localStorage.removeItem(SEGMENT_LIMITS_KEY);
+};
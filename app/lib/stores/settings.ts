@@ -1,6 +1,7 @@
 import { atom, map } from 'nanostores';
 import { PROVIDER_LIST } from '~/utils/constants';
 import type { IProviderConfig } from '~/types/model';
+import type { ContextSelectionMode } from '~/types/context';
 import type { TabVisibilityConfig, TabWindowConfig, UserTabConfig } from '~/components/@settings/core/types';
 import { DEFAULT_TAB_CONFIG } from '~/components/@settings/core/constants';
 import { toggleTheme } from './theme';
@@ -122,6 +123,9 @@ const SETTINGS_KEYS = {
   LATEST_BRANCH: 'isLatestBranch',
   AUTO_SELECT_TEMPLATE: 'autoSelectTemplate',
   CONTEXT_OPTIMIZATION: 'contextOptimizationEnabled',
+  TOOL_CALLING: 'toolCallingEnabled',
+  CONTEXT_SELECTION: 'contextSelectionMode',
+  CONTEXT_EMBEDDING_MODEL: 'contextEmbeddingModel',
   EVENT_LOGS: 'isEventLogsEnabled',
   PROMPT_ID: 'promptId',
   DEVELOPER_MODE: 'isDeveloperMode',
@@ -151,6 +155,10 @@ const getInitialSettings = () => {
     latestBranch: getStoredBoolean(SETTINGS_KEYS.LATEST_BRANCH, false),
     autoSelectTemplate: getStoredBoolean(SETTINGS_KEYS.AUTO_SELECT_TEMPLATE, true),
     contextOptimization: getStoredBoolean(SETTINGS_KEYS.CONTEXT_OPTIMIZATION, true),
+    toolCalling: getStoredBoolean(SETTINGS_KEYS.TOOL_CALLING, false),
+    contextSelection: ((isBrowser && localStorage.getItem(SETTINGS_KEYS.CONTEXT_SELECTION)) ||
+      'llm') as ContextSelectionMode,
+    contextEmbeddingModel: (isBrowser && localStorage.getItem(SETTINGS_KEYS.CONTEXT_EMBEDDING_MODEL)) || '',
     eventLogs: getStoredBoolean(SETTINGS_KEYS.EVENT_LOGS, true),
     promptId: isBrowser ? localStorage.getItem(SETTINGS_KEYS.PROMPT_ID) || 'default' : 'default',
     developerMode: getStoredBoolean(SETTINGS_KEYS.DEVELOPER_MODE, false),
@@ -163,6 +171,11 @@ const initialSettings = getInitialSettings();
 export const latestBranchStore = atom<boolean>(initialSettings.latestBranch);
 export const autoSelectStarterTemplate = atom<boolean>(initialSettings.autoSelectTemplate);
 export const enableContextOptimizationStore = atom<boolean>(initialSettings.contextOptimization);
+export const enableToolCallingStore = atom<boolean>(initialSettings.toolCalling);
+export const contextSelectionStore = atom<ContextSelectionMode>(initialSettings.contextSelection);
+
+// Ollama model that embeds the files for the local context selection, empty for BM25 only
+export const contextEmbeddingModelStore = atom<string>(initialSettings.contextEmbeddingModel);
 export const isEventLogsEnabled = atom<boolean>(initialSettings.eventLogs);
 export const promptStore = atom<string>(initialSettings.promptId);
 
@@ -182,6 +195,21 @@ export const updateContextOptimization = (enabled: boolean) => {
   localStorage.setItem(SETTINGS_KEYS.CONTEXT_OPTIMIZATION, JSON.stringify(enabled));
 };
 
+export const updateToolCalling = (enabled: boolean) => {
+  enableToolCallingStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.TOOL_CALLING, JSON.stringify(enabled));
+};
+
+export const updateContextSelection = (mode: ContextSelectionMode) => {
+  contextSelectionStore.set(mode);
+  localStorage.setItem(SETTINGS_KEYS.CONTEXT_SELECTION, mode);
+};
+
+export const updateContextEmbeddingModel = (model: string) => {
+  contextEmbeddingModelStore.set(model);
+  localStorage.setItem(SETTINGS_KEYS.CONTEXT_EMBEDDING_MODEL, model);
+};
+
 export const updateEventLogs = (enabled: boolean) => {
   isEventLogsEnabled.set(enabled);
   localStorage.setItem(SETTINGS_KEYS.EVENT_LOGS, JSON.stringify(enabled));
@@ -0,0 +1,77 @@
+import { atom } from 'nanostores';
+import { pricingKey, type ModelPricing, type SpendingLimits } from '~/lib/modules/llm/pricing';
+
+const SPENDING_LIMITS_KEY = 'bolt_spending_limits';
+const DAILY_SPEND_KEY = 'bolt_daily_spend';
+const PRICING_OVERRIDES_KEY = 'bolt_pricing_overrides';
+
+export const DEFAULT_SPENDING_LIMITS: SpendingLimits = { mode: 'warn' };
+
+interface DailySpend {
+  date: string;
+  total: number;
+}
+
+const isBrowser = typeof window !== 'undefined';
+
+function readStored<T>(key: string, fallback: T): T {
+  if (!isBrowser) {
+    return fallback;
+  }
+
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export const spendingLimitsStore = atom<SpendingLimits>({
+  ...DEFAULT_SPENDING_LIMITS,
+  ...readStored<Partial<SpendingLimits>>(SPENDING_LIMITS_KEY, {}),
+});
+
+export const dailySpendStore = atom<DailySpend>(readStored(DAILY_SPEND_KEY, { date: today(), total: 0 }));
+
+// prices for models the providers don't publish them for, keyed by `provider/model`
+export const pricingOverridesStore = atom<Record<string, ModelPricing>>(readStored(PRICING_OVERRIDES_KEY, {}));
+
+export const updateSpendingLimits = (limits: Partial<SpendingLimits>) => {
+  const updated = { ...spendingLimitsStore.get(), ...limits };
+
+  spendingLimitsStore.set(updated);
+  localStorage.setItem(SPENDING_LIMITS_KEY, JSON.stringify(updated));
+};
+
+export const resetSpendingLimits = () => {
+  spendingLimitsStore.set(DEFAULT_SPENDING_LIMITS);
+  localStorage.removeItem(SPENDING_LIMITS_KEY);
+};
+
+export const setPricingOverride = (provider: string, model: string, pricing: ModelPricing | undefined) => {
+  const overrides = { ...pricingOverridesStore.get() };
+
+  if (pricing) {
+    overrides[pricingKey(provider, model)] = pricing;
+  } else {
+    delete overrides[pricingKey(provider, model)];
+  }
+
+  pricingOverridesStore.set(overrides);
+  localStorage.setItem(PRICING_OVERRIDES_KEY, JSON.stringify(overrides));
+};
+
+export const getSpentToday = () => {
+  const spend = dailySpendStore.get();
+  return spend.date === today() ? spend.total : 0;
+};
+
+export const recordSpend = (cost: number) => {
+  const updated = { date: today(), total: getSpentToday() + cost };
+
+  dailySpendStore.set(updated);
+  localStorage.setItem(DAILY_SPEND_KEY, JSON.stringify(updated));
+};
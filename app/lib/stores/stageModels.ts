@@ -0,0 +1,42 @@
+import { atom } from 'nanostores';
+import type { ModelStage, StageModel, StageModels } from '~/lib/modules/llm/stage-models';
+
+const STAGE_MODELS_KEY = 'bolt_stage_models';
+
+const isBrowser = typeof window !== 'undefined';
+
+const getInitialStageModels = (): StageModels => {
+  if (!isBrowser) {
+    return {};
+  }
+
+  try {
+    const stored = localStorage.getItem(STAGE_MODELS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const stageModelsStore = atom<StageModels>(getInitialStageModels());
+
+/**
+ * Assign a model to a stage, or go back to the default of the stage.
+ * @param stage The stage to assign the model to
+ * @param model The provider and model, `undefined` for the default
+ */
+export const setStageModel = (stage: ModelStage, model: StageModel | undefined) => {
+  const updated = { ...stageModelsStore.get(), [stage]: model };
+
+  if (!model) {
+    delete updated[stage];
+  }
+
+  stageModelsStore.set(updated);
+  localStorage.setItem(STAGE_MODELS_KEY, JSON.stringify(updated));
+};
+
+export const resetStageModels = () => {
+  stageModelsStore.set({});
+  localStorage.removeItem(STAGE_MODELS_KEY);
+};
@@ -9,12 +9,14 @@ import { EditorStore } from './editor';
 import { FilesStore, type FileMap } from './files';
 import { PreviewsStore } from './previews';
 import { TerminalStore } from './terminal';
+import { getUnapprovedStatus, PlanStore, type PendingChangeStatus } from './plan';
+import { checkCommand } from './commandPolicy';
 import JSZip from 'jszip';
 import fileSaver from 'file-saver';
 import { Octokit, type RestEndpointMethodTypes } from '@octokit/rest';
 import { path } from '~/utils/path';
 import { extractRelativePath } from '~/utils/diff';
-import { description } from '~/lib/persistence';
+import { chatMetadata, description, recordPendingChangeStatus } from '~/lib/persistence';
 import Cookies from 'js-cookie';
 import { createSampler } from '~/utils/sampler';
 import type { ActionAlert, DeployAlert, SupabaseAlert } from '~/types/actions';
@@ -40,6 +42,7 @@ export class WorkbenchStore {
   #filesStore = new FilesStore(webcontainer);
   #editorStore = new EditorStore(this.#filesStore);
   #terminalStore = new TerminalStore(webcontainer);
+  #planStore = new PlanStore(recordPendingChangeStatus);
 
   #reloadedMessages = new Set<string>();
 
@@ -87,6 +90,14 @@ export class WorkbenchStore {
     return this.#previewsStore.previews;
   }
 
+  get planMode() {
+    return this.#planStore.enabled;
+  }
+
+  get pendingChanges() {
+    return this.#planStore.changes;
+  }
+
   get files() {
     return this.#filesStore.files;
   }
@@ -343,6 +354,35 @@ export class WorkbenchStore {
     return this.#filesStore.isFolderLocked(folderPath);
   }
 
+  /**
+   * Check if a path is locked, either directly, through a locked parent folder
+   * or, for folders, because something inside it is locked
+   * @param targetPath Path to the file or folder to check
+   * @returns True if the path must not be modified
+   */
+  isPathLocked(targetPath: string) {
+    const files = this.files.get();
+    const dirent = files[targetPath];
+
+    if (dirent?.type === 'file') {
+      return this.isFileLocked(targetPath).locked;
+    }
+
+    if (dirent?.type === 'folder') {
+      if (this.isFolderLocked(targetPath).isLocked) {
+        return true;
+      }
+
+      const folderPrefix = `${targetPath}/`;
+
+      if (Object.entries(files).some(([path, entry]) => path.startsWith(folderPrefix) && entry?.isLocked)) {
+        return true;
+      }
+    }
+
+    return this.#filesStore.isFileInLockedFolder(targetPath).locked;
+  }
+
   async createFile(filePath: string, content: string | Uint8Array = '') {
     try {
       const success = await this.#filesStore.createFile(filePath, content);
@@ -457,6 +497,126 @@ export class WorkbenchStore {
     }
   }
 
+  async renameFile(oldPath: string, newPath: string) {
+    try {
+      const currentFilePath = this.currentDocument.get()?.filePath;
+
+      const success = await this.#filesStore.renameFile(oldPath, newPath);
+
+      if (success) {
+        const movePath = (filePath: string) =>
+          filePath === oldPath || filePath.startsWith(oldPath + '/')
+            ? newPath + filePath.slice(oldPath.length)
+            : filePath;
+
+        const unsavedFiles = this.unsavedFiles.get();
+
+        if (unsavedFiles.size > 0) {
+          this.unsavedFiles.set(new Set([...unsavedFiles].map(movePath)));
+        }
+
+        if (currentFilePath && movePath(currentFilePath) !== currentFilePath) {
+          this.setSelectedFile(movePath(currentFilePath));
+        }
+      }
+
+      return success;
+    } catch (error) {
+      console.error('Failed to rename file:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore every file touched by an artifact to its state before the artifact ran
+   * @param messageId ID of the message the artifact belongs to
+   */
+  async rollbackArtifact(messageId: string) {
+    const artifact = this.#getArtifact(messageId);
+
+    if (!artifact) {
+      unreachable('Artifact not found');
+    }
+
+    await artifact.runner.rollback();
+    this.resetAllFileModifications();
+  }
+
+  /**
+   * Load the plan mode setting of a chat
+   * @param chatId ID of the chat, undefined for a new chat
+   */
+  setPlanModeChat(chatId: string | undefined) {
+    this.#planStore.setChatId(chatId);
+  }
+
+  /**
+   * Toggle plan mode. While it's enabled actions are staged for review instead of being executed
+   * @param enabled Whether actions should be staged
+   */
+  setPlanMode(enabled: boolean) {
+    this.#planStore.setEnabled(enabled);
+  }
+
+  editPendingChange(id: string, content: string) {
+    this.#planStore.edit(id, content);
+  }
+
+  /**
+   * Approve a staged action and hand it to its artifact's runner
+   * @param id ID of the pending change
+   */
+  approvePendingChange(id: string) {
+    const change = this.#planStore.get(id);
+
+    if (!change || change.status !== 'pending') {
+      return;
+    }
+
+    this.#planStore.setStatus(id, 'approved');
+    this.addToExecutionQueue(() => this._runAction(change.data));
+  }
+
+  /**
+   * Reject a staged action, it is marked as aborted and never executed
+   * @param id ID of the pending change
+   */
+  rejectPendingChange(id: string) {
+    const change = this.#planStore.get(id);
+
+    if (!change || change.status !== 'pending') {
+      return;
+    }
+
+    this.#planStore.setStatus(id, 'rejected');
+
+    const artifact = this.#getArtifact(change.data.messageId);
+    artifact?.runner.actions.get()[change.data.actionId]?.abort();
+  }
+
+  #restorePendingChange(data: ActionCallbackData, status: PendingChangeStatus) {
+    this.#planStore.restore(data, status);
+
+    if (status === 'rejected') {
+      // the action is added to its runner in the queue as well
+      this.addToExecutionQueue(async () => {
+        this.#getArtifact(data.messageId)?.runner.actions.get()[data.actionId]?.abort();
+      });
+    }
+  }
+
+  approveAllPendingChanges() {
+    for (const change of Object.values(this.#planStore.changes.get())) {
+      this.approvePendingChange(change.id);
+    }
+  }
+
+  rejectAllPendingChanges() {
+    for (const change of Object.values(this.#planStore.changes.get())) {
+      this.rejectPendingChange(change.id);
+    }
+  }
+
   abortAllActions() {
     // TODO: what do we wanna do and how do we wanna recover from this?
   }
@@ -513,6 +673,16 @@ export class WorkbenchStore {
             this.currentView.set('preview');
           }
         },
+        {
+          isLocked: (targetPath) => this.isPathLocked(targetPath),
+          isFolder: (targetPath) => this.files.get()[targetPath]?.type === 'folder',
+          createFolder: (folderPath) => this.createFolder(folderPath),
+          deleteFile: (filePath) => this.deleteFile(filePath),
+          deleteFolder: (folderPath) => this.deleteFolder(folderPath),
+          renameFile: (oldPath, newPath) => this.renameFile(oldPath, newPath),
+          restorePath: (targetPath) => this.#filesStore.restoreDeletedPath(targetPath),
+        },
+        checkCommand,
       ),
     });
   }
@@ -544,6 +714,26 @@ export class WorkbenchStore {
   }
 
   runAction(data: ActionCallbackData, isStreaming: boolean = false) {
+    if (this.#reloadedMessages.has(data.messageId)) {
+      // restored chats replay as usual, except for changes of plan mode that were never approved
+      const status = getUnapprovedStatus(data, chatMetadata.get()?.plan);
+
+      if (status) {
+        if (!isStreaming) {
+          this.#restorePendingChange(data, status);
+        }
+
+        return;
+      }
+    } else if (this.#planStore.enabled.get()) {
+      // in plan mode nothing touches the webcontainer until the change is approved
+      if (!isStreaming) {
+        this.#planStore.stage(data);
+      }
+
+      return;
+    }
+
     if (isStreaming) {
       this.actionStreamSampler(data, isStreaming);
     } else {
@@ -591,16 +781,29 @@ export class WorkbenchStore {
 
       this.#editorStore.updateFile(fullPath, data.action.content);
 
-      if (!isStreaming && data.action.content) {
-        await this.saveFile(fullPath);
+      if (!isStreaming) {
+        /*
+         * the runner schedules actions by their dependencies, so we don't wait for the write here
+         * and let the execution queue move on to independent actions
+         */
+        artifact.runner.runAction(data).then(() => this.resetAllFileModifications());
       }
+    } else if (data.action.type === 'patch') {
+      const wc = await webcontainer;
+      const fullPath = path.join(wc.workdir, data.action.filePath);
 
-      if (!isStreaming) {
-        await artifact.runner.runAction(data);
-        this.resetAllFileModifications();
+      if (this.selectedFile.value !== fullPath) {
+        this.setSelectedFile(fullPath);
+      }
+
+      if (this.currentView.value !== 'code') {
+        this.currentView.set('code');
       }
+
+      // the runner patches the file in the webcontainer, the watcher then syncs the editor
+      artifact.runner.runAction(data).then(() => this.resetAllFileModifications());
     } else {
-      await artifact.runner.runAction(data);
+      artifact.runner.runAction(data);
     }
   }
 
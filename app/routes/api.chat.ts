@@ -1,20 +1,50 @@
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
 import { createDataStream, generateId } from 'ai';
-import { MAX_RESPONSE_SEGMENTS, MAX_TOKENS, type FileMap } from '~/lib/.server/llm/constants';
-import { CONTINUE_PROMPT } from '~/lib/common/prompts/prompts';
+import { MAX_TOKENS, type FileMap } from '~/lib/.server/llm/constants';
 import { streamText, type Messages, type StreamingOptions } from '~/lib/.server/llm/stream-text';
-import SwitchableStream from '~/lib/.server/llm/switchable-stream';
 import type { IProviderSetting } from '~/types/model';
 import { createScopedLogger } from '~/utils/logger';
 import { getFilePaths, selectContext } from '~/lib/.server/llm/select-context';
-import type { ContextAnnotation, ProgressAnnotation } from '~/types/context';
-import { WORK_DIR } from '~/utils/constants';
+import { selectLocalContext } from '~/lib/.server/llm/local-context';
+import { isFailoverError, mergeWithFailover } from '~/lib/.server/llm/stream-failover';
+import { createContinuationPrompt, resolveSegmentLimit, seamTransform } from '~/lib/.server/llm/response-segments';
+import { fallbackManager } from '~/lib/.server/llm/fallback-manager';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import type {
+  ContextAnnotation,
+  ContextSelectionMode,
+  ContextSelector,
+  ProgressAnnotation,
+  ProviderSwitchAnnotation,
+  SpendingWarningAnnotation,
+  StageUsage,
+  TokenBudgetAnnotation,
+} from '~/types/context';
+import { PROVIDER_LIST, WORK_DIR } from '~/utils/constants';
 import { createSummary } from '~/lib/.server/llm/create-summary';
 import { chatRateLimiter, createRateLimitResponse } from '~/lib/.server/rate-limiter';
 import { extractPropertiesFromMessage } from '~/lib/.server/llm/utils';
 import type { DesignScheme } from '~/types/design-scheme';
 import { MCPService } from '~/lib/services/mcpService';
 import { errorHandler } from '~/lib/utils/errorHandler';
+import { ARTIFACT_TOOLS_MIN_STEPS, artifactTools } from '~/lib/.server/llm/artifact-tools';
+import { countMessageTokens, countTokens, getTokenizerFamily } from '~/lib/.server/llm/tokenizer';
+import type { TokenBudget } from '~/lib/.server/llm/token-budget';
+import type { PromptCacheUsage } from '~/lib/modules/llm/prompt-cache';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+import type { ReasoningSettings } from '~/lib/modules/llm/reasoning';
+import type { CustomPrompt } from '~/lib/common/custom-prompts';
+import { findProjectRules } from '~/lib/common/project-rules';
+import {
+  calculateCost,
+  checkSpending,
+  checkSpentLimits,
+  estimateRequestCost,
+  pricingKey,
+  type ModelPricing,
+  type SpendingState,
+} from '~/lib/modules/llm/pricing';
+import { resolveStageModel, type ModelStage, type StageModel, type StageModels } from '~/lib/modules/llm/stage-models';
 
 export async function action(args: ActionFunctionArgs) {
   return chatAction(args);
@@ -51,24 +81,70 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
 
   logger.debug(`Rate limit check passed. Remaining: ${rateLimitResult.remaining}`);
 
-  const { messages, files, promptId, contextOptimization, supabase, chatMode, designScheme, maxLLMSteps } =
-    await request.json<{
-      messages: Messages;
-      files: any;
-      promptId?: string;
-      contextOptimization: boolean;
-      chatMode: 'discuss' | 'build';
-      designScheme?: DesignScheme;
-      supabase?: {
-        isConnected: boolean;
-        hasSelectedProject: boolean;
-        credentials?: {
-          anonKey?: string;
-          supabaseUrl?: string;
-        };
+  const {
+    messages,
+    files,
+    promptId,
+    customPrompt,
+    contextOptimization,
+    supabase,
+    chatMode,
+    designScheme,
+    maxLLMSteps,
+    toolCalling,
+    spending,
+    pricing,
+    stageModels,
+    contextSelection,
+    contextEmbeddingModel,
+    fallbackChain,
+    segmentLimits,
+    reasoningSettings,
+  } = await request.json<{
+    messages: Messages;
+    files: any;
+    promptId?: string;
+
+    /** the custom prompt `promptId` refers to, the custom prompts are stored in the browser */
+    customPrompt?: CustomPrompt;
+    contextOptimization: boolean;
+    chatMode: 'discuss' | 'build';
+    designScheme?: DesignScheme;
+    supabase?: {
+      isConnected: boolean;
+      hasSelectedProject: boolean;
+      credentials?: {
+        anonKey?: string;
+        supabaseUrl?: string;
       };
-      maxLLMSteps: number;
-    }>();
+    };
+    maxLLMSteps: number;
+    toolCalling?: boolean;
+
+    /** spending limits and what has been spent so far, checked before the model is called */
+    spending?: SpendingState;
+
+    /** user set prices by `pricingKey`, take precedence over the prices of the model info */
+    pricing?: Record<string, ModelPricing>;
+
+    /** models the user assigned to the summary, context selection and coder stages */
+    stageModels?: StageModels;
+
+    /** how the context files are selected, by a model call or from a local index of the project */
+    contextSelection?: ContextSelectionMode;
+
+    /** Ollama model that reranks the files of the local index, BM25 only if not set */
+    contextEmbeddingModel?: string;
+
+    /** models the coder fails over to, in order, when its provider is rate limited or down while streaming */
+    fallbackChain?: StageModel[];
+
+    /** user set segment limits of responses that hit the output limit, by `pricingKey` */
+    segmentLimits?: Record<string, number>;
+
+    /** user set reasoning effort or budget of reasoning models, by `pricingKey` */
+    reasoningSettings?: Record<string, ReasoningSettings>;
+  }>();
 
   const cookieHeader = request.headers.get('Cookie');
   const apiKeys = JSON.parse(parseCookies(cookieHeader || '').apiKeys || '{}');
@@ -76,22 +152,24 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
     parseCookies(cookieHeader || '').providers || '{}',
   );
 
-  const stream = new SwitchableStream();
-
   const cumulativeUsage = {
     completionTokens: 0,
     promptTokens: 0,
     totalTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    reasoningTokens: 0,
   };
   const encoder: TextEncoder = new TextEncoder();
   let progressCounter: number = 1;
 
+  // aborted when the user stops the response, it stops the tools and every call to the providers of this request
+  const abortSignal = request.signal;
+
   try {
     const mcpService = MCPService.getInstance();
-    const totalMessageContent = messages.reduce((acc, message) => acc + message.content, '');
-    logger.debug(`Total message length: ${totalMessageContent.split(' ').length}, words`);
-
-    let lastChunk: string | undefined = undefined;
+    const totalMessageTokens = messages.reduce((acc, message) => acc + countMessageTokens(message), 0);
+    logger.debug(`Total message length: ~${totalMessageTokens} tokens`);
 
     const dataStream = createDataStream({
       async execute(dataStream) {
@@ -100,7 +178,67 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
         let summary: string | undefined = undefined;
         let messageSliceId = 0;
 
-        const processedMessages = await mcpService.processToolInvocations(messages, dataStream);
+        // the summary and the context selection are paid calls too, a limit reached already refuses the request first
+        if (spending?.limits.mode === 'block') {
+          const spent = checkSpentLimits(spending);
+
+          if (spent.exceeded) {
+            throw new Error(`Spending limit reached: ${spent.message}`);
+          }
+        }
+
+        const processedMessages = await mcpService.processToolInvocations(messages, dataStream, abortSignal);
+
+        const selected = extractPropertiesFromMessage(processedMessages.filter((x) => x.role == 'user').slice(-1)[0]);
+        const selectedModel = { provider: selected.provider, model: selected.model };
+        const models: Partial<Record<ModelStage, StageModel>> = {
+          summary: resolveStageModel('summary', stageModels, selectedModel),
+          contextSelection: resolveStageModel('contextSelection', stageModels, selectedModel),
+          coder: resolveStageModel('coder', stageModels, selectedModel),
+        };
+
+        // usage and prices of every stage, the prices of the coder are known once its model has been resolved
+        const stageUsage: Partial<Record<ModelStage, Omit<StageUsage, 'cost'>>> = {};
+        const stagePricing: Partial<Record<ModelStage, ModelPricing>> = {};
+
+        const findPricing = (model: StageModel, info?: ModelInfo) =>
+          pricing?.[pricingKey(model.provider, model.model)] ??
+          info?.pricing ??
+          PROVIDER_LIST.find((p) => p.name === model.provider)?.staticModels.find((m) => m.name === model.model)
+            ?.pricing;
+
+        const recordUsage = (
+          stage: ModelStage,
+          usage: { promptTokens?: number; completionTokens?: number; totalTokens?: number; reasoningTokens?: number },
+        ) => {
+          cumulativeUsage.completionTokens += usage.completionTokens || 0;
+          cumulativeUsage.promptTokens += usage.promptTokens || 0;
+          cumulativeUsage.totalTokens += usage.totalTokens || 0;
+          cumulativeUsage.reasoningTokens += usage.reasoningTokens || 0;
+
+          const current = stageUsage[stage] ?? {
+            ...models[stage]!,
+            completionTokens: 0,
+            promptTokens: 0,
+            totalTokens: 0,
+            cacheReadTokens: 0,
+            cacheWriteTokens: 0,
+            reasoningTokens: 0,
+          };
+
+          current.completionTokens += usage.completionTokens || 0;
+          current.promptTokens += usage.promptTokens || 0;
+          current.totalTokens += usage.totalTokens || 0;
+          current.reasoningTokens += usage.reasoningTokens || 0;
+          stageUsage[stage] = current;
+          stagePricing[stage] ??= findPricing(models[stage]!);
+        };
+
+        const spentInRequest = () =>
+          Object.entries(stageUsage).reduce((total, [stage, usage]) => {
+            const stagePrices = stagePricing[stage as ModelStage];
+            return stagePrices ? total + calculateCost(usage, stagePrices) : total;
+          }, 0);
 
         if (processedMessages.length > 3) {
           messageSliceId = processedMessages.length - 3;
@@ -129,11 +267,11 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             onFinish(resp) {
               if (resp.usage) {
                 logger.debug('createSummary token usage', JSON.stringify(resp.usage));
-                cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
-                cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
-                cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
+                recordUsage('summary', resp.usage);
               }
             },
+            model: models.summary,
+            abortSignal,
           });
           dataStream.writeData({
             type: 'progress',
@@ -161,24 +299,50 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
 
           // Select context files
           console.log(`Messages count: ${processedMessages.length}`);
-          filteredFiles = await selectContext({
-            messages: [...processedMessages],
-            env: context.cloudflare?.env,
-            apiKeys,
-            files,
-            providerSettings,
-            promptId,
-            contextOptimization,
-            summary,
-            onFinish(resp) {
-              if (resp.usage) {
-                logger.debug('selectContext token usage', JSON.stringify(resp.usage));
-                cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
-                cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
-                cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
-              }
-            },
-          });
+
+          let contextSelector: ContextSelector = 'llm';
+
+          if (contextSelection === 'local') {
+            const ollamaBaseUrl = LLMManager.getInstance()
+              .getProvider('Ollama')
+              ?.getProviderBaseUrlAndKey({
+                providerSettings: providerSettings?.Ollama,
+                serverEnv: context.cloudflare?.env as any,
+                defaultBaseUrlKey: 'OLLAMA_API_BASE_URL',
+                defaultApiTokenKey: '',
+              }).baseUrl;
+            const localContext = await selectLocalContext({
+              messages: [...processedMessages],
+              files,
+              summary,
+              embeddings:
+                contextEmbeddingModel && ollamaBaseUrl
+                  ? { baseUrl: ollamaBaseUrl, model: contextEmbeddingModel, abortSignal }
+                  : undefined,
+            });
+
+            filteredFiles = localContext.files;
+            contextSelector = localContext.selector;
+          } else {
+            filteredFiles = await selectContext({
+              messages: [...processedMessages],
+              env: context.cloudflare?.env,
+              apiKeys,
+              files,
+              providerSettings,
+              promptId,
+              contextOptimization,
+              summary,
+              onFinish(resp) {
+                if (resp.usage) {
+                  logger.debug('selectContext token usage', JSON.stringify(resp.usage));
+                  recordUsage('contextSelection', resp.usage);
+                }
+              },
+              model: models.contextSelection,
+              abortSignal,
+            });
+          }
 
           if (filteredFiles) {
             logger.debug(`files in context : ${JSON.stringify(Object.keys(filteredFiles))}`);
@@ -195,6 +359,7 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
 
               return path;
             }),
+            selector: contextSelector,
           } as ContextAnnotation);
 
           dataStream.writeData({
@@ -208,98 +373,252 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
           // logger.debug('Code Files Selected');
         }
 
-        const options: StreamingOptions = {
-          supabaseConnection: supabase,
-          toolChoice: 'auto',
-          tools: mcpService.toolsWithoutExecute,
-          maxSteps: maxLLMSteps,
-          onStepFinish: ({ toolCalls }) => {
-            // add tool call annotations for frontend processing
-            toolCalls.forEach((toolCall) => {
-              mcpService.processToolCall(toolCall, dataStream);
-            });
-          },
-          onFinish: async ({ text: content, finishReason, usage }) => {
-            logger.debug('usage', JSON.stringify(usage));
-
-            if (usage) {
-              cumulativeUsage.completionTokens += usage.completionTokens || 0;
-              cumulativeUsage.promptTokens += usage.promptTokens || 0;
-              cumulativeUsage.totalTokens += usage.totalTokens || 0;
-            }
-
-            if (finishReason !== 'length') {
-              dataStream.writeMessageAnnotation({
-                type: 'usage',
-                value: {
-                  completionTokens: cumulativeUsage.completionTokens,
-                  promptTokens: cumulativeUsage.promptTokens,
-                  totalTokens: cumulativeUsage.totalTokens,
-                },
-              });
-              dataStream.writeData({
-                type: 'progress',
-                label: 'response',
-                status: 'complete',
-                order: progressCounter++,
-                message: 'Response Generated',
-              } satisfies ProgressAnnotation);
-              await new Promise((resolve) => setTimeout(resolve, 0));
-
-              // stream.close();
-              return;
-            }
+        // the rules files `streamText` adds to the system prompt, shown with the context of the response
+        const projectRules = findProjectRules(files);
 
-            if (stream.switches >= MAX_RESPONSE_SEGMENTS) {
-              throw Error('Cannot continue message: Maximum segments reached');
-            }
+        if (projectRules.length > 0) {
+          dataStream.writeMessageAnnotation({
+            type: 'projectRules',
+            files: projectRules.map((rule) => rule.path),
+          } satisfies ContextAnnotation);
+        }
 
-            const switchesLeft = MAX_RESPONSE_SEGMENTS - stream.switches;
+        // the model info of the coder decides how many segments the response may have
+        let coderInfo: ModelInfo | undefined = undefined;
 
-            logger.info(`Reached max token limit (${MAX_TOKENS}): Continuing message (${switchesLeft} switches left)`);
+        const onTokenBudget = (budget: TokenBudget, model: ModelInfo) => {
+          dataStream.writeMessageAnnotation({
+            type: 'tokenBudget',
+            ...budget,
+            droppedFiles: budget.droppedFiles.map((path) => path.replace(WORK_DIR, '')),
+          } satisfies TokenBudgetAnnotation);
 
-            const lastUserMessage = processedMessages.filter((x) => x.role == 'user').slice(-1)[0];
-            const { model, provider } = extractPropertiesFromMessage(lastUserMessage);
-            processedMessages.push({ id: generateId(), role: 'assistant', content });
-            processedMessages.push({
-              id: generateId(),
-              role: 'user',
-              content: `[Model: ${model}]\n\n[Provider: ${provider}]\n\n${CONTINUE_PROMPT}`,
-            });
+          // the coder falls back to another model if the assigned one is not available
+          models.coder = { provider: model.provider, model: model.name };
+          coderInfo = model;
+          stagePricing.coder = findPricing(models.coder, model);
 
-            const result = await streamText({
-              messages: [...processedMessages],
-              env: context.cloudflare?.env,
-              options,
-              apiKeys,
-              files,
-              providerSettings,
-              promptId,
-              contextOptimization,
-              contextFiles: filteredFiles,
-              chatMode,
-              designScheme,
-              summary,
-              messageSliceId,
-            });
+          const coderPricing = stagePricing.coder;
 
-            result.mergeIntoDataStream(dataStream);
+          if (!spending || !coderPricing) {
+            return;
+          }
 
-            (async () => {
-              for await (const part of result.fullStream) {
-                if (part.type === 'error') {
-                  const error: any = part.error;
-                  logger.error(`${error}`);
+          // earlier stages and segments of this request are not part of the spending the client sent
+          const estimate = estimateRequestCost(budget.total, coderPricing) + spentInRequest();
+          const check = checkSpending(estimate, spending);
 
-                  return;
-                }
+          if (!check.exceeded) {
+            return;
+          }
+
+          if (spending.limits.mode === 'block') {
+            throw new Error(`Spending limit reached: ${check.message}`);
+          }
+
+          logger.warn(`Spending limit: ${check.message}`);
+          dataStream.writeMessageAnnotation({
+            type: 'spendingWarning',
+            message: check.message!,
+          } satisfies SpendingWarningAnnotation);
+        };
+
+        const onPromptCacheUsage = (usage: PromptCacheUsage) => {
+          cumulativeUsage.cacheReadTokens += usage.cacheReadTokens;
+          cumulativeUsage.cacheWriteTokens += usage.cacheWriteTokens;
+
+          recordUsage('coder', {});
+
+          const coderUsage = stageUsage.coder!;
+          coderUsage.cacheReadTokens += usage.cacheReadTokens;
+          coderUsage.cacheWriteTokens += usage.cacheWriteTokens;
+        };
+
+        // artifact actions become tool calls, every file write takes a step
+        const useArtifactTools = toolCalling && chatMode === 'build';
+
+        // the response streamed in the segments and attempts before the current one
+        let responseText = '';
+        let segments = 1;
+
+        const continueResponse = (model: StageModel, text: string) => {
+          responseText += text;
+          processedMessages.push({ id: generateId(), role: 'assistant', content: text });
+          processedMessages.push({
+            id: generateId(),
+            role: 'user',
+            content: `[Model: ${model.model}]\n\n[Provider: ${model.provider}]\n\n${createContinuationPrompt(responseText)}`,
+          });
+        };
+
+        /*
+         * the options of one attempt of the coder, an attempt that fails over is continued by the next model of the
+         * fallback chain, which finishes the response. A provider that rejects the call never reaches `onFinish`, so
+         * every attempt has a flag of its own
+         */
+        const createCoderOptions = (): StreamingOptions => {
+          let failingOver = false;
+
+          return {
+            supabaseConnection: supabase,
+            toolCalling: useArtifactTools,
+            toolChoice: 'auto',
+            tools: useArtifactTools
+              ? { ...mcpService.toolsWithoutExecute, ...artifactTools }
+              : mcpService.toolsWithoutExecute,
+            maxSteps: useArtifactTools ? Math.max(maxLLMSteps, ARTIFACT_TOOLS_MIN_STEPS) : maxLLMSteps,
+
+            // continuations and failovers stream with the same signal, so they stop too
+            abortSignal,
+            onStepFinish: ({ toolCalls }) => {
+              // add tool call annotations for frontend processing
+              toolCalls.forEach((toolCall) => {
+                mcpService.processToolCall(toolCall, dataStream);
+              });
+            },
+            onError: ({ error }) => {
+              logger.error(`${error}`);
+
+              if (fallbackChain?.length && isFailoverError(error)) {
+                failingOver = true;
+              }
+            },
+            onFinish: async ({ text: content, reasoning, finishReason, usage, providerMetadata }) => {
+              if (failingOver) {
+                failingOver = false;
+                return;
               }
-            })();
 
-            return;
-          },
+              logger.debug('usage', JSON.stringify(usage));
+
+              if (usage) {
+                // OpenAI reports its reasoning tokens, of the other providers only the reasoning text is known
+                const reportedReasoningTokens = providerMetadata?.openai?.reasoningTokens;
+                const reasoningTokens =
+                  typeof reportedReasoningTokens === 'number'
+                    ? reportedReasoningTokens
+                    : countTokens(reasoning ?? '', getTokenizerFamily(models.coder!.provider, models.coder!.model));
+
+                recordUsage('coder', { ...usage, reasoningTokens });
+              }
+
+              if (finishReason !== 'length') {
+                const stages = Object.fromEntries(
+                  Object.entries(stageUsage).map(([stage, stageValue]) => {
+                    const stagePrices = stagePricing[stage as ModelStage];
+                    return [
+                      stage,
+                      stagePrices ? { ...stageValue, cost: calculateCost(stageValue, stagePrices) } : stageValue,
+                    ];
+                  }),
+                );
+
+                dataStream.writeMessageAnnotation({
+                  type: 'usage',
+                  value: {
+                    completionTokens: cumulativeUsage.completionTokens,
+                    promptTokens: cumulativeUsage.promptTokens,
+                    totalTokens: cumulativeUsage.totalTokens,
+                    cacheReadTokens: cumulativeUsage.cacheReadTokens,
+                    cacheWriteTokens: cumulativeUsage.cacheWriteTokens,
+                    reasoningTokens: cumulativeUsage.reasoningTokens,
+                    ...(Object.values(stagePricing).some(Boolean) && { cost: spentInRequest() }),
+                    stages,
+                  },
+                });
+                dataStream.writeData({
+                  type: 'progress',
+                  label: 'response',
+                  status: 'complete',
+                  order: progressCounter++,
+                  message: 'Response Generated',
+                } satisfies ProgressAnnotation);
+                await new Promise((resolve) => setTimeout(resolve, 0));
+
+                // stream.close();
+                return;
+              }
+
+              const segmentLimit = resolveSegmentLimit(models.coder!, coderInfo, segmentLimits);
+
+              if (segments >= segmentLimit) {
+                throw Error('Cannot continue message: Maximum segments reached');
+              }
+
+              segments++;
+              logger.info(
+                `Reached max token limit (${MAX_TOKENS}): Continuing message (segment ${segments} of ${segmentLimit})`,
+              );
+
+              continueResponse(models.coder!, content);
+              mergeCoder(await streamCoder());
+
+              return;
+            },
+          };
+        };
+
+        // continuations leave out what they repeat of the response, so the client sees one seamless response
+        const streamCoder = () => {
+          const options = createCoderOptions();
+
+          return streamText({
+            messages: [...processedMessages],
+            env: context.cloudflare?.env,
+            options: responseText ? { ...options, experimental_transform: seamTransform(responseText) } : options,
+            apiKeys,
+            files,
+            providerSettings,
+            promptId,
+            customPrompt,
+            contextOptimization,
+            contextFiles: filteredFiles,
+            chatMode,
+            designScheme,
+            summary,
+            messageSliceId,
+            onTokenBudget,
+            onPromptCacheUsage,
+            model: models.coder,
+            reasoning: reasoningSettings?.[pricingKey(models.coder!.provider, models.coder!.model)],
+          });
         };
 
+        const mergeCoder = (result: Awaited<ReturnType<typeof streamText>>) =>
+          mergeWithFailover(dataStream, result, {
+            model: models.coder!,
+            chain: fallbackChain ?? [],
+            async restart(model, partialText) {
+              // the next model continues the response like the next segment of a long one
+              if (partialText) {
+                continueResponse(model, partialText);
+              }
+
+              models.coder = model;
+
+              return streamCoder();
+            },
+            isAvailable: (model) =>
+              fallbackManager.isProviderHealthy(model.provider, {
+                apiKeys,
+                providerSettings,
+                serverEnv: context.cloudflare?.env,
+              }),
+            onSwitch(event) {
+              dataStream.writeData({
+                type: 'providerSwitch',
+                status: event.status,
+                fromProvider: event.from.provider,
+                fromModel: event.from.model,
+                toProvider: event.to.provider,
+                toModel: event.to.model,
+                attempt: event.attempt,
+                maxAttempts: event.maxAttempts,
+                reason: event.reason,
+              } satisfies ProviderSwitchAnnotation);
+            },
+          });
+
         dataStream.writeData({
           type: 'progress',
           label: 'response',
@@ -308,68 +627,14 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
           message: 'Generating Response',
         } satisfies ProgressAnnotation);
 
-        const result = await streamText({
-          messages: [...processedMessages],
-          env: context.cloudflare?.env,
-          options,
-          apiKeys,
-          files,
-          providerSettings,
-          promptId,
-          contextOptimization,
-          contextFiles: filteredFiles,
-          chatMode,
-          designScheme,
-          summary,
-          messageSliceId,
-        });
-
-        (async () => {
-          for await (const part of result.fullStream) {
-            if (part.type === 'error') {
-              const error: any = part.error;
-              logger.error(`${error}`);
-
-              return;
-            }
-          }
-        })();
-        result.mergeIntoDataStream(dataStream);
+        mergeCoder(await streamCoder());
       },
       onError: (error: any) => `Custom error: ${error.message}`,
     }).pipeThrough(
       new TransformStream({
         transform: (chunk, controller) => {
-          if (!lastChunk) {
-            lastChunk = ' ';
-          }
-
-          if (typeof chunk === 'string') {
-            if (chunk.startsWith('g') && !lastChunk.startsWith('g')) {
-              controller.enqueue(encoder.encode(`0: "<div class=\\"__boltThought__\\">"\n`));
-            }
-
-            if (lastChunk.startsWith('g') && !chunk.startsWith('g')) {
-              controller.enqueue(encoder.encode(`0: "</div>\\n"\n`));
-            }
-          }
-
-          lastChunk = chunk;
-
-          let transformedChunk = chunk;
-
-          if (typeof chunk === 'string' && chunk.startsWith('g')) {
-            let content = chunk.split(':').slice(1).join(':');
-
-            if (content.endsWith('\n')) {
-              content = content.slice(0, content.length - 1);
-            }
-
-            transformedChunk = `0:${content}\n`;
-          }
-
           // Convert the string stream to a byte stream
-          const str = typeof transformedChunk === 'string' ? transformedChunk : JSON.stringify(transformedChunk);
+          const str = typeof chunk === 'string' ? chunk : JSON.stringify(chunk);
           controller.enqueue(encoder.encode(str));
         },
       }),
@@ -10,6 +10,7 @@ import { getApiKeysFromCookie, getProviderSettingsFromCookie } from '~/lib/api/c
 import { createScopedLogger } from '~/utils/logger';
 import { llmCallRateLimiter, createRateLimitResponse } from '~/lib/.server/rate-limiter';
 import { errorHandler } from '~/lib/utils/errorHandler';
+import { withReplay } from '~/lib/.server/llm/replay-provider';
 
 export async function action(args: ActionFunctionArgs) {
   return llmCallAction(args);
@@ -155,7 +156,7 @@ async function llmCallAction({ context, request }: ActionFunctionArgs) {
             content: `${message}`,
           },
         ],
-        model: providerInfo.getModelInstance({
+        model: withReplay(providerInfo, context.cloudflare?.env).getModelInstance({
           model: modelDetails.name,
           serverEnv: context.cloudflare?.env as any,
           apiKeys,
@@ -0,0 +1,108 @@
+import { json, type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { generateId, generateText, streamText } from 'ai';
+import { getApiKeysFromCookie, getProviderSettingsFromCookie } from '~/lib/api/cookies';
+import {
+  checkGatewayToken,
+  checkServerKeyAccess,
+  createCompletion,
+  createCompletionStream,
+  createErrorResponse,
+  GatewayError,
+  resolveGatewayModel,
+  toCallSettings,
+  toCoreMessages,
+  toGatewayModelId,
+  type ChatCompletionRequest,
+} from '~/lib/.server/llm/openai-gateway';
+import { withReplay } from '~/lib/.server/llm/replay-provider';
+import { createRateLimitResponse, gatewayRateLimiter } from '~/lib/.server/rate-limiter';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import { errorHandler } from '~/lib/utils/errorHandler';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('api.gateway');
+
+export async function action({ context, request }: ActionFunctionArgs) {
+  const rateLimitResult = gatewayRateLimiter.checkLimit(request);
+
+  if (!rateLimitResult.allowed) {
+    logger.warn(`Rate limit exceeded for gateway request`);
+    return createRateLimitResponse(rateLimitResult.resetTime!);
+  }
+
+  const serverEnv = context.cloudflare?.env as unknown as Record<string, string>;
+  let providerName: string | undefined;
+
+  try {
+    checkGatewayToken(request, serverEnv);
+
+    const body = await request.json<ChatCompletionRequest>().catch(() => {
+      throw new GatewayError('The body must be a JSON chat completion request', 400);
+    });
+    const messages = toCoreMessages(body.messages);
+
+    // the keys of the browser if the request comes with its cookies, the server env otherwise
+    const cookieHeader = request.headers.get('Cookie');
+    const apiKeys = getApiKeysFromCookie(cookieHeader);
+    const providerSettings = getProviderSettingsFromCookie(cookieHeader);
+
+    const { provider, model } = await resolveGatewayModel(LLMManager.getInstance(serverEnv), body.model, {
+      apiKeys,
+      providerSettings,
+      serverEnv,
+    });
+    providerName = provider.name;
+    checkServerKeyAccess(provider, apiKeys, serverEnv);
+
+    const options = {
+      model: withReplay(provider, serverEnv).getModelInstance({
+        model: model.name,
+        serverEnv: serverEnv as unknown as Env,
+        apiKeys,
+        providerSettings,
+      }),
+      messages,
+      ...toCallSettings(body, model),
+      abortSignal: request.signal,
+    };
+    const id = `chatcmpl-${generateId()}`;
+    const modelId = toGatewayModelId(model);
+
+    logger.info(`Gateway ${body.stream ? 'stream' : 'completion'} with ${modelId}`);
+
+    if (body.stream) {
+      const result = streamText(options);
+
+      return new Response(createCompletionStream(id, modelId, result.fullStream, body.stream_options?.include_usage), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/event-stream; charset=utf-8',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+        },
+      });
+    }
+
+    const result = await generateText(options);
+
+    return json(createCompletion(id, modelId, result));
+  } catch (error: unknown) {
+    if (error instanceof GatewayError) {
+      return createErrorResponse(error);
+    }
+
+    logger.error('Gateway Error:', error);
+
+    const errorDetails = errorHandler.handleLLMError(error, providerName);
+    const status = errorDetails.status || 500;
+
+    return createErrorResponse(
+      new GatewayError(
+        errorDetails.message || 'The provider failed',
+        status,
+        status === 401 ? 'authentication_error' : status === 429 ? 'rate_limit_error' : 'api_error',
+        errorDetails.code !== undefined ? String(errorDetails.code) : null,
+      ),
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { json, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { getApiKeysFromCookie, getProviderSettingsFromCookie } from '~/lib/api/cookies';
+import {
+  checkGatewayToken,
+  createErrorResponse,
+  GatewayError,
+  toGatewayModelId,
+} from '~/lib/.server/llm/openai-gateway';
+import { createRateLimitResponse, gatewayRateLimiter } from '~/lib/.server/rate-limiter';
+import { LLMManager } from '~/lib/modules/llm/manager';
+
+export async function loader({ context, request }: LoaderFunctionArgs) {
+  const rateLimitResult = gatewayRateLimiter.checkLimit(request);
+
+  if (!rateLimitResult.allowed) {
+    return createRateLimitResponse(rateLimitResult.resetTime!);
+  }
+
+  const serverEnv = context.cloudflare?.env as unknown as Record<string, string>;
+
+  try {
+    checkGatewayToken(request, serverEnv);
+  } catch (error) {
+    return createErrorResponse(error as GatewayError);
+  }
+
+  const cookieHeader = request.headers.get('Cookie');
+  const modelList = await LLMManager.getInstance(serverEnv).updateModelList({
+    apiKeys: getApiKeysFromCookie(cookieHeader),
+    providerSettings: getProviderSettingsFromCookie(cookieHeader),
+    serverEnv,
+  });
+
+  return json({
+    object: 'list',
+    data: modelList.map((model) => ({
+      id: toGatewayModelId(model),
+      object: 'model',
+      created: 0,
+      owned_by: model.provider,
+    })),
+  });
+}
@@ -1,6 +1,6 @@
 import type { Change } from 'diff';
 
-export type ActionType = 'file' | 'shell' | 'supabase';
+export type ActionType = 'file' | 'patch' | 'delete' | 'rename' | 'mkdir' | 'shell' | 'supabase';
 
 export interface BaseAction {
   content: string;
@@ -11,6 +11,27 @@ export interface FileAction extends BaseAction {
   filePath: string;
 }
 
+export interface PatchAction extends BaseAction {
+  type: 'patch';
+  filePath: string;
+}
+
+export interface DeleteAction extends BaseAction {
+  type: 'delete';
+  filePath: string;
+}
+
+export interface RenameAction extends BaseAction {
+  type: 'rename';
+  filePath: string;
+  newFilePath: string;
+}
+
+export interface MkdirAction extends BaseAction {
+  type: 'mkdir';
+  filePath: string;
+}
+
 export interface ShellAction extends BaseAction {
   type: 'shell';
 }
@@ -23,6 +44,10 @@ export interface BuildAction extends BaseAction {
   type: 'build';
 }
 
+export interface TestAction extends BaseAction {
+  type: 'test';
+}
+
 export interface SupabaseAction extends BaseAction {
   type: 'supabase';
   operation: 'migration' | 'query';
@@ -30,7 +55,17 @@ export interface SupabaseAction extends BaseAction {
   projectId?: string;
 }
 
-export type BoltAction = FileAction | ShellAction | StartAction | BuildAction | SupabaseAction;
+export type BoltAction =
+  | FileAction
+  | PatchAction
+  | DeleteAction
+  | RenameAction
+  | MkdirAction
+  | ShellAction
+  | StartAction
+  | BuildAction
+  | TestAction
+  | SupabaseAction;
 
 export type BoltActionData = BoltAction | BaseAction;
 
@@ -39,7 +74,7 @@ export interface ActionAlert {
   title: string;
   description: string;
   content: string;
-  source?: 'terminal' | 'preview'; // Add source to differentiate between terminal and preview errors
+  source?: 'terminal' | 'preview' | 'patch' | 'test' | 'policy'; // Add source to differentiate between terminal, preview, patch, test and policy errors
 }
 
 export interface SupabaseAlert {
@@ -1,12 +1,30 @@
+import type { StageModel } from '~/lib/modules/llm/stage-models';
+
+/** where the context buffer is selected, by a model call or by the local index of the project files */
+export type ContextSelectionMode = 'llm' | 'local';
+
+export type LocalContextSelector = 'bm25' | 'bm25+embeddings';
+
+export type ContextSelector = 'llm' | LocalContextSelector;
+
 export type ContextAnnotation =
   | {
       type: 'codeContext';
       files: string[];
+
+      /** how the files were selected, missing in older messages */
+      selector?: ContextSelector;
     }
   | {
       type: 'chatSummary';
       summary: string;
       chatId: string;
+    }
+  | {
+      type: 'projectRules';
+
+      /** the rules files that were added to the system prompt */
+      files: string[];
     };
 
 export type ProgressAnnotation = {
@@ -24,3 +42,58 @@ export type ToolCallAnnotation = {
   toolName: string;
   toolDescription: string;
 };
+
+export type TokenBudgetAnnotation = {
+  type: 'tokenBudget';
+  model: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  system: number;
+  summary: number;
+  files: number;
+  messages: number;
+  total: number;
+
+  /** number of old messages that were condensed to fit the context window */
+  trimmedMessages: number;
+
+  /** context files that were left out to fit the context window */
+  droppedFiles: string[];
+};
+
+/** the coder failed over to the next model of the fallback chain, shown by the provider switch indicator */
+export type ProviderSwitchAnnotation = {
+  type: 'providerSwitch';
+  status: 'connecting' | 'connected' | 'failed';
+
+  /** the model that failed */
+  fromProvider: string;
+  fromModel: string;
+
+  /** the model that takes over, the failed one if the chain is exhausted */
+  toProvider: string;
+  toModel: string;
+  attempt: number;
+  maxAttempts: number;
+  reason: string;
+};
+
+export type SpendingWarningAnnotation = {
+  type: 'spendingWarning';
+  message: string;
+};
+
+/** token usage of one stage of a chat turn, part of the usage annotation */
+export type StageUsage = StageModel & {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+
+  /** part of `completionTokens` */
+  reasoningTokens: number;
+
+  /** USD, only for models with known prices */
+  cost?: number;
+};
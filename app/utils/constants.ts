@@ -16,6 +16,17 @@ export const TOOL_NO_EXECUTE_FUNCTION = 'Error: No execute function found on too
 export const TOOL_EXECUTION_DENIED = 'Error: User denied access to tool execution';
 export const TOOL_EXECUTION_ERROR = 'Error: An error occured while calling tool';
 
+// tools the model calls instead of writing `<boltArtifact>` tags when native tool calling is enabled
+export const ARTIFACT_TOOL_NAMES = {
+  WRITE_FILE: 'write_file',
+  RUN_COMMAND: 'run_command',
+  START_DEV_SERVER: 'start_dev_server',
+} as const;
+export const ARTIFACT_TOOL_RESULT = 'Queued. The action runs in the workbench once the response is complete.';
+
+// segments of a response the user can allow, more are rarely one response but a model that keeps repeating itself
+export const MAX_SEGMENT_LIMIT = 20;
+
 const llmManager = LLMManager.getInstance(import.meta.env);
 
 export const PROVIDER_LIST = llmManager.getAllProviders();
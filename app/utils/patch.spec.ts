@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { applyFilePatch, isNewFilePatch, PatchApplyError } from './patch';
+
+const original = ['function greet() {', "  console.log('Hello');", '}', '', 'greet();', ''].join('\n');
+
+describe('Patch', () => {
+  it('should apply search/replace blocks', () => {
+    const patch = [
+      '<<<<<<< SEARCH',
+      "  console.log('Hello');",
+      '=======',
+      "  console.log('Hello, World!');",
+      '>>>>>>> REPLACE',
+    ].join('\n');
+
+    expect(applyFilePatch(original, patch)).toBe(original.replace("'Hello'", "'Hello, World!'"));
+  });
+
+  it('should ignore trailing whitespace in search blocks', () => {
+    const patch = ['<<<<<<< SEARCH', 'greet();   ', '=======', 'greet();', 'greet();', '>>>>>>> REPLACE'].join('\n');
+
+    expect(applyFilePatch(original, patch)).toBe(original.replace('greet();\n', 'greet();\ngreet();\n'));
+  });
+
+  it('should apply unified diff hunks without a header', () => {
+    const patch = [
+      '@@ -1,3 +1,3 @@',
+      ' function greet() {',
+      "-  console.log('Hello');",
+      "+  console.log('Hi');",
+      ' }',
+    ].join('\n');
+
+    expect(applyFilePatch(original, patch)).toBe(original.replace("'Hello'", "'Hi'"));
+  });
+
+  it('should report the search block that does not match', () => {
+    const patch = ['<<<<<<< SEARCH', 'missing();', '=======', 'found();', '>>>>>>> REPLACE'].join('\n');
+
+    expect(() => applyFilePatch(original, patch)).toThrowError(PatchApplyError);
+
+    try {
+      applyFilePatch(original, patch);
+    } catch (error) {
+      expect((error as PatchApplyError).hunk).toBe('missing();');
+    }
+  });
+
+  it('should reject search blocks that match more than once', () => {
+    const twice = `${original}greet();\n`;
+    const exact = ['<<<<<<< SEARCH', 'greet();', '=======', 'greet(1);', '>>>>>>> REPLACE'].join('\n');
+    const trailing = ['<<<<<<< SEARCH', 'greet();  ', '=======', 'greet(1);', '>>>>>>> REPLACE'].join('\n');
+
+    expect(() => applyFilePatch(twice, exact)).toThrowError('more than once');
+    expect(() => applyFilePatch(twice, trailing)).toThrowError('more than once');
+  });
+
+  it('should reject unterminated search/replace blocks', () => {
+    const patch = ['<<<<<<< SEARCH', 'greet();', '======='].join('\n');
+
+    expect(() => applyFilePatch(original, patch)).toThrowError('not terminated');
+  });
+
+  it('should create a file from empty search blocks', () => {
+    const patch = ['<<<<<<< SEARCH', '=======', 'greet();', '>>>>>>> REPLACE'].join('\n');
+
+    expect(isNewFilePatch(patch)).toBe(true);
+    expect(applyFilePatch('', patch)).toBe('greet();');
+    expect(isNewFilePatch(['<<<<<<< SEARCH', 'greet();', '=======', '>>>>>>> REPLACE'].join('\n'))).toBe(false);
+  });
+});
@@ -0,0 +1,232 @@
+import { applyPatch, parsePatch } from 'diff';
+
+const SEARCH_MARKER_REGEX = /^<{5,9} SEARCH\s*$/;
+const DIVIDER_MARKER_REGEX = /^={5,9}\s*$/;
+const REPLACE_MARKER_REGEX = /^>{5,9} REPLACE\s*$/;
+
+export interface SearchReplaceBlock {
+  search: string;
+  replace: string;
+}
+
+/**
+ * Thrown when a patch cannot be applied to the current file content. Carries the
+ * offending hunk so it can be shown to the user and sent back to the model.
+ */
+export class PatchApplyError extends Error {
+  readonly hunkIndex: number;
+  readonly hunk: string;
+
+  constructor(message: string, hunkIndex: number, hunk: string) {
+    super(message);
+
+    this.hunkIndex = hunkIndex;
+    this.hunk = hunk;
+
+    Object.setPrototypeOf(this, PatchApplyError.prototype);
+
+    this.name = 'PatchApplyError';
+  }
+}
+
+export function isSearchReplacePatch(patch: string) {
+  return patch.split('\n').some((line) => SEARCH_MARKER_REGEX.test(line));
+}
+
+/**
+ * Whether a patch only has search/replace blocks with an empty search, which can be applied to a file that does
+ * not exist yet.
+ */
+export function isNewFilePatch(patch: string) {
+  if (!isSearchReplacePatch(patch)) {
+    return false;
+  }
+
+  try {
+    const blocks = parseSearchReplaceBlocks(patch);
+    return blocks.length > 0 && blocks.every(({ search }) => search.trim() === '');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parses search/replace blocks in the following format:
+ *
+ * ```
+ * <<<<<<< SEARCH
+ * const a = 1;
+ * =======
+ * const a = 2;
+ * >>>>>>> REPLACE
+ * ```
+ */
+export function parseSearchReplaceBlocks(patch: string): SearchReplaceBlock[] {
+  const blocks: SearchReplaceBlock[] = [];
+  const lines = patch.split('\n');
+
+  let state: 'outside' | 'search' | 'replace' = 'outside';
+  let search: string[] = [];
+  let replace: string[] = [];
+
+  for (const line of lines) {
+    switch (state) {
+      case 'outside': {
+        if (SEARCH_MARKER_REGEX.test(line)) {
+          state = 'search';
+          search = [];
+          replace = [];
+        }
+
+        break;
+      }
+      case 'search': {
+        if (DIVIDER_MARKER_REGEX.test(line)) {
+          state = 'replace';
+        } else {
+          search.push(line);
+        }
+
+        break;
+      }
+      case 'replace': {
+        if (REPLACE_MARKER_REGEX.test(line)) {
+          blocks.push({ search: search.join('\n'), replace: replace.join('\n') });
+          state = 'outside';
+        } else {
+          replace.push(line);
+        }
+
+        break;
+      }
+    }
+  }
+
+  if (state !== 'outside') {
+    throw new PatchApplyError(
+      `Search/replace block ${blocks.length + 1} is not terminated`,
+      blocks.length,
+      [...search, ...replace].join('\n'),
+    );
+  }
+
+  return blocks;
+}
+
+/**
+ * Applies a patch to the given file content. The patch is either a list of search/replace
+ * blocks or a unified diff (with or without the `---`/`+++` header).
+ *
+ * @throws {PatchApplyError} if any block or hunk does not match the current content
+ */
+export function applyFilePatch(content: string, patch: string) {
+  if (isSearchReplacePatch(patch)) {
+    return applySearchReplaceBlocks(content, parseSearchReplaceBlocks(patch));
+  }
+
+  return applyUnifiedDiff(content, patch);
+}
+
+function applySearchReplaceBlocks(content: string, blocks: SearchReplaceBlock[]) {
+  let result = content;
+
+  blocks.forEach(({ search, replace }, index) => {
+    // an empty search block appends to the file, a missing file is created with it, see `isNewFilePatch`
+    if (search.trim() === '') {
+      result = result.length > 0 && !result.endsWith('\n') ? `${result}\n${replace}` : `${result}${replace}`;
+      return;
+    }
+
+    const ambiguous = () =>
+      new PatchApplyError(
+        `Search block ${index + 1} of ${blocks.length} matches the current file content more than once, add lines around it`,
+        index,
+        search,
+      );
+
+    const exactIndex = result.indexOf(search);
+
+    if (exactIndex !== -1) {
+      if (result.indexOf(search, exactIndex + 1) !== -1) {
+        throw ambiguous();
+      }
+
+      result = result.slice(0, exactIndex) + replace + result.slice(exactIndex + search.length);
+
+      return;
+    }
+
+    const ranges = findLinesIgnoringTrailingWhitespace(result, search);
+
+    if (ranges.length === 0) {
+      throw new PatchApplyError(
+        `Search block ${index + 1} of ${blocks.length} does not match the current file content`,
+        index,
+        search,
+      );
+    }
+
+    if (ranges.length > 1) {
+      throw ambiguous();
+    }
+
+    const [range] = ranges;
+    const lines = result.split('\n');
+
+    lines.splice(range.start, range.end - range.start, ...replace.split('\n'));
+    result = lines.join('\n');
+  });
+
+  return result;
+}
+
+/**
+ * Models frequently get trailing whitespace wrong, so we fall back to a line-based
+ * comparison that ignores it before giving up on a search block.
+ *
+ * @returns The line ranges of every match, so ambiguous search blocks can be rejected
+ */
+function findLinesIgnoringTrailingWhitespace(content: string, search: string) {
+  const contentLines = content.split('\n').map((line) => line.trimEnd());
+  const searchLines = search.split('\n').map((line) => line.trimEnd());
+  const ranges: { start: number; end: number }[] = [];
+
+  for (let start = 0; start <= contentLines.length - searchLines.length; start++) {
+    const matches = searchLines.every((line, offset) => contentLines[start + offset] === line);
+
+    if (matches) {
+      ranges.push({ start, end: start + searchLines.length });
+    }
+  }
+
+  return ranges;
+}
+
+function applyUnifiedDiff(content: string, patch: string) {
+  const hunks = parsePatch(patch).flatMap((filePatch) => filePatch.hunks);
+
+  if (hunks.length === 0) {
+    throw new PatchApplyError('Patch does not contain any search/replace blocks or diff hunks', 0, patch);
+  }
+
+  let result = content;
+
+  hunks.forEach((hunk, index) => {
+    // hunks are applied one by one so we can report exactly which one failed
+    const patched = applyPatch(result, { hunks: [hunk] });
+
+    if (patched === false) {
+      const header = `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+
+      throw new PatchApplyError(
+        `Hunk ${index + 1} of ${hunks.length} does not match the current file content`,
+        index,
+        [header, ...hunk.lines].join('\n'),
+      );
+    }
+
+    result = patched;
+  });
+
+  return result;
+}
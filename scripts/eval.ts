@@ -0,0 +1,170 @@
+/**
+ * Runs the evaluation corpus through the chat pipeline and writes a report per prompt, see `pnpm eval --help`.
+ * With LLM_REPLAY_MODE=replay the responses come from recorded fixtures, so prompt changes can be compared
+ * without API calls.
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { DEFAULT_EVAL_CORPUS, type EvalTask } from '~/lib/.server/eval/eval-corpus';
+import { runEvalTask } from '~/lib/.server/eval/eval-harness';
+import { PromptLibrary } from '~/lib/common/prompt-library';
+import { formatComparison, formatReport, type EvalReport } from '~/lib/.server/eval/eval-report';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER } from '~/utils/constants';
+
+const usage = `Usage: pnpm eval [options]
+
+  --prompt <id>       a prompt of the PromptLibrary, repeat it to compare prompts (default: default)
+  --provider <name>   the provider of the model (default: ${DEFAULT_PROVIDER.name})
+  --model <name>      the model (default: ${DEFAULT_MODEL})
+  --corpus <file>     a JSON file with the tasks (default: the built-in corpus)
+  --tasks <ids>       comma separated ids of the tasks to run
+  --out <dir>         the directory of the reports (default: eval-reports)
+  --skip-build        don't install and build the projects
+  --keep              keep the project directories
+  --compare <a> <b>   compare two report files instead of running the corpus`;
+
+// `node:util` is polyfilled for the browser in the vite config, so the flags are parsed by hand
+function parseFlags(args: string[]) {
+  const values = {
+    prompt: [] as string[],
+    provider: DEFAULT_PROVIDER.name,
+    model: DEFAULT_MODEL,
+    corpus: undefined as string | undefined,
+    tasks: undefined as string | undefined,
+    out: 'eval-reports',
+    skipBuild: false,
+    keep: false,
+    compare: false,
+    help: false,
+  };
+  const positionals: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const next = () => {
+      if (i + 1 >= args.length) {
+        throw new Error(`${arg} takes a value`);
+      }
+
+      return args[++i];
+    };
+
+    switch (arg) {
+      case '--prompt':
+        values.prompt.push(next());
+        break;
+      case '--provider':
+        values.provider = next();
+        break;
+      case '--model':
+        values.model = next();
+        break;
+      case '--corpus':
+        values.corpus = next();
+        break;
+      case '--tasks':
+        values.tasks = next();
+        break;
+      case '--out':
+        values.out = next();
+        break;
+      case '--skip-build':
+        values.skipBuild = true;
+        break;
+      case '--keep':
+        values.keep = true;
+        break;
+      case '--compare':
+        values.compare = true;
+        break;
+      case '--help':
+        values.help = true;
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          throw new Error(`Unknown option ${arg}\n\n${usage}`);
+        }
+
+        positionals.push(arg);
+    }
+  }
+
+  return { values, positionals };
+}
+
+const readReport = async (file: string) => JSON.parse(await readFile(file, 'utf-8')) as EvalReport;
+
+async function main() {
+  const { values, positionals } = parseFlags(process.argv.slice(2).filter((arg) => arg !== '--'));
+
+  if (values.help) {
+    console.log(usage);
+    return;
+  }
+
+  if (values.compare) {
+    if (positionals.length !== 2) {
+      throw new Error('--compare takes two report files');
+    }
+
+    console.log(formatComparison(await readReport(positionals[0]), await readReport(positionals[1])));
+
+    return;
+  }
+
+  const promptIds = values.prompt.length ? values.prompt : ['default'];
+  const unknown = promptIds.filter((id) => !PromptLibrary.getList().some((prompt) => prompt.id === id));
+
+  // the chat falls back to the default prompt, which would be scored as the prompt of the report
+  if (unknown.length) {
+    throw new Error(`Unknown prompts: ${unknown.join(', ')}`);
+  }
+
+  let tasks: EvalTask[] = values.corpus ? JSON.parse(await readFile(values.corpus, 'utf-8')) : DEFAULT_EVAL_CORPUS;
+
+  if (values.tasks) {
+    const ids = values.tasks.split(',');
+    tasks = tasks.filter((task) => ids.includes(task.id));
+  }
+
+  const reports: EvalReport[] = [];
+  await mkdir(values.out, { recursive: true });
+
+  for (const promptId of promptIds) {
+    const report: EvalReport = {
+      promptId,
+      provider: values.provider,
+      model: values.model,
+      createdAt: new Date().toISOString(),
+      results: [],
+    };
+
+    for (const task of tasks) {
+      console.log(`Running ${task.id} with ${promptId}...`);
+      report.results.push(
+        await runEvalTask(task, {
+          provider: values.provider,
+          model: values.model,
+          promptId,
+          env: process.env as Record<string, string>,
+          build: !values.skipBuild,
+          keepProjects: values.keep,
+        }),
+      );
+    }
+
+    const file = join(values.out, `${promptId}-${report.createdAt.replace(/[:.]/g, '-')}.json`);
+    await writeFile(file, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`\n${formatReport(report)}\n\nWritten to ${file}\n`);
+    reports.push(report);
+  }
+
+  for (const report of reports.slice(1)) {
+    console.log(`${formatComparison(reports[0], report)}\n`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
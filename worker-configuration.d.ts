@@ -18,4 +18,7 @@ interface Env {
   XAI_API_KEY: string;
   PERPLEXITY_API_KEY: string;
   AWS_BEDROCK_CONFIG: string;
+  LLM_REPLAY_MODE?: 'record' | 'replay';
+  LLM_FIXTURES_DIR?: string;
+  LLM_GATEWAY_TOKEN?: string;
 }